@@ -1,98 +1,236 @@
-import cors from 'cors';
-import 'dotenv/config';
-import express, { Application, Express, Request, Response, NextFunction } from 'express';
-import { rateLimit, RateLimitRequestHandler } from 'express-rate-limit';
+import compression from 'compression';
+import cors, { CorsOptions, CorsOptionsDelegate } from 'cors';
+import express, { Application, Express, Request, RequestHandler, Response, NextFunction } from 'express';
+import { watch } from 'fs';
 import fs from 'fs/promises';
 import helmet from 'helmet';
-import https, { Server } from 'https';
+import http from 'http';
+import https from 'https';
 import morgan from 'morgan';
 import path, { dirname } from 'path';
+import swaggerUi from 'swagger-ui-express';
 import { fileURLToPath } from 'url';
+import { IServerBinding } from './interfaces';
+import { apiVersionMiddleware, errorMiddleware, lifecycleMiddleware, rateLimitMiddleware, requestContextMiddleware } from './middlewares';
 import { appRoute } from './routes';
-import { dateTimeFormatterUtil } from './utils';
+import { appService } from './services';
+import { clusterUtil, configurationUtil, corsUtil, dateTimeFormatterUtil, httpCacheUtil, lifecycleUtil, loggingUtil, metricsUtil, openApiUtil } from './utils';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 const LOGS_DIRECTORY = path.join(__dirname, '../logs');
-const SSL_DIRECTORY = path.resolve(__dirname, '../ssl');
-const RATE_LIMIT_WINDOW_MS = 15 * 60 * 1000;
-const RATE_LIMIT_MAX_REQUESTS = 100;
+const SSL_RELOAD_DELAY_MS = 1000;
+const UNLIMITED_PATH_REGEX = /^(\/api\/(v[0-9]+\/)?health\/(live|ready)|\/metrics)\/?$/;
 
 /**
- * ## getAccessLog
+ * ## getAccessLogger
  * 
- * Creates an access log file in a dedicated logs directory.
+ * Creates the morgan middleware writing access logs through the structured logger.
  *
- * @description This function ensures the logs directory exists and opens a file handle for logging HTTP requests.
- * It creates the directory structure if it doesn't exist using recursive creation.
- * The log file is opened in append mode ('a'), ensuring new logs are added to the end of the file
- * without overwriting existing content.
+ * @description Access entries go to the sinks of the root logger (see loggingUtil.getLogger, resolved on each
+ * request so that a logger set with loggingUtil.setLogger applies) and to an access.log file in a dedicated
+ * logs directory, rotated once it reaches its maximum size. The directory is created if it doesn't exist.
  * 
- * @async
+ * Once each response is finished, morgan hands its tokens to the logger, which records a structured entry with:
+ * 
+ * - The request context (request ID, user, route, method and path)
+ * - The response status code, content length and response time
+ * - The client address, HTTP version, referrer and user agent
  * 
- * @returns File handle for the access log file.
+ * The access log file is flushed by a shutdown hook once the servers are closed.
  * 
- * @throws If directory creation fails due to permission issues or other filesystem errors.
- * @throws If file opening fails due to permission issues or other filesystem errors.
+ * @returns Morgan middleware that can be used with app.use().
+ * 
+ * @throws If directory creation or file opening fails due to permission issues or other filesystem errors.
  */
-const getAccessLog = async (): Promise<fs.FileHandle> => {
-  await fs.mkdir(LOGS_DIRECTORY, { recursive: true });
+const getAccessLogger = (): RequestHandler => {
+  const accessLogSink = loggingUtil.getFileSink(path.join(LOGS_DIRECTORY, 'access.log'));
+
+  lifecycleUtil.registerShutdownHook({ name: 'accessLog', run: (): Promise<void> => accessLogSink.flush() });
+
+  return morgan(
+    (
+      tokens: morgan.TokenIndexer<Request, Response>, 
+      req: Request, 
+      res: Response
+    ): null => {
+      const contentLength = tokens.res(req, res, 'content-length');
 
-  return await fs.open(path.join(LOGS_DIRECTORY, 'access.log'), 'a');
+      loggingUtil
+        .getLogger()
+        .withSinkList([accessLogSink])
+        .child({ component: 'Access', ...loggingUtil.getRequestContext(req) })
+        .info(
+          'Request completed.', 
+          {
+            statusCode: Number(tokens.status(req, res)),
+            contentLength: contentLength ? Number(contentLength) : undefined,
+            durationMs: Number(tokens['response-time'](req, res)),
+            remoteAddress: tokens['remote-addr'](req, res),
+            httpVersion: tokens['http-version'](req, res),
+            referrer: tokens.referrer(req, res),
+            userAgent: tokens['user-agent'](req, res)
+          }
+        );
+
+      return null;
+    }
+  );
 };
 
 /**
  * ## getRateLimiter
  * 
- * Creates a rate limiter middleware for the Express application.
+ * Creates the global rate limiter middleware for the Express application.
  *
  * @description This function configures rate limiting middleware to prevent excessive requests from a single IP address.
  * The limiter enforces the following constraints:
  * 
- * - Allows {@link RATE_LIMIT_MAX_REQUESTS} requests per IP address within a time window
- * - Time window is defined by {@link RATE_LIMIT_WINDOW_MS} in milliseconds (default: 15 minutes)
- * - Uses the client's IP address as the rate limiting key
+ * - Allows RATE_LIMIT_MAX_REQUESTS requests per IP address within a time window (default: 100)
+ * - Time window is defined by RATE_LIMIT_WINDOW_MS in milliseconds (default: 15 minutes)
+ * - Uses the client's IP address as the rate limiting key, since requests are not authorized yet
+ * - Counts requests in the application rate limit store, shared by every instance when database-backed
  * - Implements draft-8 standard headers for rate limit information
  * - Provides a custom response handler for rate-limited requests
  * 
- * When a client exceeds the rate limit, the handler returns a detailed JSON response with:
+ * Routes can enforce stricter limits, keyed by user and with role exemptions, through their own
+ * rate limit policy (see {@link rateLimitMiddleware.generateRateLimit}).
  * 
- * - HTTP status code 429 (Too Many Requests)
- * - Current timestamp
- * - Reset time (when the rate limit window expires)
- * - Informative message and suggestion
+ * The liveness and readiness probes and the '/metrics' endpoint are never limited, since orchestrators
+ * and Prometheus poll them from a single IP address.
  * 
  * @returns Configured Express middleware that can be used with app.use().
  */
-const getRateLimiter = (): RateLimitRequestHandler => {
-  return rateLimit(
+const getRateLimiter = (): RequestHandler => {
+  const rateLimiter = rateLimitMiddleware.generateRateLimit('global', { keyBy: 'ip', exemptRoleList: [] });
+
+  return (
+    req: Request, 
+    res: Response, 
+    next: NextFunction
+  ): void => {
+    if (UNLIMITED_PATH_REGEX.test(req.path)) {
+      next();
+
+      return;
+    }
+
+    void rateLimiter(req, res, next);
+  };
+};
+
+/**
+ * ## getCorsHandler
+ * 
+ * Creates the CORS middleware for the Express application.
+ *
+ * @description Browsers are only allowed to call the API from the origins listed in CORS_ORIGINS or matching
+ * CORS_ORIGIN_PATTERN; when neither is configured, every origin is allowed. The middleware also applies the
+ * credentials, exposed headers and preflight cache duration of the configuration (see {@link corsUtil.getCorsOptions}).
+ * 
+ * Routes generated with a CORS policy of their own are answered with it instead, for both their requests and
+ * preflight requests: appRoute.corsPolicyRouter, mounted right before this middleware, stores their options in res.locals.
+ * 
+ * @returns Configured Express middleware that can be used with app.use().
+ * 
+ * @throws If the configuration allows credentials to every origin.
+ */
+const getCorsHandler = (): RequestHandler => {
+  const corsOptions = corsUtil.getCorsOptions();
+
+  const corsOptionsDelegate: CorsOptionsDelegate<Request> = (
+    req: Request, 
+    callback: (error: Error | null, options?: CorsOptions) => void
+  ): void => {
+    callback(null, req.res?.locals.corsOptions ?? corsOptions);
+  };
+
+  return cors(corsOptionsDelegate);
+};
+
+/**
+ * ## getHelmetHandler
+ * 
+ * Creates the security headers middleware for the Express application.
+ *
+ * @description Helmet sets its default security headers, with the following ones driven by the configuration:
+ * 
+ * - Content-Security-Policy: Enabled by default, sent as Content-Security-Policy-Report-Only when HELMET_CSP
+ * is 'report-only' and omitted when it is 'disabled'. The directives of HELMET_CSP_DIRECTIVES replace the
+ * helmet defaults of the same name; the other defaults are kept.
+ * - Strict-Transport-Security: Max age of HELMET_HSTS_MAX_AGE seconds (defaults to 365 days), with the
+ * includeSubDomains and preload flags of HELMET_HSTS_INCLUDE_SUBDOMAINS and HELMET_HSTS_PRELOAD.
+ * A max age of 0 omits the header.
+ * 
+ * @returns Configured Express middleware that can be used with app.use().
+ */
+const getHelmetHandler = (): RequestHandler => {
+  const { contentSecurityPolicy, strictTransportSecurity } = configurationUtil.getConfiguration().helmet;
+
+  return helmet(
     {
-      windowMs: RATE_LIMIT_WINDOW_MS,
-      limit: RATE_LIMIT_MAX_REQUESTS,
-      standardHeaders: 'draft-8',
-      legacyHeaders: false,
-      keyGenerator: (req: Request): string => req.ip as string,
-      handler: (
-        req: Request,
-        res: Response
-      ): void => {
-        res
-          .status(429)
-          .json(
-            {
-              status: false,
-              statusCode: 429,
-              timestamp: dateTimeFormatterUtil.formatAsDayMonthYearHoursMinutesSeconds(new Date()),
-              resetTime: dateTimeFormatterUtil.formatAsDayMonthYearHoursMinutesSeconds(req.rateLimit.resetTime as Date),
-              message: 'Too many requests from this IP.',
-              suggestion: 'Please wait before trying again.'
-            }
-          );
-      }
+      contentSecurityPolicy: contentSecurityPolicy.mode === 'disabled' 
+        ? false 
+        : {
+            useDefaults: true,
+            directives: Object.fromEntries(
+              Object
+                .entries(contentSecurityPolicy.directiveMap)
+                .map(([name, valueList]: [string, string[]]): [string, string[]] => [name, [...valueList]])
+            ),
+            reportOnly: contentSecurityPolicy.mode === 'report-only'
+          },
+      strictTransportSecurity: strictTransportSecurity.maxAgeSeconds === 0 
+        ? false 
+        : {
+            maxAge: strictTransportSecurity.maxAgeSeconds,
+            includeSubDomains: strictTransportSecurity.includeSubDomains,
+            preload: strictTransportSecurity.preload
+          }
     }
   );
 };
 
+/**
+ * ## getCompressionHandler
+ * 
+ * Creates the response compression middleware for the Express application.
+ *
+ * @description Responses are compressed with brotli or gzip, as accepted by the client through the Accept-Encoding
+ * header, once they reach COMPRESSION_THRESHOLD bytes (default: 1024). Smaller responses are sent as they are,
+ * since compressing them saves little. Compression is skipped altogether when COMPRESSION_ENABLED is 'false'
+ * (e.g., behind a reverse proxy compressing responses itself).
+ * 
+ * The content coding is negotiated once per request (see httpCacheUtil.negotiateContentEncoding) and stored in
+ * res.locals.contentEncoding, so that the controller computes ETags matching the bytes actually sent. The
+ * Accept-Encoding header is narrowed down to that coding for the compression package, which skips the responses
+ * the controller marks as identity.
+ * 
+ * @returns Configured Express middleware that can be used with app.use().
+ */
+const getCompressionHandler = (): RequestHandler => {
+  const { isEnabled, thresholdBytes } = configurationUtil.getConfiguration().compression;
+
+  if (!isEnabled) {
+    return (_req: Request, _res: Response, next: NextFunction): void => next();
+  }
+
+  const compressionHandler = compression(
+    { 
+      threshold: thresholdBytes,
+      filter: (req: Request, res: Response): boolean => res.locals.contentEncoding !== 'identity' && compression.filter(req, res)
+    }
+  );
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    res.locals.contentEncoding = httpCacheUtil.negotiateContentEncoding(req);
+    req.headers['accept-encoding'] = res.locals.contentEncoding;
+    res.vary('Accept-Encoding');
+
+    compressionHandler(req, res, next);
+  };
+};
+
 /**
  * ## configureApp
  * 
@@ -100,24 +238,38 @@ const getRateLimiter = (): RateLimitRequestHandler => {
  *
  * @description This function initializes an Express application with a comprehensive set of middleware and configurations:
  * 
+ * Request Context:
+ * 
+ * - Request correlation ID taken from the X-Request-ID header or generated, echoed in the response
+ * header and JSON envelope and available to services and outbound HttpClient calls
+ * - 'Connection: close' header on every response once the shutdown has started, so that keep-alive
+ * connections are closed as soon as their current response is sent
+ * 
  * Security Features:
  * 
  * - Trust proxy settings to ensure correct client IP detection behind reverse proxies
- * - Rate limiting to prevent abuse (configured via {@link getRateLimiter})
- * - CORS support to handle cross-origin requests securely
- * - Security headers via Helmet middleware to protect against common web vulnerabilities
+ * - Rate limiting to prevent abuse, health probes and metrics excepted (configured via {@link getRateLimiter})
+ * - CORS support restricted to the configured origins, with per-route policies (configured via {@link getCorsHandler})
+ * - Security headers via Helmet middleware, with configurable CSP and HSTS (configured via {@link getHelmetHandler})
  * 
  * Request Processing:
  * 
- * - JSON body parsing for API requests
- * - Request logging in two formats:
- * 
- * 1. Development-friendly console output ('dev' format)
- * 2. Detailed logs to access.log file ('combined' format)
+ * - JSON body parsing for API requests, multipart bodies being parsed by the routes declaring an upload policy
+ * - Brotli or gzip compression of large responses (configured via {@link getCompressionHandler})
+ * - Structured access logging (configured via {@link getAccessLogger}) to the root logger sinks and the access.log file
  * 
  * Routing:
  * 
- * - All API routes mounted under the '/api' path prefix
+ * - OpenAPI 3.1 document generated from the registered routes, served at '/api/docs/openapi.json'
+ * - Swagger UI rendering that document, served at '/api/docs'
+ * - Prometheus metrics in the text exposition format, served at '/metrics'
+ * - All API routes mounted under the '/api' path prefix, with the version prefix optionally replaced by an
+ * Accept-Version header (see apiVersionMiddleware.negotiateApiVersion)
+ * 
+ * Error Handling:
+ * 
+ * - Unknown routes answered with a 404 response
+ * - Every error thrown by routes and middlewares answered by the central error middleware
  * 
  * @async
  * 
@@ -128,15 +280,41 @@ const getRateLimiter = (): RateLimitRequestHandler => {
  * @throws If access log creation fails.
  */
 const configureApp = async (app: Express): Promise<Application> => {
-  const accessLog = await getAccessLog();
-  
   app.set('trust proxy', 1);
+  app.use(requestContextMiddleware.establishRequestContext);
+  app.use(lifecycleMiddleware.closeConnectionWhileShuttingDown);
   app.use(getRateLimiter());
-  app.use(cors());
-  app.use(helmet());
+  app.use('/api', apiVersionMiddleware.negotiateApiVersion);
+  app.use('/api', appRoute.corsPolicyRouter);
+  app.use(getCorsHandler());
+  app.use(getHelmetHandler());
+  app.use(getCompressionHandler());
   app.use(express.json());
-  app.use(morgan('dev'));
-  app.use(morgan('combined', { stream: accessLog.createWriteStream() }));
+  app.use(getAccessLogger());
+
+  app.get(
+    '/api/docs/openapi.json', 
+    (
+      _req: Request, 
+      res: Response
+    ): void => {
+      res.json(openApiUtil.generateOpenApiDocument(appRoute.getRouteMapList(), appService.getAuthentication, appRoute.getAliasRouteList()));
+    }
+  );
+
+  app.get(
+    '/metrics', 
+    (
+      _req: Request, 
+      res: Response
+    ): void => {
+      res
+        .type('text/plain; version=0.0.4; charset=utf-8')
+        .send(metricsUtil.getMetrics());
+    }
+  );
+
+  app.use('/api/docs', swaggerUi.serve, swaggerUi.setup(undefined, { swaggerOptions: { url: '/api/docs/openapi.json' } }));
   app.use('/api', appRoute.router);
 
   app.use(
@@ -160,6 +338,8 @@ const configureApp = async (app: Express): Promise<Application> => {
         );
     }
   );
+
+  app.use(errorMiddleware.handleError);
   
   return app;
 };
@@ -169,69 +349,166 @@ const configureApp = async (app: Express): Promise<Application> => {
  * 
  * Loads SSL certificates from the filesystem for HTTPS server creation.
  *
- * @description This function reads the SSL certificate and private key files from the predefined SSL directory.
- * It uses Promise.all to read both files concurrently for improved performance.
- * 
- * Expected files in the SSL directory:
+ * @description This function reads the SSL certificate and private key files whose paths are set by
+ * SSL_CERT_PATH and SSL_KEY_PATH (defaulting to cert.pem and key.pem in the SSL directory), along with
+ * the CA chain of SSL_CA_PATH when provided. It uses Promise.all to read the files concurrently for improved performance.
  * 
- * - cert.pem: The SSL certificate file
- * - key.pem: The private key file
+ * The CA chain is sent along with the certificate and is the list of authorities trusted to sign client
+ * certificates when mutual TLS is enabled. The SSL_PASSPHRASE decrypts an encrypted private key.
  * 
- * Both files must be in PEM format (Base64 encoded DER certificate enclosed between 
+ * All files must be in PEM format (Base64 encoded DER certificate enclosed between 
  * "-----BEGIN CERTIFICATE-----" and "-----END CERTIFICATE-----").
  * 
  * @async
  * 
- * @returns Object containing the certificate and private key as strings.
+ * @returns Object containing the certificate, private key, CA chain and passphrase.
  * 
- * @throws If the SSL directory doesn't exist or lacks proper permissions.
- * @throws If either certificate file is missing or unreadable.
- * @throws If the certificate files are not valid PEM format.
+ * @throws If any certificate file is missing or unreadable.
  */
-const loadSSLCertificates = async (): Promise<{ cert: string, key: string }> => {
-  const [cert, key] = await Promise.all(
+const loadSSLCertificates = async (): Promise<{ cert: string, key: string, ca?: string, passphrase?: string }> => {
+  const { certPath, keyPath, caPath, passphrase } = configurationUtil.getConfiguration().ssl;
+
+  const [cert, key, ca] = await Promise.all(
     [
-      fs.readFile(path.join(SSL_DIRECTORY, 'cert.pem'), 'utf8'),
-      fs.readFile(path.join(SSL_DIRECTORY, 'key.pem'), 'utf8')
+      fs.readFile(certPath, 'utf8'),
+      fs.readFile(keyPath, 'utf8'),
+      caPath ? fs.readFile(caPath, 'utf8') : undefined
     ]
   );
     
-  return { cert, key };
+  return { cert, key, ca, passphrase };
+};
+
+/**
+ * ## watchSSLCertificates
+ * 
+ * Reloads the certificates of an HTTPS server whenever their files change.
+ *
+ * @description The directories holding the certificate, private key and CA chain are watched, so that
+ * files replaced by renaming (e.g., by certificate renewal tools) are detected as well. Changes are
+ * debounced by {@link SSL_RELOAD_DELAY_MS} so that a certificate and its key written one after the
+ * other are loaded together.
+ * 
+ * New connections use the reloaded certificates while established ones keep theirs. When the new files
+ * cannot be loaded (e.g., a key not matching its certificate), the error is logged and the server keeps
+ * serving the previous certificates.
+ * 
+ * @param server - The HTTPS server whose certificates are reloaded.
+ */
+const watchSSLCertificates = (server: https.Server): void => {
+  const { certPath, keyPath, caPath } = configurationUtil.getConfiguration().ssl;
+  const filePathList = [certPath, keyPath, caPath].filter((filePath: string | undefined): filePath is string => !!filePath);
+  const logger = loggingUtil.getLogger().child({ component: 'Server' });
+  let reloadTimeout: NodeJS.Timeout | undefined;
+
+  const scheduleReload = (): void => {
+    clearTimeout(reloadTimeout);
+
+    reloadTimeout = setTimeout(
+      async (): Promise<void> => {
+        try {
+          server.setSecureContext(await loadSSLCertificates());
+          logger.info('SSL certificates reloaded.', { filePathList });
+        } catch (error: unknown) {
+          logger.error('SSL certificates could not be reloaded, keeping the previous ones.', { filePathList, error });
+        }
+      }, 
+      SSL_RELOAD_DELAY_MS
+    ).unref();
+  };
+
+  new Set(filePathList.map((filePath: string): string => path.dirname(filePath))).forEach(
+    (directory: string): void => {
+      watch(
+        directory, 
+        (_eventType: string, fileName: string | null): void => {
+          if (fileName && filePathList.includes(path.join(directory, fileName))) {
+            scheduleReload();
+          }
+        }
+      )
+        .on(
+          'error', 
+          (error: unknown): void => {
+            logger.warn('SSL certificates are no longer watched.', { directory, error });
+          }
+        )
+        .unref();
+    }
+  );
 };
 
 /**
  * ## createServer
  * 
- * Creates a secure HTTPS server with the configured Express application.
+ * Creates the HTTP and/or HTTPS servers serving the configured Express application.
  *
  * @description This function performs a complete server setup process:
  * 
- * 1. Configures the Express application with security middleware and routes using the {@link configureApp} function.
- * 2. Loads SSL certificates from the filesystem using the {@link loadSSLCertificates} function.
- * 3. Creates an HTTPS server with the configured application and certificates.
+ * 1. Validates the application configuration, failing fast with a report of every missing or invalid setting.
+ * 2. Configures the Express application with security middleware and routes using the {@link configureApp} function.
+ * 3. Loads SSL certificates from the filesystem using the {@link loadSSLCertificates} function, unless only HTTP is served.
+ * 4. Creates the servers required by SERVER_MODE:
+ * 
+ * - https (default): An HTTPS server on PORT
+ * - http: A plain HTTP server on PORT, for local development or behind a TLS-terminating proxy
+ * - both: An HTTPS server on PORT and a plain HTTP server on HTTP_PORT
  * 
- * Both configuration steps run concurrently using Promise.all for optimal performance.
+ * Steps 2 and 3 run concurrently using Promise.all for optimal performance.
  * 
- * The resulting server is ready to listen on a port but is not yet started.
- * You need to call startServer() after receiving the server instance.
+ * The HTTPS server requests a client certificate when SSL_CLIENT_AUTH is 'optional' or 'required' (mutual TLS);
+ * in 'required' mode, connections without a certificate trusted by SSL_CA_PATH are refused during the handshake.
+ * Its certificates are reloaded without restart whenever their files change (see {@link watchSSLCertificates}),
+ * by each worker in cluster mode, since the primary does not serve requests.
+ * 
+ * The resulting servers are ready to listen but are not yet started.
+ * You need to call startServer() after receiving the server bindings.
  * 
  * @async
  * 
  * @param app - The Express application instance to use.
  * 
- * @returns A configured HTTPS server instance.
+ * @returns The servers to start, with their protocol and port.
  * 
+ * @throws If the application configuration is invalid.
  * @throws If application configuration fails.
  * @throws If SSL certificate loading fails.
  * @throws If server creation fails.
  */
-export const createServer = async (app: Express): Promise<Server> => {
-  const [configuredApp, { cert, key }] = await Promise.all(
+export const createServer = async (app: Express): Promise<IServerBinding.IServerBinding[]> => {
+  configurationUtil.validateConfiguration();
+
+  const { server: { mode, port, httpPort }, ssl: { clientAuthentication } } = configurationUtil.getConfiguration();
+
+  const [configuredApp, sslCertificates] = await Promise.all(
     [
       configureApp(app),
-      loadSSLCertificates()
+      mode === 'http' ? undefined : loadSSLCertificates()
     ]
   );
 
-  return https.createServer({ cert, key }, configuredApp);
+  const serverBindingList: IServerBinding.IServerBinding[] = [];
+
+  if (sslCertificates) {
+    const server = https.createServer(
+      {
+        ...sslCertificates,
+        requestCert: clientAuthentication !== 'none',
+        rejectUnauthorized: clientAuthentication === 'required'
+      }, 
+      configuredApp
+    );
+
+    if (!clusterUtil.isClusterPrimary()) {
+      watchSSLCertificates(server);
+    }
+
+    serverBindingList.push({ protocol: 'https', port, server });
+  }
+
+  if (mode !== 'https') {
+    serverBindingList.push({ protocol: 'http', port: mode === 'http' ? port : httpPort, server: http.createServer(configuredApp) });
+  }
+
+  return serverBindingList;
 };
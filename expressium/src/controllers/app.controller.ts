@@ -1,5 +1,31 @@
 import { NextFunction, Request, RequestHandler, Response } from 'express';
-import { dateTimeFormatterUtil } from '../utils';
+import http from 'http';
+import { ApiError } from '../errors';
+import { configurationUtil, dateTimeFormatterUtil, httpCacheUtil, loggingUtil, requestContextUtil, responseCacheUtil } from '../utils';
+import { IServiceHandler } from '../routes/interfaces';
+import { ICacheControlPolicy, IResponseCachePolicy } from '../utils/interfaces';
+
+/**
+ * ## createDetachedResponse
+ * 
+ * Creates a response bound to no connection, handed to services refreshing a cached response in the background.
+ * 
+ * @description The response of the request is already sent by then, so whatever the service writes must go
+ * nowhere instead of throwing ERR_HTTP_HEADERS_SENT. The detached response keeps the Express helpers
+ * (status, set, json, ...) and a copy of the locals of the original one.
+ * 
+ * @param req - Express Request object of the original request.
+ * @param res - Express Response object of the original request.
+ * 
+ * @returns The detached response.
+ */
+const createDetachedResponse = (req: Request, res: Response): Response => {
+  const detachedResponse: Response = Object.setPrototypeOf(new http.ServerResponse(req), Object.getPrototypeOf(res));
+
+  detachedResponse.locals = { ...res.locals };
+
+  return detachedResponse;
+};
 
 /**
  * ## generateController
@@ -13,85 +39,239 @@ import { dateTimeFormatterUtil } from '../utils';
  * 
  * ### Key features of the generated controller:
  * 
- * - Performance monitoring: Logs execution time of each request using console.time/timeEnd
+ * - Performance monitoring: Logs execution time of each request through the structured logger
  * - Consistent formatting: Standardizes API responses across the application
- * - Error handling: Catches and processes all errors with appropriate status codes
+ * - Error handling: Forwards every error to the central error middleware, which maps it to the appropriate status code
  * - Audit logging: Records timestamps and service execution details
  * - Clean separation: Maintains separation between HTTP concerns and business logic
  * - Standardized response structure: Ensures consistent response format across all endpoints
+ * - Conditional requests: Tags successful GET responses with a strong ETag per content coding, answering 304 Not Modified
+ * when it matches the If-None-Match header, and applies the route Cache-Control directives
+ * - Response caching: Serves GET requests of cached routes from the response cache, telling hits from misses
+ * through the X-Cache header, and busts cached routes once a mutation declared in their policy succeeds
+ * - Cancellation: Gives services an abort signal firing when the route times out, answering 503, or when the
+ * client disconnects, in which case no response is sent
  * 
  * ### Controller execution flow:
  * 
  * 1. Generate timestamp for request tracking and performance measurement
- * 2. Start performance timer for the request
- * 3. Execute the service function with request parameters and timestamp
- * 4. Process the service response (status code and data)
- * 5. Send formatted HTTP response to the client
- * 6. Handle any exceptions that occur during service execution
- * 7. Log performance metrics when execution completes
+ * 2. Create a request logger and start the performance timer
+ * 3. Execute the service function with request parameters, timestamp and abort signal, or, for GET and HEAD requests to a cached
+ * route, answer from the response cache when possible (see responseCacheUtil.getCachedResponse) and set X-Cache to HIT or MISS
+ * 4. Process the service response (status code and data), busting the cached routes invalidated by successful mutations
+ * 5. For successful GET and HEAD requests, set the strong ETag of the envelope and its content coding (see
+ * httpCacheUtil.generateETag) and the Cache-Control header of the route; Express then answers 304 without a body
+ * when the client copy is still fresh
+ * 6. Send formatted HTTP response to the client
+ * 7. Forward any exception that occurs during service execution to the error middleware
+ * 8. Log performance metrics when execution completes
  * 
  * ### The controller handles three main scenarios:
  * 
  * 1. Successful execution: Returns service data with the specified status code
  * 2. Handled errors: Processes errors with custom status codes from the service
- * 3. Unhandled errors: Catches unexpected exceptions and returns a generic 500 error.
+ * 3. Thrown errors: Passes exceptions to next(), letting the error middleware respond
+ * (e.g., BaseError subclasses with their own status, upstream failures with 502/504, unknown errors with 500).
  * 
  * ### Response format:
  * 
  * - Success responses: `{ data: { status: true, statusCode: XXX, ... } }`
- * - Error responses: `{ data: { status: false, statusCode: 500, timestamp, path, method, message, suggestion } }`
+ * - Error responses: `{ status: false, statusCode, timestamp, path, method, message, suggestion, code }`
  * 
  * ### Logging behavior:
  * 
- * - Performance: Logs execution time for each controller invocation
- * - Errors: Logs detailed error information including service name, timestamp, and error message
- * - Format: Uses consistent log format for easy parsing and monitoring
+ * - Performance: Logs execution time and status code for each controller invocation
+ * - Errors: Logged by the error middleware with the request context
+ * - Context: Every entry carries the request ID, user, route and method of the request
  * 
  * @param serviceHandler - The service function to be wrapped by this controller.
- * Must be an async function that accepts (req, res, next, timestamp) parameters
+ * Must be a function that accepts (req, res, next, timestamp, signal) parameters (see IServiceHandler)
  * and returns an object with `status` (HTTP status code) and `data` (response payload) properties.
+ * 
+ * @param controllerOptions - Optional behavior of the controller.
+ * 
+ * @param controllerOptions.routePath - Route template of the route (e.g., '/v1/bulletins/:id'), which namespaces its
+ * cached responses and identifies it as a mutation busting other routes.
+ * 
+ * @param controllerOptions.cacheControlPolicy - Cache-Control directives sent with the successful responses.
+ * Error responses never carry them.
+ * 
+ * @param controllerOptions.responseCachePolicy - Server-side cache of the successful GET responses; requires routePath.
+ * 
+ * @param controllerOptions.timeoutMs - Time given to the service to respond, in milliseconds (0 disables it).
+ * Defaults to ROUTE_TIMEOUT_MS.
  *
  * @returns An Express RequestHandler function that processes requests
  * through the service and handles the HTTP response lifecycle.
  * This handler implements the standard Express middleware signature (req, res, next).
  * 
  * @throws The controller itself doesn't throw errors, but instead catches them
- * and transforms them into appropriate HTTP responses with status code 500.
- * All errors from the service function will be caught, logged, and handled uniformly.
+ * and forwards them to the error middleware registered by configureApp.
+ * All errors from the service function are handled uniformly there.
  */
-export const generateController = (serviceHandler: Function): RequestHandler => {
+export const generateController = (
+  serviceHandler: IServiceHandler.IServiceHandler, 
+  controllerOptions: { 
+    routePath?: string; 
+    cacheControlPolicy?: ICacheControlPolicy.ICacheControlPolicy; 
+    responseCachePolicy?: IResponseCachePolicy.IResponseCachePolicy; 
+    timeoutMs?: number 
+  } = {}
+): RequestHandler => {
+  const { routePath, cacheControlPolicy, responseCachePolicy, timeoutMs = configurationUtil.getConfiguration().route.timeoutMs } = controllerOptions;
+  const cacheControlHeader = cacheControlPolicy ? httpCacheUtil.getCacheControlHeader(cacheControlPolicy) : undefined;
+
   return async (
     req: Request, 
     res: Response,
     next: NextFunction
   ): Promise<void> => {
     const timestamp = dateTimeFormatterUtil.formatAsDayMonthYearHoursMinutesSeconds(new Date());
-    const timer = `Controller | Timestamp: ${ timestamp } | Service Name: ${ serviceHandler.name }`;
-    
-    console.time(timer);
+    const logger = loggingUtil.getRequestLogger(req, 'Controller').child({ serviceName: serviceHandler.name });
+    const startTime = performance.now();
+    const abortController = new AbortController();
+    let isClientDisconnected = false;
+
+    const abortOnDisconnect = (): void => {
+      if (!res.writableFinished) {
+        isClientDisconnected = true;
+        abortController.abort(new ApiError.ApiError('The client closed the connection before the response was sent.', 'CLIENT_CLOSED_REQUEST', 499));
+      }
+    };
+
+    const timeout = timeoutMs > 0 
+      ? setTimeout(
+          (): void => {
+            abortController.abort(
+              new ApiError.ApiError('The request took too long to complete.', 'REQUEST_TIMEOUT', 503, { timeoutMs }, 'Please try again in a few moments.')
+            );
+          },
+          timeoutMs
+        ) 
+      : undefined;
+
+    const abortPromise = new Promise<never>(
+      (_resolve: (value: never) => void, reject: (reason: unknown) => void): void => {
+        abortController.signal.addEventListener('abort', (): void => reject(abortController.signal.reason), { once: true });
+      }
+    );
+
+    res.once('close', abortOnDisconnect);
     
     try {
-      const { status, data } = await serviceHandler(req, res, next, timestamp);
-      
-      res.status(status).json({ ...data });
-    } catch (error: unknown) {
-      console.log(`Controller | Timestamp: ${ timestamp } | Error: ${ error instanceof Error ? error.message : String(error) }`);
-      
-      res
-        .status(500)
-        .json(
-          { 
-            status: false,
-            statusCode: 500,
-            timestamp,
-            path: req.originalUrl || req.url,
-            method: req.method,
-            message: 'Something went wrong.',
-            suggestion: 'Please try again later. If this issue persists, contact our support team for assistance.'
+      const isReadRequest = req.method === 'GET' || req.method === 'HEAD';
+      const requestContext = requestContextUtil.getRequestContext();
+
+      const loadResponse = async (
+        serviceRes: Response, 
+        serviceNext: NextFunction, 
+        serviceTimestamp: string, 
+        signal: AbortSignal
+      ): Promise<{ status: number; envelope: Record<string, unknown> }> => {
+        const runService = (): ReturnType<IServiceHandler.IServiceHandler> => serviceHandler(req, serviceRes, serviceNext, serviceTimestamp, signal);
+
+        const { status, data } = await (
+          requestContext 
+            ? requestContextUtil.runWithRequestContext({ ...requestContext, signal }, runService) 
+            : runService()
+        );
+
+        return { status, envelope: { ...data } };
+      };
+
+      const revalidateResponse = async (): Promise<{ status: number; envelope: Record<string, unknown> }> => {
+        const revalidationController = new AbortController();
+
+        const revalidationTimeout = timeoutMs > 0 
+          ? setTimeout(
+              (): void => {
+                revalidationController.abort(
+                  new ApiError.ApiError('The response revalidation took too long to complete.', 'REQUEST_TIMEOUT', 503, { timeoutMs })
+                );
+              },
+              timeoutMs
+            ) 
+          : undefined;
+
+        const revalidationAbortPromise = new Promise<never>(
+          (_resolve: (value: never) => void, reject: (reason: unknown) => void): void => {
+            revalidationController.signal.addEventListener('abort', (): void => reject(revalidationController.signal.reason), { once: true });
           }
         );
+
+        const revalidationNext = (error?: unknown): void => {
+          revalidationController.abort(error ?? new Error('The service called next while revalidating a cached response.'));
+        };
+
+        try {
+          return await Promise.race(
+            [
+              loadResponse(
+                createDetachedResponse(req, res), 
+                revalidationNext as NextFunction, 
+                dateTimeFormatterUtil.formatAsDayMonthYearHoursMinutesSeconds(new Date()), 
+                revalidationController.signal
+              ),
+              revalidationAbortPromise
+            ]
+          );
+        } finally {
+          clearTimeout(revalidationTimeout);
+        }
+      };
+
+      let response: { status: number; envelope: Record<string, unknown> };
+
+      if (responseCachePolicy && routePath && isReadRequest) {
+        const { isHit, ...cachedResponse } = await Promise.race(
+          [
+            responseCacheUtil.getCachedResponse(
+              responseCacheUtil.getResponseCacheKey(req, routePath, responseCachePolicy), 
+              responseCachePolicy, 
+              (): Promise<{ status: number; envelope: Record<string, unknown> }> => loadResponse(res, next, timestamp, abortController.signal),
+              revalidateResponse
+            ),
+            abortPromise
+          ]
+        );
+
+        res.setHeader('X-Cache', isHit ? 'HIT' : 'MISS');
+        response = cachedResponse;
+      } else {
+        response = await Promise.race([loadResponse(res, next, timestamp, abortController.signal), abortPromise]);
+      }
+
+      const { status, envelope } = response;
+      
+      res.status(status);
+
+      if (status >= 200 && status < 300) {
+        if (!isReadRequest && routePath) {
+          await responseCacheUtil.invalidateResponseCache(req.method, routePath);
+        }
+
+        if (cacheControlHeader) {
+          res.setHeader('Cache-Control', cacheControlHeader);
+        }
+
+        if (isReadRequest) {
+          res.setHeader('ETag', httpCacheUtil.generateETag(envelope, httpCacheUtil.getContentEncoding(req, res, envelope)));
+        }
+      }
+
+      res.json(envelope);
+    } catch (error: unknown) {
+      if (isClientDisconnected) {
+        logger.warn('Client disconnected before the response was sent.');
+
+        return;
+      }
+
+      next(error);
     } finally {
-      console.timeEnd(timer);
+      clearTimeout(timeout);
+      res.off('close', abortOnDisconnect);
+      logger.info('Service executed.', { statusCode: res.statusCode, durationMs: Number((performance.now() - startTime).toFixed(3)) });
     }
   };
 };
@@ -55,6 +55,10 @@ export class ApiError extends BaseError implements ICustomError.ICustomError {
    * @param status - HTTP status code to return to the client.
    * Should follow standard HTTP status code conventions.
    * Defaults to 500 (Internal Server Error) if not specified.
+   * 
+   * @param details - Optional machine-readable payload describing the error.
+   * 
+   * @param suggestion - Optional human-readable hint on how to resolve the error.
    */
   public constructor(
     /**
@@ -70,12 +74,24 @@ export class ApiError extends BaseError implements ICustomError.ICustomError {
     /**
      * @public
      */
-    public status: number = 500
+    public status: number = 500,
+
+    /**
+     * @public
+     */
+    public details?: unknown,
+
+    /**
+     * @public
+     */
+    public suggestion?: string
   ) {
     super(
       message, 
       code,
-      status
+      status,
+      details,
+      suggestion
     );
   }
 }
@@ -1,3 +1,7 @@
+import { STATUS_CODES } from 'http';
+import { Request } from 'express';
+import { IResponseData } from '../interfaces';
+import { dateTimeFormatterUtil, requestContextUtil } from '../utils';
 import { ICustomError } from "./interfaces";
 
 /**
@@ -18,6 +22,8 @@ import { ICustomError } from "./interfaces";
  * - Configures error name based on the constructor for better error identification
  * - Supports HTTP status codes for API integration
  * - Provides consistent error code support for programmatic error handling
+ * - Carries optional details and suggestion text for clients
+ * - Serializes into the standard response envelope or an RFC 9457 problem details object
  * 
  * This class serves as the parent for more specific error types rather than being instantiated
  * directly. Specialized error classes should extend BaseError and define their own specific
@@ -56,6 +62,12 @@ export class BaseError extends Error implements ICustomError.ICustomError {
    * @param status - HTTP status code to be used when this error reaches an API boundary.
    * Should follow standard HTTP status code conventions (e.g., 404 for
    * not found, 400 for bad request, 500 for server error).
+   * 
+   * @param details - Optional machine-readable payload describing the error
+   * (e.g., the conflicting fields or the identifier that was not found).
+   * 
+   * @param suggestion - Optional human-readable hint on how to resolve the error.
+   * A generic suggestion based on the status is used when not provided.
    */
   public constructor(
     /**
@@ -71,7 +83,17 @@ export class BaseError extends Error implements ICustomError.ICustomError {
     /**
      * @public
      */
-    public status: number
+    public status: number,
+
+    /**
+     * @public
+     */
+    public details?: unknown,
+
+    /**
+     * @public
+     */
+    public suggestion?: string
   ) {
     super(message);
 
@@ -79,4 +101,88 @@ export class BaseError extends Error implements ICustomError.ICustomError {
     
     Error.captureStackTrace(this, this.constructor);
   }
+
+  /**
+   * ## getSuggestion
+   * 
+   * Returns the suggestion of the error, or a generic one based on its status.
+   * 
+   * @private
+   * 
+   * @returns The suggestion text.
+   */
+  private getSuggestion(): string {
+    if (this.suggestion) {
+      return this.suggestion;
+    }
+
+    return this.status < 500
+      ? 'Please review the request and try again.'
+      : 'Please try again later. If this issue persists, contact our support team for assistance.';
+  }
+
+  /**
+   * ## toResponseData
+   * 
+   * Serializes the error into the standard response envelope.
+   * 
+   * @description The envelope includes the usual status, timestamp, path, method, message and suggestion,
+   * extended with the error code and, when present, its details.
+   * 
+   * @public
+   * 
+   * @param req - Express Request object of the request that failed.
+   * 
+   * @returns The error response data.
+   */
+  public toResponseData(req: Request): IResponseData.IErrorResponseData {
+    return {
+      status: false,
+      statusCode: this.status,
+      timestamp: dateTimeFormatterUtil.formatAsDayMonthYearHoursMinutesSeconds(new Date()),
+      path: req.originalUrl || req.url,
+      method: req.method,
+      message: this.message,
+      suggestion: this.getSuggestion(),
+      code: this.code,
+      ...(this.details !== undefined ? { details: this.details } : {})
+    };
+  }
+
+  /**
+   * ## toProblemDetails
+   * 
+   * Serializes the error into an RFC 9457 problem details object.
+   * 
+   * @description The standard members are filled as follows:
+   * 
+   * - type: 'about:blank', since problem types are identified by the `code` extension member
+   * - title: The HTTP reason phrase of the status
+   * - status: The HTTP status
+   * - detail: The error message
+   * - instance: The path of the request that failed
+   * 
+   * The code, suggestion, details, timestamp and request ID are added as extension members.
+   * The object must be sent with the 'application/problem+json' content type.
+   * 
+   * @public
+   * 
+   * @param req - Express Request object of the request that failed.
+   * 
+   * @returns The problem details object.
+   */
+  public toProblemDetails(req: Request): IResponseData.IProblemDetails {
+    return {
+      type: 'about:blank',
+      title: STATUS_CODES[this.status] ?? 'Unknown Error',
+      status: this.status,
+      detail: this.message,
+      instance: req.originalUrl || req.url,
+      code: this.code,
+      suggestion: this.getSuggestion(),
+      timestamp: dateTimeFormatterUtil.formatAsDayMonthYearHoursMinutesSeconds(new Date()),
+      requestId: requestContextUtil.getRequestId(),
+      ...(this.details !== undefined ? { details: this.details } : {})
+    };
+  }
 }
@@ -0,0 +1,47 @@
+import { ApiError } from './Api.error';
+import { IErrorOptions } from './interfaces';
+
+/**
+ * ## ConflictError
+ * 
+ * Error raised when a request conflicts with the current state of a resource.
+ * 
+ * @description Use this error for duplicates (e.g., a username already taken) or for concurrent modifications.
+ * The details payload can list the conflicting fields.
+ * 
+ * Defaults:
+ * 
+ * - HTTP status: 409
+ * - Error code: 'CONFLICT'
+ * - Message: 'The request conflicts with the current state of the resource.'
+ * - Suggestion: 'Change the conflicting values and try again.'
+ * 
+ * The code and suggestion can be overridden and a details payload attached through the error options.
+ */
+export class ConflictError extends ApiError {
+  /**
+   * ## constructor
+   * 
+   * Creates a new ConflictError instance.
+   * 
+   * @public
+   * 
+   * @constructor
+   * 
+   * @param message - Human-readable description of the error, suitable for API responses.
+   * 
+   * @param errorOptions - Optional code, details and suggestion overriding the defaults.
+   */
+  public constructor(
+    message: string = 'The request conflicts with the current state of the resource.', 
+    errorOptions: IErrorOptions.IErrorOptions = {}
+  ) {
+    super(
+      message,
+      errorOptions.code ?? 'CONFLICT',
+      409,
+      errorOptions.details,
+      errorOptions.suggestion ?? 'Change the conflicting values and try again.'
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { ApiError } from './Api.error';
+import { IErrorOptions } from './interfaces';
+
+/**
+ * ## ForbiddenError
+ * 
+ * Error raised when an authenticated user is not allowed to perform a request.
+ * 
+ * @description Use this error for authorization decisions taken inside services, such as ownership checks, complementing the route access rules..
+ * 
+ * Defaults:
+ * 
+ * - HTTP status: 403
+ * - Error code: 'FORBIDDEN'
+ * - Message: 'You do not have permission to access this resource.'
+ * - Suggestion: 'Contact your administrator for access to this resource.'
+ * 
+ * The code and suggestion can be overridden and a details payload attached through the error options.
+ */
+export class ForbiddenError extends ApiError {
+  /**
+   * ## constructor
+   * 
+   * Creates a new ForbiddenError instance.
+   * 
+   * @public
+   * 
+   * @constructor
+   * 
+   * @param message - Human-readable description of the error, suitable for API responses.
+   * 
+   * @param errorOptions - Optional code, details and suggestion overriding the defaults.
+   */
+  public constructor(
+    message: string = 'You do not have permission to access this resource.', 
+    errorOptions: IErrorOptions.IErrorOptions = {}
+  ) {
+    super(
+      message,
+      errorOptions.code ?? 'FORBIDDEN',
+      403,
+      errorOptions.details,
+      errorOptions.suggestion ?? 'Contact your administrator for access to this resource.'
+    );
+  }
+}
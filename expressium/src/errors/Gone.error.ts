@@ -0,0 +1,47 @@
+import { ApiError } from './Api.error';
+import { IErrorOptions } from './interfaces';
+
+/**
+ * ## GoneError
+ * 
+ * Error raised when a resource has been permanently removed.
+ * 
+ * @description Use this error for routes and API versions past their sunset date, which are no longer served.
+ * The details payload can carry the sunset date and a link to the migration guide.
+ * 
+ * Defaults:
+ * 
+ * - HTTP status: 410
+ * - Error code: 'GONE'
+ * - Message: 'The requested resource is no longer available.'
+ * - Suggestion: 'Please migrate to a newer version of the API.'
+ * 
+ * The code and suggestion can be overridden and a details payload attached through the error options.
+ */
+export class GoneError extends ApiError {
+  /**
+   * ## constructor
+   * 
+   * Creates a new GoneError instance.
+   * 
+   * @public
+   * 
+   * @constructor
+   * 
+   * @param message - Human-readable description of the error, suitable for API responses.
+   * 
+   * @param errorOptions - Optional code, details and suggestion overriding the defaults.
+   */
+  public constructor(
+    message: string = 'The requested resource is no longer available.', 
+    errorOptions: IErrorOptions.IErrorOptions = {}
+  ) {
+    super(
+      message,
+      errorOptions.code ?? 'GONE',
+      410,
+      errorOptions.details,
+      errorOptions.suggestion ?? 'Please migrate to a newer version of the API.'
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { ApiError } from './Api.error';
+import { IErrorOptions } from './interfaces';
+
+/**
+ * ## NotFoundError
+ * 
+ * Error raised when a requested resource does not exist.
+ * 
+ * @description Use this error when a lookup by identifier returns nothing.
+ * The details payload can carry the identifier that was searched for.
+ * 
+ * Defaults:
+ * 
+ * - HTTP status: 404
+ * - Error code: 'NOT_FOUND'
+ * - Message: 'The requested resource was not found.'
+ * - Suggestion: 'Please check the identifiers used in the request.'
+ * 
+ * The code and suggestion can be overridden and a details payload attached through the error options.
+ */
+export class NotFoundError extends ApiError {
+  /**
+   * ## constructor
+   * 
+   * Creates a new NotFoundError instance.
+   * 
+   * @public
+   * 
+   * @constructor
+   * 
+   * @param message - Human-readable description of the error, suitable for API responses.
+   * 
+   * @param errorOptions - Optional code, details and suggestion overriding the defaults.
+   */
+  public constructor(
+    message: string = 'The requested resource was not found.', 
+    errorOptions: IErrorOptions.IErrorOptions = {}
+  ) {
+    super(
+      message,
+      errorOptions.code ?? 'NOT_FOUND',
+      404,
+      errorOptions.details,
+      errorOptions.suggestion ?? 'Please check the identifiers used in the request.'
+    );
+  }
+}
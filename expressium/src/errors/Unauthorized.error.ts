@@ -0,0 +1,47 @@
+import { ApiError } from './Api.error';
+import { IErrorOptions } from './interfaces';
+
+/**
+ * ## UnauthorizedError
+ * 
+ * Error raised when a request lacks valid authentication credentials.
+ * 
+ * @description Use this error when credentials are missing, invalid or expired.
+ * Messages should not reveal which part of the credentials was wrong.
+ * 
+ * Defaults:
+ * 
+ * - HTTP status: 401
+ * - Error code: 'UNAUTHORIZED'
+ * - Message: 'Authentication is required to access this resource.'
+ * - Suggestion: 'Please log in and try again.'
+ * 
+ * The code and suggestion can be overridden and a details payload attached through the error options.
+ */
+export class UnauthorizedError extends ApiError {
+  /**
+   * ## constructor
+   * 
+   * Creates a new UnauthorizedError instance.
+   * 
+   * @public
+   * 
+   * @constructor
+   * 
+   * @param message - Human-readable description of the error, suitable for API responses.
+   * 
+   * @param errorOptions - Optional code, details and suggestion overriding the defaults.
+   */
+  public constructor(
+    message: string = 'Authentication is required to access this resource.', 
+    errorOptions: IErrorOptions.IErrorOptions = {}
+  ) {
+    super(
+      message,
+      errorOptions.code ?? 'UNAUTHORIZED',
+      401,
+      errorOptions.details,
+      errorOptions.suggestion ?? 'Please log in and try again.'
+    );
+  }
+}
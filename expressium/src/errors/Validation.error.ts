@@ -0,0 +1,47 @@
+import { ApiError } from './Api.error';
+import { IErrorOptions } from './interfaces';
+
+/**
+ * ## ValidationError
+ * 
+ * Error raised when the request data does not satisfy the business rules of a service.
+ * 
+ * @description Use this error for validations that cannot be expressed in a route validation schema, such as rules spanning several fields or depending on stored data.
+ * The details payload is the place to list the invalid fields.
+ * 
+ * Defaults:
+ * 
+ * - HTTP status: 400
+ * - Error code: 'VALIDATION_ERROR'
+ * - Message: 'The request contains invalid data.'
+ * - Suggestion: 'Review the request data and try again.'
+ * 
+ * The code and suggestion can be overridden and a details payload attached through the error options.
+ */
+export class ValidationError extends ApiError {
+  /**
+   * ## constructor
+   * 
+   * Creates a new ValidationError instance.
+   * 
+   * @public
+   * 
+   * @constructor
+   * 
+   * @param message - Human-readable description of the error, suitable for API responses.
+   * 
+   * @param errorOptions - Optional code, details and suggestion overriding the defaults.
+   */
+  public constructor(
+    message: string = 'The request contains invalid data.', 
+    errorOptions: IErrorOptions.IErrorOptions = {}
+  ) {
+    super(
+      message,
+      errorOptions.code ?? 'VALIDATION_ERROR',
+      400,
+      errorOptions.details,
+      errorOptions.suggestion ?? 'Review the request data and try again.'
+    );
+  }
+}
@@ -1,2 +1,8 @@
 export * as ApiError from './Api.error';
 export * as BaseError from './Base.error';
+export * as ConflictError from './Conflict.error';
+export * as ForbiddenError from './Forbidden.error';
+export * as GoneError from './Gone.error';
+export * as NotFoundError from './NotFound.error';
+export * as UnauthorizedError from './Unauthorized.error';
+export * as ValidationError from './Validation.error';
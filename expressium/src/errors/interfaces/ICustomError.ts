@@ -13,6 +13,7 @@
  * - Human-readable error information (message, name)
  * - Machine-processable error classification (code)
  * - HTTP integration capabilities (status)
+ * - Client guidance (optional suggestion and machine-readable details)
  * - Debugging support (stack trace)
  * 
  * By standardizing error structures, this interface enables:
@@ -29,6 +30,8 @@ export interface ICustomError {
   message: string;
   code: string;
   status: number;
+  details?: unknown;
+  suggestion?: string;
   name: string;
   stack?: string;
 }
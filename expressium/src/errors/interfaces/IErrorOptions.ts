@@ -0,0 +1,17 @@
+/**
+ * ## IErrorOptions
+ * 
+ * Optional settings accepted by the typed API errors.
+ * 
+ * @description Typed errors (e.g., NotFoundError, ConflictError) come with a default status, code and suggestion.
+ * These options allow services to override the code and suggestion or attach a details payload:
+ * 
+ * - code: Machine-readable error code replacing the default one of the error type
+ * - details: Payload describing the error (e.g., the identifier that was not found)
+ * - suggestion: Human-readable hint replacing the default suggestion of the error type
+ */
+export interface IErrorOptions {
+  code?: string;
+  details?: unknown;
+  suggestion?: string;
+}
@@ -1 +1,2 @@
 export * as ICustomError from './ICustomError';
+export * as IErrorOptions from './IErrorOptions';
@@ -7,6 +7,9 @@
  * for environment variables and other custom properties. This helps provide
  * type safety and autocompletion when accessing process.env values throughout the application.
  * 
+ * Application code reads these values through configurationUtil.getConfiguration(), which validates
+ * and coerces them at startup, rather than through process.env directly.
+ * 
  * Type definitions in this namespace ensure that:
  * 
  * - Environment variables are properly documented
@@ -43,7 +46,7 @@ declare namespace NodeJS {
      * Server port configuration environment variable.
      * 
      * @description The port number on which the server will listen for incoming
-     * connections. Must be converted to a number before using in server configuration.
+     * connections: the HTTPS server, or the plain HTTP server when SERVER_MODE is `http`.
      * 
      * Valid values should be numeric strings representing port numbers (typically
      * between 1024 and 65535 for non-root users).
@@ -52,6 +55,44 @@ declare namespace NodeJS {
      */
     PORT: string | undefined;
 
+    /**
+     * ## SERVER_MODE
+     * 
+     * Server mode environment variable.
+     * 
+     * @description Protocols served by the API:
+     * 
+     * - `https`: HTTPS only, on PORT
+     * - `http`: Plain HTTP only, on PORT, for local development or behind a TLS-terminating proxy
+     * - `both`: HTTPS on PORT and plain HTTP on HTTP_PORT
+     * 
+     * When not provided, only HTTPS is served.
+     */
+    SERVER_MODE: string | undefined;
+
+    /**
+     * ## HTTP_PORT
+     * 
+     * Plain HTTP port environment variable.
+     * 
+     * @description Port of the plain HTTP server when SERVER_MODE is `both`. Must differ from PORT.
+     * 
+     * When not provided, the plain HTTP server listens on port 8080.
+     */
+    HTTP_PORT: string | undefined;
+
+    /**
+     * ## APPLICATION_VERSION
+     * 
+     * Application version environment variable.
+     * 
+     * @description Version of the application reported by the health endpoints and the OpenAPI document
+     * (e.g., `1.4.2`).
+     * 
+     * When not provided, the version of the package.json of the working directory is used, or `unknown`.
+     */
+    APPLICATION_VERSION: string | undefined;
+
     /**
      * ## DATABASE_URL
      * 
@@ -77,8 +118,8 @@ declare namespace NodeJS {
      * 
      * JSON Web Token secret key environment variable.
      * 
-     * @description Secret key used to sign and verify JSON Web Tokens. This key should
-     * be kept secret and not shared publicly.
+     * @description Secret key used to sign and verify JSON Web Tokens. This key is required and
+     * should be kept secret and not shared publicly.
      * 
      * The secret should be a strong, random string with high entropy. For production
      * environments, it's recommended to use a cryptographically secure random generator
@@ -98,25 +139,644 @@ declare namespace NodeJS {
      * 
      * JSON Web Token expiration time environment variable.
      * 
-     * @description Expiration time for JSON Web Tokens. This value should be a string
-     * representing a time span or a number representing seconds.
-     * 
-     * Supported formats:
+     * @description Expiration time for JSON Web Tokens. This value is required and must be
+     * a time span made of an amount followed by its unit: `1d` (1 day), `2h` (2 hours), etc.
      * 
-     * - A number expressed in seconds: `3600` (1 hour)
-     * - A string describing a time span using the format: `1d` (1 day), `2h` (2 hours), etc.
-     * 
-     * Common time span units:
+     * Supported time span units:
      * 
      * - `s`: seconds
      * - `m`: minutes
      * - `h`: hours
      * - `d`: days
-     * - `w`: weeks
      * 
      * The expiration time should balance security (shorter times) with user experience
      * (longer times reduce the frequency of re-authentication).
      */
     JWT_EXPIRES_IN: string | undefined;
+
+    /**
+     * ## JWT_REFRESH_EXPIRES_IN
+     * 
+     * Refresh token expiration time environment variable.
+     * 
+     * @description Lifetime of the refresh tokens issued alongside each JSON Web Token.
+     * Uses the same time span format as JWT_EXPIRES_IN (e.g., `7d`, `12h`).
+     * 
+     * Refresh tokens are rotated on every use, so this value bounds how long a session
+     * may stay idle before the user has to authenticate with credentials again.
+     * 
+     * When not provided, refresh tokens expire after 7 days.
+     */
+    JWT_REFRESH_EXPIRES_IN: string | undefined;
+
+    /**
+     * ## LOG_LEVEL
+     * 
+     * Minimum log level environment variable.
+     * 
+     * @description Entries below this level are discarded. Supported values, from the most
+     * to the least verbose, are `debug`, `info`, `warn` and `error`.
+     * 
+     * When not provided, the application logs from the `info` level.
+     */
+    LOG_LEVEL: string | undefined;
+
+    /**
+     * ## LOG_FORMAT
+     * 
+     * Log output format environment variable.
+     * 
+     * @description Either `json`, writing one JSON object per line for log aggregators,
+     * or `pretty`, writing human readable lines.
+     * 
+     * When not provided, logs are written as JSON when NODE_ENV is `production` and pretty otherwise.
+     */
+    LOG_FORMAT: string | undefined;
+
+    /**
+     * ## LOG_FILE_PATH
+     * 
+     * Log file path environment variable.
+     * 
+     * @description When provided, every log entry is also appended to this file, which is rotated
+     * according to LOG_FILE_MAX_SIZE and LOG_FILE_MAX_FILES. Logs are written to stdout regardless.
+     */
+    LOG_FILE_PATH: string | undefined;
+
+    /**
+     * ## LOG_FILE_MAX_SIZE
+     * 
+     * Log file maximum size environment variable.
+     * 
+     * @description Size in bytes a log file may reach before being rotated.
+     * 
+     * When not provided, log files are rotated at 10 MB.
+     */
+    LOG_FILE_MAX_SIZE: string | undefined;
+
+    /**
+     * ## LOG_FILE_MAX_FILES
+     * 
+     * Rotated log files count environment variable.
+     * 
+     * @description Number of rotated log files kept besides the current one; older files are deleted.
+     * 
+     * When not provided, 5 rotated files are kept.
+     */
+    LOG_FILE_MAX_FILES: string | undefined;
+
+    /**
+     * ## DEBUG_MODE
+     * 
+     * Debug mode environment variable.
+     * 
+     * @description When set to `true`, error responses include the stack trace of the error
+     * that caused them. Must never be enabled in production, since stack traces disclose
+     * internal file paths and implementation details.
+     * 
+     * When not provided, stack traces are never sent to clients.
+     */
+    DEBUG_MODE: string | undefined;
+
+    /**
+     * ## HEALTH_CHECK_TIMEOUT_MS
+     * 
+     * Health check timeout environment variable.
+     * 
+     * @description Maximum duration, in milliseconds, of each readiness check that does not define its own timeout.
+     * Checks exceeding it are reported as down.
+     * 
+     * When not provided, checks time out after 5000 milliseconds.
+     */
+    HEALTH_CHECK_TIMEOUT_MS: string | undefined;
+
+    /**
+     * ## SHUTDOWN_DRAIN_DELAY_MS
+     * 
+     * Shutdown drain delay environment variable.
+     * 
+     * @description Duration, in milliseconds, during which the readiness probe fails before the servers
+     * stop accepting connections, giving load balancers time to route new requests elsewhere.
+     * 
+     * When not provided, the servers are closed as soon as the shutdown starts.
+     */
+    SHUTDOWN_DRAIN_DELAY_MS: string | undefined;
+
+    /**
+     * ## SHUTDOWN_TIMEOUT_MS
+     * 
+     * Shutdown timeout environment variable.
+     * 
+     * @description Maximum duration, in milliseconds, of the shutdown once the drain delay has elapsed, shared by
+     * in-flight requests completing and every shutdown hook. Up to 2 seconds (at most half of it) are kept for
+     * the hooks: connections still open by then are destroyed.
+     * 
+     * When not provided, the shutdown times out after 10000 milliseconds.
+     */
+    SHUTDOWN_TIMEOUT_MS: string | undefined;
+
+    /**
+     * ## ROUTE_TIMEOUT_MS
+     * 
+     * Route timeout environment variable.
+     * 
+     * @description Maximum duration, in milliseconds, of each request handled by a route that does not define
+     * its own timeout. Slower requests are answered with a 503 response and their abort signal fires, so that
+     * services can cancel their pending work. Set to `0` to let requests run indefinitely.
+     * 
+     * When not provided, requests never time out.
+     */
+    ROUTE_TIMEOUT_MS: string | undefined;
+
+    /**
+     * ## COMPRESSION_ENABLED
+     * 
+     * Response compression environment variable.
+     * 
+     * @description Whether responses are compressed with brotli or gzip, as accepted by the client ('true' or 'false').
+     * 
+     * When not provided, responses are compressed.
+     */
+    COMPRESSION_ENABLED: string | undefined;
+
+    /**
+     * ## COMPRESSION_THRESHOLD
+     * 
+     * Response compression threshold environment variable.
+     * 
+     * @description Size, in bytes, from which responses are compressed.
+     * 
+     * When not provided, responses of 1024 bytes or more are compressed.
+     */
+    COMPRESSION_THRESHOLD: string | undefined;
+
+    /**
+     * ## CLUSTER_WORKERS
+     * 
+     * Cluster workers environment variable.
+     * 
+     * @description Number of worker processes serving requests, or 'auto' for one per available CPU.
+     * The primary process forks them, restarts them when they crash and relays shutdown signals to them.
+     * RATE_LIMIT_STORE, IDEMPOTENCY_STORE and LOGIN_ATTEMPT_STORE must then be `database`, and the revocation
+     * store must be shared as well; response caches and metrics stay per worker.
+     * 
+     * When not provided or 0, the API runs in a single process.
+     */
+    CLUSTER_WORKERS: string | undefined;
+
+    /**
+     * ## CLUSTER_RESTART_BASE_DELAY_MS
+     * 
+     * Cluster restart base delay environment variable.
+     * 
+     * @description Delay, in milliseconds, before restarting a crashed worker, doubled on each consecutive crash.
+     * 
+     * When not provided, the first restart happens after 1000 milliseconds.
+     */
+    CLUSTER_RESTART_BASE_DELAY_MS: string | undefined;
+
+    /**
+     * ## CLUSTER_RESTART_MAX_DELAY_MS
+     * 
+     * Cluster restart maximum delay environment variable.
+     * 
+     * @description Upper bound, in milliseconds, of the delay before restarting a crashed worker.
+     * 
+     * When not provided, restarts are delayed by at most 30000 milliseconds.
+     */
+    CLUSTER_RESTART_MAX_DELAY_MS: string | undefined;
+
+    /**
+     * ## RATE_LIMIT_WINDOW_MS
+     * 
+     * Rate limit window environment variable.
+     * 
+     * @description Duration, in milliseconds, of the windows in which requests are counted by the global
+     * rate limiter and by route rate limit policies that do not define their own.
+     * 
+     * When not provided, windows last 15 minutes.
+     */
+    RATE_LIMIT_WINDOW_MS: string | undefined;
+
+    /**
+     * ## RATE_LIMIT_MAX_REQUESTS
+     * 
+     * Rate limit maximum requests environment variable.
+     * 
+     * @description Number of requests each client may make within a window, for the global rate limiter
+     * and for route rate limit policies that do not define their own.
+     * 
+     * When not provided, 100 requests are allowed per window.
+     */
+    RATE_LIMIT_MAX_REQUESTS: string | undefined;
+
+    /**
+     * ## RATE_LIMIT_KEY_BY
+     * 
+     * Rate limit key environment variable.
+     * 
+     * @description How route rate limit policies that do not define their own tell clients apart:
+     * `ip` (by IP address) or `user` (by the username of the token, on authorized routes).
+     * The global rate limiter always keys by IP address.
+     * 
+     * When not provided, clients are keyed by IP address.
+     */
+    RATE_LIMIT_KEY_BY: string | undefined;
+
+    /**
+     * ## RATE_LIMIT_EXEMPT_ROLES
+     * 
+     * Rate limit exempt roles environment variable.
+     * 
+     * @description Comma-separated roles (e.g., `admin,service`) whose holders are never limited by route
+     * rate limit policies that do not define their own exemptions.
+     * 
+     * When not provided, no role is exempt.
+     */
+    RATE_LIMIT_EXEMPT_ROLES: string | undefined;
+
+    /**
+     * ## RATE_LIMIT_STORE
+     * 
+     * Rate limit store environment variable.
+     * 
+     * @description Where requests are counted: `memory` (per instance) or `database` (the `rate_limit_windows`
+     * table, shared by every instance).
+     * 
+     * When not provided, requests are counted in memory.
+     */
+    RATE_LIMIT_STORE: string | undefined;
+
+    /**
+     * ## RESPONSE_CACHE_MAX_ENTRIES
+     * 
+     * Response cache maximum entries environment variable.
+     * 
+     * @description Number of responses kept by the in-memory response cache store, the least recently
+     * used ones being evicted first.
+     * 
+     * When not provided, up to 1000 responses are kept.
+     */
+    RESPONSE_CACHE_MAX_ENTRIES: string | undefined;
+
+    /**
+     * ## IDEMPOTENCY_STORE
+     * 
+     * Idempotency store environment variable.
+     * 
+     * @description Where the responses of requests sent with an Idempotency-Key header are kept: `memory` (per instance)
+     * or `database` (the `idempotency_keys` table, shared by every instance).
+     * 
+     * When not provided, responses are kept in memory.
+     */
+    IDEMPOTENCY_STORE: string | undefined;
+
+    /**
+     * ## IDEMPOTENCY_TTL_SECONDS
+     * 
+     * Idempotency TTL environment variable.
+     * 
+     * @description How long, in seconds, the response of a request sent with an Idempotency-Key header is replayed
+     * to the retries reusing the key, on routes that do not define their own TTL.
+     * 
+     * When not provided, responses are replayed for 24 hours.
+     */
+    IDEMPOTENCY_TTL_SECONDS: string | undefined;
+
+    /**
+     * ## IDEMPOTENCY_LOCK_TIMEOUT_MS
+     * 
+     * Idempotency lock timeout environment variable.
+     * 
+     * @description How long, in milliseconds, a request sent with an Idempotency-Key header holds its key while in flight.
+     * Retries reusing the key meanwhile are answered with a 409 response; past this delay the request is deemed lost
+     * and a retry may run again.
+     * 
+     * When not provided, keys are held for 1 minute.
+     */
+    IDEMPOTENCY_LOCK_TIMEOUT_MS: string | undefined;
+
+    /**
+     * ## UPLOAD_STORAGE
+     * 
+     * Upload storage environment variable.
+     * 
+     * @description Where the files uploaded to multipart routes are kept while the request is handled: `memory`
+     * (as buffers) or `disk` (streamed to UPLOAD_DIRECTORY). Files are removed once the response is sent.
+     * 
+     * When not provided, files are streamed to disk.
+     */
+    UPLOAD_STORAGE: string | undefined;
+
+    /**
+     * ## UPLOAD_DIRECTORY
+     * 
+     * Upload directory environment variable.
+     * 
+     * @description Directory receiving the files uploaded to multipart routes when they are streamed to disk.
+     * It is created at startup when missing.
+     * 
+     * When not provided, the temporary directory of the operating system is used.
+     */
+    UPLOAD_DIRECTORY: string | undefined;
+
+    /**
+     * ## UPLOAD_MAX_FILES
+     * 
+     * Upload maximum files environment variable.
+     * 
+     * @description Number of files a request to a multipart route may carry, on routes that do not define their own limit.
+     * Requests carrying more are answered with a 413 response.
+     * 
+     * When not provided, up to 5 files are accepted.
+     */
+    UPLOAD_MAX_FILES: string | undefined;
+
+    /**
+     * ## UPLOAD_MAX_FILE_SIZE
+     * 
+     * Upload maximum file size environment variable.
+     * 
+     * @description Size in bytes of each file uploaded to a multipart route, on routes that do not define their own limit.
+     * Requests carrying a larger file are answered with a 413 response.
+     * 
+     * When not provided, files may weigh up to 10 MB.
+     */
+    UPLOAD_MAX_FILE_SIZE: string | undefined;
+
+    /**
+     * ## LOGIN_ATTEMPT_STORE
+     * 
+     * Login attempt store environment variable.
+     * 
+     * @description Where failed authentication attempts and lockouts are kept: `memory` (per instance) or `database`
+     * (the `login_attempts` table, shared by every instance).
+     * 
+     * When not provided, attempts are kept in memory.
+     */
+    LOGIN_ATTEMPT_STORE: string | undefined;
+
+    /**
+     * ## LOGIN_MAX_FAILED_ATTEMPTS
+     * 
+     * Login maximum failed attempts environment variable.
+     * 
+     * @description Number of failed authentication attempts for a username, within the failure window,
+     * after which the username is locked out.
+     * 
+     * When not provided, usernames are locked after 5 failures.
+     */
+    LOGIN_MAX_FAILED_ATTEMPTS: string | undefined;
+
+    /**
+     * ## LOGIN_IP_MAX_FAILED_ATTEMPTS
+     * 
+     * Login IP maximum failed attempts environment variable.
+     * 
+     * @description Number of failed authentication attempts from an IP address, within the failure window and whatever
+     * the usernames tried, after which the IP address is locked out.
+     * 
+     * When not provided, IP addresses are locked after 20 failures.
+     */
+    LOGIN_IP_MAX_FAILED_ATTEMPTS: string | undefined;
+
+    /**
+     * ## LOGIN_FAILURE_WINDOW_MS
+     * 
+     * Login failure window environment variable.
+     * 
+     * @description How long, in milliseconds, a failed authentication attempt counts towards the lockout thresholds.
+     * 
+     * When not provided, failures are remembered for 15 minutes.
+     */
+    LOGIN_FAILURE_WINDOW_MS: string | undefined;
+
+    /**
+     * ## LOGIN_LOCKOUT_DURATION_MS
+     * 
+     * Login lockout duration environment variable.
+     * 
+     * @description How long, in milliseconds, a locked out username or IP address is rejected.
+     * 
+     * When not provided, lockouts last 15 minutes.
+     */
+    LOGIN_LOCKOUT_DURATION_MS: string | undefined;
+
+    /**
+     * ## LOGIN_BASE_DELAY_MS
+     * 
+     * Login base delay environment variable.
+     * 
+     * @description Delay, in milliseconds, applied to the authentication attempt following a failure,
+     * doubled by each further failure.
+     * 
+     * When not provided, the delay starts at 250 milliseconds.
+     */
+    LOGIN_BASE_DELAY_MS: string | undefined;
+
+    /**
+     * ## LOGIN_MAX_DELAY_MS
+     * 
+     * Login maximum delay environment variable.
+     * 
+     * @description Upper bound, in milliseconds, of the progressive delay applied to authentication attempts.
+     * 
+     * When not provided, delays never exceed 5 seconds.
+     */
+    LOGIN_MAX_DELAY_MS: string | undefined;
+
+    /**
+     * ## NODE_ENV
+     * 
+     * Runtime environment variable.
+     * 
+     * @description Name of the environment the API runs in (e.g., `development`, `production`).
+     * In `production`, logs default to the JSON format.
+     * 
+     * When not provided, the API runs as `development`.
+     */
+    NODE_ENV: string | undefined;
+
+    /**
+     * ## SSL_CERT_PATH
+     * 
+     * SSL certificate path environment variable.
+     * 
+     * @description Path of the PEM certificate served over HTTPS. Relative paths are resolved from the
+     * working directory. When HTTPS is served, the server does not start if the file does not exist.
+     * The file is watched and reloaded without restart when it changes.
+     * 
+     * When not provided, `cert.pem` of the `expressium/ssl` directory is used.
+     */
+    SSL_CERT_PATH: string | undefined;
+
+    /**
+     * ## SSL_KEY_PATH
+     * 
+     * SSL private key path environment variable.
+     * 
+     * @description Path of the PEM private key of the certificate. Relative paths are resolved from the
+     * working directory. When HTTPS is served, the server does not start if the file does not exist.
+     * The file is watched and reloaded without restart when it changes.
+     * 
+     * When not provided, `key.pem` of the `expressium/ssl` directory is used.
+     */
+    SSL_KEY_PATH: string | undefined;
+
+    /**
+     * ## SSL_CA_PATH
+     * 
+     * SSL CA chain path environment variable.
+     * 
+     * @description Path of the PEM CA chain: the intermediate certificates sent along with the certificate,
+     * and the authorities trusted to sign client certificates when mutual TLS is enabled.
+     * The file is watched and reloaded without restart when it changes.
+     * 
+     * When not provided, the certificate is sent alone. Required when SSL_CLIENT_AUTH is `optional` or `required`.
+     */
+    SSL_CA_PATH: string | undefined;
+
+    /**
+     * ## SSL_PASSPHRASE
+     * 
+     * SSL private key passphrase environment variable.
+     * 
+     * @description Passphrase decrypting the private key of SSL_KEY_PATH, when it is encrypted.
+     * 
+     * When not provided, the private key must not be encrypted.
+     */
+    SSL_PASSPHRASE: string | undefined;
+
+    /**
+     * ## SSL_CLIENT_AUTH
+     * 
+     * SSL client authentication environment variable.
+     * 
+     * @description Whether HTTPS clients present a certificate signed by an authority of SSL_CA_PATH (mutual TLS):
+     * 
+     * - `none`: No client certificate is requested
+     * - `optional`: A certificate is requested; connections without a trusted one are accepted, but only routes
+     * not requiring a client certificate can be reached
+     * - `required`: Connections without a trusted certificate are refused during the TLS handshake
+     * 
+     * The identity of verified certificates is available to the authorization middleware and policies.
+     * 
+     * When not provided, no client certificate is requested.
+     */
+    SSL_CLIENT_AUTH: string | undefined;
+
+    /**
+     * ## CORS_ORIGINS
+     * 
+     * CORS allowed origins environment variable.
+     * 
+     * @description Comma-separated origins (e.g., `https://app.example.com,https://admin.example.com`)
+     * allowed to call the API from a browser. Each origin is made of a scheme, a host and an optional port.
+     * 
+     * When neither this variable nor CORS_ORIGIN_PATTERN is provided, every origin is allowed.
+     */
+    CORS_ORIGINS: string | undefined;
+
+    /**
+     * ## CORS_ORIGIN_PATTERN
+     * 
+     * CORS allowed origin pattern environment variable.
+     * 
+     * @description Regular expression matching further origins allowed to call the API from a browser
+     * (e.g., `^https://[a-z]+\.example\.com$`), on top of those listed in CORS_ORIGINS.
+     */
+    CORS_ORIGIN_PATTERN: string | undefined;
+
+    /**
+     * ## CORS_CREDENTIALS
+     * 
+     * CORS credentials environment variable.
+     * 
+     * @description Whether browsers may send cookies and authorization headers along with cross-origin
+     * requests ('true' or 'false'). Requires CORS_ORIGINS or CORS_ORIGIN_PATTERN.
+     * 
+     * When not provided, credentials are not allowed.
+     */
+    CORS_CREDENTIALS: string | undefined;
+
+    /**
+     * ## CORS_EXPOSED_HEADERS
+     * 
+     * CORS exposed headers environment variable.
+     * 
+     * @description Comma-separated response headers readable by browser scripts.
+     * 
+     * When not provided, the X-Request-ID, RateLimit, RateLimit-Policy, Retry-After, Deprecation, Sunset,
+     * Link and Idempotent-Replayed headers are exposed.
+     */
+    CORS_EXPOSED_HEADERS: string | undefined;
+
+    /**
+     * ## CORS_MAX_AGE
+     * 
+     * CORS preflight cache environment variable.
+     * 
+     * @description Duration, in seconds, during which browsers may cache the response of a preflight request.
+     * 
+     * When not provided, preflight responses are cached for 600 seconds.
+     */
+    CORS_MAX_AGE: string | undefined;
+
+    /**
+     * ## HELMET_CSP
+     * 
+     * Content Security Policy mode environment variable.
+     * 
+     * @description Whether the Content-Security-Policy header is sent ('enabled'), sent as
+     * Content-Security-Policy-Report-Only ('report-only') or omitted ('disabled').
+     * 
+     * When not provided, the policy is enabled.
+     */
+    HELMET_CSP: string | undefined;
+
+    /**
+     * ## HELMET_CSP_DIRECTIVES
+     * 
+     * Content Security Policy directives environment variable.
+     * 
+     * @description Directives in the header syntax (e.g., `default-src 'self'; img-src 'self' data:`),
+     * replacing the helmet defaults of the same name.
+     * 
+     * When not provided, the helmet default directives are used.
+     */
+    HELMET_CSP_DIRECTIVES: string | undefined;
+
+    /**
+     * ## HELMET_HSTS_MAX_AGE
+     * 
+     * Strict-Transport-Security max age environment variable.
+     * 
+     * @description Duration, in seconds, during which browsers only reach the API over HTTPS. 0 omits the header.
+     * 
+     * When not provided, the max age is 365 days.
+     */
+    HELMET_HSTS_MAX_AGE: string | undefined;
+
+    /**
+     * ## HELMET_HSTS_INCLUDE_SUBDOMAINS
+     * 
+     * Strict-Transport-Security subdomains environment variable.
+     * 
+     * @description Whether the HTTPS-only rule extends to every subdomain ('true' or 'false').
+     * 
+     * When not provided, subdomains are included.
+     */
+    HELMET_HSTS_INCLUDE_SUBDOMAINS: string | undefined;
+
+    /**
+     * ## HELMET_HSTS_PRELOAD
+     * 
+     * Strict-Transport-Security preload environment variable.
+     * 
+     * @description Whether the preload flag is set, requesting inclusion in the browsers HSTS preload lists ('true' or 'false').
+     * 
+     * When not provided, the flag is not set.
+     */
+    HELMET_HSTS_PRELOAD: string | undefined;
   } 
 }
@@ -1,9 +1,18 @@
-import { IncomingMessage, Server, ServerResponse } from 'http';
-import { ApiError, BaseError } from './errors';
+import { IServerBinding, IUploadedFile } from './interfaces';
+import { ApiError, BaseError, ConflictError, ForbiddenError, GoneError, NotFoundError, UnauthorizedError, ValidationError } from './errors';
 import { appRoute } from './routes';
-import { IRouteMap } from './routes/interfaces';
-import { cryptographyUtil, dateTimeFormatterUtil, HttpClientUtil } from './utils';
-import { IConfigurationMap } from './utils/interfaces';
+import { IRouteBuilder, IRouteDocumentation, IRouteMap, IServiceHandler, IValidationSchema } from './routes/interfaces';
+import { HttpMethod } from './routes/types';
+import { apiVersionUtil, authorizationPolicyUtil, bruteForceProtectionUtil, clientCertificateUtil, clusterUtil, configurationUtil, corsUtil, cryptographyUtil, dateTimeFormatterUtil, healthCheckUtil, httpCacheUtil, HttpClientUtil, idempotencyUtil, lifecycleUtil, LoggerUtil, loggingUtil, metricsUtil, openApiUtil, prismaUtil, rateLimitUtil, requestContextUtil, responseCacheUtil, tokenRevocationUtil, uploadUtil, validationSchemaUtil } from './utils';
+import { IApiVersionPolicy, IApplicationConfiguration, IAuthorizationPolicy, IAuthorizationRequirement, IBruteForceProtectionConfiguration, ICacheControlPolicy, IClientCertificate, IConfigurationMap, ICorsPolicy, IDeprecationPolicy, IHealthReport, IIdempotencyPolicy, ILogEntry, ILoggerConfiguration, IOpenApiDocument, IRateLimitPolicy, IRequestContext, IResponseCachePolicy, IShutdownHook, IUploadPolicy, IValidationField } from './utils/interfaces';
+import { HttpCheck, PrismaCheck, SqlServerCheck } from './utils/checks';
+import { IHealthCheck, ISqlServerConfiguration } from './utils/checks/interfaces';
+import { BaseMetric, CounterMetric, HistogramMetric } from './utils/metrics';
+import { IMetric } from './utils/metrics/interfaces';
+import { RotatingFileSink, StdoutSink } from './utils/sinks';
+import { ILogSink } from './utils/sinks/interfaces';
+import { DatabaseIdempotencyStore, DatabaseLoginAttemptStore, DatabaseRateLimitStore, DatabaseRevocationStore, MemoryIdempotencyStore, MemoryLoginAttemptStore, MemoryRateLimitStore, MemoryResponseCacheStore, MemoryRevocationStore } from './utils/stores';
+import { IIdempotencyRecord, IIdempotencyStore, ILoginAttempt, ILoginAttemptStore, IRateLimitStore, IResponseCacheEntry, IResponseCacheStore, IRevocationStore } from './utils/stores/interfaces';
 import { ApiKeyStrategy, BasicStrategy, BasicAndBearerTokenStrategy, BearerTokenStrategy, OAuth2Strategy } from './utils/strategies';
 import { IAuthenticationStrategy } from './utils/strategies/interfaces';
 import { createServer } from './app.module';
@@ -83,10 +92,56 @@ Object.isString = (element: unknown): element is string => {
   return Object.prototype.toString.call(element) === '[object String]';
 };
 
-const PORT = process.env.PORT ?? '3000';
 const LOG_INTERVAL = 10_000;
 const SHUTDOWN_SIGNALS = ['SIGTERM', 'SIGINT'] as const;
 
+/**
+ * ## getServerLogger
+ * 
+ * Returns a child of the root logger for server lifecycle entries.
+ * 
+ * @description The root logger is resolved on every call so that a logger replaced through
+ * loggingUtil.setLogger is honored by the server entries as well.
+ * 
+ * @returns The server logger.
+ */
+const getServerLogger = (): LoggerUtil.Logger => {
+  return loggingUtil.getLogger().child({ component: 'Server' });
+};
+
+/**
+ * ## exitAfterFlush
+ * 
+ * Exits the process once the root logger is flushed.
+ * 
+ * @description File sinks buffer their entries (see RotatingFileSink), so the entry explaining a fatal
+ * error would be lost if the process exited right away.
+ * 
+ * @async
+ * 
+ * @param code - The exit code.
+ * 
+ * @returns Promise that never resolves, since the process exits.
+ */
+const exitAfterFlush = async (code: number): Promise<never> => {
+  await loggingUtil.getLogger().flush().catch((): void => undefined);
+
+  process.exit(code);
+};
+
+/**
+ * ## getPortList
+ * 
+ * Lists the protocols and ports of the server bindings, for the server log entries.
+ * 
+ * @param serverBindingList - The server bindings.
+ * 
+ * @returns The protocol and port of each binding (e.g., 'https:3000').
+ */
+const getPortList = (serverBindingList: IServerBinding.IServerBinding[]): string[] => {
+  return serverBindingList.map(({ protocol, port }: IServerBinding.IServerBinding): string => `${ protocol }:${ port }`);
+};
+
 /**
  * ## setupPeriodicLogging
  * 
@@ -94,18 +149,28 @@ const SHUTDOWN_SIGNALS = ['SIGTERM', 'SIGINT'] as const;
  * 
  * @description This function initializes a recurring interval timer that logs server status information
  * to provide ongoing visibility into server health. It logs the current timestamp and
- * port number at regular intervals defined by {@link LOG_INTERVAL} (in milliseconds).
+ * the protocol and port of every server at regular intervals defined by {@link LOG_INTERVAL} (in milliseconds).
+ * 
+ * In cluster mode, only the primary logs its status, along with the number of running workers.
  * 
  * The timer is configured with unref() to ensure it doesn't prevent the Node.js process
  * from exiting if it's the only remaining event scheduled. This is important for proper
  * server shutdown handling.
  * 
+ * @param serverBindingList - The running server bindings.
+ * 
  * @returns A timer reference that can be used with clearInterval if needed.
  */
-const setupPeriodicLogging = (): NodeJS.Timeout => {
+const setupPeriodicLogging = (serverBindingList: IServerBinding.IServerBinding[]): NodeJS.Timeout => {
   return setInterval(
     (): void => {
-      console.log(`Server | Timestamp: ${ dateTimeFormatterUtil.formatAsDayMonthYearHoursMinutesSeconds(new Date()) } | Port: ${ PORT }`);
+      getServerLogger().info(
+        'Server running.', 
+        { 
+          portList: getPortList(serverBindingList), 
+          workerCount: clusterUtil.isClusterPrimary() ? clusterUtil.getWorkerCount() : undefined 
+        }
+      );
     }, 
     LOG_INTERVAL
   ).unref();
@@ -114,7 +179,7 @@ const setupPeriodicLogging = (): NodeJS.Timeout => {
 /**
  * ## setupGracefulShutdown
  * 
- * Configures graceful shutdown handlers for the server.
+ * Configures graceful shutdown handlers for the servers.
  * 
  * @description This function establishes signal handlers for graceful server shutdown, ensuring that
  * in-flight requests can complete before the server exits. It listens for the following signals:
@@ -122,115 +187,158 @@ const setupPeriodicLogging = (): NodeJS.Timeout => {
  * - SIGTERM: Standard termination signal
  * - SIGINT: Interrupt from keyboard (Ctrl+C)
  * 
- * When a shutdown signal is received, the function:
- * 
- * 1. Logs the shutdown initiation
- * 2. Calls server.close() to stop accepting new connections while existing ones complete
- * 3. Sets up a 5-second safety timeout that forces process termination if graceful shutdown hangs
+ * When a shutdown signal is received, the lifecycle manager drains the servers registered by startServer
+ * and runs the registered shutdown hooks (see {@link lifecycleUtil.shutdown}), every step sharing the
+ * SHUTDOWN_TIMEOUT_MS deadline. The process then exits with 0, or with 1 if a step failed or timed out.
  * 
- * The safety timeout uses unref() to ensure it doesn't prevent the process from exiting
- * naturally when graceful shutdown completes successfully.
+ * A second signal received while the shutdown is in progress exits immediately with 1.
  * 
- * @param server - The HTTP/HTTPS server instance to shut down gracefully.
+ * In cluster mode, the primary relays the shutdown to every worker and exits once they have all exited
+ * (see {@link clusterUtil.shutdownCluster}); forcing its exit terminates the workers as well. Workers shut down
+ * when asked by the primary, or when they lose their connection to it, and leave forced exits to the primary,
+ * since a Ctrl+C in a terminal signals the primary and the workers at once.
  */
-const setupGracefulShutdown = (server: Server<typeof IncomingMessage, typeof ServerResponse>): void => {
+const setupGracefulShutdown = (): void => {
+  const isClusterPrimary = clusterUtil.isClusterPrimary();
+  const isClusterWorker = clusterUtil.isClusterWorker();
+  let isShuttingDown = false;
+
+  const shutdown = async (reason: string): Promise<void> => {
+    isShuttingDown = true;
+
+    const isClean = isClusterPrimary ? await clusterUtil.shutdownCluster(reason) : await lifecycleUtil.shutdown(reason);
+
+    process.exit(isClean ? 0 : 1);
+  };
+
   SHUTDOWN_SIGNALS.forEach(
     (signal): void => {
       process.on(
         signal, 
-        (): void => {
-          console.log(`Server | Timestamp: ${ dateTimeFormatterUtil.formatAsDayMonthYearHoursMinutesSeconds(new Date()) } | Status: ${ signal } received. Shutting down the server`);
-          
-          server.close(
-            (): void => {
-              console.log(`Server | Timestamp: ${ dateTimeFormatterUtil.formatAsDayMonthYearHoursMinutesSeconds(new Date()) } | Status: Server closed`);
-              process.exit(0);
+        async (): Promise<void> => {
+          if (!isShuttingDown) {
+            await shutdown(signal);
+          } else if (!isClusterWorker) {
+            getServerLogger().warn('Forcing server shutdown.', { signal });
+
+            if (isClusterPrimary) {
+              clusterUtil.killWorkers();
             }
-          );
-          
-          setTimeout(
-            (): void => {
-              console.log(`Server | Timestamp: ${ dateTimeFormatterUtil.formatAsDayMonthYearHoursMinutesSeconds(new Date()) } | Status: Forcing server shutdown after timeout`);
-              process.exit(1);
-            }, 
-            5000
-          ).unref();
+
+            process.exit(1);
+          }
         }
       );
     }
   );
+
+  if (isClusterWorker) {
+    clusterUtil.onShutdownRequest((reason: string): void => void shutdown(reason));
+  }
 };
 
 /**
  * ## startServer
  * 
- * Initializes and starts the HTTPS server.
+ * Starts the HTTP and/or HTTPS servers created by createServer.
  * 
  * @description This function is the main entry point for starting the application server. It performs
  * the following operations:
  * 
- * 1. Starts the server on the port specified by the PORT environment variable (defaults to 3000)
- * 2. Sets up periodic status logging to monitor server health
- * 3. Configures graceful shutdown handlers to ensure clean application termination
+ * 1. Starts every server on its port (PORT, and HTTP_PORT for the plain HTTP server when SERVER_MODE is both)
+ * 2. Sets up periodic status logging to monitor server health, once every server is listening
+ * 3. Registers the servers with the lifecycle manager and configures graceful shutdown handlers to ensure
+ * clean application termination
  * 4. Establishes error handlers for server-specific errors (e.g., port conflicts)
  * 
  * The function implements comprehensive error handling to ensure that any startup errors
  * are properly logged and the process exits with an appropriate status code. This includes
  * special handling for the EADDRINUSE error, which occurs when the specified port is already in use.
  * 
+ * When CLUSTER_WORKERS is set, the primary process forks the workers instead of listening (see
+ * {@link clusterUtil.startCluster}) and is the only one logging its status periodically. Each worker runs
+ * the application entry point again and starts its own servers, sharing the ports of the primary.
+ * 
  * @async
  * 
- * @param serverInstance - The configured HTTPS server instance ready to listen.
+ * @param serverBindingList - The configured servers ready to listen, with their protocol and port.
  * 
  * @throws If the server fails to start or encounters runtime errors.
  * 
- * @returns A promise that resolves when the server starts successfully.
+ * @returns A promise that resolves with the server bindings once every server (or worker, in cluster mode) has started.
  */
-const startServer = async (serverInstance: Server<typeof IncomingMessage, typeof ServerResponse>): Promise<Server<typeof IncomingMessage, typeof ServerResponse>> => {
+const startServer = async (serverBindingList: IServerBinding.IServerBinding[]): Promise<IServerBinding.IServerBinding[]> => {
   try {
-    const RunningServerInstance = serverInstance.listen(
-      PORT, 
-      (): void => {
-        console.log(`Server | Timestamp: ${ dateTimeFormatterUtil.formatAsDayMonthYearHoursMinutesSeconds(new Date()) } | Status: Server started`);
-        setupPeriodicLogging();
+    if (clusterUtil.isClusterPrimary()) {
+      setupGracefulShutdown();
+      await clusterUtil.startCluster();
+      setupPeriodicLogging(serverBindingList);
+
+      return serverBindingList;
+    }
+
+    serverBindingList.forEach(
+      ({ protocol, port, server }: IServerBinding.IServerBinding): void => {
+        lifecycleUtil.registerServer(server);
+        server.on(
+          'error', 
+          (error: NodeJS.ErrnoException): void => {
+            if (error.code === 'EADDRINUSE') {
+              getServerLogger().error('Port is already in use.', { protocol, port });
+            } else {
+              getServerLogger().error('Server error.', { protocol, port, error });
+            }
+
+            void exitAfterFlush(1);
+          }
+        );
       }
     );
-    
-    setupGracefulShutdown(RunningServerInstance);
-    
-    RunningServerInstance.on(
-      'error', 
-      (error: NodeJS.ErrnoException): void => {
-        if (error.code === 'EADDRINUSE') {
-          console.log(`Server | Timestamp: ${ dateTimeFormatterUtil.formatAsDayMonthYearHoursMinutesSeconds(new Date()) } | Error: Port ${ PORT } is already in use`);
-        } else {
-          console.log(`Server | Timestamp: ${ dateTimeFormatterUtil.formatAsDayMonthYearHoursMinutesSeconds(new Date()) } | Error: ${ error.message }`);
-        }
 
-        process.exit(1);
-      }
+    setupGracefulShutdown();
+
+    await Promise.all(
+      serverBindingList.map(
+        ({ protocol, port, server }: IServerBinding.IServerBinding): Promise<void> => {
+          return new Promise<void>(
+            (resolve: () => void): void => {
+              server.listen(
+                port, 
+                (): void => {
+                  getServerLogger().info('Server started.', { protocol, port });
+                  resolve();
+                }
+              );
+            }
+          );
+        }
+      )
     );
 
-    return RunningServerInstance;
+    if (!clusterUtil.isClusterWorker()) {
+      setupPeriodicLogging(serverBindingList);
+    }
+
+    return serverBindingList;
   } catch (error: unknown) {
-    console.log(`Server | Timestamp: ${ dateTimeFormatterUtil.formatAsDayMonthYearHoursMinutesSeconds(new Date()) } | Error: ${ error instanceof Error ? error.message : String(error) }`);
-    process.exit(1);
+    getServerLogger().error('Server failed to start.', { error });
+    return exitAfterFlush(1);
   }
 };
 
 process.on(
   'uncaughtException', 
   (error: unknown): void => {
-    console.log(`Server | Timestamp: ${ dateTimeFormatterUtil.formatAsDayMonthYearHoursMinutesSeconds(new Date()) } | Error: ${ error instanceof Error ? error.message : String(error) }`);
-    process.exit(1);
+    getServerLogger().error('Uncaught exception.', { error });
+    void exitAfterFlush(1);
   }
 );
 
 process.on(
   'unhandledRejection', 
   (error: unknown): void => {
-    console.log(`Server | Timestamp: ${ dateTimeFormatterUtil.formatAsDayMonthYearHoursMinutesSeconds(new Date()) } | Error: ${ error instanceof Error ? error.message : String(error) }`);
-    process.exit(1);
+    getServerLogger().error('Unhandled rejection.', { error });
+    void exitAfterFlush(1);
   }
 );
 
@@ -241,75 +349,28 @@ export default startServer;
  * 
  * Creates and registers a single API route with the Express router.
  * 
- * @description This function provides a standardized way to define and register API routes throughout the application.
- * It encapsulates the complete route registration process, handling version validation, path construction,
- * middleware application, role-based authorization, and controller integration.
- * 
- * ### Key features:
- * 
- * - Version validation: Ensures API versions follow the required format (v + number) using regex validation
- * - Path construction: Automatically builds URL paths with consistent version prefixing
- * - Middleware integration: Handles authorization and custom middleware sequences in correct order
- * - Role-based access control: Supports limiting route access based on user roles
- * - Error handling: Logs validation errors and prevents invalid routes from registering
- * - Controller wrapping: Integrates with application controller for standardized request handling
- * - Consistent route structure: Enforces application-wide API URL pattern consistency
- * 
- * ### Route registration process:
- * 
- * 1. Validate the API version format against the regex pattern
- * 2. Log and abort if version format is invalid
- * 3. Build the complete route path with version prefix
- * 4. Apply authorization middleware if required (with optional role checking)
- * 5. Apply any custom middleware handlers in the specified order
- * 6. Wrap the service function with the application controller
- * 7. Register the complete route with the Express router using the specified HTTP method
- * 
- * ### URL path structure:
- * 
- * The final route path follows the pattern: `/<version>/<endpoint>`
- * Example: `/v1/users/profile` for version 'v1' and endpoint 'users/profile'
- * 
- * This unified route generation approach ensures consistency across the API and simplifies
- * the route definition process while enforcing architectural patterns.
- * 
- * Route authorization can be optionally disabled for public endpoints like health checks,
- * authentication endpoints, or public API documentation.
- * 
- * @param routeConfig - The complete route configuration object.
- * 
- * @param routeConfig.method - The HTTP method to use (get, post, put, delete, patch, etc.).
- * Must be a valid method name supported by Express Router.
+ * @description Re-exported from the route module: see appRoute.generateRoute (routes/app.route.ts) for the
+ * route configuration options, the validation rules and the registration process.
  * 
- * @param routeConfig.version - The API version identifier (e.g., 'v1', 'v2').
- * Must match the pattern 'v' followed by a number (e.g., v1, v2, v10).
- * 
- * @param routeConfig.endpoint - The endpoint path excluding the version prefix.
- * Can include route parameters (e.g., 'users/:id/profile')
- * and should not have a leading slash.
- * 
- * @param routeConfig.serviceHandler - The service function containing the business logic.
- * Will be wrapped by the application controller for
- * standardized request/response handling.
- * 
- * @param routeConfig.requiresAuthorization - Whether the route requires authorization (defaults to true).
- * When true, the authorization middleware will be applied
- * before any custom middleware.
- * When false, the route will be publicly accessible.
+ * @throws If the route definition is invalid. Nothing is registered in that case.
+ */
+export const generateRoute = appRoute.generateRoute;
+
+/**
+ * ## createRouteBuilder
  * 
- * @param routeConfig.roleList - Optional array of user role strings required to access this route.
- * If provided, only users with at least one matching role will be allowed.
+ * Creates a fluent builder registering the routes of an API version.
  * 
- * @param routeConfig.middlewareHandlerList - Optional array of middleware functions.
- * These will be executed in the provided order
- * after authorization (if enabled).
+ * @description Each method of the builder (get, post, put, patch, delete or route) registers a route through
+ * generateRoute as soon as it is called, so that invalid definitions throw at startup, and returns the builder
+ * to chain the next route. Its type parameters type the parameters, query, body and response data of the service.
  * 
- * @throws The function catches and logs validation errors, preventing invalid routes from registering.
- * It does not throw errors to the caller, ensuring application stability even with invalid route definitions.
+ * @param version - The API version of the routes (e.g., 'v1').
+ * @param defaultRouteOptions - Options applied to every route of the builder (e.g., roleList).
  * 
- * @returns The function registers the route with Express but does not return a value.
+ * @returns The route builder.
  */
-export const generateRoute = appRoute.generateRoute;
+export const createRouteBuilder = appRoute.createRouteBuilder;
 
 /**
  * ## router
@@ -324,19 +385,129 @@ export const generateRoute = appRoute.generateRoute;
  */
 export const router = appRoute.router;
 
+/**
+ * ## getRouteMapList
+ * 
+ * Lists the configuration of every route registered through generateRoute.
+ * 
+ * @description The route registry is filled as routes are generated, in registration order.
+ * It is used to generate the OpenAPI document served under '/api/docs' and can be inspected
+ * by any tooling that needs to know which routes the API exposes.
+ * 
+ * @returns A copy of the registered route configurations.
+ */
+export const getRouteMapList = appRoute.getRouteMapList;
+
+/**
+ * ## getAliasRouteList
+ * 
+ * Lists the routes served under the prefix of a version falling back to theirs.
+ * 
+ * @description Aliases are registered along with their routes, or when a version falling back to theirs is
+ * registered. Those overridden by a route generated for a closer version are left out. Along with
+ * getRouteMapList, it is used to generate the OpenAPI document served under '/api/docs'.
+ * 
+ * @returns The alias versions with the configuration of the routes they serve.
+ */
+export const getAliasRouteList = appRoute.getAliasRouteList;
+
 export { 
   ApiError,
   BaseError,
+  ConflictError,
+  ForbiddenError,
+  GoneError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+  IServerBinding,
+  IUploadedFile,
+  IRouteBuilder,
+  IRouteDocumentation,
   IRouteMap, 
+  IServiceHandler,
+  IValidationSchema,
+  HttpMethod,
+  apiVersionUtil,
+  authorizationPolicyUtil,
+  bruteForceProtectionUtil,
+  clientCertificateUtil,
+  clusterUtil,
+  configurationUtil,
+  corsUtil,
   cryptographyUtil, 
   dateTimeFormatterUtil, 
+  healthCheckUtil,
+  httpCacheUtil,
   HttpClientUtil,
+  idempotencyUtil,
+  lifecycleUtil,
+  LoggerUtil,
+  loggingUtil,
+  metricsUtil,
+  openApiUtil,
+  prismaUtil,
+  rateLimitUtil,
+  requestContextUtil,
+  responseCacheUtil,
+  tokenRevocationUtil,
+  uploadUtil,
+  validationSchemaUtil,
+  IApiVersionPolicy,
+  IApplicationConfiguration,
+  IAuthorizationPolicy,
+  IAuthorizationRequirement,
+  IBruteForceProtectionConfiguration,
+  ICacheControlPolicy,
+  IClientCertificate,
   IConfigurationMap, 
+  ICorsPolicy,
+  IDeprecationPolicy,
+  IHealthReport,
+  IIdempotencyPolicy,
+  ILogEntry,
+  ILoggerConfiguration,
+  IOpenApiDocument,
+  IRateLimitPolicy,
+  IRequestContext,
+  IResponseCachePolicy,
+  IShutdownHook,
+  IUploadPolicy,
+  IValidationField,
   ApiKeyStrategy, 
   BasicStrategy, 
   BasicAndBearerTokenStrategy, 
   BearerTokenStrategy, 
   OAuth2Strategy,
   IAuthenticationStrategy,
+  DatabaseIdempotencyStore,
+  DatabaseLoginAttemptStore,
+  DatabaseRateLimitStore,
+  DatabaseRevocationStore,
+  MemoryIdempotencyStore,
+  MemoryLoginAttemptStore,
+  MemoryRateLimitStore,
+  MemoryResponseCacheStore,
+  MemoryRevocationStore,
+  IIdempotencyRecord,
+  IIdempotencyStore,
+  ILoginAttempt,
+  ILoginAttemptStore,
+  IRateLimitStore,
+  IResponseCacheEntry,
+  IResponseCacheStore,
+  IRevocationStore,
+  RotatingFileSink,
+  StdoutSink,
+  ILogSink,
+  HttpCheck,
+  PrismaCheck,
+  SqlServerCheck,
+  IHealthCheck,
+  ISqlServerConfiguration,
+  BaseMetric,
+  CounterMetric,
+  HistogramMetric,
+  IMetric,
   createServer
 };
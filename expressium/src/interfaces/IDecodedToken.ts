@@ -19,12 +19,17 @@ import JWT from 'jsonwebtoken';
  * - User identity information
  * - Role-based access control data
  * - Token expiration metadata
+ * - Unique token identifier (jti), used to revoke individual tokens
+ * - Issue time in milliseconds (issuedAt), compared with user-wide revocations since the standard
+ *   iat claim only has a precision of one second; absent from tokens issued by earlier versions
  * 
  * This structure facilitates consistent token parsing and validation across different
  * parts of the application that handle authentication tokens.
  */
 export interface IDecodedToken extends JWT.JwtPayload {
+  jti: string;
   username: string;
   roleList: string[];
   expiresIn: number;
+  issuedAt?: number;
 }
@@ -1,4 +1,5 @@
 import { JsonValue } from "@prisma/client/runtime/library";
+import { IHealthReport } from '../utils/interfaces';
 
 /**
  * ## IResponseData
@@ -13,6 +14,7 @@ import { JsonValue } from "@prisma/client/runtime/library";
  * 
  * - Operational metadata (status indicators, timestamps, request context)
  * - User-facing information (messages and suggestions)
+ * - The request correlation ID, added automatically by the request context middleware
  * 
  * This structure facilitates consistent error handling, logging, and client-side processing
  * by maintaining predictable response formats throughout the application.
@@ -25,6 +27,70 @@ export interface IResponseData {
   method: string;
   message: string;
   suggestion: string;
+  requestId?: string;
+}
+
+/**
+ * ## IValidationResponseData
+ * 
+ * Response data structure for requests rejected by input validation.
+ * 
+ * @description This interface extends the standard response data with the list of fields that
+ * failed validation, allowing clients to highlight every invalid input at once instead of
+ * fixing them one request at a time.
+ * 
+ * Each entry of the error list identifies:
+ * 
+ * - The request location of the field (params, query, headers or body)
+ * - The field name, using dot notation for nested body fields
+ * - The validation message describing the problem
+ */
+export interface IValidationResponseData extends IResponseData {
+  errorList: {
+    location?: string;
+    field?: string;
+    message: string;
+  }[];
+}
+
+/**
+ * ## IErrorResponseData
+ * 
+ * Response data structure for requests answered by the error handling middleware.
+ * 
+ * @description This interface extends the standard response data with a stable, machine-readable
+ * error code (e.g., NOT_FOUND, UPSTREAM_TIMEOUT) that clients can branch on instead of parsing messages.
+ * 
+ * Errors may also carry a details payload (e.g., the conflicting fields) for programmatic handling.
+ * The stack trace of the error is only included when the API runs in debug mode.
+ */
+export interface IErrorResponseData extends IResponseData {
+  code: string;
+  details?: unknown;
+  stack?: string;
+}
+
+/**
+ * ## IProblemDetails
+ * 
+ * RFC 9457 problem details object sent to clients that accept 'application/problem+json'.
+ * 
+ * @description This interface describes the standard problem details members (type, title, status,
+ * detail and instance) followed by the extension members shared with the standard error envelope,
+ * so that clients receive the same information whichever representation they ask for.
+ */
+export interface IProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  instance: string;
+  code: string;
+  suggestion: string;
+  timestamp: string;
+  requestId?: string;
+  details?: unknown;
+  stack?: string;
 }
 
 /**
@@ -39,8 +105,8 @@ export interface IResponseData {
  * In addition to standard response fields, it includes authentication context data such as:
  * 
  * - User identity information
- * - Authorization credentials (JWT token)
- * - Session metadata (expiration)
+ * - Authorization credentials (JWT token and rotating refresh token)
+ * - Session metadata (access and refresh token expiration)
  * - Role-based access control information
  * 
  * This standardized format ensures that authentication flows can be consistently implemented
@@ -57,5 +123,53 @@ export interface IAuthenticationResponseData {
     roleList: JsonValue;
     token: string;
     expiresIn: number;
+    refreshToken: string;
+    refreshExpiresIn: number;
   };
 }
+
+/**
+ * ## IHealthResponseData
+ * 
+ * Response data structure for the liveness and readiness endpoints.
+ * 
+ * @description This interface extends the standard response pattern with the health of the API:
+ * 
+ * - Liveness: Only the process status, uptime and version, since answering at all proves the process is alive
+ * - Readiness: The full report of the registered checks, with their individual status and latency
+ */
+export interface IHealthResponseData {
+  status: boolean;
+  statusCode: number;
+  timestamp: string;
+  path: string;
+  method: string;
+  data: IHealthReport.IHealthReport | Pick<IHealthReport.IHealthReport, 'status' | 'uptimeSeconds' | 'version'>;
+}
+
+/**
+ * ## IRouteListResponseData
+ * 
+ * Response data structure for the route listing endpoint.
+ * 
+ * @description This interface extends the standard response pattern with every route of the registry,
+ * in registration order, described by its method, full path and access rules, along with the summary
+ * and tags of its documentation.
+ */
+export interface IRouteListResponseData {
+  status: boolean;
+  statusCode: number;
+  timestamp: string;
+  path: string;
+  method: string;
+  data: {
+    method: string;
+    path: string;
+    version: string;
+    requiresAuthorization: boolean;
+    roleList: string[];
+    permissionList: string[];
+    summary?: string;
+    tagList: string[];
+  }[];
+}
@@ -0,0 +1,22 @@
+import http from 'http';
+import https from 'https';
+
+/**
+ * ## IServerBinding
+ * 
+ * Server created by createServer along with the protocol and port it listens on.
+ * 
+ * @description Depending on SERVER_MODE, createServer returns one binding (http or https) or two (both),
+ * which startServer then starts, monitors and shuts down together.
+ * 
+ * The binding includes:
+ * 
+ * - protocol: 'http' for plain HTTP (e.g., behind a TLS-terminating proxy) or 'https'
+ * - port: Port the server listens on (PORT, or HTTP_PORT for the plain HTTP server when both protocols are served)
+ * - server: The Node.js server serving the Express application
+ */
+export interface IServerBinding {
+  protocol: 'http' | 'https';
+  port: number;
+  server: http.Server | https.Server;
+}
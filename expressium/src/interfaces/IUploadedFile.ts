@@ -0,0 +1,30 @@
+/**
+ * ## IUploadedFile
+ * 
+ * File received by a multipart route.
+ * 
+ * @description The upload middleware exposes the files of the request to its middleware and service as
+ * `(req as any).fileList`, in the order they were received. The file includes:
+ * 
+ * - fieldName: Name of the form field carrying the file
+ * - originalName: File name sent by the client, which must not be trusted as a path
+ * - encoding: Transfer encoding of the part (e.g., '7bit')
+ * - mimeType: MIME type declared by the client (e.g., 'text/csv')
+ * - size: Size of the file in bytes
+ * - digest: SHA-256 digest of the content, base64url encoded, computed while the file is received (it is part
+ * of the idempotency fingerprint of the request)
+ * - path: Where the file was streamed to, when the route stores uploads on disk
+ * - buffer: Content of the file, when the route keeps uploads in memory
+ * 
+ * Files are removed once the response is sent, so services must copy or move the ones they keep.
+ */
+export interface IUploadedFile {
+  fieldName: string;
+  originalName: string;
+  encoding: string;
+  mimeType: string;
+  size: number;
+  digest: string;
+  path?: string;
+  buffer?: Buffer;
+}
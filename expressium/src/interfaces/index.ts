@@ -2,3 +2,5 @@ export * as IDecodedToken from './IDecodedToken';
 export * as IReqBody from './IReqBody';
 export * as IResponse from './IResponse';
 export * as IResponseData from './IResponseData';
+export * as IServerBinding from './IServerBinding';
+export * as IUploadedFile from './IUploadedFile';
@@ -0,0 +1,131 @@
+import { Request, RequestHandler, Response, NextFunction } from 'express';
+import { ApiError, GoneError } from '../errors';
+import { apiVersionUtil } from '../utils';
+import { IDeprecationPolicy } from '../utils/interfaces';
+
+const VERSIONED_PATH_REGEX = /^\/v[0-9]+(\/|$)/;
+const UNVERSIONED_PATH_REGEX = /^\/docs(\/|$)/;
+
+/**
+ * ## negotiateApiVersion
+ * 
+ * Routes requests without a version prefix to the version asked for in the Accept-Version header.
+ * 
+ * @description Mounted under '/api' before the routers, so that clients can call '/api/bulletins' with an
+ * 'Accept-Version: v2' (or '2') header instead of '/api/v2/bulletins'. The request URL is rewritten with the
+ * version prefix, so that the request is handled exactly as if the prefix had been sent, and the response
+ * varies on the header.
+ * 
+ * Paths already carrying a version prefix and the documentation under '/api/docs' are left untouched.
+ * Header values that are not a version are answered with a 400 response.
+ * 
+ * @param req - Express Request object.
+ * @param res - Express Response object.
+ * @param next - Express NextFunction for continuing the middleware chain.
+ */
+export const negotiateApiVersion = (
+  req: Request, 
+  res: Response, 
+  next: NextFunction
+): void => {
+  const acceptVersion = req.header('Accept-Version');
+
+  if (acceptVersion === undefined || VERSIONED_PATH_REGEX.test(req.path) || UNVERSIONED_PATH_REGEX.test(req.path)) {
+    next();
+
+    return;
+  }
+
+  const version = apiVersionUtil.normalizeApiVersion(acceptVersion);
+
+  if (!version) {
+    next(
+      new ApiError.ApiError(
+        'The Accept-Version header does not name an API version.',
+        'INVALID_API_VERSION',
+        400,
+        { acceptVersion },
+        'Send the version as v<number> or <number> (e.g., v2).'
+      )
+    );
+
+    return;
+  }
+
+  req.url = `/${ version }${ req.url }`;
+  res.vary('Accept-Version');
+  next();
+};
+
+/**
+ * ## generateDeprecation
+ * 
+ * Creates the middleware enforcing the deprecation schedule of a route.
+ * 
+ * @description The schedule combines the policy of the version the route is served under, registered through
+ * apiVersionUtil.registerApiVersion, with the policy of the route (see apiVersionUtil.getDeprecationPolicy).
+ * It is read on every request, so versions registered after the route still apply.
+ * 
+ * - Before the sunset date: The Deprecation, Sunset and Link headers are set and the request continues
+ * - From the sunset date: The request is answered with a 410 response, before authorization runs
+ * 
+ * @param version - The API version the route is served under.
+ * @param routeDeprecationPolicy - The deprecation policy of the route, if any.
+ * 
+ * @returns Middleware enforcing the deprecation schedule.
+ */
+export const generateDeprecation = (
+  version: string, 
+  routeDeprecationPolicy?: IDeprecationPolicy.IDeprecationPolicy
+): RequestHandler => {
+  return (
+    _req: Request,
+    res: Response,
+    next: NextFunction
+  ): void => {
+    const deprecationPolicy = apiVersionUtil.getDeprecationPolicy(version, routeDeprecationPolicy);
+    const { sunsetAt, link } = deprecationPolicy;
+
+    if (sunsetAt && sunsetAt.getTime() <= Date.now()) {
+      next(
+        new GoneError.GoneError(
+          'This endpoint is no longer available.',
+          { details: { sunsetAt: sunsetAt.toISOString(), link } }
+        )
+      );
+
+      return;
+    }
+
+    res.set(apiVersionUtil.getDeprecationHeaderMap(deprecationPolicy));
+    next();
+  };
+};
+
+/**
+ * ## generateFallback
+ * 
+ * Creates the middleware guarding a route aliased under the prefix of a version that falls back to its version.
+ * 
+ * @description The alias is registered along with the route, which may be before the version overrides it.
+ * When the override exists, the alias is skipped so that the request reaches the overriding route.
+ * 
+ * @param isOverridden - Function returning whether a closer version defines the same route.
+ * 
+ * @returns Middleware skipping the alias once overridden.
+ */
+export const generateFallback = (isOverridden: () => boolean): RequestHandler => {
+  return (
+    _req: Request,
+    _res: Response,
+    next: NextFunction
+  ): void => {
+    if (isOverridden()) {
+      next('route');
+
+      return;
+    }
+
+    next();
+  };
+};
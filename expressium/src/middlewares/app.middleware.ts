@@ -1,12 +1,13 @@
 import { Request, Response, NextFunction } from 'express';
 import JWT from 'jsonwebtoken';
 import { IDecodedToken, IResponse, IResponseData } from '../interfaces';
-import { dateTimeFormatterUtil } from '../utils';
+import { authorizationPolicyUtil, clientCertificateUtil, configurationUtil, dateTimeFormatterUtil, loggingUtil, tokenRevocationUtil } from '../utils';
+import { IAuthorizationRequirement } from '../utils/interfaces';
 
 /**
  * ## getAuthorization
  * 
- * Authorizes requests using JWT token verification and role-based access control.
+ * Authorizes requests using JWT token verification and policy-based access control.
  * 
  * @description This middleware function validates JWT tokens provided in the Authorization
  * header for subsequent API requests after initial authentication. It verifies
@@ -15,31 +16,34 @@ import { dateTimeFormatterUtil } from '../utils';
  * 
  * The function handles:
  * 
+ * - Client certificate verification for routes requiring mutual TLS
  * - JWT token presence verification in the Authorization header
- * - Environment variable validation (JWT_SECRET)
- * - Token signature verification using the secret from environment variables
+ * - Token signature verification using the JWT secret of the application configuration
  * - Token expiration checking with ISO timestamp comparison
- * - Role-based access control through optional roleList parameter
+ * - Token revocation checking against the active revocation store, tokens of inactive users included
+ * - Access control through the route's roles (any-of or all-of), permissions and custom policies
  * - Detailed error handling for various JWT error types
  * - Standardized error response format with timestamps and suggestions
  * 
  * ### Authentication Flow:
  * 
- * 1. Check for JWT_SECRET in environment variables
+ * 1. Verify the client certificate when the route requires one
  * 2. Verify Authorization header presence
  * 3. Decode and verify JWT token
- * 4. Validate user roles if roleList is provided
- * 5. Check token expiration
- * 6. Attach user data to request object
+ * 4. Check token expiration
+ * 5. Check the token has not been revoked (logout) and its user is still active (see tokenRevocationUtil.isUserActive)
+ * 6. Evaluate the route's authorization requirement (roles, permissions and policies)
+ * 7. Attach user data and the client certificate identity (when one was verified) to request object
  * 
  * ### Error Scenarios:
  * 
- * - Missing JWT_SECRET: 500 Internal Server Error
+ * - Missing or untrusted client certificate on a route requiring one: 401 Unauthorized
  * - Missing Authorization header: 401 Unauthorized
  * - Invalid token signature: 401 Unauthorized
  * - Token not yet active: 401 Unauthorized
  * - Expired token: 401 Unauthorized 
- * - Insufficient role permissions: 401 Unauthorized
+ * - Revoked token or inactive user: 401 Unauthorized
+ * - Authorization requirement not satisfied: 403 Forbidden
  * - Unexpected errors: 500 Internal Server Error
  * 
  * Each error response includes detailed information about the error cause,
@@ -48,7 +52,8 @@ import { dateTimeFormatterUtil } from '../utils';
  * @param req - Express Request object containing auth header and body.
  * @param res - Express Response object.
  * @param next - Express NextFunction for continuing the middleware chain.
- * @param roleList - Optional array of user roles to check against the token's roleList. 
+ * @param authorizationRequirement - Optional roles, permissions and policies the requester must satisfy.
+ * Roles are expanded through the role hierarchy configured in authorizationPolicyUtil.
  * 
  * @returns Promise resolving to void (continues middleware chain) or error response.
  */
@@ -56,23 +61,25 @@ export const getAuthorization = async (
   req: Request,
   res: Response,
   next: NextFunction,
-  roleList?: string[]
+  authorizationRequirement?: IAuthorizationRequirement.IAuthorizationRequirement
 ): Promise<IResponse.IResponse<IResponseData.IResponseData> | void> => {
-  if (!process.env.JWT_SECRET) {
+  const clientCertificate = clientCertificateUtil.getClientCertificate(req);
+
+  if (authorizationRequirement?.requireClientCertificate && !clientCertificate) {
     res
-      .status(500)
+      .status(401)
       .json(
         {
           status: false,
-          statusCode: 500,
+          statusCode: 401,
           timestamp: dateTimeFormatterUtil.formatAsDayMonthYearHoursMinutesSeconds(new Date()),
           path: req.originalUrl || req.url,
           method: req.method,
-          message: 'API configuration not found.',
-          suggestion: 'The requested API type is not properly configured in the system.' 
+          message: 'Client certificate is missing or untrusted.',
+          suggestion: 'Connect over HTTPS with a client certificate issued by a trusted authority.'
         }
       );
-    
+
     return;
   }
 
@@ -102,31 +109,9 @@ export const getAuthorization = async (
         reqHeadersAuthorization.startsWith('Bearer ') 
           ? reqHeadersAuthorization.split(' ')[1] 
           : reqHeadersAuthorization, 
-        process.env.JWT_SECRET
+        configurationUtil.getConfiguration().jwt.secret
       ) as IDecodedToken.IDecodedToken;
 
-      roleList?.forEach(
-        (role: string) => {
-          if (!decodedToken.roleList.includes(role)) {
-            res
-              .status(401)
-              .json(
-                {
-                  status: false,
-                  statusCode: 401,
-                  timestamp: dateTimeFormatterUtil.formatAsDayMonthYearHoursMinutesSeconds(new Date()),
-                  path: req.originalUrl || req.url,
-                  method: req.method,
-                  message: 'Insufficient permissions.',
-                  suggestion: 'Contact your administrator for access to this resource.'
-                }
-              );
-            
-            return;
-          }
-        }
-      );
-
       if ('expiresIn' in decodedToken && Date.now() > decodedToken.expiresIn) {
         res
           .status(401)
@@ -145,14 +130,51 @@ export const getAuthorization = async (
         return;
       }
 
+      if (await tokenRevocationUtil.getRevocationStore().isRevoked(decodedToken) || !(await tokenRevocationUtil.isUserActive(decodedToken.username))) {
+        res
+          .status(401)
+          .json(
+            {
+              status: false,
+              statusCode: 401,
+              timestamp: dateTimeFormatterUtil.formatAsDayMonthYearHoursMinutesSeconds(new Date()),
+              path: req.originalUrl || req.url,
+              method: req.method,
+              message: 'Your authentication token has been revoked.',
+              suggestion: 'Please log in again to obtain a new token.' 
+            }
+          );
+
+        return;
+      }
+
+      if (!(await authorizationPolicyUtil.evaluateAuthorization(req, decodedToken, authorizationRequirement))) {
+        res
+          .status(403)
+          .json(
+            {
+              status: false,
+              statusCode: 403,
+              timestamp: dateTimeFormatterUtil.formatAsDayMonthYearHoursMinutesSeconds(new Date()),
+              path: req.originalUrl || req.url,
+              method: req.method,
+              message: 'Insufficient permissions.',
+              suggestion: 'Contact your administrator for access to this resource.'
+            }
+          );
+
+        return;
+      }
+
       (req as any).user = decodedToken;
+      (req as any).clientCertificate = clientCertificate;
 
       next();
 
       return;
     } catch(error: unknown) {
       if (error instanceof JWT.JsonWebTokenError) {
-        console.log(`Middleware | Timestamp: ${ dateTimeFormatterUtil.formatAsDayMonthYearHoursMinutesSeconds(new Date()) } | Name: getAuthorization | Error: ${ error instanceof Error ? error.message : String(error) }`);
+        loggingUtil.getRequestLogger(req, 'Middleware').warn('Authorization rejected.', { name: 'getAuthorization', reason: error.message });
 
         res
           .status(401)
@@ -170,7 +192,7 @@ export const getAuthorization = async (
 
         return;
       } else if (error instanceof JWT.NotBeforeError) {
-        console.log(`Middleware | Timestamp: ${ dateTimeFormatterUtil.formatAsDayMonthYearHoursMinutesSeconds(new Date()) } | Name: getAuthorization | Error: ${ error instanceof Error ? error.message : String(error) }`);
+        loggingUtil.getRequestLogger(req, 'Middleware').warn('Authorization rejected.', { name: 'getAuthorization', reason: error.message });
 
         res
           .status(401)
@@ -188,7 +210,7 @@ export const getAuthorization = async (
 
         return;
       } else if (error instanceof JWT.TokenExpiredError) {
-        console.log(`Middleware | Timestamp: ${ dateTimeFormatterUtil.formatAsDayMonthYearHoursMinutesSeconds(new Date()) } | Name: getAuthorization | Error: ${ error instanceof Error ? error.message : String(error) }`);
+        loggingUtil.getRequestLogger(req, 'Middleware').warn('Authorization rejected.', { name: 'getAuthorization', reason: error.message });
 
         res
           .status(401)
@@ -210,7 +232,7 @@ export const getAuthorization = async (
       throw error;
     }
   } catch (error: unknown) {
-    console.log(`Middleware | Timestamp: ${ dateTimeFormatterUtil.formatAsDayMonthYearHoursMinutesSeconds(new Date()) } | Name: getAuthorization | Error: ${ error instanceof Error ? error.message : String(error) }`);
+    loggingUtil.getRequestLogger(req, 'Middleware').error('Authorization failed.', { name: 'getAuthorization', error });
 
     res
       .status(500)
@@ -0,0 +1,36 @@
+import { CorsOptions } from 'cors';
+import { Request, RequestHandler, Response, NextFunction } from 'express';
+
+/**
+ * ## generateCorsPolicy
+ * 
+ * Creates the middleware selecting the CORS options of a route.
+ * 
+ * @description The application CORS middleware runs before the router, so it cannot know which route
+ * a request targets. generateRoute mounts this middleware on appRoute.corsPolicyRouter, which the application
+ * runs right before the CORS middleware: for requests targeting the route, the options are stored in res.locals,
+ * where the CORS middleware picks them up instead of the application ones.
+ * 
+ * Preflight requests are matched against the method they announce in the Access-Control-Request-Method header,
+ * so that routes sharing a path can have different policies.
+ * 
+ * @param method - HTTP method of the route.
+ * @param corsOptions - The cors middleware options of the route.
+ * 
+ * @returns Middleware selecting the CORS options of the route.
+ */
+export const generateCorsPolicy = (method: string, corsOptions: CorsOptions): RequestHandler => {
+  return (
+    req: Request, 
+    res: Response, 
+    next: NextFunction
+  ): void => {
+    const requestMethod = (req.method === 'OPTIONS' ? req.header('Access-Control-Request-Method') : req.method)?.toLowerCase();
+
+    if (requestMethod === method.toLowerCase() || (requestMethod === 'head' && method.toLowerCase() === 'get')) {
+      res.locals.corsOptions = corsOptions;
+    }
+
+    next();
+  };
+};
@@ -0,0 +1,117 @@
+import { AxiosError } from 'axios/index';
+import { Request, Response, NextFunction } from 'express';
+import { ApiError, BaseError, ConflictError, NotFoundError } from '../errors';
+import { configurationUtil, loggingUtil } from '../utils';
+
+const UPSTREAM_TIMEOUT_CODE_LIST = ['ECONNABORTED', 'ETIMEDOUT'];
+const PRISMA_ERROR_CODE_REGEX = /^P\d{4}$/;
+
+/**
+ * ## resolveError
+ * 
+ * Maps any thrown value to the BaseError describing the response sent to the client.
+ * 
+ * @description Errors are recognized in the following order:
+ * 
+ * 1. BaseError subclasses (ApiError and the typed errors such as NotFoundError): used as they are
+ * 2. Axios errors raised by the HttpClient, detected by their `isAxiosError` flag: 504 when the upstream
+ * service timed out, 502 otherwise
+ * 3. Prisma known request errors, detected by shape so that no Prisma import is required:
+ * P2002 (unique constraint violation) as a ConflictError and P2025 (record not found) as a NotFoundError
+ * 4. Client errors raised by Express middlewares (e.g., malformed JSON bodies), which carry an exposable 4xx status
+ * 5. Anything else as a 500 whose message is never disclosed
+ * 
+ * Upstream and database error messages are never disclosed, since they may reveal internal hosts or schema details.
+ * 
+ * @param error - The value thrown or passed to next().
+ * 
+ * @returns The error to serialize in the response.
+ */
+const resolveError = (error: unknown): BaseError.BaseError => {
+  if (error instanceof BaseError.BaseError) {
+    return error;
+  }
+
+  if (Object.isObject(error) && 'isAxiosError' in error && error.isAxiosError === true) {
+    return UPSTREAM_TIMEOUT_CODE_LIST.includes((error as AxiosError).code ?? '')
+      ? new ApiError.ApiError('An upstream service did not respond in time.', 'UPSTREAM_TIMEOUT', 504, undefined, 'Please try again in a few moments.')
+      : new ApiError.ApiError('An upstream service returned an invalid response.', 'UPSTREAM_ERROR', 502);
+  }
+
+  if (Object.isObject(error) && 'code' in error && Object.isString(error.code) && PRISMA_ERROR_CODE_REGEX.test(error.code) && 'clientVersion' in error) {
+    if (error.code === 'P2002') {
+      return new ConflictError.ConflictError('A record with the same unique values already exists.');
+    }
+
+    if (error.code === 'P2025') {
+      return new NotFoundError.NotFoundError('The requested record was not found.');
+    }
+  }
+
+  if (Object.isObject(error) && 'status' in error && typeof error.status === 'number' && error.status >= 400 && error.status < 500 && 'expose' in error && error.expose) {
+    return new ApiError.ApiError(error instanceof Error ? error.message : 'The request could not be processed.', 'BAD_REQUEST', error.status);
+  }
+
+  return new ApiError.ApiError('Something went wrong.', 'INTERNAL_SERVER_ERROR', 500);
+};
+
+/**
+ * ## handleError
+ * 
+ * Central Express error middleware producing the standard error response.
+ * 
+ * @description This middleware receives every error passed to next() or thrown by a handler, including
+ * the errors thrown by services wrapped with generateController. It must be registered after every
+ * route so that it catches errors from all of them.
+ * 
+ * The middleware:
+ * 
+ * 1. Delegates to the default Express handler when the response has already started
+ * 2. Maps the error to a BaseError with its status and code (see {@link resolveError})
+ * 3. Logs server errors (5xx) as errors and client errors (4xx) as warnings, with the request context
+ * 4. Sends an RFC 9457 problem details object ('application/problem+json') when the client prefers it
+ * in its Accept header, and the standard response envelope extended with the error `code` otherwise
+ * 
+ * Stack traces are only included in the response when DEBUG_MODE is enabled in the application configuration.
+ * 
+ * @param error - The value thrown or passed to next().
+ * @param req - Express Request object.
+ * @param res - Express Response object.
+ * @param next - Express NextFunction, used when the response has already started.
+ */
+export const handleError = (
+  error: unknown,
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (res.headersSent) {
+    next(error);
+
+    return;
+  }
+
+  const resolvedError = resolveError(error);
+  const logger = loggingUtil.getRequestLogger(req, 'Middleware');
+
+  if (resolvedError.status >= 500) {
+    logger.error('Request failed.', { name: 'handleError', statusCode: resolvedError.status, code: resolvedError.code, error });
+  } else {
+    logger.warn('Request rejected.', { name: 'handleError', statusCode: resolvedError.status, code: resolvedError.code, reason: error instanceof Error ? error.message : String(error) });
+  }
+
+  const stack = configurationUtil.getConfiguration().debugMode && error instanceof Error ? { stack: error.stack } : {};
+
+  if (req.accepts(['application/json', 'application/problem+json']) === 'application/problem+json') {
+    res
+      .status(resolvedError.status)
+      .type('application/problem+json')
+      .json({ ...resolvedError.toProblemDetails(req), ...stack });
+
+    return;
+  }
+
+  res
+    .status(resolvedError.status)
+    .json({ ...resolvedError.toResponseData(req), ...stack });
+};
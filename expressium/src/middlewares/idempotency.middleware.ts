@@ -0,0 +1,146 @@
+import crypto from 'crypto';
+import { Request, RequestHandler, Response, NextFunction } from 'express';
+import { ApiError, ConflictError } from '../errors';
+import { idempotencyUtil, loggingUtil } from '../utils';
+import { IIdempotencyPolicy } from '../utils/interfaces';
+
+const IDEMPOTENCY_KEY_MAX_LENGTH = 255;
+
+/**
+ * ## generateIdempotency
+ * 
+ * Creates the middleware making the requests of a route idempotent.
+ * 
+ * @description Requests carrying an Idempotency-Key header are handled depending on the record of their key
+ * (see idempotencyUtil.getIdempotencyKey):
+ * 
+ * - No record: The key is locked and the request continues; its response is stored once sent, unless its status
+ * is 500 or above, in which case the key is released so that the client can retry
+ * - Record of a different payload: The request is answered with a 422 response
+ * - Record of a request still in flight: The request is answered with a 409 response
+ * - Record of a completed request: Its status and body are replayed with an 'Idempotent-Replayed: true' header,
+ * without running the service
+ * 
+ * Requests without the header run as usual, unless the policy requires it, in which case they are answered
+ * with a 400 response. Keys are released as well when the client disconnects before the response is sent.
+ * 
+ * Properties left out of the policy fall back to idempotencyUtil.getDefaultIdempotencyPolicy, resolved on each
+ * request so that a store set afterwards with idempotencyUtil.setIdempotencyStore applies to the route. Each
+ * request claims its key with a random lock token, and only settles the record while it still holds it.
+ * Keys are only scoped to the user when the middleware runs after the authorization middleware.
+ * 
+ * @param routePath - Route template of the route (e.g., '/v1/bulletins'), which namespaces its keys.
+ * @param idempotencyPolicy - The idempotency policy of the route.
+ * 
+ * @returns Middleware enforcing the idempotency policy.
+ */
+export const generateIdempotency = (
+  routePath: string, 
+  idempotencyPolicy: IIdempotencyPolicy.IIdempotencyPolicy = {}
+): RequestHandler => {
+  return async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    const { isRequired, ttlSeconds, lockTimeoutMs, store } = { 
+      ...idempotencyUtil.getDefaultIdempotencyPolicy(), 
+      ...idempotencyPolicy 
+    };
+
+    const idempotencyKey = req.header('Idempotency-Key');
+
+    if (idempotencyKey === undefined) {
+      if (isRequired) {
+        next(
+          new ApiError.ApiError(
+            'The Idempotency-Key header is required.',
+            'IDEMPOTENCY_KEY_REQUIRED',
+            400,
+            undefined,
+            'Send a unique Idempotency-Key header (e.g., a UUID) with the request.'
+          )
+        );
+
+        return;
+      }
+
+      next();
+
+      return;
+    }
+
+    if (idempotencyKey.trim() === '' || idempotencyKey.length > IDEMPOTENCY_KEY_MAX_LENGTH) {
+      next(
+        new ApiError.ApiError(
+          'The Idempotency-Key header is invalid.',
+          'INVALID_IDEMPOTENCY_KEY',
+          400,
+          { maxLength: IDEMPOTENCY_KEY_MAX_LENGTH },
+          'Send a non-empty key of at most 255 characters (e.g., a UUID).'
+        )
+      );
+
+      return;
+    }
+
+    try {
+      const key = idempotencyUtil.getIdempotencyKey(req, routePath, idempotencyKey);
+      const fingerprint = idempotencyUtil.getRequestFingerprint(req);
+      const lockToken = crypto.randomUUID();
+      const now = Date.now();
+      const idempotencyRecord = await store.acquire(key, lockToken, fingerprint, new Date(now + lockTimeoutMs), new Date(now + ttlSeconds * 1000));
+
+      if (idempotencyRecord) {
+        if (idempotencyRecord.fingerprint !== fingerprint) {
+          next(
+            new ApiError.ApiError(
+              'The Idempotency-Key header was already used for a different request.',
+              'IDEMPOTENCY_KEY_MISMATCH',
+              422,
+              undefined,
+              'Send a new Idempotency-Key header for each distinct request.'
+            )
+          );
+        } else if (idempotencyRecord.status === null) {
+          next(
+            new ConflictError.ConflictError(
+              'A request with the same Idempotency-Key header is still being processed.',
+              { code: 'IDEMPOTENCY_KEY_IN_FLIGHT', suggestion: 'Wait for the first request to complete before retrying.' }
+            )
+          );
+        } else {
+          res
+            .status(idempotencyRecord.status)
+            .setHeader('Idempotent-Replayed', 'true')
+            .json(idempotencyRecord.envelope);
+        }
+
+        return;
+      }
+
+      const sendJson = res.json.bind(res);
+      let envelope: Record<string, unknown> | undefined;
+
+      res.json = (body: Record<string, unknown>): Response => {
+        envelope = body;
+
+        return sendJson(body);
+      };
+
+      res.once(
+        'close',
+        (): void => {
+          const isCompleted = res.writableFinished && envelope !== undefined && res.statusCode < 500;
+
+          (isCompleted ? store.complete(key, lockToken, { status: res.statusCode, envelope: envelope ?? null }, new Date(Date.now() + ttlSeconds * 1000)) : store.release(key, lockToken))
+            .catch((error: unknown): void => loggingUtil.getRequestLogger(req, 'Middleware').warn('Idempotency key could not be settled.', { name: 'generateIdempotency', error }));
+        }
+      );
+
+      next();
+    } catch (error: unknown) {
+      next(error);
+    }
+  };
+};
@@ -1 +1,11 @@
+export * as apiVersionMiddleware from './apiVersion.middleware';
 export * as appMiddleware from './app.middleware';
+export * as corsMiddleware from './cors.middleware';
+export * as errorMiddleware from './error.middleware';
+export * as idempotencyMiddleware from './idempotency.middleware';
+export * as lifecycleMiddleware from './lifecycle.middleware';
+export * as metricsMiddleware from './metrics.middleware';
+export * as rateLimitMiddleware from './rateLimit.middleware';
+export * as requestContextMiddleware from './requestContext.middleware';
+export * as uploadMiddleware from './upload.middleware';
+export * as validationMiddleware from './validation.middleware';
@@ -0,0 +1,38 @@
+import { Request, Response, NextFunction } from 'express';
+import { lifecycleUtil } from '../utils';
+
+/**
+ * ## closeConnectionWhileShuttingDown
+ * 
+ * Asks clients to close their keep-alive connections once the shutdown has started.
+ * 
+ * @description Closing a server only stops it from accepting new connections, while clients may keep
+ * sending requests over their open keep-alive connections. During the shutdown, every response carries
+ * a 'Connection: close' header, so that each connection is closed as soon as its current response is sent
+ * and clients reconnect to another instance. Requests already in flight when the shutdown starts have their
+ * connection ended once their response is sent, since their headers may already be written.
+ * 
+ * @param req - Express Request object.
+ * @param res - Express Response object.
+ * @param next - Express NextFunction for continuing the middleware chain.
+ */
+export const closeConnectionWhileShuttingDown = (
+  req: Request, 
+  res: Response, 
+  next: NextFunction
+): void => {
+  if (lifecycleUtil.isShuttingDown()) {
+    res.setHeader('Connection', 'close');
+  } else {
+    res.once(
+      'finish', 
+      (): void => {
+        if (lifecycleUtil.isShuttingDown()) {
+          req.socket.end();
+        }
+      }
+    );
+  }
+
+  next();
+};
@@ -0,0 +1,41 @@
+import { Request, RequestHandler, Response, NextFunction } from 'express';
+import { metricsUtil } from '../utils';
+
+/**
+ * ## generateRequestMetrics
+ * 
+ * Creates the middleware recording the request metrics of a route.
+ * 
+ * @description generateRoute places this middleware first in the chain of every route, so that the
+ * recorded duration covers the authorization and validation middlewares besides the service, and
+ * requests they reject are counted as well.
+ * 
+ * Once the response is finished, the request is counted and its duration observed, labelled with the
+ * route template given here rather than the concrete path, which keeps route parameters (e.g., IDs)
+ * out of the labels. Requests whose client disconnects before the response is finished are not recorded.
+ * 
+ * @param route - Route template of the route (e.g., '/v1/users/:id').
+ * 
+ * @returns Middleware recording the request metrics of the route.
+ */
+export const generateRequestMetrics = (route: string): RequestHandler => {
+  return (
+    req: Request, 
+    res: Response, 
+    next: NextFunction
+  ): void => {
+    const startTime = performance.now();
+
+    res.once(
+      'finish', 
+      (): void => {
+        const labelMap = { method: req.method, route, status_code: res.statusCode };
+
+        metricsUtil.httpRequestCounter.increment(labelMap);
+        metricsUtil.httpRequestDurationHistogram.observe(labelMap, metricsUtil.getDurationInSeconds(startTime));
+      }
+    );
+
+    next();
+  };
+};
@@ -0,0 +1,108 @@
+import { Request, Response } from 'express';
+import { rateLimit, RateLimitRequestHandler } from 'express-rate-limit';
+import { IDecodedToken } from '../interfaces';
+import { authorizationPolicyUtil, dateTimeFormatterUtil, metricsUtil, rateLimitUtil } from '../utils';
+import { IRateLimitPolicy } from '../utils/interfaces';
+import { IRateLimitStore } from '../utils/stores/interfaces';
+
+/**
+ * ## generateRateLimit
+ * 
+ * Creates a rate limiter middleware enforcing a rate limit policy.
+ * 
+ * @description The limiter counts requests in fixed windows through the policy store, falling back to the
+ * application rate limit store, and behaves as follows:
+ * 
+ * - Keys are namespaced by the limiter name, so limiters sharing a store never share counts
+ * - Clients are keyed by the username of their token when the policy says so and the request was
+ * authorized, and by IP address otherwise
+ * - Requests from users holding an exempt role, inherited roles included, are neither counted nor limited
+ * - Rate limit information is sent in the draft-8 standard RateLimit headers
+ * - Rejections are counted in the rate_limit_rejections_total metric, labelled by limiter name
+ * 
+ * When a client exceeds the limit, the handler returns a JSON response with:
+ * 
+ * - HTTP status code 429 (Too Many Requests)
+ * - Current timestamp
+ * - Reset time (when the rate limit window expires)
+ * - Informative message and suggestion
+ * 
+ * Properties left out of the policy fall back to rateLimitUtil.getDefaultRateLimitPolicy. The store is resolved
+ * on each request, so that a store set afterwards with rateLimitUtil.setRateLimitStore applies to the limiter.
+ * User keys and role exemptions require the limiter to run after the authorization middleware.
+ * 
+ * @param name - Name of the limiter (e.g., 'global' or the route template), used in keys and metrics.
+ * @param rateLimitPolicy - The rate limit policy to enforce.
+ * 
+ * @returns Configured Express middleware.
+ */
+export const generateRateLimit = (
+  name: string, 
+  rateLimitPolicy: IRateLimitPolicy.IRateLimitPolicy = {}
+): RateLimitRequestHandler => {
+  const { windowMs, limit, keyBy, exemptRoleList } = { 
+    ...rateLimitUtil.getDefaultRateLimitPolicy(), 
+    ...rateLimitPolicy 
+  };
+
+  const prefix = `${ name }:`;
+
+  const getStore = (): IRateLimitStore.IRateLimitStore => {
+    return rateLimitPolicy.store ?? rateLimitUtil.getRateLimitStore();
+  };
+
+  const getUsername = (req: Request): string | undefined => {
+    return ((req as any).user as IDecodedToken.IDecodedToken | undefined)?.username;
+  };
+
+  return rateLimit(
+    {
+      windowMs,
+      limit,
+      standardHeaders: 'draft-8',
+      legacyHeaders: false,
+      store: {
+        prefix,
+        localKeys: false,
+        increment: (key: string): Promise<{ totalHits: number; resetTime: Date }> => getStore().increment(`${ prefix }${ key }`, windowMs),
+        decrement: (key: string): Promise<void> => getStore().decrement(`${ prefix }${ key }`),
+        resetKey: (key: string): Promise<void> => getStore().resetKey(`${ prefix }${ key }`)
+      },
+      keyGenerator: (req: Request): string => {
+        const username = getUsername(req);
+
+        return keyBy === 'user' && username ? `user:${ username }` : `ip:${ req.ip }`;
+      },
+      skip: (req: Request): boolean => {
+        const roleList = ((req as any).user as IDecodedToken.IDecodedToken | undefined)?.roleList;
+
+        if (exemptRoleList.length === 0 || !Array.isArray(roleList)) {
+          return false;
+        }
+
+        return authorizationPolicyUtil
+          .resolveRoleList(roleList)
+          .some((role: string): boolean => exemptRoleList.includes(role));
+      },
+      handler: (
+        req: Request,
+        res: Response
+      ): void => {
+        metricsUtil.rateLimitRejectionCounter.increment({ limiter: name });
+
+        res
+          .status(429)
+          .json(
+            {
+              status: false,
+              statusCode: 429,
+              timestamp: dateTimeFormatterUtil.formatAsDayMonthYearHoursMinutesSeconds(new Date()),
+              resetTime: dateTimeFormatterUtil.formatAsDayMonthYearHoursMinutesSeconds(req.rateLimit.resetTime as Date),
+              message: keyBy === 'user' && getUsername(req) ? 'Too many requests from this user.' : 'Too many requests from this IP.',
+              suggestion: 'Please wait before trying again.'
+            }
+          );
+      }
+    }
+  );
+};
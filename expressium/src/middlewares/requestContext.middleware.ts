@@ -0,0 +1,46 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { requestContextUtil } from '../utils';
+
+const REQUEST_ID_REGEX = /^[\w\-.:]{1,128}$/;
+
+/**
+ * ## establishRequestContext
+ * 
+ * Establishes the request context and correlation ID of each inbound request.
+ * 
+ * @description This middleware must be registered before any other middleware so that the whole
+ * request is handled within its context. It:
+ * 
+ * 1. Honors the X-Request-ID header sent by the client or a proxy, when it is made of up to 128
+ * letters, digits, underscores, hyphens, dots or colons, and generates a UUID otherwise
+ * 2. Echoes the request ID in the X-Request-ID response header
+ * 3. Adds a `requestId` field to every standard JSON envelope sent in the response
+ * 4. Runs the remaining middlewares and handlers within the request context, making the ID available
+ * to services, the logger and the HttpClient through requestContextUtil
+ * 
+ * @param req - Express Request object.
+ * @param res - Express Response object.
+ * @param next - Express NextFunction for continuing the middleware chain.
+ */
+export const establishRequestContext = (
+  req: Request, 
+  res: Response, 
+  next: NextFunction
+): void => {
+  const reqHeadersRequestId = req.headers['x-request-id'];
+
+  const requestId = Object.isString(reqHeadersRequestId) && REQUEST_ID_REGEX.test(reqHeadersRequestId) 
+    ? reqHeadersRequestId 
+    : crypto.randomUUID();
+
+  const json = res.json.bind(res);
+
+  res.setHeader('X-Request-ID', requestId);
+
+  res.json = (body?: any): Response => {
+    return json(Object.isObject(body) && 'statusCode' in body && !('requestId' in body) ? { ...body, requestId } : body);
+  };
+
+  requestContextUtil.runWithRequestContext({ requestId, method: req.method, path: req.originalUrl || req.url }, next);
+};
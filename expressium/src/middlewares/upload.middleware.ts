@@ -0,0 +1,298 @@
+import busboy from 'busboy';
+import crypto from 'crypto';
+import { Request, RequestHandler, Response, NextFunction } from 'express';
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { ApiError } from '../errors';
+import { IUploadedFile } from '../interfaces';
+import { loggingUtil, uploadUtil } from '../utils';
+import { IUploadPolicy } from '../utils/interfaces';
+
+const MAX_FIELD_COUNT = 100;
+const MAX_FIELD_SIZE_BYTES = 1024 * 1024;
+
+/**
+ * ## generateUpload
+ * 
+ * Creates the middleware parsing the multipart requests of a route.
+ * 
+ * @description The multipart/form-data body is streamed through busboy, without ever being buffered whole:
+ * 
+ * - Files are kept in memory or streamed to the upload directory under a random name, depending on the policy,
+ * digested on the fly and exposed as `(req as any).fileList` (see IUploadedFile)
+ * - Text fields are exposed as req.body, repeated fields as arrays, so that the validation schema applies to them
+ * - Files are removed once the response is sent, whatever its outcome
+ * 
+ * Requests breaking the policy are answered as soon as the first violation is detected, without reading the rest
+ * of the body: the files received so far are removed and the connection is closed once the response is sent. They
+ * are answered with:
+ * 
+ * - 413 (Payload Too Large): Too many files or fields, or a file or field exceeding its size limit
+ * - 415 (Unsupported Media Type): A file whose MIME type is not allowed, or a body that is not multipart
+ * while the policy requires files
+ * - 400 (Bad Request): A malformed body, or no file while the policy requires files
+ * 
+ * Requests of other content types run as usual unless the policy requires files.
+ * 
+ * @param uploadPolicy - The upload policy of the route.
+ * 
+ * @returns Middleware parsing the multipart body.
+ * 
+ * @throws If the upload policy is invalid (see uploadUtil.resolveUploadPolicy).
+ */
+export const generateUpload = (uploadPolicy: IUploadPolicy.IUploadPolicy = {}): RequestHandler => {
+  const { storage, directory, maxFileCount, maxFileSizeBytes, allowedMimeTypeList, isRequired } = uploadUtil.resolveUploadPolicy(uploadPolicy);
+
+  return (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): void => {
+    if (!req.is('multipart/form-data')) {
+      if (isRequired) {
+        next(
+          new ApiError.ApiError(
+            'The request body must be multipart/form-data.',
+            'UNSUPPORTED_MEDIA_TYPE',
+            415,
+            { contentType: req.header('Content-Type') ?? null },
+            'Send the files as a multipart/form-data request.'
+          )
+        );
+
+        return;
+      }
+
+      next();
+
+      return;
+    }
+
+    let parser: busboy.Busboy;
+
+    try {
+      parser = busboy(
+        { 
+          headers: req.headers, 
+          defParamCharset: 'utf8',
+          limits: { 
+            files: maxFileCount, 
+            fileSize: maxFileSizeBytes, 
+            fields: MAX_FIELD_COUNT, 
+            fieldSize: MAX_FIELD_SIZE_BYTES 
+          } 
+        }
+      );
+    } catch {
+      next(new ApiError.ApiError('The multipart request body is malformed.', 'INVALID_MULTIPART_BODY', 400, undefined, 'Check the boundary of the Content-Type header.'));
+
+      return;
+    }
+
+    const fileList: IUploadedFile.IUploadedFile[] = [];
+    const fileStreamSet = new Set<Readable>();
+    const writePromiseList: Promise<void>[] = [];
+    const fieldMap: Record<string, string | string[]> = Object.create(null);
+    let uploadError: unknown;
+    let isSettled = false;
+
+    const fail = (error: unknown): void => {
+      uploadError ??= error;
+      void settle();
+    };
+
+    const writeFile = async (fileStream: Readable, uploadedFile: IUploadedFile.IUploadedFile): Promise<void> => {
+      const hash = crypto.createHash('sha256');
+
+      async function* digestChunkList(source: AsyncIterable<Buffer>): AsyncGenerator<Buffer> {
+        for await (const chunk of source) {
+          hash.update(chunk);
+          yield chunk;
+        }
+      }
+
+      if (uploadedFile.path !== undefined) {
+        const writeStream = fs.createWriteStream(uploadedFile.path);
+
+        await pipeline(fileStream, digestChunkList, writeStream);
+        uploadedFile.size = writeStream.bytesWritten;
+        uploadedFile.digest = hash.digest('base64url');
+
+        return;
+      }
+
+      const chunkList: Buffer[] = [];
+
+      for await (const chunk of digestChunkList(fileStream)) {
+        chunkList.push(chunk);
+      }
+
+      uploadedFile.buffer = Buffer.concat(chunkList);
+      uploadedFile.size = uploadedFile.buffer.length;
+      uploadedFile.digest = hash.digest('base64url');
+    };
+
+    const settle = async (): Promise<void> => {
+      if (isSettled) {
+        return;
+      }
+
+      isSettled = true;
+      req.unpipe(parser);
+
+      if (uploadError) {
+        req.pause();
+        res.setHeader('Connection', 'close');
+        fileStreamSet.forEach((fileStream: Readable): Readable => fileStream.destroy());
+      } else {
+        req.resume();
+      }
+
+      await Promise.all(writePromiseList);
+
+      if (!uploadError && isRequired && fileList.length === 0) {
+        uploadError = new ApiError.ApiError('The request carries no file.', 'UPLOAD_FILE_REQUIRED', 400, undefined, 'Attach at least one file to the request.');
+      }
+
+      if (uploadError) {
+        await uploadUtil.removeUploadedFileList(fileList);
+        next(uploadError);
+
+        return;
+      }
+
+      res.once(
+        'close',
+        (): void => {
+          uploadUtil
+            .removeUploadedFileList(fileList)
+            .catch((error: unknown): void => loggingUtil.getRequestLogger(req, 'Middleware').warn('Uploaded files could not be removed.', { name: 'generateUpload', error }));
+        }
+      );
+
+      req.body = fieldMap;
+      (req as any).fileList = fileList;
+      next();
+    };
+
+    parser.on(
+      'file',
+      (fieldName: string, fileStream: Readable, { filename, encoding, mimeType }: busboy.FileInfo): void => {
+        if (uploadError) {
+          fileStream.resume();
+
+          return;
+        }
+
+        if (!uploadUtil.isMimeTypeAllowed(mimeType, allowedMimeTypeList)) {
+          fail(
+            new ApiError.ApiError(
+              'The MIME type of an uploaded file is not allowed.',
+              'UPLOAD_MIME_TYPE_NOT_ALLOWED',
+              415,
+              { fieldName, mimeType, allowedMimeTypeList },
+              'Upload files of the allowed types only.'
+            )
+          );
+
+          fileStream.resume();
+
+          return;
+        }
+
+        const uploadedFile: IUploadedFile.IUploadedFile = {
+          fieldName,
+          originalName: filename ?? '',
+          encoding,
+          mimeType,
+          size: 0,
+          digest: '',
+          ...(storage === 'disk' ? { path: path.join(directory, `upload-${ crypto.randomUUID() }`) } : {})
+        };
+
+        fileList.push(uploadedFile);
+        fileStreamSet.add(fileStream);
+
+        fileStream.once(
+          'limit',
+          (): void => {
+            fail(
+              new ApiError.ApiError(
+                'An uploaded file exceeds the maximum size.',
+                'UPLOAD_FILE_TOO_LARGE',
+                413,
+                { fieldName, maxFileSizeBytes },
+                'Upload smaller files.'
+              )
+            );
+          }
+        );
+
+        writePromiseList.push(
+          writeFile(fileStream, uploadedFile)
+            .catch(fail)
+            .finally((): boolean => fileStreamSet.delete(fileStream))
+        );
+      }
+    );
+
+    parser.on(
+      'field',
+      (fieldName: string, value: string, { valueTruncated }: busboy.FieldInfo): void => {
+        if (valueTruncated) {
+          fail(
+            new ApiError.ApiError(
+              'A form field exceeds the maximum size.',
+              'UPLOAD_FIELD_TOO_LARGE',
+              413,
+              { fieldName, maxFieldSizeBytes: MAX_FIELD_SIZE_BYTES },
+              'Send shorter form fields.'
+            )
+          );
+
+          return;
+        }
+
+        const fieldValue = fieldMap[fieldName];
+
+        fieldMap[fieldName] = fieldValue === undefined ? value : [...(Array.isArray(fieldValue) ? fieldValue : [fieldValue]), value];
+      }
+    );
+
+    parser.on(
+      'filesLimit',
+      (): void => {
+        fail(new ApiError.ApiError('The request carries too many files.', 'UPLOAD_TOO_MANY_FILES', 413, { maxFileCount }, 'Upload fewer files per request.'));
+      }
+    );
+
+    parser.on(
+      'fieldsLimit',
+      (): void => {
+        fail(new ApiError.ApiError('The request carries too many form fields.', 'UPLOAD_TOO_MANY_FIELDS', 413, { maxFieldCount: MAX_FIELD_COUNT }, 'Send fewer form fields.'));
+      }
+    );
+
+    parser.once(
+      'error',
+      (): void => {
+        fail(new ApiError.ApiError('The multipart request body is malformed.', 'INVALID_MULTIPART_BODY', 400, undefined, 'Check the multipart encoding of the request.'));
+      }
+    );
+
+    parser.once('close', (): void => void settle());
+
+    req.once(
+      'close',
+      (): void => {
+        if (!req.complete) {
+          fail(new ApiError.ApiError('The client closed the connection before the request was received.', 'CLIENT_CLOSED_REQUEST', 499));
+        }
+      }
+    );
+
+    req.pipe(parser);
+  };
+};
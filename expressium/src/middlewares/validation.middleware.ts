@@ -0,0 +1,87 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { checkSchema, Location, ValidationChain, ValidationError, validationResult } from 'express-validator';
+import { IValidationSchema } from '../routes/interfaces';
+import { dateTimeFormatterUtil } from '../utils';
+
+/**
+ * ## getValidationResult
+ * 
+ * Rejects the request when any of the preceding validation chains failed.
+ * 
+ * @description This middleware collects the errors recorded by the express-validator chains
+ * generated from a route's validation schema. When there are none, the request continues to
+ * the next handler. Otherwise it is answered with a 400 Bad Request in the standard response
+ * format, extended with an `errorList` describing each invalid field.
+ * 
+ * Only the first error of each field is reported, keeping the list focused on what the client
+ * has to fix.
+ * 
+ * @param req - Express Request object, already processed by the validation chains.
+ * @param res - Express Response object.
+ * @param next - Express NextFunction for continuing the middleware chain.
+ */
+const getValidationResult = (
+  req: Request, 
+  res: Response, 
+  next: NextFunction
+): void => {
+  const result = validationResult(req);
+
+  if (result.isEmpty()) {
+    next();
+
+    return;
+  }
+
+  res
+    .status(400)
+    .json(
+      {
+        status: false,
+        statusCode: 400,
+        timestamp: dateTimeFormatterUtil.formatAsDayMonthYearHoursMinutesSeconds(new Date()),
+        path: req.originalUrl || req.url,
+        method: req.method,
+        message: 'Request validation failed.',
+        suggestion: 'Review the fields listed in errorList and try again.',
+        errorList: result
+          .array({ onlyFirstError: true })
+          .map(
+            (error: ValidationError): { location?: string, field?: string, message: string } => {
+              return error.type === 'field' 
+                ? { location: error.location, field: error.path, message: String(error.msg) }
+                : { message: String(error.msg) };
+            }
+          )
+      }
+    );
+};
+
+/**
+ * ## generateValidation
+ * 
+ * Generates the middleware list that validates a request against a route's validation schema.
+ * 
+ * @description This function translates an IValidationSchema into express-validator chains, one
+ * `checkSchema` call per declared location, followed by {@link getValidationResult}, which stops
+ * the request with a 400 response when any field is invalid.
+ * 
+ * Sanitizers declared in the schema (e.g., `toInt`, `trim`) are applied to the request before the
+ * controller runs, so services receive already normalized values.
+ * 
+ * @param validationSchema - The validation schema declared in the route configuration.
+ * 
+ * @returns Ordered list of Express middlewares to register before the controller.
+ */
+export const generateValidation = (validationSchema: IValidationSchema.IValidationSchema): RequestHandler[] => {
+  const validationChainList = (Object.keys(validationSchema) as (keyof IValidationSchema.IValidationSchema & Location)[])
+    .flatMap(
+      (location: keyof IValidationSchema.IValidationSchema & Location): ValidationChain[] => {
+        const fieldSchemaMap = validationSchema[location];
+
+        return fieldSchemaMap ? checkSchema(fieldSchemaMap, [location]) : [];
+      }
+    );
+
+  return [...validationChainList, getValidationResult];
+};
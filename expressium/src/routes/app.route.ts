@@ -1,11 +1,12 @@
-import { Request, Response, Router, NextFunction } from 'express';
+import { CorsOptions } from 'cors';
+import { Request, RequestHandler, Response, Router, NextFunction } from 'express';
 import path from 'path';
 import { appController } from '../controllers';
-import { IResponse, IResponseData } from '../interfaces';
-import { IRouteMap } from './interfaces';
-import { appMiddleware } from '../middlewares';
-import { appService } from '../services';
-import { dateTimeFormatterUtil } from '../utils';
+import { IRouteBuilder, IRouteMap, IServiceHandler } from './interfaces';
+import { HttpMethod } from './types';
+import { apiVersionMiddleware, appMiddleware, corsMiddleware, idempotencyMiddleware, metricsMiddleware, rateLimitMiddleware, uploadMiddleware, validationMiddleware } from '../middlewares';
+import { appService, healthService, routeService } from '../services';
+import { apiVersionUtil, corsUtil, responseCacheUtil } from '../utils';
 
 /**
  * ## router
@@ -20,7 +21,134 @@ import { dateTimeFormatterUtil } from '../utils';
  */
 export const router = Router();
 
-const versionRegex = /^v[0-9]+$/;
+/**
+ * ## corsPolicyRouter
+ * 
+ * Router selecting the CORS policy of the routes that define their own.
+ * 
+ * @description Mounted under '/api' right before the application CORS middleware, which runs before
+ * {@link router}. It only records the CORS options of the targeted route (see corsMiddleware.generateCorsPolicy)
+ * and never answers requests itself.
+ */
+export const corsPolicyRouter = Router();
+
+const httpMethodList: HttpMethod.HttpMethod[] = ['get', 'post', 'put', 'patch', 'delete', 'head', 'options'];
+
+const endpointRegex = /^[^/\s]\S*$/;
+
+const routeMapList: IRouteMap.IRouteMap[] = [];
+
+const routeKeySet = new Set<string>();
+
+/**
+ * ## routeRegistrarMap
+ * 
+ * Functions registering each generated route under the prefix of a version, by route key.
+ * 
+ * @description Kept so that routes can be aliased under the versions falling back to theirs, including versions
+ * registered after the routes were generated (see {@link registerAliasRouteList}).
+ */
+const routeRegistrarMap = new Map<string, (routeVersion: string, fallbackHandlerList: RequestHandler[]) => void>();
+
+/**
+ * ## aliasRouteKeySet
+ * 
+ * Aliases already registered, as '<route key> <- <source version>'.
+ */
+const aliasRouteKeySet = new Set<string>();
+
+/**
+ * ## aliasRouteList
+ * 
+ * Aliases registered by {@link registerAliasRouteList}, with the route they serve and whether they are overridden.
+ */
+const aliasRouteList: { version: string; routeMap: IRouteMap.IRouteMap; isOverridden: () => boolean }[] = [];
+
+/**
+ * ## getRouteKey
+ * 
+ * Identifies a route by its method and path (e.g., 'GET /v1/health/live').
+ * 
+ * @param method - HTTP method of the route.
+ * @param version - API version of the route.
+ * @param endpoint - Endpoint of the route.
+ * 
+ * @returns The route key.
+ */
+const getRouteKey = (method: string, version: string, endpoint: string): string => {
+  return `${ String(method).toUpperCase() } /${ version }/${ endpoint }`;
+};
+
+/**
+ * ## registerAliasRouteList
+ * 
+ * Registers generated routes under the prefix of the versions falling back to their version.
+ * 
+ * @description Aliases already registered are skipped, so that it can run whenever a version is registered.
+ * Each alias is guarded by apiVersionMiddleware.generateFallback, which skips it once a version closer to
+ * the alias version defines the same route.
+ * 
+ * @param aliasedRouteMapList - The routes to alias.
+ */
+const registerAliasRouteList = (aliasedRouteMapList: IRouteMap.IRouteMap[]): void => {
+  aliasedRouteMapList.forEach(
+    (routeMap: IRouteMap.IRouteMap): void => {
+      const { method, version, endpoint } = routeMap;
+      const registerRoute = routeRegistrarMap.get(getRouteKey(method, version, endpoint));
+
+      apiVersionUtil.getAliasVersionList(version).forEach(
+        ({ version: aliasVersion, overridingVersionList }: { version: string; overridingVersionList: string[] }): void => {
+          const aliasRouteKey = `${ getRouteKey(method, aliasVersion, endpoint) } <- ${ version }`;
+
+          if (!registerRoute || aliasRouteKeySet.has(aliasRouteKey)) {
+            return;
+          }
+
+          const isOverridden = (): boolean => {
+            return overridingVersionList.some((overridingVersion: string): boolean => routeKeySet.has(getRouteKey(method, overridingVersion, endpoint)));
+          };
+
+          aliasRouteKeySet.add(aliasRouteKey);
+          aliasRouteList.push({ version: aliasVersion, routeMap, isOverridden });
+          registerRoute(aliasVersion, [apiVersionMiddleware.generateFallback(isOverridden)]);
+        }
+      );
+    }
+  );
+};
+
+apiVersionUtil.onApiVersionRegistered((): void => registerAliasRouteList(routeMapList));
+
+/**
+ * ## getRouteMapList
+ * 
+ * Lists the configuration of every route registered through {@link generateRoute}.
+ * 
+ * @description The route registry is filled as routes are generated, in registration order.
+ * It is used to generate the OpenAPI document and can be inspected by any tooling that needs
+ * to know which routes the API exposes.
+ * 
+ * @returns A copy of the registered route configurations.
+ */
+export const getRouteMapList = (): IRouteMap.IRouteMap[] => {
+  return [...routeMapList];
+};
+
+/**
+ * ## getAliasRouteList
+ * 
+ * Lists the routes served under the prefix of a version falling back to theirs.
+ * 
+ * @description Aliases are registered along with their routes (see {@link registerAliasRouteList}). Those
+ * overridden by a route generated for a closer version are left out, since they no longer serve requests.
+ * 
+ * @returns The alias versions with the configuration of the routes they serve.
+ */
+export const getAliasRouteList = (): { version: string; routeMap: IRouteMap.IRouteMap }[] => {
+  return aliasRouteList
+    .filter(({ isOverridden }: { isOverridden: () => boolean }): boolean => !isOverridden())
+    .map(({ version, routeMap }: { version: string; routeMap: IRouteMap.IRouteMap }): { version: string; routeMap: IRouteMap.IRouteMap } => ({ version, routeMap }));
+};
 
 /**
  * ## generateRoute
@@ -36,20 +164,40 @@ const versionRegex = /^v[0-9]+$/;
  * - Version validation: Ensures API versions follow the required format (v + number) using regex validation
  * - Path construction: Automatically builds URL paths with consistent version prefixing
  * - Middleware integration: Handles authorization and custom middleware sequences in correct order
- * - Role-based access control: Supports limiting route access based on user roles
- * - Error handling: Logs validation errors and prevents invalid routes from registering
+ * - Access control: Supports limiting route access by roles (any-of or all-of), permissions and custom policies
+ * - Rate limiting: Applies an optional route rate limit, keyed by IP address or user, on top of the global one
+ * - CORS: Replaces the application CORS policy for the route and its preflight requests, when given one
+ * - Version lifecycle: Announces the deprecation of the route or its version through the Deprecation, Sunset and Link
+ * headers, answers 410 once the sunset date is reached, and serves the route under the versions falling back to its version
+ * - Timeouts: Answers requests whose service exceeds the route timeout with a 503, aborting the service signal
+ * - HTTP caching: Sends the route Cache-Control directives with successful responses, and ETags answered with 304
+ * - Idempotency: Replays the first response to an Idempotency-Key header to its retries, rejecting keys reused
+ * for a different payload or while their first request is in flight
+ * - File uploads: Parses multipart bodies with file count, size and MIME type limits, removing the files once answered
+ * - Input validation: Applies a declarative express-validator schema before the controller runs
+ * - Route registry: Records every registered route for documentation generation and the route listing endpoint
+ * - Metrics: Counts requests and measures their duration, labelled by route template, method and status code
+ * - Error handling: Throws on invalid definitions, so that they fail the startup instead of silently registering nothing
  * - Controller wrapping: Integrates with application controller for standardized request handling
  * - Consistent route structure: Enforces application-wide API URL pattern consistency
  * 
  * ### Route registration process:
  * 
- * 1. Validate the API version format against the regex pattern
- * 2. Log and abort if version format is invalid
- * 3. Build the complete route path with version prefix
- * 4. Apply authorization middleware if required (with optional role checking)
- * 5. Apply any custom middleware handlers in the specified order
- * 6. Wrap the service function with the application controller
- * 7. Register the complete route with the Express router using the specified HTTP method
+ * 1. Validate the HTTP method, the API version format, the endpoint, the service and the custom middleware
+ * 2. Throw if any of them is invalid, or if a route with the same method and path is already registered
+ * 3. Build the complete route path with version prefix, and register the route CORS, upload and response cache policies if any
+ * (throwing if the CORS policy allows credentials to every origin, or the upload or response cache policy is invalid)
+ * 4. Apply the request metrics middleware, then the deprecation middleware of the version and route
+ * 5. Apply authorization middleware if required (with optional role, permission and policy checks)
+ * 6. Apply rate limit middleware if a rate limit policy is provided
+ * 7. Apply upload middleware if an upload policy is provided
+ * 8. Apply validation middleware if a validation schema is provided
+ * 9. Apply idempotency middleware if an idempotency policy is provided
+ * 10. Apply any custom middleware handlers in the specified order
+ * 11. Wrap the service function with the application controller, along with the route cache control policy
+ * 12. Register the complete route with the Express router using the specified HTTP method, along with an alias
+ * under each version falling back to its version (see {@link registerAliasRouteList}), skipped once that version overrides it
+ * 13. Record the route configuration in the route registry
  * 
  * ### URL path structure:
  * 
@@ -64,15 +212,14 @@ const versionRegex = /^v[0-9]+$/;
  * 
  * @param routeConfig - The complete route configuration object.
  * 
- * @param routeConfig.method - The HTTP method to use (get, post, put, delete, patch, etc.).
- * Must be a valid method name supported by Express Router.
+ * @param routeConfig.method - The HTTP method to use (get, post, put, patch, delete, head or options).
  * 
  * @param routeConfig.version - The API version identifier (e.g., 'v1', 'v2').
  * Must match the pattern 'v' followed by a number (e.g., v1, v2, v10).
  * 
  * @param routeConfig.endpoint - The endpoint path excluding the version prefix.
  * Can include route parameters (e.g., 'users/:id/profile')
- * and should not have a leading slash.
+ * and must not have a leading slash or whitespace.
  * 
  * @param routeConfig.serviceHandler - The service function containing the business logic.
  * Will be wrapped by the application controller for
@@ -84,43 +231,243 @@ const versionRegex = /^v[0-9]+$/;
  * When false, the route will be publicly accessible.
  * 
  * @param routeConfig.roleList - Optional array of user role strings required to access this route.
- * If provided, only users with at least one matching role will be allowed.
+ * Roles inherited through the configured role hierarchy are taken into account.
+ * 
+ * @param routeConfig.roleMatchMode - How roleList is matched (defaults to 'any').
+ * With 'any', users holding at least one listed role are allowed.
+ * With 'all', users must hold every listed role.
+ * 
+ * @param routeConfig.permissionList - Optional permission strings (e.g., 'queries:write')
+ * that must all be granted by the user's roles.
+ * 
+ * @param routeConfig.policyList - Optional custom predicates receiving the request and the decoded token.
+ * Every policy must resolve to true; requests failing any access rule receive a 403 response.
+ * 
+ * @param routeConfig.requireClientCertificate - Whether the client must present a TLS certificate verified
+ * against SSL_CA_PATH (defaults to false). Requires SSL_CLIENT_AUTH to be 'optional' or 'required';
+ * requests without a verified certificate receive a 401 response.
+ * 
+ * @param routeConfig.rateLimitPolicy - Optional rate limit enforced on this route on top of the global one.
+ * Unset properties fall back to the RATE_LIMIT_* environment variables. Limits keyed by user
+ * and role exemptions rely on the authorization middleware, so they only apply to authorized routes.
+ * 
+ * @param routeConfig.corsPolicy - Optional CORS policy replacing the application one for this route.
+ * Unset properties fall back to the CORS_* environment variables.
+ * 
+ * @param routeConfig.cacheControlPolicy - Optional Cache-Control directives sent with the successful responses
+ * of this route (e.g., { scope: 'private', maxAgeSeconds: 60 }).
+ * 
+ * @param routeConfig.responseCachePolicy - Optional server-side cache of the successful responses of this GET route,
+ * busted by the mutations listed in the policy (e.g., { ttlSeconds: 30, invalidatedByList: ['POST /v1/bulletins'] }).
+ * 
+ * @param routeConfig.idempotencyPolicy - Optional idempotent handling of the requests of this POST, PUT or PATCH route
+ * sent with an Idempotency-Key header: the first response to a key is replayed to its retries (e.g., { isRequired: true }).
+ * Unset properties fall back to the IDEMPOTENCY_* environment variables.
+ * 
+ * @param routeConfig.uploadPolicy - Optional multipart handling of the requests of this POST, PUT or PATCH route, with
+ * file count and size limits and a MIME allow-list (e.g., { maxFileCount: 1, allowedMimeTypeList: ['text/csv'] }).
+ * Files are kept in memory or streamed to disk, exposed as (req as any).fileList and removed once the response is sent.
+ * Unset properties fall back to the UPLOAD_* environment variables.
+ * 
+ * @param routeConfig.deprecationPolicy - Optional deprecation and sunset dates of this route, combined with
+ * those of the version it is served under (see apiVersionUtil.registerApiVersion), aliases included.
+ * 
+ * @param routeConfig.timeoutMs - Optional time given to the service to respond, in milliseconds, replacing ROUTE_TIMEOUT_MS
+ * (0 disables it). Slower requests are answered with a 503 response and the abort signal of the service fires.
  * 
  * @param routeConfig.middlewareHandlerList - Optional array of middleware functions.
  * These will be executed in the provided order
- * after authorization (if enabled).
+ * after authorization (if enabled), upload parsing, validation and idempotency.
+ * 
+ * @param routeConfig.validationSchema - Optional express-validator schemas for params, query, headers and body.
+ * Invalid requests are answered with a 400 response listing every invalid field
+ * before reaching custom middleware or the service.
+ * 
+ * @param routeConfig.documentation - Optional summary, description, tags and request/response schemas
+ * used when generating the OpenAPI document.
  * 
- * @throws The function catches and logs validation errors, preventing invalid routes from registering.
- * It does not throw errors to the caller, ensuring application stability even with invalid route definitions.
+ * @template TParams - Type of req.params, forwarded to the service.
+ * @template TQuery - Type of req.query, forwarded to the service.
+ * @template TBody - Type of req.body, forwarded to the service.
+ * @template TResponse - Type of the response data returned by the service.
+ * 
+ * @throws If the route definition is invalid. Nothing is registered in that case.
  * 
  * @returns The function registers the route with Express but does not return a value.
  */
-export const generateRoute = (
-  { 
+export const generateRoute = <TParams = any, TQuery = any, TBody = any, TResponse = any>(
+  routeConfig: IRouteMap.IRouteMap<TParams, TQuery, TBody, TResponse>
+): void => {
+  const { 
     method, 
     version,
     endpoint,
     serviceHandler, 
     requiresAuthorization = true,
     roleList,
+    roleMatchMode,
+    permissionList,
+    policyList,
+    requireClientCertificate,
+    rateLimitPolicy,
+    corsPolicy,
+    cacheControlPolicy,
+    responseCachePolicy,
+    idempotencyPolicy,
+    uploadPolicy,
+    deprecationPolicy,
+    timeoutMs,
     middlewareHandlerList = [], 
-  }: IRouteMap.IRouteMap
-): void => {
-  if (!versionRegex.test(version)) {
-    console.log(`Server | Timestamp: ${ dateTimeFormatterUtil.formatAsDayMonthYearHoursMinutesSeconds(new Date()) } | Error: Invalid API version - ${ version }`);
+    validationSchema
+  } = routeConfig;
+
+  const routePath = `/${ version }/${ endpoint }`;
+  const routeKey = getRouteKey(method, version, endpoint);
+
+  if (!httpMethodList.includes(method)) {
+    throw new Error(`Invalid route ${ routeKey }: method must be one of ${ httpMethodList.join(', ') }.`);
+  }
+
+  if (!apiVersionUtil.isApiVersion(version)) {
+    throw new Error(`Invalid route ${ routeKey }: version must be 'v' followed by a number (e.g., v1).`);
+  }
+
+  if (!endpointRegex.test(endpoint)) {
+    throw new Error(`Invalid route ${ routeKey }: endpoint must not be empty, start with a slash or contain whitespace.`);
+  }
+
+  if (typeof serviceHandler !== 'function') {
+    throw new Error(`Invalid route ${ routeKey }: serviceHandler must be a function.`);
+  }
+
+  if (!middlewareHandlerList.every((middlewareHandler: unknown): boolean => typeof middlewareHandler === 'function')) {
+    throw new Error(`Invalid route ${ routeKey }: middlewareHandlerList must only contain functions.`);
+  }
+
+  if (routeKeySet.has(routeKey)) {
+    throw new Error(`Invalid route ${ routeKey }: a route with the same method and path is already registered.`);
+  }
+
+  if (responseCachePolicy && method !== 'get') {
+    throw new Error(`Invalid route ${ routeKey }: response cache is only supported on GET routes.`);
+  }
+
+  if (uploadPolicy && !['post', 'put', 'patch'].includes(method)) {
+    throw new Error(`Invalid route ${ routeKey }: uploads are only supported on POST, PUT and PATCH routes.`);
+  }
+
+  if (idempotencyPolicy && !['post', 'put', 'patch'].includes(method)) {
+    throw new Error(`Invalid route ${ routeKey }: idempotency is only supported on POST, PUT and PATCH routes.`);
+  }
+
+  if (
+    idempotencyPolicy 
+    && [idempotencyPolicy.ttlSeconds, idempotencyPolicy.lockTimeoutMs].some((duration: number | undefined): boolean => duration !== undefined && !(duration > 0))
+  ) {
+    throw new Error(`Invalid route ${ routeKey }: idempotency TTL and lock timeout must be positive.`);
+  }
 
-    return;
+  if (timeoutMs !== undefined && !(Number.isInteger(timeoutMs) && timeoutMs >= 0)) {
+    throw new Error(`Invalid route ${ routeKey }: timeoutMs must be a non-negative integer.`);
   }
 
-  if (requiresAuthorization) {
-    const getAuthorization = (req: Request, res: Response, next: NextFunction): Promise<IResponse.IResponse<IResponseData.IResponseData> | void> => {
-      return appMiddleware.getAuthorization(req, res, next, roleList);
-    };
+  if (deprecationPolicy?.deprecatedAt && deprecationPolicy.sunsetAt && deprecationPolicy.sunsetAt < deprecationPolicy.deprecatedAt) {
+    throw new Error(`Invalid route ${ routeKey }: sunset date must not precede the deprecation date.`);
+  }
+
+  let corsOptions: CorsOptions | undefined;
+  let uploadHandlerList: RequestHandler[];
+
+  try {
+    corsOptions = corsPolicy ? corsUtil.getCorsOptions(corsPolicy) : undefined;
+    uploadHandlerList = uploadPolicy ? [uploadMiddleware.generateUpload(uploadPolicy)] : [];
 
-    (router as any)[method](`/${ version }/${ endpoint }`, getAuthorization, ...middlewareHandlerList, appController.generateController(serviceHandler));
-  } else {
-    (router as any)[method](`/${ version }/${ endpoint }`, ...middlewareHandlerList, appController.generateController(serviceHandler));
+    if (responseCachePolicy) {
+      responseCacheUtil.registerResponseCache(routePath, responseCachePolicy);
+    }
+  } catch (error: unknown) {
+    throw new Error(`Invalid route ${ routeKey }: ${ error instanceof Error ? error.message : String(error) }`);
   }
+
+  const controllerHandler = appController.generateController(serviceHandler, { routePath, cacheControlPolicy, responseCachePolicy, timeoutMs });
+  const rateLimitHandlerList = rateLimitPolicy ? [rateLimitMiddleware.generateRateLimit(routePath, rateLimitPolicy)] : [];
+  const validationHandlerList = validationSchema ? validationMiddleware.generateValidation(validationSchema) : [];
+  const idempotencyHandlerList = idempotencyPolicy ? [idempotencyMiddleware.generateIdempotency(routePath, idempotencyPolicy)] : [];
+
+  const getAuthorization = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    await appMiddleware.getAuthorization(req, res, next, { roleList, roleMatchMode, permissionList, policyList, requireClientCertificate });
+  };
+
+  const authorizationHandlerList = requiresAuthorization ? [getAuthorization] : [];
+
+  const registerRoute = (routeVersion: string, fallbackHandlerList: RequestHandler[]): void => {
+    const versionRoutePath = `/${ routeVersion }/${ endpoint }`;
+    const versionDeprecationHandler = apiVersionMiddleware.generateDeprecation(routeVersion, deprecationPolicy);
+
+    if (corsOptions) {
+      corsPolicyRouter.all(versionRoutePath, ...fallbackHandlerList, corsMiddleware.generateCorsPolicy(method, corsOptions));
+    }
+
+    router[method](
+      versionRoutePath, 
+      ...fallbackHandlerList, 
+      metricsMiddleware.generateRequestMetrics(versionRoutePath), 
+      versionDeprecationHandler, 
+      ...authorizationHandlerList, 
+      ...rateLimitHandlerList, 
+      ...uploadHandlerList, 
+      ...validationHandlerList, 
+      ...idempotencyHandlerList, 
+      ...middlewareHandlerList, 
+      controllerHandler
+    );
+  };
+
+  registerRoute(version, []);
+
+  routeKeySet.add(routeKey);
+  routeRegistrarMap.set(routeKey, registerRoute);
+  routeMapList.push(routeConfig);
+  registerAliasRouteList([routeConfig]);
+};
+
+/**
+ * ## createRouteBuilder
+ * 
+ * Creates a fluent builder registering the routes of an API version.
+ * 
+ * @description Each method of the builder registers a route through {@link generateRoute} as soon as it is called,
+ * so that invalid definitions throw at startup, and returns the builder to chain the next route. The type
+ * parameters of each method type the parameters, query, body and response data of its service.
+ * 
+ * Options shared by the routes of the builder (e.g., roleList or rateLimitPolicy) can be given once as
+ * defaults; the options of each route are merged over them.
+ * 
+ * @param version - The API version of the routes (e.g., 'v1').
+ * @param defaultRouteOptions - Options applied to every route of the builder.
+ * 
+ * @returns The route builder.
+ */
+export const createRouteBuilder = (version: string, defaultRouteOptions: IRouteBuilder.IRouteOptions = {}): IRouteBuilder.IRouteBuilder => {
+  const routeBuilder: IRouteBuilder.IRouteBuilder = {
+    route: <TParams, TQuery, TBody, TResponse>(
+      method: HttpMethod.HttpMethod, 
+      endpoint: string, 
+      serviceHandler: IServiceHandler.IServiceHandler<TParams, TQuery, TBody, TResponse>, 
+      routeOptions: IRouteBuilder.IRouteOptions<TParams, TQuery, TBody, TResponse> = {}
+    ): IRouteBuilder.IRouteBuilder => {
+      generateRoute<TParams, TQuery, TBody, TResponse>({ ...defaultRouteOptions, ...routeOptions, method, version, endpoint, serviceHandler });
+
+      return routeBuilder;
+    },
+    get: (endpoint, serviceHandler, routeOptions) => routeBuilder.route('get', endpoint, serviceHandler, routeOptions),
+    post: (endpoint, serviceHandler, routeOptions) => routeBuilder.route('post', endpoint, serviceHandler, routeOptions),
+    put: (endpoint, serviceHandler, routeOptions) => routeBuilder.route('put', endpoint, serviceHandler, routeOptions),
+    patch: (endpoint, serviceHandler, routeOptions) => routeBuilder.route('patch', endpoint, serviceHandler, routeOptions),
+    delete: (endpoint, serviceHandler, routeOptions) => routeBuilder.route('delete', endpoint, serviceHandler, routeOptions)
+  };
+
+  return routeBuilder;
 };
 
 generateRoute(
@@ -129,6 +476,118 @@ generateRoute(
     method: 'get',
     endpoint: `${ path.basename(process.cwd()) }/main/get/authentication`,
     serviceHandler: appService.getAuthentication,
-    requiresAuthorization: false
-  } as IRouteMap.IRouteMap
+    requiresAuthorization: false,
+    documentation: {
+      summary: 'Authenticate with Basic credentials.',
+      description: 'Returns a JWT access token and a refresh token for the given username and password.',
+      tagList: ['Authentication']
+    }
+  }
+);
+
+generateRoute(
+  {
+    version: 'v1',
+    method: 'post',
+    endpoint: `${ path.basename(process.cwd()) }/main/post/authentication/refresh`,
+    serviceHandler: appService.refreshAuthentication,
+    requiresAuthorization: false,
+    documentation: {
+      summary: 'Renew the session with a refresh token.',
+      description: 'Consumes the refresh token and returns a new access token with a rotated refresh token.',
+      tagList: ['Authentication'],
+      requestBodySchema: {
+        type: 'object',
+        properties: { refreshToken: { type: 'string' } },
+        required: ['refreshToken']
+      }
+    }
+  }
+);
+
+generateRoute(
+  {
+    version: 'v1',
+    method: 'post',
+    endpoint: `${ path.basename(process.cwd()) }/main/post/logout`,
+    serviceHandler: appService.logout,
+    documentation: {
+      summary: 'End the current session.',
+      description: 'Revokes the access token and, optionally, the refresh token family or every session of the user.',
+      tagList: ['Authentication'],
+      requestBodySchema: {
+        type: 'object',
+        properties: { 
+          refreshToken: { type: 'string' },
+          allSessions: { type: 'boolean' } 
+        }
+      }
+    }
+  }
+);
+
+generateRoute(
+  {
+    version: 'v1',
+    method: 'post',
+    endpoint: `${ path.basename(process.cwd()) }/main/post/authentication/unlock`,
+    serviceHandler: appService.unlockAuthentication,
+    roleList: ['admin'],
+    validationSchema: {
+      body: {
+        username: { optional: true, isString: true, notEmpty: true, errorMessage: 'Must be a non-empty string.' },
+        ipAddress: { optional: true, isIP: true, errorMessage: 'Must be a valid IP address.' }
+      }
+    },
+    documentation: {
+      summary: 'Lift an authentication lockout.',
+      description: 'Unlocks a username and/or IP address locked out after repeated failed authentication attempts.',
+      tagList: ['Authentication']
+    }
+  }
+);
+
+generateRoute(
+  {
+    version: 'v1',
+    method: 'get',
+    endpoint: 'health/live',
+    serviceHandler: healthService.getLiveness,
+    requiresAuthorization: false,
+    documentation: {
+      summary: 'Check whether the API process is alive.',
+      description: 'Liveness probe. Does not check external dependencies.',
+      tagList: ['Health']
+    }
+  }
+);
+
+generateRoute(
+  {
+    version: 'v1',
+    method: 'get',
+    endpoint: 'health/ready',
+    serviceHandler: healthService.getReadiness,
+    requiresAuthorization: false,
+    documentation: {
+      summary: 'Check whether the API is ready to serve requests.',
+      description: 'Readiness probe. Runs the registered health checks and answers 503 when a critical one fails.',
+      tagList: ['Health']
+    }
+  }
+);
+
+generateRoute(
+  {
+    version: 'v1',
+    method: 'get',
+    endpoint: 'routes',
+    serviceHandler: routeService.generateRouteList(getRouteMapList),
+    roleList: ['admin'],
+    documentation: {
+      summary: 'List the routes of the API.',
+      description: 'Returns the method, path, access rules and summary of every registered route.',
+      tagList: ['Administration']
+    }
+  }
 );
@@ -0,0 +1,68 @@
+import { HttpMethod } from '../types';
+import { IRouteMap } from './IRouteMap';
+import { IServiceHandler } from './IServiceHandler';
+
+/**
+ * ## IRouteOptions
+ * 
+ * Route configuration passed to the route builder besides the method, version, endpoint and service.
+ * 
+ * @template TParams - Type of req.params.
+ * @template TQuery - Type of req.query.
+ * @template TBody - Type of req.body.
+ * @template TResponse - Type of the response data.
+ */
+export type IRouteOptions<TParams = any, TQuery = any, TBody = any, TResponse = any> = Omit<
+  IRouteMap<TParams, TQuery, TBody, TResponse>, 
+  'method' | 'version' | 'endpoint' | 'serviceHandler'
+>;
+
+/**
+ * ## IRouteBuilder
+ * 
+ * Fluent interface registering the routes of an API version.
+ * 
+ * @description Returned by createRouteBuilder. Each method registers a route right away through generateRoute,
+ * merging its options over the defaults of the builder, and returns the builder so that calls can be chained:
+ * 
+ * ```ts
+ * createRouteBuilder('v1', { roleList: ['admin'] })
+ *   .get<{ id: string }, {}, {}, IBulletin>('bulletins/:id', bulletinService.getBulletin)
+ *   .post<{}, {}, IBulletinInput, IBulletin>('bulletins', bulletinService.createBulletin, { validationSchema });
+ * ```
+ * 
+ * Invalid definitions throw when the method is called, so that they surface at startup.
+ */
+export interface IRouteBuilder {
+  route<TParams = any, TQuery = any, TBody = any, TResponse = any>(
+    method: HttpMethod.HttpMethod, 
+    endpoint: string, 
+    serviceHandler: IServiceHandler<TParams, TQuery, TBody, TResponse>, 
+    routeOptions?: IRouteOptions<TParams, TQuery, TBody, TResponse>
+  ): IRouteBuilder;
+  get<TParams = any, TQuery = any, TBody = any, TResponse = any>(
+    endpoint: string, 
+    serviceHandler: IServiceHandler<TParams, TQuery, TBody, TResponse>, 
+    routeOptions?: IRouteOptions<TParams, TQuery, TBody, TResponse>
+  ): IRouteBuilder;
+  post<TParams = any, TQuery = any, TBody = any, TResponse = any>(
+    endpoint: string, 
+    serviceHandler: IServiceHandler<TParams, TQuery, TBody, TResponse>, 
+    routeOptions?: IRouteOptions<TParams, TQuery, TBody, TResponse>
+  ): IRouteBuilder;
+  put<TParams = any, TQuery = any, TBody = any, TResponse = any>(
+    endpoint: string, 
+    serviceHandler: IServiceHandler<TParams, TQuery, TBody, TResponse>, 
+    routeOptions?: IRouteOptions<TParams, TQuery, TBody, TResponse>
+  ): IRouteBuilder;
+  patch<TParams = any, TQuery = any, TBody = any, TResponse = any>(
+    endpoint: string, 
+    serviceHandler: IServiceHandler<TParams, TQuery, TBody, TResponse>, 
+    routeOptions?: IRouteOptions<TParams, TQuery, TBody, TResponse>
+  ): IRouteBuilder;
+  delete<TParams = any, TQuery = any, TBody = any, TResponse = any>(
+    endpoint: string, 
+    serviceHandler: IServiceHandler<TParams, TQuery, TBody, TResponse>, 
+    routeOptions?: IRouteOptions<TParams, TQuery, TBody, TResponse>
+  ): IRouteBuilder;
+}
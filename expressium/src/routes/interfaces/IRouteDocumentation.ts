@@ -0,0 +1,27 @@
+/**
+ * ## IRouteDocumentation
+ * 
+ * Optional documentation attached to a route configuration.
+ * 
+ * @description This interface holds the human-oriented metadata of a route that cannot be derived
+ * from its configuration alone. It is consumed when generating the OpenAPI document served under
+ * `/api/docs`.
+ * 
+ * Everything is optional. When omitted:
+ * 
+ * - The request body schema is derived from the body section of the route's validation schema
+ * - Responses default to a generic success response plus the error responses implied by
+ * the route's authorization and validation settings
+ * 
+ * Schemas are plain JSON Schema objects, as accepted by OpenAPI 3.1.
+ */
+export interface IRouteDocumentation {
+  summary?: string;
+  description?: string;
+  tagList?: string[];
+  requestBodySchema?: Record<string, unknown>;
+  responseMap?: Record<number, {
+    description: string;
+    schema?: Record<string, unknown>;
+  }>;
+}
@@ -1,3 +1,10 @@
+import { RequestHandler } from 'express';
+import { IAuthorizationPolicy, ICacheControlPolicy, ICorsPolicy, IDeprecationPolicy, IIdempotencyPolicy, IRateLimitPolicy, IResponseCachePolicy, IUploadPolicy } from '../../utils/interfaces';
+import { HttpMethod } from '../types';
+import { IRouteDocumentation } from './IRouteDocumentation';
+import { IServiceHandler } from './IServiceHandler';
+import { IValidationSchema } from './IValidationSchema';
+
 /**
  * ## IRouteMap
  * 
@@ -7,15 +14,40 @@
  * It is used to enforce consistent route definitions and ensure that all routes follow the same structure.
  * 
  * The interface includes properties for the HTTP method, API version, endpoint path, middleware list,
- * service function, and authorization requirement. These properties are used to generate and register
- * API routes with the Express router.  
+ * service function, authorization requirement and access rules (including mutual TLS), rate limit policy,
+ * CORS policy, cache control policy, response cache policy, idempotency policy, upload policy, deprecation
+ * policy, timeout, validation schema and documentation. These properties are used to generate
+ * and register API routes with the Express router.  
+ * 
+ * The type parameters are forwarded to the service (see IServiceHandler), so that the parameters, query,
+ * body and response data of the route are typed end to end. They default to any, which lets the route
+ * registry hold routes of every shape.
+ * 
+ * @template TParams - Type of req.params.
+ * @template TQuery - Type of req.query.
+ * @template TBody - Type of req.body.
+ * @template TResponse - Type of the response data.
  */
-export interface IRouteMap {
-  method: string,
+export interface IRouteMap<TParams = any, TQuery = any, TBody = any, TResponse = any> {
+  method: HttpMethod.HttpMethod,
   version: string,
   endpoint: string,
-  serviceHandler: Function,
+  serviceHandler: IServiceHandler<TParams, TQuery, TBody, TResponse>,
   requiresAuthorization?: boolean
   roleList?: string[],
-  middlewareHandlerList?: Function[],
+  roleMatchMode?: 'any' | 'all',
+  permissionList?: string[],
+  policyList?: IAuthorizationPolicy.IAuthorizationPolicy[],
+  requireClientCertificate?: boolean,
+  rateLimitPolicy?: IRateLimitPolicy.IRateLimitPolicy,
+  corsPolicy?: ICorsPolicy.ICorsPolicy,
+  cacheControlPolicy?: ICacheControlPolicy.ICacheControlPolicy,
+  responseCachePolicy?: IResponseCachePolicy.IResponseCachePolicy,
+  idempotencyPolicy?: IIdempotencyPolicy.IIdempotencyPolicy,
+  uploadPolicy?: IUploadPolicy.IUploadPolicy,
+  deprecationPolicy?: IDeprecationPolicy.IDeprecationPolicy,
+  timeoutMs?: number,
+  middlewareHandlerList?: RequestHandler[],
+  validationSchema?: IValidationSchema,
+  documentation?: IRouteDocumentation
 };
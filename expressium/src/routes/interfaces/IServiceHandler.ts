@@ -0,0 +1,37 @@
+import { NextFunction, Request, Response } from 'express';
+import { IResponse } from '../../interfaces';
+
+/**
+ * ## IServiceHandler
+ * 
+ * Signature of the service functions wrapped by the application controller.
+ * 
+ * @description Services receive the request, response and next function of Express along with the formatted
+ * timestamp of the request, and resolve with the status code and data of the response.
+ * 
+ * They also receive the abort signal of the request, which fires when the route times out or the client
+ * disconnects. HttpClient requests sent by the service are bound to it automatically; other pending work
+ * should listen to it or call `signal.throwIfAborted()` between steps (e.g., between database queries, which
+ * Prisma cannot cancel once sent), since its result will never reach the client.
+ * 
+ * The type parameters describe the inputs and output of the route, so that services access them without casts:
+ * 
+ * - TParams: Route parameters declared in the endpoint (e.g., `{ id: string }` for 'bulletins/:id')
+ * - TQuery: Query string parameters
+ * - TBody: JSON body of the request
+ * - TResponse: Data of the response, carried by IResponse
+ * 
+ * @template TParams - Type of req.params.
+ * @template TQuery - Type of req.query.
+ * @template TBody - Type of req.body.
+ * @template TResponse - Type of the response data.
+ */
+export interface IServiceHandler<TParams = any, TQuery = any, TBody = any, TResponse = any> {
+  (
+    req: Request<TParams, any, TBody, TQuery>, 
+    res: Response, 
+    next: NextFunction, 
+    timestamp: string, 
+    signal: AbortSignal
+  ): IResponse.IResponse<TResponse> | Promise<IResponse.IResponse<TResponse>>;
+}
@@ -0,0 +1,27 @@
+import { ParamSchema } from 'express-validator';
+
+/**
+ * ## IValidationSchema
+ * 
+ * Declarative validation rules for the inputs of a route.
+ * 
+ * @description This interface groups express-validator field schemas by request location.
+ * Each key of a location maps a field name to its validators and sanitizers, using the same
+ * syntax accepted by express-validator's `checkSchema` (e.g., `{ isInt: { options: { min: 1 } }, toInt: true }`).
+ * 
+ * Locations:
+ * 
+ * - params: Route parameters declared in the endpoint (e.g., ':id')
+ * - query: Query string parameters
+ * - headers: Request headers (field names must be lowercase)
+ * - body: JSON body fields, supporting dot notation and wildcards for nested values (e.g., 'items.*.id')
+ * 
+ * Because the schema is plain data, it can also be inspected at runtime (see describeValidationSchema)
+ * to generate API documentation.
+ */
+export interface IValidationSchema {
+  params?: Record<string, ParamSchema>;
+  query?: Record<string, ParamSchema>;
+  headers?: Record<string, ParamSchema>;
+  body?: Record<string, ParamSchema>;
+}
@@ -1 +1,5 @@
+export * as IRouteBuilder from './IRouteBuilder';
+export * as IRouteDocumentation from './IRouteDocumentation';
 export * as IRouteMap from './IRouteMap';
+export * as IServiceHandler from './IServiceHandler';
+export * as IValidationSchema from './IValidationSchema';
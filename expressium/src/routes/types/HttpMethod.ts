@@ -0,0 +1,9 @@
+/**
+ * ## HttpMethod
+ * 
+ * HTTP methods a route can be registered with.
+ * 
+ * @description Names match the methods of the Express router, so that a route is always registered with
+ * the router method of the same name. Any other value is rejected by generateRoute at startup.
+ */
+export type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete' | 'head' | 'options';
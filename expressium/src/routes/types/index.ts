@@ -0,0 +1 @@
+export * as HttpMethod from './HttpMethod';
@@ -1,12 +1,102 @@
 import { NextFunction, Request, Response } from 'express';
 import bcrypt from 'bcryptjs';
-import JWT, { Secret } from 'jsonwebtoken';
+import crypto from 'crypto';
+import JWT from 'jsonwebtoken';
 import { StringValue } from 'ms';
 import path from 'path';
-import { PrismaClient } from '@prisma/client';
-import { IResponse, IResponseData } from '../interfaces';
+import { Prisma } from '@prisma/client';
+import { IDecodedToken, IResponse, IResponseData } from '../interfaces';
+import { bruteForceProtectionUtil, configurationUtil, loggingUtil, metricsUtil, prismaUtil, tokenRevocationUtil } from '../utils';
 
-const prisma = new PrismaClient();
+const prisma = prismaUtil.getPrismaClient();
+
+const REFRESH_TOKEN_BYTES = 48;
+
+/**
+ * Hash compared against when the username does not exist, so that unknown usernames take as long
+ * to reject as wrong passwords and response times do not reveal which usernames are registered.
+ */
+const UNKNOWN_USER_PASSWORD_HASH = '$2b$10$QjGJq5G49F73kH2AqsGcWuIAM5sxHblrhh4Sk2nZHXQ.y42DCvwHq';
+
+/**
+ * ## getExpirationTimestamp
+ * 
+ * Converts a time span expression into an absolute expiration timestamp.
+ * 
+ * @description This function translates the time span format used by JWT_EXPIRES_IN and
+ * JWT_REFRESH_EXPIRES_IN into a Unix timestamp in milliseconds, relative to the current time
+ * (see configurationUtil.getTimeSpanMs).
+ * 
+ * @param timeSpan - The time span expression (e.g., '30m', '7d').
+ * 
+ * @returns Expiration timestamp in milliseconds.
+ */
+const getExpirationTimestamp = (timeSpan: string): number => {
+  return Date.now() + configurationUtil.getTimeSpanMs(timeSpan);
+};
+
+/**
+ * ## hashRefreshToken
+ * 
+ * Hashes a refresh token for storage and lookup.
+ * 
+ * @description Refresh tokens are opaque random strings handed to the client only once.
+ * The database keeps a SHA-256 digest instead of the raw value, so a leaked table
+ * cannot be replayed against the refresh route.
+ * 
+ * @param refreshToken - The raw refresh token.
+ * 
+ * @returns Hex encoded SHA-256 digest of the token.
+ */
+const hashRefreshToken = (refreshToken: string): string => {
+  return crypto
+    .createHash('sha256')
+    .update(refreshToken)
+    .digest('hex');
+};
+
+/**
+ * ## generateRefreshToken
+ * 
+ * Generates a new refresh token and its expiration timestamp.
+ * 
+ * @description The token is built from {@link REFRESH_TOKEN_BYTES} cryptographically random bytes
+ * encoded as base64url, and expires according to JWT_REFRESH_EXPIRES_IN
+ * (defaults to 7 days).
+ * 
+ * @returns The raw refresh token, its hash and its expiration timestamp.
+ */
+const generateRefreshToken = (): { refreshToken: string, refreshTokenHash: string, refreshExpiresIn: number } => {
+  const refreshToken = crypto.randomBytes(REFRESH_TOKEN_BYTES).toString('base64url');
+
+  return {
+    refreshToken,
+    refreshTokenHash: hashRefreshToken(refreshToken),
+    refreshExpiresIn: getExpirationTimestamp(configurationUtil.getConfiguration().jwt.refreshExpiresIn)
+  };
+};
+
+/**
+ * ## revokeRefreshTokenFamily
+ * 
+ * Revokes every refresh token descending from the same authentication.
+ * 
+ * @description Each successful authentication starts a new token family. Rotations keep the
+ * family identifier, so revoking the family invalidates the whole chain at once. This is used
+ * when reuse of an already rotated token is detected, since it indicates the token was stolen.
+ * 
+ * @async
+ * 
+ * @param familyId - The token family identifier.
+ */
+const revokeRefreshTokenFamily = async (familyId: string): Promise<void> => {
+  await prisma.refresh_tokens.updateMany(
+    {
+      where: { family_id: familyId },
+      data: { is_refresh_token_revoked: true }
+    }
+  );
+};
 
 /**
  * ## getAuthentication
@@ -19,34 +109,35 @@ const prisma = new PrismaClient();
  * 
  * The function handles:
  * 
- * - Environment variables validation (JWT_SECRET, JWT_EXPIRES_IN)
  * - Basic Auth header presence and format validation
  * - Username and password extraction and decoding
- * - User existence and active status verification in the database
- * - Password verification using bcrypt's secure comparison
+ * - Brute-force protection: lockouts and progressive delays per username and per IP address
+ * - Password verification using bcrypt's secure comparison, with a uniform answer for unknown
+ * usernames and wrong passwords so that registered usernames cannot be enumerated
+ * - Active status verification, only once the password has been verified
  * - JWT token generation with dynamic expiration time calculation
  * - Standardized response formatting with detailed status messages
  * 
  * ### Authentication Flow:
  * 
- * 1. Validate environment variables (JWT_SECRET, JWT_EXPIRES_IN)
- * 2. Check presence and format of Authorization header
- * 3. Extract and decode Basic Auth credentials
+ * 1. Check presence and format of Authorization header
+ * 2. Extract and decode Basic Auth credentials
+ * 3. Reject the attempt while its username or IP address is locked out, otherwise apply the progressive delay
  * 4. Retrieve user data from database based on username and application type
- * 5. Verify user exists and is active
- * 6. Compare provided password with stored hash using bcrypt
+ * 5. Compare provided password with stored hash using bcrypt, counting failures towards the lockout
+ * 6. Verify the user is active and forget the failures of the username
  * 7. Calculate token expiration time based on JWT_EXPIRES_IN format
- * 8. Generate JWT token with user data and expiration
- * 9. Return success response with token or appropriate error response
+ * 8. Generate JWT token with user data, expiration and a unique identifier (jti)
+ * 9. Persist a new refresh token family for the user
+ * 10. Return success response with tokens or appropriate error response
  * 
  * ### Error Scenarios:
  * 
- * - Missing JWT_SECRET or JWT_EXPIRES_IN: 500 Internal Server Error
  * - Missing Authorization header: 400 Bad Request
  * - Invalid Basic Auth format: 400 Bad Request
- * - User not found: 401 Unauthorized
- * - Inactive user account: 403 Forbidden
- * - Password mismatch: 401 Unauthorized
+ * - Username or IP address locked out: 429 Too Many Requests, with a Retry-After header
+ * - Unknown username or password mismatch: 401 Unauthorized, with the same message for both
+ * - Inactive user account (with a valid password): 403 Forbidden
  * - Database or other technical errors: 500 Internal Server Error
  * 
  * ### Token Expiration Format:
@@ -57,7 +148,6 @@ const prisma = new PrismaClient();
  * - 'm': minutes (e.g., '30m')
  * - 'h': hours (e.g., '24h')
  * - 'd': days (e.g., '7d')
- * - Default: 1 hour if format is unrecognized
  * 
  * ### Response Structure:
  * 
@@ -66,57 +156,30 @@ const prisma = new PrismaClient();
  * - Generated JWT token
  * - User's username and role list
  * - Token expiration timestamp
+ * - Refresh token and its expiration timestamp (exchangeable through {@link refreshAuthentication})
  * - Request metadata (path, method, timestamp)
  * 
 * @param req - Express Request object containing auth headers and body.
- * @param _res - Express Response object (unused but required for middleware signature).
+ * @param res - Express Response object, used to send the Retry-After header of lockouts.
  * @param _next - Express NextFunction (unused but required for middleware signature).
  * @param timestamp - Current timestamp string for logging and response generation.
  * 
  * @returns Promise resolving to IResponse containing either:
  * 
  * - Success (200): JWT token and user data
- * - Error (400/401/403/500): Appropriate error message and suggestion
+ * - Error (400/401/403/429/500): Appropriate error message and suggestion
  */
 export const getAuthentication = async (
   req: Request,
-  _res: Response,
+  res: Response,
   _next: NextFunction,
   timestamp: string
 ): Promise<IResponse.IResponse<IResponseData.IResponseData | IResponseData.IAuthenticationResponseData>> => {
-  if (!process.env.JWT_SECRET) {
-    return { 
-      status: 500, 
-      data: {
-        status: false,
-        statusCode: 500,
-        timestamp,
-        path: req.originalUrl || req.url,
-        method: req.method,
-        message: 'API configuration not found.',
-        suggestion: 'The requested API type is not properly configured in the system.' 
-      }
-    };
-  }
-
-  if (!process.env.JWT_EXPIRES_IN) {
-    return { 
-      status: 500, 
-      data: {
-        status: false,
-        statusCode: 500,
-        timestamp,
-        path: req.originalUrl || req.url,
-        method: req.method,
-        message: 'API configuration not found.',
-        suggestion: 'The requested API type is not properly configured in the system.' 
-      }
-    };
-  }
-
   const reqHeadersAuthorization = req.headers.authorization;
   
   if (!reqHeadersAuthorization) {
+    metricsUtil.authenticationAttemptCounter.increment({ method: 'basic', result: 'failure', reason: 'missing_credentials' });
+
     return { 
       status: 400, 
       data: { 
@@ -132,6 +195,8 @@ export const getAuthentication = async (
   }
   
   if (!reqHeadersAuthorization.startsWith('Basic ')) {
+    metricsUtil.authenticationAttemptCounter.increment({ method: 'basic', result: 'failure', reason: 'invalid_scheme' });
+
     return { 
       status: 400, 
       data: { 
@@ -157,6 +222,30 @@ export const getAuthentication = async (
       .toString('ascii')
       .split(':');
 
+    const ipAddress = req.ip ?? 'unknown';
+    const { lockedUntil, delayMs } = await bruteForceProtectionUtil.getAttemptStatus(username, ipAddress);
+
+    if (lockedUntil) {
+      metricsUtil.authenticationAttemptCounter.increment({ method: 'basic', result: 'failure', reason: 'locked_out' });
+
+      res.setHeader('Retry-After', Math.ceil((lockedUntil.getTime() - Date.now()) / 1000));
+
+      return {
+        status: 429,
+        data: {
+          status: false,
+          statusCode: 429,
+          timestamp,
+          path: req.originalUrl || req.url,
+          method: req.method,
+          message: 'Too many failed authentication attempts.',
+          suggestion: 'Please wait before trying again, or contact your administrator to unlock the account.' 
+        }
+      };
+    }
+
+    await bruteForceProtectionUtil.waitForDelay(delayMs);
+
     const user = await prisma.users.findUnique(
       {
         where: {
@@ -168,7 +257,13 @@ export const getAuthentication = async (
       }
     ) || undefined;
 
-    if (!user) {
+    const isPasswordValid = bcrypt.compareSync(password ?? '', user?.password ?? UNKNOWN_USER_PASSWORD_HASH);
+
+    if (!user || !isPasswordValid) {
+      metricsUtil.authenticationAttemptCounter.increment({ method: 'basic', result: 'failure', reason: user ? 'invalid_password' : 'user_not_found' });
+
+      await bruteForceProtectionUtil.registerFailedAttempt(username, ipAddress);
+
       return {
         status: 401,
         data: {
@@ -177,13 +272,15 @@ export const getAuthentication = async (
           timestamp,
           path: req.originalUrl || req.url,
           method: req.method,
-          message: 'User not found in our system.',
-          suggestion: 'Verify your username or register a new account if needed.' 
+          message: 'Invalid username or password.',
+          suggestion: 'Check your credentials and try again. Reset your password if needed.' 
         }
       };
     }
 
-    if (!user?.is_user_active) {
+    if (!user.is_user_active) {
+      metricsUtil.authenticationAttemptCounter.increment({ method: 'basic', result: 'failure', reason: 'user_inactive' });
+
       return { 
         status: 403, 
         data: {
@@ -198,32 +295,289 @@ export const getAuthentication = async (
       };
     }
 
-    if (!bcrypt.compareSync(password, user.password)) {
-      return { 
-        status: 401, 
+    await bruteForceProtectionUtil.registerSuccessfulAttempt(username);
+
+    const expiresIn = getExpirationTimestamp(configurationUtil.getConfiguration().jwt.expiresIn);
+    const { refreshToken, refreshTokenHash, refreshExpiresIn } = generateRefreshToken();
+
+    await prisma.refresh_tokens.create(
+      {
+        data: {
+          user_id: user.id,
+          family_id: crypto.randomUUID(),
+          token_hash: refreshTokenHash,
+          expires_at: new Date(refreshExpiresIn)
+        }
+      }
+    );
+
+    metricsUtil.authenticationAttemptCounter.increment({ method: 'basic', result: 'success' });
+
+    return {
+      status: 200,
+      data: {
+        status: true,
+        statusCode: 200,
+        timestamp,
+        path: req.originalUrl || req.url,
+        method: req.method,
+        data: {
+          username,
+          roleList: user.role_list,
+          token: JWT.sign(
+            {
+              username,
+              roleList: user.role_list,
+              expiresIn,
+              issuedAt: Date.now()
+            },
+            configurationUtil.getConfiguration().jwt.secret,
+            { 
+              expiresIn: configurationUtil.getConfiguration().jwt.expiresIn as StringValue,
+              jwtid: crypto.randomUUID()
+            }
+          ),
+          expiresIn,
+          refreshToken,
+          refreshExpiresIn
+        }
+      }
+    };
+  } catch (error: unknown) {
+    loggingUtil.getRequestLogger(req, 'Service').error('Service failed.', { name: 'getAuthentication', error });
+
+    metricsUtil.authenticationAttemptCounter.increment({ method: 'basic', result: 'error', reason: 'exception' });
+
+    return {
+      status: 500,
+      data: {
+        status: false,
+        statusCode: 500,
+        timestamp,
+        path: req.originalUrl || req.url,
+        method: req.method,
+        message: 'Authentication process encountered a technical issue.',
+        suggestion: 'Our team has been notified. Please try again in a few minutes.' 
+      }
+    }
+  };
+};
+
+/**
+ * ## refreshAuthentication
+ * 
+ * Exchanges a refresh token for a new access token and a rotated refresh token.
+ * 
+ * @description This function lets clients renew their session without resending their credentials.
+ * The refresh token issued by {@link getAuthentication} is sent in the request body and, if valid,
+ * is consumed and replaced by a new one belonging to the same token family.
+ * 
+ * The function handles:
+ * 
+ * - Refresh token presence validation in the request body
+ * - Refresh token lookup by its SHA-256 hash
+ * - Reuse detection, revoking the whole token family when a rotated token is presented again
+ * - Expiration and user active status verification
+ * - Atomic rotation, guaranteeing a refresh token can only be consumed once
+ * - JWT token generation with the user's current role list
+ * 
+ * ### Refresh Flow:
+ * 
+ * 1. Read the refresh token from the request body
+ * 2. Retrieve the stored refresh token and its user
+ * 3. Revoke the token family if the token was already used or revoked
+ * 4. Verify the token has not expired and the user is still active
+ * 5. Mark the token as revoked and link it to its replacement
+ * 6. Persist the new refresh token in the same family
+ * 7. Return success response with the new tokens or appropriate error response
+ * 
+ * ### Error Scenarios:
+ * 
+ * - Missing refresh token: 400 Bad Request
+ * - Unknown refresh token, or one issued to another application: 401 Unauthorized
+ * - Reused or revoked refresh token: 401 Unauthorized (token family revoked)
+ * - Expired refresh token: 401 Unauthorized
+ * - Inactive user account: 403 Forbidden (token family revoked)
+ * - Database or other technical errors: 500 Internal Server Error
+ * 
+ * @param req - Express Request object containing the refresh token in its body.
+ * @param _res - Express Response object (unused but required for middleware signature).
+ * @param _next - Express NextFunction (unused but required for middleware signature).
+ * @param timestamp - Current timestamp string for logging and response generation.
+ * 
+ * @returns Promise resolving to IResponse containing either:
+ * 
+ * - Success (200): New JWT token, rotated refresh token and user data
+ * - Error (400/401/403/500): Appropriate error message and suggestion
+ */
+export const refreshAuthentication = async (
+  req: Request,
+  _res: Response,
+  _next: NextFunction,
+  timestamp: string
+): Promise<IResponse.IResponse<IResponseData.IResponseData | IResponseData.IAuthenticationResponseData>> => {
+  const reqBodyRefreshToken = req.body?.refreshToken;
+
+  if (!Object.isString(reqBodyRefreshToken) || !reqBodyRefreshToken) {
+    metricsUtil.authenticationAttemptCounter.increment({ method: 'refresh_token', result: 'failure', reason: 'missing_credentials' });
+
+    return { 
+      status: 400, 
+      data: { 
+        status: false,
+        statusCode: 400,
+        timestamp,
+        path: req.originalUrl || req.url,
+        method: req.method,
+        message: 'Refresh token required to renew the session.',
+        suggestion: 'Send the refresh token obtained on authentication in the request body as "refreshToken".' 
+      }
+    };
+  }
+
+  try {
+    const storedRefreshToken = await prisma.refresh_tokens.findFirst(
+      {
+        where: { 
+          token_hash: hashRefreshToken(reqBodyRefreshToken),
+          users: { application_type: path.basename(process.cwd()) }
+        },
+        include: { users: true }
+      }
+    ) || undefined;
+
+    if (!storedRefreshToken) {
+      metricsUtil.authenticationAttemptCounter.increment({ method: 'refresh_token', result: 'failure', reason: 'invalid_refresh_token' });
+
+      return {
+        status: 401,
+        data: {
+          status: false,
+          statusCode: 401,
+          timestamp,
+          path: req.originalUrl || req.url,
+          method: req.method,
+          message: 'Invalid refresh token.',
+          suggestion: 'Please log in again to obtain a new refresh token.' 
+        }
+      };
+    }
+
+    if (storedRefreshToken.is_refresh_token_revoked) {
+      await revokeRefreshTokenFamily(storedRefreshToken.family_id);
+
+      metricsUtil.authenticationAttemptCounter.increment({ method: 'refresh_token', result: 'failure', reason: 'refresh_token_reused' });
+
+      return {
+        status: 401,
+        data: {
+          status: false,
+          statusCode: 401,
+          timestamp,
+          path: req.originalUrl || req.url,
+          method: req.method,
+          message: 'Refresh token has already been used or revoked.',
+          suggestion: 'For your security, all sessions from this login were revoked. Please log in again.' 
+        }
+      };
+    }
+
+    if (storedRefreshToken.expires_at.getTime() < Date.now()) {
+      metricsUtil.authenticationAttemptCounter.increment({ method: 'refresh_token', result: 'failure', reason: 'refresh_token_expired' });
+
+      return {
+        status: 401,
         data: {
           status: false,
           statusCode: 401,
           timestamp,
           path: req.originalUrl || req.url,
           method: req.method,
-          message: 'Password verification failed.',
-          suggestion: 'Check your password and try again. Reset your password if needed.' 
+          message: 'Your refresh token has expired.',
+          suggestion: 'Please log in again to obtain a new refresh token.' 
+        }
+      };
+    }
+
+    const user = storedRefreshToken.users;
+
+    if (!user.is_user_active) {
+      await revokeRefreshTokenFamily(storedRefreshToken.family_id);
+
+      metricsUtil.authenticationAttemptCounter.increment({ method: 'refresh_token', result: 'failure', reason: 'user_inactive' });
+
+      return { 
+        status: 403, 
+        data: {
+          status: false,
+          statusCode: 403,
+          timestamp,
+          path: req.originalUrl || req.url,
+          method: req.method,
+          message: 'This account has been deactivated.',
+          suggestion: 'Contact your administrator to reactivate this account.' 
         }
       };
     }
 
-    let expiresIn: number;
-    const jwtExpiresInInt = parseInt(process.env.JWT_EXPIRES_IN.slice(0, -1), 10);
-    
-    switch (process.env.JWT_EXPIRES_IN.slice(-1)) {
-      case 's': expiresIn = Date.now() + (jwtExpiresInInt * 1000); break;
-      case 'm': expiresIn = Date.now() + (jwtExpiresInInt * 60 * 1000); break;
-      case 'h': expiresIn = Date.now() + (jwtExpiresInInt * 60 * 60 * 1000); break;
-      case 'd': expiresIn = Date.now() + (jwtExpiresInInt * 24 * 60 * 60 * 1000); break;
-      default: expiresIn = Date.now() + (3600 * 1000);
+    const expiresIn = getExpirationTimestamp(configurationUtil.getConfiguration().jwt.expiresIn);
+    const { refreshToken, refreshTokenHash, refreshExpiresIn } = generateRefreshToken();
+
+    const isRotated = await prisma.$transaction(
+      async (transaction: Prisma.TransactionClient): Promise<boolean> => {
+        const { count } = await transaction.refresh_tokens.updateMany(
+          {
+            where: {
+              id: storedRefreshToken.id,
+              is_refresh_token_revoked: false
+            },
+            data: {
+              is_refresh_token_revoked: true,
+              replaced_by_token_hash: refreshTokenHash
+            }
+          }
+        );
+
+        if (count === 0) {
+          return false;
+        }
+
+        await transaction.refresh_tokens.create(
+          {
+            data: {
+              user_id: user.id,
+              family_id: storedRefreshToken.family_id,
+              token_hash: refreshTokenHash,
+              expires_at: new Date(refreshExpiresIn)
+            }
+          }
+        );
+
+        return true;
+      }
+    );
+
+    if (!isRotated) {
+      await revokeRefreshTokenFamily(storedRefreshToken.family_id);
+
+      metricsUtil.authenticationAttemptCounter.increment({ method: 'refresh_token', result: 'failure', reason: 'refresh_token_reused' });
+
+      return {
+        status: 401,
+        data: {
+          status: false,
+          statusCode: 401,
+          timestamp,
+          path: req.originalUrl || req.url,
+          method: req.method,
+          message: 'Refresh token has already been used or revoked.',
+          suggestion: 'For your security, all sessions from this login were revoked. Please log in again.' 
+        }
+      };
     }
-   
+
+    metricsUtil.authenticationAttemptCounter.increment({ method: 'refresh_token', result: 'success' });
+
     return {
       status: 200,
       data: {
@@ -233,23 +587,31 @@ export const getAuthentication = async (
         path: req.originalUrl || req.url,
         method: req.method,
         data: {
-          username,
+          username: user.username,
           roleList: user.role_list,
           token: JWT.sign(
             {
-              username,
+              username: user.username,
               roleList: user.role_list,
-              expiresIn
+              expiresIn,
+              issuedAt: Date.now()
             },
-            process.env.JWT_SECRET as Secret,
-            { expiresIn: process.env.JWT_EXPIRES_IN as StringValue }
+            configurationUtil.getConfiguration().jwt.secret,
+            { 
+              expiresIn: configurationUtil.getConfiguration().jwt.expiresIn as StringValue,
+              jwtid: crypto.randomUUID()
+            }
           ),
-          expiresIn
+          expiresIn,
+          refreshToken,
+          refreshExpiresIn
         }
       }
     };
   } catch (error: unknown) {
-    console.log(`Service | Timestamp: ${ timestamp } | Name: getAuthentication | Error: ${ error instanceof Error ? error.message : String(error) }`);
+    loggingUtil.getRequestLogger(req, 'Service').error('Service failed.', { name: 'refreshAuthentication', error });
+
+    metricsUtil.authenticationAttemptCounter.increment({ method: 'refresh_token', result: 'error', reason: 'exception' });
 
     return {
       status: 500,
@@ -259,9 +621,216 @@ export const getAuthentication = async (
         timestamp,
         path: req.originalUrl || req.url,
         method: req.method,
-        message: 'Authentication process encountered a technical issue.',
+        message: 'Session renewal encountered a technical issue.',
         suggestion: 'Our team has been notified. Please try again in a few minutes.' 
       }
+    };
+  }
+};
+
+/**
+ * ## logout
+ * 
+ * Revokes the caller's access token and, optionally, its refresh tokens.
+ * 
+ * @description This function ends a session before its tokens expire. It runs behind the
+ * authorization middleware, so the decoded token of the caller is available on the request.
+ * 
+ * The function handles:
+ * 
+ * - Revocation of the access token through its `jti` claim, until its expiration
+ * - Revocation of the refresh token family when a refresh token is sent in the request body
+ * - Revocation of every session of the user when `allSessions` is true in the request body
+ * 
+ * Refresh tokens that belong to another user are ignored, so a caller cannot revoke someone
+ * else's session by guessing tokens.
+ * 
+ * ### Error Scenarios:
+ * 
+ * - Access token without a `jti` claim, which cannot be revoked on its own, unless `allSessions` is true: 400 Bad Request
+ * - Database or revocation store errors: 500 Internal Server Error
+ * 
+ * @param req - Express Request object carrying the decoded token and an optional body with `refreshToken` and `allSessions`.
+ * @param _res - Express Response object (unused but required for middleware signature).
+ * @param _next - Express NextFunction (unused but required for middleware signature).
+ * @param timestamp - Current timestamp string for logging and response generation.
+ * 
+ * @returns Promise resolving to IResponse containing either:
+ * 
+ * - Success (200): Confirmation that the session was ended
+ * - Error (400/500): Appropriate error message and suggestion
+ */
+export const logout = async (
+  req: Request,
+  _res: Response,
+  _next: NextFunction,
+  timestamp: string
+): Promise<IResponse.IResponse<IResponseData.IResponseData>> => {
+  const decodedToken = (req as any).user as IDecodedToken.IDecodedToken;
+  const revocationStore = tokenRevocationUtil.getRevocationStore();
+
+  if (req.body?.allSessions !== true && !decodedToken.jti) {
+    return {
+      status: 400,
+      data: {
+        status: false,
+        statusCode: 400,
+        timestamp,
+        path: req.originalUrl || req.url,
+        method: req.method,
+        message: 'This authentication token cannot be revoked on its own.',
+        suggestion: 'Log out with allSessions set to true, or log in again to obtain a revocable token.'
+      }
+    };
+  }
+
+  try {
+    if (req.body?.allSessions === true) {
+      await revocationStore.revokeUser(decodedToken.username);
+      
+      await prisma.refresh_tokens.updateMany(
+        {
+          where: { 
+            users: {
+              application_type: path.basename(process.cwd()),
+              username: decodedToken.username 
+            }
+          },
+          data: { is_refresh_token_revoked: true }
+        }
+      );
+    } else {
+      await revocationStore.revokeToken(decodedToken.jti, decodedToken.expiresIn);
+
+      const reqBodyRefreshToken = req.body?.refreshToken;
+
+      if (Object.isString(reqBodyRefreshToken) && reqBodyRefreshToken) {
+        const storedRefreshToken = await prisma.refresh_tokens.findFirst(
+          {
+            where: { 
+              token_hash: hashRefreshToken(reqBodyRefreshToken),
+              users: { application_type: path.basename(process.cwd()) }
+            },
+            include: { users: true }
+          }
+        ) || undefined;
+
+        if (storedRefreshToken?.users.username === decodedToken.username) {
+          await revokeRefreshTokenFamily(storedRefreshToken.family_id);
+        }
+      }
     }
-  };
+
+    return {
+      status: 200,
+      data: {
+        status: true,
+        statusCode: 200,
+        timestamp,
+        path: req.originalUrl || req.url,
+        method: req.method,
+        message: 'Session ended successfully.',
+        suggestion: 'Authenticate again to obtain new tokens.'
+      }
+    };
+  } catch (error: unknown) {
+    loggingUtil.getRequestLogger(req, 'Service').error('Service failed.', { name: 'logout', error });
+
+    return {
+      status: 500,
+      data: {
+        status: false,
+        statusCode: 500,
+        timestamp,
+        path: req.originalUrl || req.url,
+        method: req.method,
+        message: 'Logout process encountered a technical issue.',
+        suggestion: 'Our team has been notified. Please try again in a few minutes.' 
+      }
+    };
+  }
+};
+
+/**
+ * ## unlockAuthentication
+ * 
+ * Lifts the authentication lockout of a username or an IP address.
+ * 
+ * @description This function lets administrators restore access before a lockout expires (e.g., once
+ * the legitimate owner of an account has been verified). It runs behind the authorization middleware,
+ * so the username of the administrator is recorded in the lockout audit records.
+ * 
+ * The failed attempts of the target are forgotten as well, so the next failure does not lock it again.
+ * 
+ * ### Error Scenarios:
+ * 
+ * - Neither username nor ipAddress in the request body: 400 Bad Request
+ * - Database or login attempt store errors: 500 Internal Server Error
+ * 
+ * @param req - Express Request object carrying the decoded token and a body with `username` and/or `ipAddress`.
+ * @param _res - Express Response object (unused but required for middleware signature).
+ * @param _next - Express NextFunction (unused but required for middleware signature).
+ * @param timestamp - Current timestamp string for logging and response generation.
+ * 
+ * @returns Promise resolving to IResponse containing either:
+ * 
+ * - Success (200): Confirmation of the unlock, stating whether a lockout was active
+ * - Error (400/500): Appropriate error message and suggestion
+ */
+export const unlockAuthentication = async (
+  req: Request,
+  _res: Response,
+  _next: NextFunction,
+  timestamp: string
+): Promise<IResponse.IResponse<IResponseData.IResponseData>> => {
+  const decodedToken = (req as any).user as IDecodedToken.IDecodedToken;
+  const username = Object.isString(req.body?.username) && req.body.username ? req.body.username : undefined;
+  const ipAddress = Object.isString(req.body?.ipAddress) && req.body.ipAddress ? req.body.ipAddress : undefined;
+
+  if (!username && !ipAddress) {
+    return {
+      status: 400,
+      data: {
+        status: false,
+        statusCode: 400,
+        timestamp,
+        path: req.originalUrl || req.url,
+        method: req.method,
+        message: 'Unlock target required.',
+        suggestion: 'Provide the username and/or the ipAddress to unlock in the request body.'
+      }
+    };
+  }
+
+  try {
+    const wasLocked = await bruteForceProtectionUtil.unlock({ username, ipAddress }, decodedToken.username);
+
+    return {
+      status: 200,
+      data: {
+        status: true,
+        statusCode: 200,
+        timestamp,
+        path: req.originalUrl || req.url,
+        method: req.method,
+        message: wasLocked ? 'Lockout lifted successfully.' : 'No active lockout was found; failed attempts were cleared.',
+        suggestion: 'The user may authenticate again.'
+      }
+    };
+  } catch (error: unknown) {
+    loggingUtil.getRequestLogger(req, 'Service').error('Service failed.', { name: 'unlockAuthentication', error });
+
+    return {
+      status: 500,
+      data: {
+        status: false,
+        statusCode: 500,
+        timestamp,
+        path: req.originalUrl || req.url,
+        method: req.method,
+        message: 'Unlock process encountered a technical issue.',
+        suggestion: 'Our team has been notified. Please try again in a few minutes.' 
+      }
+    };
+  }
 };
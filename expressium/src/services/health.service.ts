@@ -0,0 +1,87 @@
+import { Request, Response, NextFunction } from 'express';
+import { IResponse, IResponseData } from '../interfaces';
+import { healthCheckUtil, lifecycleUtil } from '../utils';
+
+/**
+ * ## getLiveness
+ * 
+ * Reports whether the API process is alive.
+ * 
+ * @description This service backs the liveness probe. It never touches external dependencies, so that
+ * an unavailable database does not get a healthy process restarted by the orchestrator; answering the
+ * request is enough to prove the process is alive.
+ * 
+ * @param req - Express Request object.
+ * @param _res - Express Response object (unused).
+ * @param _next - Express NextFunction (unused).
+ * @param timestamp - Formatted timestamp of the request.
+ * 
+ * @returns The liveness response with uptime and version information.
+ */
+export const getLiveness = (
+  req: Request, 
+  _res: Response, 
+  _next: NextFunction, 
+  timestamp: string
+): IResponse.IResponse<IResponseData.IHealthResponseData> => {
+  return {
+    status: 200,
+    data: {
+      status: true,
+      statusCode: 200,
+      timestamp,
+      path: req.originalUrl || req.url,
+      method: req.method,
+      data: {
+        status: 'up',
+        uptimeSeconds: healthCheckUtil.getUptime(),
+        version: healthCheckUtil.getVersion()
+      }
+    }
+  };
+};
+
+/**
+ * ## getReadiness
+ * 
+ * Reports whether the API is ready to serve requests.
+ * 
+ * @description This service backs the readiness probe. It runs every registered health check and answers:
+ * 
+ * - 200: Every check succeeded, or only non-critical checks failed (degraded)
+ * - 503: At least one critical check failed, so traffic should be routed elsewhere
+ * 
+ * Once the shutdown has started, the checks are skipped and the probe answers 503 with a 'down' status
+ * until the servers close, so that load balancers stop routing requests to the draining instance.
+ * 
+ * @param req - Express Request object.
+ * @param _res - Express Response object (unused).
+ * @param _next - Express NextFunction (unused).
+ * @param timestamp - Formatted timestamp of the request.
+ * 
+ * @returns Promise resolving with the readiness response carrying the health report.
+ */
+export const getReadiness = async (
+  req: Request, 
+  _res: Response, 
+  _next: NextFunction, 
+  timestamp: string
+): Promise<IResponse.IResponse<IResponseData.IHealthResponseData>> => {
+  const healthReport: IResponseData.IHealthResponseData['data'] = lifecycleUtil.isShuttingDown()
+    ? { status: 'down', uptimeSeconds: healthCheckUtil.getUptime(), version: healthCheckUtil.getVersion() }
+    : await healthCheckUtil.runHealthCheckList();
+
+  const statusCode = healthReport.status === 'down' ? 503 : 200;
+
+  return {
+    status: statusCode,
+    data: {
+      status: statusCode === 200,
+      statusCode,
+      timestamp,
+      path: req.originalUrl || req.url,
+      method: req.method,
+      data: healthReport
+    }
+  };
+};
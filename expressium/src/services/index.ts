@@ -1 +1,3 @@
 export * as appService from './app.service';
+export * as healthService from './health.service';
+export * as routeService from './route.service';
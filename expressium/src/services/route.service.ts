@@ -0,0 +1,55 @@
+import { NextFunction, Request, Response } from 'express';
+import { ParsedQs } from 'qs';
+import { IResponse, IResponseData } from '../interfaces';
+import { IRouteMap, IServiceHandler } from '../routes/interfaces';
+
+/**
+ * ## generateRouteList
+ * 
+ * Generates the service listing the routes of the API.
+ * 
+ * @description The returned service backs the route listing endpoint. It describes every registered route
+ * with its HTTP method, full path (including the '/api' prefix), access rules and documentation summary,
+ * so that administrators can audit what the running API exposes.
+ * 
+ * The route registry is read on every request, so routes generated after the endpoint are listed as well.
+ * 
+ * @param getRouteMapList - Function returning the route registry (see appRoute.getRouteMapList).
+ * 
+ * @returns The service answering with the route list.
+ */
+export const generateRouteList = (
+  getRouteMapList: () => IRouteMap.IRouteMap[]
+): IServiceHandler.IServiceHandler<Record<string, string>, ParsedQs, unknown, IResponseData.IRouteListResponseData> => {
+  return (
+    req: Request<Record<string, string>, unknown, unknown, ParsedQs>, 
+    _res: Response, 
+    _next: NextFunction, 
+    timestamp: string
+  ): IResponse.IResponse<IResponseData.IRouteListResponseData> => {
+    return {
+      status: 200,
+      data: {
+        status: true,
+        statusCode: 200,
+        timestamp,
+        path: req.originalUrl || req.url,
+        method: req.method,
+        data: getRouteMapList().map(
+          (routeMap: IRouteMap.IRouteMap): IResponseData.IRouteListResponseData['data'][number] => {
+            return {
+              method: routeMap.method.toUpperCase(),
+              path: `/api/${ routeMap.version }/${ routeMap.endpoint }`,
+              version: routeMap.version,
+              requiresAuthorization: routeMap.requiresAuthorization ?? true,
+              roleList: routeMap.roleList ?? [],
+              permissionList: routeMap.permissionList ?? [],
+              summary: routeMap.documentation?.summary,
+              tagList: routeMap.documentation?.tagList ?? []
+            };
+          }
+        )
+      }
+    };
+  };
+};
@@ -1,6 +1,9 @@
 import axios from 'axios';
 import { AxiosError, AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios/index';
 import { IConfigurationMap } from './interfaces';
+import { registerShutdownHook } from './lifecycle.util';
+import { getDurationInSeconds, httpClientRequestCounter, httpClientRequestDurationHistogram } from './metrics.util';
+import { getRequestId, getRequestSignal } from './requestContext.util';
 import { IAuthenticationStrategy } from './strategies/interfaces';
 
 /**
@@ -18,9 +21,13 @@ import { IAuthenticationStrategy } from './strategies/interfaces';
  * - Configurable authentication strategies that can be applied globally to all requests
  * - Automatic request retries with exponential backoff for transient failures
  * - Custom headers and request timeouts
- * - Automatic request ID generation for improved traceability
+ * - Request ID propagation from the inbound request for end-to-end traceability
+ * - Outbound request metrics (count and duration by method, host and status code)
+ * - Cancellation of in-flight requests on shutdown, alongside any AbortSignal given per request and the abort
+ * signal of the inbound request they are sent on behalf of
  * - Type-safe responses using TypeScript generics
  *  
+ * @method abortInFlightRequests - Aborts the requests in progress of every HttpClient instance.
  * @method setAuthenticationStrategy - Sets the current authentication strategy for the client to be applied to all subsequent requests.
  * @method clearAuthenticationStrategy - Clears the current authentication strategy, resulting in unauthenticated requests.
  * @method request - Makes a generic HTTP request with the current authentication strategy and specified configuration.
@@ -105,6 +112,20 @@ export class HttpClient {
     timeout: 30000
   };
 
+  /**
+   * ## inFlightAbortControllerSet
+   * 
+   * Abort controllers of the requests in progress, across every HttpClient instance.
+   * 
+   * @description Each request registers its controller until it settles, retries included, so that
+   * {@link HttpClient.abortInFlightRequests} can cancel every outbound request when the API shuts down.
+   * 
+   * @private
+   * @static
+   * @readonly
+   */
+  private static readonly inFlightAbortControllerSet = new Set<AbortController>();
+
   /**
    * ## constructor
    * 
@@ -244,7 +265,7 @@ export class HttpClient {
    * 
    * 1. Request Interceptor:
    * 
-   * - Adds a unique request ID header (X-Request-ID) to each request for traceability
+   * - Forwards the inbound request ID in the X-Request-ID header, or generates one outside of a request
    * - Applies the current authentication strategy to the request configuration
    * - Handles any errors that occur during the request preparation phase
    * 
@@ -274,7 +295,7 @@ export class HttpClient {
           ...configurationMap,
           headers: {
             ...configurationMap.headers,
-            'X-Request-ID': crypto.randomUUID()
+            'X-Request-ID': getRequestId() ?? crypto.randomUUID()
           }
         };
 
@@ -332,7 +353,12 @@ export class HttpClient {
    * 2. Applies the current authentication strategy through the request interceptor
    * 3. Sends the request to the server
    * 4. Handles retries for failed requests based on the retry configuration
-   * 5. Returns the typed response or rejects with an error
+   * 5. Records the outbound request metrics, including the time spent on retries
+   * 6. Returns the typed response or rejects with an error
+   * 
+   * The request is aborted when the AbortSignal of the configuration fires, when the inbound request it is sent
+   * on behalf of times out or is abandoned by its client (see requestContextUtil.getRequestSignal), or when every
+   * in-flight request is aborted on shutdown (see {@link HttpClient.abortInFlightRequests}).
    * 
    * The generic type parameter T allows for type-safe responses, ensuring that
    * the returned data matches the expected structure.
@@ -370,14 +396,92 @@ export class HttpClient {
     data?: unknown,
     configurationMap: AxiosRequestConfig<any> = {}
   ): Promise<AxiosResponse<T, any>> {
-    return this.axiosInstance.request<T>(
-      {
-        method,
-        url,
-        data,
-        ...configurationMap
-      }
-    );
+    const startTime = performance.now();
+    const abortController = new AbortController();
+    const requestSignal = getRequestSignal();
+
+    const signalList = [abortController.signal, configurationMap.signal as AbortSignal | undefined, requestSignal]
+      .filter((signal: AbortSignal | undefined): signal is AbortSignal => signal !== undefined);
+
+    let statusCode: number | string = 'error';
+
+    HttpClient.inFlightAbortControllerSet.add(abortController);
+
+    try {
+      const response = await this.axiosInstance.request<T>(
+        {
+          method,
+          url,
+          data,
+          ...configurationMap,
+          signal: signalList.length > 1 ? AbortSignal.any(signalList) : abortController.signal
+        }
+      );
+
+      statusCode = response.status;
+
+      return response;
+    } catch (error: unknown) {
+      statusCode = (error as AxiosError).response?.status ?? 'error';
+
+      throw error;
+    } finally {
+      HttpClient.inFlightAbortControllerSet.delete(abortController);
+
+      const labelMap = { 
+        method: (configurationMap.method ?? method).toUpperCase(), 
+        host: this.getHost(url, configurationMap.baseURL), 
+        status_code: statusCode 
+      };
+
+      httpClientRequestCounter.increment(labelMap);
+      httpClientRequestDurationHistogram.observe(labelMap, getDurationInSeconds(startTime));
+    }
+  }
+
+  /**
+   * ## abortInFlightRequests
+   * 
+   * Aborts the requests in progress of every HttpClient instance.
+   * 
+   * @description Called on shutdown, once the servers have stopped serving requests, so that outbound requests
+   * still waiting for slow upstream services do not delay the exit. Aborted requests reject with a canceled error
+   * and are not retried.
+   * 
+   * @public
+   * @static
+   * 
+   * @returns The number of requests aborted.
+   */
+  public static abortInFlightRequests(): number {
+    const abortedRequestCount = HttpClient.inFlightAbortControllerSet.size;
+
+    HttpClient.inFlightAbortControllerSet.forEach((abortController: AbortController): void => abortController.abort());
+    HttpClient.inFlightAbortControllerSet.clear();
+
+    return abortedRequestCount;
+  }
+
+  /**
+   * ## getHost
+   * 
+   * Resolves the host targeted by a request, used to label the outbound request metrics.
+   * 
+   * @description Only the host is kept, since full URLs would create one metric series per resource.
+   * 
+   * @private
+   * 
+   * @param url - Request URL, absolute or relative to the base URL.
+   * @param baseURL - Base URL of the request, defaulting to the one of the client.
+   * 
+   * @returns The target host (e.g., 'api.example.com:8443'), or 'unknown' when it cannot be resolved.
+   */
+  private getHost(url: string, baseURL: string | undefined = this.axiosInstance.defaults.baseURL): string {
+    try {
+      return new URL(url, baseURL).host || 'unknown';
+    } catch {
+      return 'unknown';
+    }
   }
 
   /**
@@ -722,3 +826,5 @@ export class HttpClient {
     return this.request<T>('DELETE', url, undefined, configurationMap);
   }
 }
+
+registerShutdownHook({ name: 'httpClient', run: (): void => void HttpClient.abortInFlightRequests() });
@@ -0,0 +1,259 @@
+import { formatAsDayMonthYearHoursMinutesSeconds } from './dateTimeFormatter.util';
+import { ILogEntry, ILoggerConfiguration } from './interfaces';
+import { ILogSink } from './sinks/interfaces';
+
+/**
+ * ## Logger
+ * 
+ * Structured logger with severity levels, output formats and pluggable sinks.
+ * 
+ * @description This class produces structured log entries and hands them to the configured sinks.
+ * It replaces ad-hoc console output across the application so that logs can be parsed by aggregators
+ * while remaining readable during development.
+ * 
+ * Key features include:
+ * 
+ * - Severity levels (debug, info, warn, error) with a configurable minimum level
+ * - JSON output (one object per line) or pretty output in the `Component | Timestamp: ... | ...` style
+ * - Child loggers carrying context fields such as component, request ID, user and route
+ * - Any number of sinks (e.g., stdout and a rotating file) receiving every entry
+ * - Error values serialized with their name, message and stack
+ * 
+ * @method child - Creates a logger that adds context fields to every entry.
+ * @method withSinkList - Creates a logger that also writes to additional sinks.
+ * @method debug - Logs a debug message.
+ * @method info - Logs an informational message.
+ * @method warn - Logs a warning message.
+ * @method error - Logs an error message.
+ * @method flush - Flushes every sink that buffers entries.
+ */
+export class Logger {
+  /**
+   * ## LEVEL_PRIORITY_MAP
+   * 
+   * Numeric priority of each severity level, used to filter entries below the minimum level.
+   * 
+   * @private
+   * @static
+   * @readonly
+   */
+  private static readonly LEVEL_PRIORITY_MAP: Record<ILogEntry.ILogEntry['level'], number> = {
+    debug: 10,
+    info: 20,
+    warn: 30,
+    error: 40
+  };
+
+  /**
+   * ## constructor
+   * 
+   * Creates a logger writing to the given sinks.
+   * 
+   * @param configuration - Minimum level, output format and sinks, shared with every child logger.
+   * @param context - Fields added to every entry logged by this logger.
+   */
+  constructor(
+    /** @private @readonly */
+    private readonly configuration: ILoggerConfiguration.ILoggerConfiguration,
+    /** @private @readonly */
+    private readonly context: Record<string, unknown> = {}
+  ) {}
+
+  /**
+   * ## serializeValue
+   * 
+   * Converts values that do not serialize well to JSON (e.g., errors) into plain objects.
+   * 
+   * @private
+   * @static
+   * 
+   * @param value - The metadata value to serialize.
+   * 
+   * @returns The value ready to be serialized.
+   */
+  private static serializeValue(value: unknown): unknown {
+    if (value instanceof Error) {
+      return { name: value.name, message: value.message, stack: value.stack };
+    }
+
+    return value;
+  }
+
+  /**
+   * ## formatPretty
+   * 
+   * Formats an entry as a human readable line.
+   * 
+   * @description Lines follow the `Component | Timestamp: ... | Level: ... | Message: ... | field: value` layout
+   * used by the application logs, with every context and metadata field appended as `field: value`.
+   * 
+   * @private
+   * @static
+   * 
+   * @param entry - The structured log entry.
+   * 
+   * @returns The formatted line.
+   */
+  private static formatPretty(entry: ILogEntry.ILogEntry): string {
+    const { timestamp, level, message, component, ...fieldMap } = entry;
+
+    return [
+      component ?? 'Application',
+      `Timestamp: ${ formatAsDayMonthYearHoursMinutesSeconds(new Date(timestamp)) }`,
+      `Level: ${ level.toUpperCase() }`,
+      `Message: ${ message }`,
+      ...Object.entries(fieldMap)
+        .filter(([, value]: [string, unknown]): boolean => value !== undefined)
+        .map(([key, value]: [string, unknown]): string => `${ key }: ${ typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value) }`)
+    ].join(' | ');
+  }
+
+  /**
+   * ## log
+   * 
+   * Builds, formats and delivers an entry to every sink.
+   * 
+   * @description Entries below the configured minimum level are discarded. A sink failing to write
+   * never interrupts the application nor prevents the remaining sinks from receiving the entry.
+   * 
+   * @private
+   * 
+   * @param level - Severity of the entry.
+   * @param message - Human readable description of the event.
+   * @param metadata - Additional fields of the entry.
+   */
+  private log(level: ILogEntry.ILogEntry['level'], message: string, metadata: Record<string, unknown> = {}): void {
+    if (Logger.LEVEL_PRIORITY_MAP[level] < Logger.LEVEL_PRIORITY_MAP[this.configuration.level]) {
+      return;
+    }
+
+    const entry: ILogEntry.ILogEntry = { timestamp: new Date().toISOString(), level, message };
+
+    Object.entries({ ...this.context, ...metadata }).forEach(
+      ([key, value]: [string, unknown]): void => {
+        if (!(key in entry)) {
+          entry[key] = Logger.serializeValue(value);
+        }
+      }
+    );
+
+    const line = this.configuration.format === 'json' ? JSON.stringify(entry) : Logger.formatPretty(entry);
+
+    this.configuration.sinkList.forEach(
+      (sink): void => {
+        try {
+          sink.write(entry, line);
+        } catch {
+          // A failing sink must not break the request being logged.
+        }
+      }
+    );
+  }
+
+  /**
+   * ## child
+   * 
+   * Creates a logger that adds context fields to every entry.
+   * 
+   * @description The child shares the configuration of its parent and inherits its context.
+   * Fields given here take precedence over inherited fields with the same name.
+   * 
+   * @public
+   * 
+   * @param context - Fields such as component, requestId, user or route.
+   * 
+   * @returns The child logger.
+   */
+  public child(context: Record<string, unknown>): Logger {
+    return new Logger(this.configuration, { ...this.context, ...context });
+  }
+
+  /**
+   * ## withSinkList
+   * 
+   * Creates a logger that also writes to additional sinks.
+   * 
+   * @description The logger keeps the level, format, sinks and context of this logger, and hands
+   * every entry to the additional sinks as well (e.g., a dedicated access log file).
+   * 
+   * @public
+   * 
+   * @param additionalSinkList - Sinks receiving the entries besides the ones of this logger.
+   * 
+   * @returns The logger writing to every sink.
+   */
+  public withSinkList(additionalSinkList: ILogSink.ILogSink[]): Logger {
+    return new Logger({ ...this.configuration, sinkList: [...this.configuration.sinkList, ...additionalSinkList] }, this.context);
+  }
+
+  /**
+   * ## debug
+   * 
+   * Logs a debug message.
+   * 
+   * @public
+   * 
+   * @param message - Human readable description of the event.
+   * @param metadata - Additional fields of the entry.
+   */
+  public debug(message: string, metadata?: Record<string, unknown>): void {
+    this.log('debug', message, metadata);
+  }
+
+  /**
+   * ## info
+   * 
+   * Logs an informational message.
+   * 
+   * @public
+   * 
+   * @param message - Human readable description of the event.
+   * @param metadata - Additional fields of the entry.
+   */
+  public info(message: string, metadata?: Record<string, unknown>): void {
+    this.log('info', message, metadata);
+  }
+
+  /**
+   * ## warn
+   * 
+   * Logs a warning message.
+   * 
+   * @public
+   * 
+   * @param message - Human readable description of the event.
+   * @param metadata - Additional fields of the entry.
+   */
+  public warn(message: string, metadata?: Record<string, unknown>): void {
+    this.log('warn', message, metadata);
+  }
+
+  /**
+   * ## error
+   * 
+   * Logs an error message.
+   * 
+   * @public
+   * 
+   * @param message - Human readable description of the event.
+   * @param metadata - Additional fields of the entry, usually including the `error` itself.
+   */
+  public error(message: string, metadata?: Record<string, unknown>): void {
+    this.log('error', message, metadata);
+  }
+
+  /**
+   * ## flush
+   * 
+   * Flushes every sink that buffers entries.
+   * 
+   * @public
+   * 
+   * @async
+   * 
+   * @returns Promise that resolves once every sink has been flushed.
+   */
+  public async flush(): Promise<void> {
+    await Promise.all(this.configuration.sinkList.map((sink): Promise<void> | undefined => sink.flush?.()));
+  }
+}
@@ -0,0 +1,229 @@
+import { IApiVersionPolicy, IDeprecationPolicy } from './interfaces';
+
+const API_VERSION_REGEX = /^v[0-9]+$/;
+const ACCEPT_VERSION_REGEX = /^v?([0-9]+)$/i;
+
+/**
+ * ## apiVersionPolicyMap
+ * 
+ * Lifecycle of every registered API version, by version.
+ */
+const apiVersionPolicyMap = new Map<string, IApiVersionPolicy.IApiVersionPolicy>();
+
+/**
+ * ## apiVersionListenerList
+ * 
+ * Functions called whenever a version is registered (see {@link onApiVersionRegistered}).
+ */
+const apiVersionListenerList: ((version: string) => void)[] = [];
+
+/**
+ * ## isApiVersion
+ * 
+ * Returns whether a value is a valid API version.
+ * 
+ * @param version - The value to check.
+ * 
+ * @returns Whether the value is 'v' followed by a number (e.g., v1, v2, v10).
+ */
+export const isApiVersion = (version: string): boolean => {
+  return API_VERSION_REGEX.test(version);
+};
+
+/**
+ * ## normalizeApiVersion
+ * 
+ * Reads the API version requested through the Accept-Version header.
+ * 
+ * @param acceptVersion - Value of the header, with or without the 'v' prefix (e.g., 'v2' or '2').
+ * 
+ * @returns The API version (e.g., 'v2'), or undefined when the value is not a version.
+ */
+export const normalizeApiVersion = (acceptVersion: string): string | undefined => {
+  const match = ACCEPT_VERSION_REGEX.exec(acceptVersion.trim());
+
+  return match ? `v${ Number(match[1]) }` : undefined;
+};
+
+/**
+ * ## getFallbackVersionList
+ * 
+ * Lists the versions a version falls back to, closest first.
+ * 
+ * @param version - The API version.
+ * 
+ * @returns The fallback chain of the version (e.g., ['v2', 'v1'] for v3), empty when it has no fallback.
+ */
+export const getFallbackVersionList = (version: string): string[] => {
+  const fallbackVersionList: string[] = [];
+
+  for (
+    let fallbackVersion = apiVersionPolicyMap.get(version)?.fallbackVersion;
+    fallbackVersion && !fallbackVersionList.includes(fallbackVersion);
+    fallbackVersion = apiVersionPolicyMap.get(fallbackVersion)?.fallbackVersion
+  ) {
+    fallbackVersionList.push(fallbackVersion);
+  }
+
+  return fallbackVersionList;
+};
+
+/**
+ * ## registerApiVersion
+ * 
+ * Declares the lifecycle of an API version.
+ * 
+ * @description Versions do not need to be registered to be served; registering one deprecates it or makes it
+ * fall back to an older version. Routes already generated are aliased right away under the prefix of the versions
+ * now falling back to them, so versions can be registered before or after their routes, as long as it happens
+ * before any catch-all handler is added to the router.
+ * 
+ * @param version - The API version (e.g., 'v2').
+ * @param apiVersionPolicy - The lifecycle of the version.
+ * 
+ * @throws If the version is already registered or invalid, the sunset precedes the deprecation, or the fallback
+ * is invalid or creates a cycle.
+ */
+export const registerApiVersion = (version: string, apiVersionPolicy: IApiVersionPolicy.IApiVersionPolicy): void => {
+  const { deprecatedAt, sunsetAt, fallbackVersion } = apiVersionPolicy;
+
+  if (!isApiVersion(version)) {
+    throw new Error(`API version must be 'v' followed by a number (received "${ version }").`);
+  }
+
+  if (apiVersionPolicyMap.has(version)) {
+    throw new Error(`API version ${ version } is already registered.`);
+  }
+
+  if (deprecatedAt && sunsetAt && sunsetAt.getTime() < deprecatedAt.getTime()) {
+    throw new Error(`API version ${ version } cannot be sunset before it is deprecated.`);
+  }
+
+  if (fallbackVersion !== undefined) {
+    if (!isApiVersion(fallbackVersion) || fallbackVersion === version) {
+      throw new Error(`API version ${ version } must fall back to another valid version (received "${ fallbackVersion }").`);
+    }
+
+    const fallbackVersionList = [fallbackVersion, ...getFallbackVersionList(fallbackVersion)];
+
+    if (fallbackVersionList.includes(version)) {
+      throw new Error(`API version ${ version } cannot fall back to ${ fallbackVersion }, which falls back to it.`);
+    }
+  }
+
+  apiVersionPolicyMap.set(version, apiVersionPolicy);
+  apiVersionListenerList.forEach((listener: (version: string) => void): void => listener(version));
+};
+
+/**
+ * ## onApiVersionRegistered
+ * 
+ * Registers a function called whenever a version is registered.
+ * 
+ * @description Used by the route module to alias the routes already generated under the versions falling back to them.
+ * 
+ * @param listener - Function receiving the registered version.
+ */
+export const onApiVersionRegistered = (listener: (version: string) => void): void => {
+  apiVersionListenerList.push(listener);
+};
+
+/**
+ * ## getApiVersionPolicy
+ * 
+ * Returns the lifecycle of an API version.
+ * 
+ * @param version - The API version.
+ * 
+ * @returns The registered policy, or undefined when the version was not registered.
+ */
+export const getApiVersionPolicy = (version: string): IApiVersionPolicy.IApiVersionPolicy | undefined => {
+  return apiVersionPolicyMap.get(version);
+};
+
+/**
+ * ## getAliasVersionList
+ * 
+ * Lists the versions serving the routes of a version through their fallback.
+ * 
+ * @description Used to register every route under the prefix of each returned version as well. An alias only
+ * serves requests while none of its overriding versions defines the same route: the alias version itself,
+ * and the versions between it and the source version in its fallback chain.
+ * 
+ * @param sourceVersion - The version of the generated route.
+ * 
+ * @returns The alias versions with their overriding versions.
+ */
+export const getAliasVersionList = (sourceVersion: string): { version: string; overridingVersionList: string[] }[] => {
+  const aliasVersionList: { version: string; overridingVersionList: string[] }[] = [];
+
+  apiVersionPolicyMap.forEach(
+    (_apiVersionPolicy: IApiVersionPolicy.IApiVersionPolicy, version: string): void => {
+      const fallbackVersionList = getFallbackVersionList(version);
+      const sourceIndex = fallbackVersionList.indexOf(sourceVersion);
+
+      if (sourceIndex !== -1) {
+        aliasVersionList.push({ version, overridingVersionList: [version, ...fallbackVersionList.slice(0, sourceIndex)] });
+      }
+    }
+  );
+
+  return aliasVersionList;
+};
+
+/**
+ * ## getDeprecationPolicy
+ * 
+ * Combines the deprecation policies of a version and one of its routes.
+ * 
+ * @param version - The API version the request was served under.
+ * @param routeDeprecationPolicy - The deprecation policy of the route, if any.
+ * 
+ * @returns The earliest deprecation and sunset dates of both policies, with the route link taking precedence.
+ */
+export const getDeprecationPolicy = (
+  version: string, 
+  routeDeprecationPolicy: IDeprecationPolicy.IDeprecationPolicy = {}
+): IDeprecationPolicy.IDeprecationPolicy => {
+  const versionDeprecationPolicy = apiVersionPolicyMap.get(version) ?? {};
+
+  const getEarliestDate = (dateList: (Date | undefined)[]): Date | undefined => {
+    return dateList
+      .filter((date: Date | undefined): date is Date => date !== undefined)
+      .reduce((earliestDate: Date | undefined, date: Date): Date => earliestDate && earliestDate.getTime() <= date.getTime() ? earliestDate : date, undefined);
+  };
+
+  return {
+    deprecatedAt: getEarliestDate([versionDeprecationPolicy.deprecatedAt, routeDeprecationPolicy.deprecatedAt]),
+    sunsetAt: getEarliestDate([versionDeprecationPolicy.sunsetAt, routeDeprecationPolicy.sunsetAt]),
+    link: routeDeprecationPolicy.link ?? versionDeprecationPolicy.link
+  };
+};
+
+/**
+ * ## getDeprecationHeaderMap
+ * 
+ * Builds the response headers announcing a deprecation.
+ * 
+ * @param deprecationPolicy - The deprecation policy of the request.
+ * 
+ * @returns The Deprecation, Sunset and Link headers set by the policy, by name.
+ */
+export const getDeprecationHeaderMap = (deprecationPolicy: IDeprecationPolicy.IDeprecationPolicy): Record<string, string> => {
+  const { deprecatedAt, sunsetAt, link } = deprecationPolicy;
+  const headerMap: Record<string, string> = {};
+
+  if (deprecatedAt) {
+    headerMap['Deprecation'] = `@${ Math.floor(deprecatedAt.getTime() / 1000) }`;
+  }
+
+  if (sunsetAt) {
+    headerMap['Sunset'] = sunsetAt.toUTCString();
+  }
+
+  if (link && (deprecatedAt || sunsetAt)) {
+    headerMap['Link'] = `<${ link }>; rel="deprecation"`;
+  }
+
+  return headerMap;
+};
@@ -0,0 +1,179 @@
+import { Request } from 'express';
+import { IDecodedToken } from '../interfaces';
+import { IAuthorizationRequirement } from './interfaces';
+
+/**
+ * ## roleHierarchyMap
+ * 
+ * Roles inherited by each role.
+ * 
+ * @description Maps a role to the roles it includes (e.g., admin → [editor], editor → [viewer]).
+ * Inheritance is transitive and is configured with {@link setRoleHierarchyMap}.
+ */
+let roleHierarchyMap: Record<string, string[]> = {};
+
+/**
+ * ## rolePermissionMap
+ * 
+ * Permissions granted by each role.
+ * 
+ * @description Maps a role to the permission strings it grants (e.g., analyst → ['queries:read']).
+ * Configured with {@link setRolePermissionMap}.
+ */
+let rolePermissionMap: Record<string, string[]> = {};
+
+/**
+ * ## setRoleHierarchyMap
+ * 
+ * Replaces the role hierarchy used by the authorization middleware.
+ * 
+ * @description Each key is a role and its value lists the roles it inherits. A user holding a role
+ * is treated as holding every role reachable from it, so `{ admin: ['editor'], editor: ['viewer'] }`
+ * lets administrators access routes restricted to editors or viewers.
+ * 
+ * @param hierarchyMap - The role hierarchy to use from now on.
+ */
+export const setRoleHierarchyMap = (hierarchyMap: Record<string, string[]>): void => {
+  roleHierarchyMap = { ...hierarchyMap };
+};
+
+/**
+ * ## setRolePermissionMap
+ * 
+ * Replaces the permissions granted by each role.
+ * 
+ * @description Permission strings follow the `<resource>:<action>` convention (e.g., 'queries:write').
+ * A granted permission may use '*' as its action ('queries:*') to cover every action of a resource,
+ * or be '*' alone to cover every permission.
+ * 
+ * @param permissionMap - The role permission map to use from now on.
+ */
+export const setRolePermissionMap = (permissionMap: Record<string, string[]>): void => {
+  rolePermissionMap = { ...permissionMap };
+};
+
+/**
+ * ## resolveRoleList
+ * 
+ * Expands a list of roles with every role they inherit.
+ * 
+ * @description Walks the role hierarchy breadth-first, ignoring roles already visited so that
+ * cyclic hierarchies do not loop forever.
+ * 
+ * @param roleList - The roles held by the user.
+ * 
+ * @returns The held roles followed by every inherited role, without duplicates.
+ */
+export const resolveRoleList = (roleList: string[]): string[] => {
+  const resolvedRoleSet = new Set<string>();
+  const pendingRoleList = [...roleList];
+
+  while (pendingRoleList.length > 0) {
+    const role = pendingRoleList.shift() as string;
+
+    if (resolvedRoleSet.has(role)) {
+      continue;
+    }
+
+    resolvedRoleSet.add(role);
+    pendingRoleList.push(...(roleHierarchyMap[role] ?? []));
+  }
+
+  return [...resolvedRoleSet];
+};
+
+/**
+ * ## resolvePermissionList
+ * 
+ * Lists every permission granted to a list of roles.
+ * 
+ * @param roleList - The roles held by the user, inherited roles included or not.
+ * 
+ * @returns The permissions granted by the roles and the roles they inherit, without duplicates.
+ */
+export const resolvePermissionList = (roleList: string[]): string[] => {
+  return [...new Set(resolveRoleList(roleList).flatMap((role: string): string[] => rolePermissionMap[role] ?? []))];
+};
+
+/**
+ * ## hasPermission
+ * 
+ * Checks whether a required permission is covered by the granted permissions.
+ * 
+ * @param grantedPermissionList - The permissions granted to the user.
+ * @param requiredPermission - The permission required by the route.
+ * 
+ * @returns True when a granted permission matches exactly, through its resource wildcard or through '*'.
+ */
+export const hasPermission = (grantedPermissionList: string[], requiredPermission: string): boolean => {
+  const [resource] = requiredPermission.split(':');
+
+  return grantedPermissionList.some(
+    (grantedPermission: string): boolean => {
+      return grantedPermission === '*'
+        || grantedPermission === requiredPermission
+        || grantedPermission === `${ resource }:*`;
+    }
+  );
+};
+
+/**
+ * ## evaluateAuthorization
+ * 
+ * Evaluates the access requirements of a route against an authenticated request.
+ * 
+ * @description The requirement is satisfied when every configured rule passes:
+ * 
+ * 1. Roles: at least one (roleMatchMode 'any', the default) or every (roleMatchMode 'all') listed role
+ * is held by the user, directly or through the role hierarchy
+ * 2. Permissions: every listed permission is granted by the user's roles
+ * 3. Policies: every custom predicate resolves to true, evaluated in order and stopping at the first denial
+ * 
+ * Rules that are not configured are skipped, so an empty requirement always grants access.
+ * 
+ * @param req - Express Request object of the incoming request.
+ * @param decodedToken - The verified token of the requester.
+ * @param authorizationRequirement - The access requirements of the route.
+ * 
+ * @returns Promise resolving to true when access is granted and false when it is denied.
+ * 
+ * @throws Any error thrown by a custom policy.
+ */
+export const evaluateAuthorization = async (
+  req: Request,
+  decodedToken: IDecodedToken.IDecodedToken,
+  authorizationRequirement: IAuthorizationRequirement.IAuthorizationRequirement = {}
+): Promise<boolean> => {
+  const {
+    roleList = [],
+    roleMatchMode = 'any',
+    permissionList = [],
+    policyList = []
+  } = authorizationRequirement;
+
+  const resolvedRoleList = resolveRoleList(decodedToken.roleList ?? []);
+
+  if (roleList.length > 0) {
+    const isRoleMatch = (role: string): boolean => resolvedRoleList.includes(role);
+
+    if (roleMatchMode === 'all' ? !roleList.every(isRoleMatch) : !roleList.some(isRoleMatch)) {
+      return false;
+    }
+  }
+
+  if (permissionList.length > 0) {
+    const grantedPermissionList = resolvePermissionList(resolvedRoleList);
+
+    if (!permissionList.every((permission: string): boolean => hasPermission(grantedPermissionList, permission))) {
+      return false;
+    }
+  }
+
+  for (const policy of policyList) {
+    if (!(await policy(req, decodedToken))) {
+      return false;
+    }
+  }
+
+  return true;
+};
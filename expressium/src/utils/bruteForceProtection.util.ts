@@ -0,0 +1,297 @@
+import path from 'path';
+import { getConfiguration } from './configuration.util';
+import { IBruteForceProtectionConfiguration } from './interfaces';
+import { getLogger } from './logging.util';
+import { getPrismaClient } from './prisma.util';
+import { DatabaseLoginAttemptStore, MemoryLoginAttemptStore } from './stores';
+import { ILoginAttempt, ILoginAttemptStore } from './stores/interfaces';
+
+/**
+ * ## loginAttemptStore
+ * 
+ * Login attempt store consulted by the authentication service.
+ * 
+ * @description Defaults to the DatabaseLoginAttemptStore when the LOGIN_ATTEMPT_STORE environment variable
+ * is 'database', and to an in-memory store otherwise. Replace it with {@link setLoginAttemptStore}
+ * before the server starts to keep attempts elsewhere (e.g., in a shared cache).
+ */
+let loginAttemptStore: ILoginAttemptStore.ILoginAttemptStore = getConfiguration().loginAttempt.store === 'database'
+  ? new DatabaseLoginAttemptStore.DatabaseLoginAttemptStore(getPrismaClient())
+  : new MemoryLoginAttemptStore.MemoryLoginAttemptStore();
+
+/**
+ * ## setLoginAttemptStore
+ * 
+ * Replaces the login attempt store used by the application.
+ * 
+ * @param store - The login attempt store to use from now on.
+ */
+export const setLoginAttemptStore = (store: ILoginAttemptStore.ILoginAttemptStore): void => {
+  loginAttemptStore = store;
+};
+
+/**
+ * ## getLoginAttemptStore
+ * 
+ * Returns the login attempt store currently in use.
+ * 
+ * @returns The active login attempt store.
+ */
+export const getLoginAttemptStore = (): ILoginAttemptStore.ILoginAttemptStore => {
+  return loginAttemptStore;
+};
+
+/**
+ * ## getBruteForceProtectionConfiguration
+ * 
+ * Returns the brute-force protection settings of the application configuration.
+ * 
+ * @description The settings are read from:
+ * 
+ * - LOGIN_MAX_FAILED_ATTEMPTS: Failures of a username that lock it (defaults to 5)
+ * - LOGIN_IP_MAX_FAILED_ATTEMPTS: Failures from an IP address that lock it (defaults to 20)
+ * - LOGIN_FAILURE_WINDOW_MS: How long failures are remembered (defaults to 15 minutes)
+ * - LOGIN_LOCKOUT_DURATION_MS: How long lockouts last (defaults to 15 minutes)
+ * - LOGIN_BASE_DELAY_MS: Delay after the first failure, doubled by each further one (defaults to 250 milliseconds)
+ * - LOGIN_MAX_DELAY_MS: Upper bound of the progressive delay (defaults to 5 seconds)
+ * 
+ * @returns The brute-force protection configuration.
+ */
+export const getBruteForceProtectionConfiguration = (): IBruteForceProtectionConfiguration.IBruteForceProtectionConfiguration => {
+  const { maxFailedAttempts, ipMaxFailedAttempts, failureWindowMs, lockoutDurationMs, baseDelayMs, maxDelayMs } = getConfiguration().loginAttempt;
+
+  return { maxFailedAttempts, ipMaxFailedAttempts, failureWindowMs, lockoutDurationMs, baseDelayMs, maxDelayMs };
+};
+
+/**
+ * ## getUsernameKey
+ * 
+ * Builds the store key of a username.
+ * 
+ * @param username - The username of the attempt.
+ * 
+ * @returns The username key.
+ */
+const getUsernameKey = (username: string): string => {
+  return `user:${ username }`;
+};
+
+/**
+ * ## getIpAddressKey
+ * 
+ * Builds the store key of an IP address.
+ * 
+ * @param ipAddress - The IP address of the attempt.
+ * 
+ * @returns The IP address key.
+ */
+const getIpAddressKey = (ipAddress: string): string => {
+  return `ip:${ ipAddress }`;
+};
+
+/**
+ * ## getActiveFailureCount
+ * 
+ * Returns the failures of a record that are still within the failure window.
+ * 
+ * @param loginAttempt - The recorded attempts, if any.
+ * @param failureWindowMs - Failure window in milliseconds.
+ * 
+ * @returns The number of remembered failures.
+ */
+const getActiveFailureCount = (loginAttempt: ILoginAttempt.ILoginAttempt | null, failureWindowMs: number): number => {
+  return loginAttempt && loginAttempt.lastFailureAt.getTime() + failureWindowMs > Date.now() ? loginAttempt.failureCount : 0;
+};
+
+/**
+ * ## getAttemptStatus
+ * 
+ * Checks whether an authentication attempt may proceed, and after which delay.
+ * 
+ * @description The attempt is locked out when either its username or its IP address is locked. Otherwise,
+ * it is delayed according to the remembered failures of the username or the IP address, whichever has
+ * more: the base delay after the first failure, doubled by each further one, up to the maximum delay.
+ * 
+ * The username is checked whether or not it exists, so responses never reveal which usernames are registered.
+ * 
+ * @param username - The username of the attempt.
+ * @param ipAddress - The IP address of the attempt.
+ * 
+ * @returns Promise resolving with the end of the lockout (null when not locked) and the delay to apply in milliseconds.
+ */
+export const getAttemptStatus = async (username: string, ipAddress: string): Promise<{ lockedUntil: Date | null; delayMs: number }> => {
+  const { failureWindowMs, baseDelayMs, maxDelayMs } = getBruteForceProtectionConfiguration();
+
+  const [usernameAttempt, ipAddressAttempt] = await Promise.all(
+    [
+      loginAttemptStore.get(getUsernameKey(username)),
+      loginAttemptStore.get(getIpAddressKey(ipAddress))
+    ]
+  );
+
+  const lockedUntil = [usernameAttempt?.lockedUntil, ipAddressAttempt?.lockedUntil]
+    .filter((date: Date | null | undefined): date is Date => !!date && date.getTime() > Date.now())
+    .sort((a: Date, b: Date): number => b.getTime() - a.getTime())[0] ?? null;
+
+  const failureCount = Math.max(
+    getActiveFailureCount(usernameAttempt, failureWindowMs), 
+    getActiveFailureCount(ipAddressAttempt, failureWindowMs)
+  );
+
+  return {
+    lockedUntil,
+    delayMs: failureCount === 0 ? 0 : Math.min(baseDelayMs * Math.pow(2, failureCount - 1), maxDelayMs)
+  };
+};
+
+/**
+ * ## waitForDelay
+ * 
+ * Waits for the delay returned by {@link getAttemptStatus}.
+ * 
+ * @param delayMs - The delay in milliseconds.
+ * 
+ * @returns Promise resolving once the delay has elapsed.
+ */
+export const waitForDelay = (delayMs: number): Promise<void> => {
+  return new Promise(
+    (resolve: () => void): void => {
+      setTimeout(resolve, delayMs);
+    }
+  );
+};
+
+/**
+ * ## recordLockout
+ * 
+ * Records a lockout in the `authentication_lockouts` audit table and in the logs.
+ * 
+ * @description Audit failures are logged but never propagated, so that they cannot turn a rejected
+ * attempt into a server error.
+ * 
+ * @param target - The locked username or IP address.
+ * @param failureCount - Failures that triggered the lockout.
+ * @param lockedUntil - End of the lockout.
+ */
+const recordLockout = async (target: { username?: string; ipAddress?: string }, failureCount: number, lockedUntil: Date): Promise<void> => {
+  const logger = getLogger().child({ component: 'Authentication' });
+
+  logger.warn('Authentication locked out.', { ...target, failureCount, lockedUntil: lockedUntil.toISOString() });
+
+  try {
+    await getPrismaClient().authentication_lockouts.create(
+      {
+        data: {
+          application_type: path.basename(process.cwd()),
+          username: target.username ?? null,
+          ip_address: target.ipAddress ?? null,
+          failure_count: failureCount,
+          locked_until: lockedUntil
+        }
+      }
+    );
+  } catch (error: unknown) {
+    logger.error('Lockout audit failed.', { name: 'recordLockout', error });
+  }
+};
+
+/**
+ * ## registerFailedAttempt
+ * 
+ * Counts a failed authentication attempt against its username and IP address.
+ * 
+ * @description Each key reaching its threshold within the failure window is locked for the lockout
+ * duration, and the lockout is recorded in the audit table.
+ * 
+ * @param username - The username of the attempt, whether or not it exists.
+ * @param ipAddress - The IP address of the attempt.
+ * 
+ * @returns Promise resolving with the end of the lockout triggered by this failure, or null when none was.
+ */
+export const registerFailedAttempt = async (username: string, ipAddress: string): Promise<Date | null> => {
+  const { maxFailedAttempts, ipMaxFailedAttempts, failureWindowMs, lockoutDurationMs } = getBruteForceProtectionConfiguration();
+  const lockedUntil = new Date(Date.now() + lockoutDurationMs);
+  let isLocked = false;
+
+  const [usernameAttempt, ipAddressAttempt] = await Promise.all(
+    [
+      loginAttemptStore.registerFailure(getUsernameKey(username), failureWindowMs),
+      loginAttemptStore.registerFailure(getIpAddressKey(ipAddress), failureWindowMs)
+    ]
+  );
+
+  if (usernameAttempt.failureCount >= maxFailedAttempts) {
+    await loginAttemptStore.lock(getUsernameKey(username), lockedUntil);
+    await recordLockout({ username }, usernameAttempt.failureCount, lockedUntil);
+    isLocked = true;
+  }
+
+  if (ipAddressAttempt.failureCount >= ipMaxFailedAttempts) {
+    await loginAttemptStore.lock(getIpAddressKey(ipAddress), lockedUntil);
+    await recordLockout({ ipAddress }, ipAddressAttempt.failureCount, lockedUntil);
+    isLocked = true;
+  }
+
+  return isLocked ? lockedUntil : null;
+};
+
+/**
+ * ## registerSuccessfulAttempt
+ * 
+ * Forgets the failed attempts of a username after a successful authentication.
+ * 
+ * @description The failures of the IP address are kept, so that an attacker holding one valid account
+ * cannot clear the failures accumulated while guessing the passwords of others.
+ * 
+ * @param username - The authenticated username.
+ */
+export const registerSuccessfulAttempt = async (username: string): Promise<void> => {
+  await loginAttemptStore.reset(getUsernameKey(username));
+};
+
+/**
+ * ## unlock
+ * 
+ * Lifts the lockout and forgets the failed attempts of a username or an IP address.
+ * 
+ * @description Open lockouts of the target in the audit table are marked as unlocked, along with
+ * the user who unlocked them.
+ * 
+ * @param target - The username and/or IP address to unlock.
+ * @param unlockedBy - Username of the administrator performing the unlock.
+ * 
+ * @returns Promise resolving with whether the target had an active lockout.
+ */
+export const unlock = async (target: { username?: string; ipAddress?: string }, unlockedBy: string): Promise<boolean> => {
+  const keyList = [
+    ...(target.username ? [getUsernameKey(target.username)] : []),
+    ...(target.ipAddress ? [getIpAddressKey(target.ipAddress)] : [])
+  ];
+
+  const loginAttemptList = await Promise.all(keyList.map((key: string): Promise<ILoginAttempt.ILoginAttempt | null> => loginAttemptStore.get(key)));
+  const wasLocked = loginAttemptList.some((loginAttempt: ILoginAttempt.ILoginAttempt | null): boolean => (loginAttempt?.lockedUntil?.getTime() ?? 0) > Date.now());
+
+  await Promise.all(keyList.map((key: string): Promise<void> => loginAttemptStore.reset(key)));
+
+  await getPrismaClient().authentication_lockouts.updateMany(
+    {
+      where: {
+        application_type: path.basename(process.cwd()),
+        unlocked_at: null,
+        locked_until: { gt: new Date() },
+        OR: [
+          ...(target.username ? [{ username: target.username }] : []),
+          ...(target.ipAddress ? [{ ip_address: target.ipAddress }] : [])
+        ]
+      },
+      data: {
+        unlocked_at: new Date(),
+        unlocked_by: unlockedBy
+      }
+    }
+  );
+
+  getLogger().child({ component: 'Authentication' }).info('Authentication unlocked.', { ...target, unlockedBy, wasLocked });
+
+  return wasLocked;
+};
@@ -0,0 +1,60 @@
+import { HttpClient } from '../HttpClient.util';
+import { IHealthCheck } from './interfaces';
+
+/**
+ * ## HttpCheck
+ * 
+ * Health check pinging an upstream HTTP service through the HttpClient.
+ * 
+ * @description The HttpCheck class sends a GET request to the given URL. Any 2xx or 3xx response marks the
+ * upstream service as up; error statuses, network failures and timeouts mark it as down.
+ * 
+ * Upstream services are usually not critical for the API as a whole, so checks created without an
+ * explicit criticality only degrade the readiness report when they fail.
+ * 
+ * @method check - Pings the upstream service.
+ */
+export class HttpCheck implements IHealthCheck.IHealthCheck {
+  /**
+   * ## constructor
+   * 
+   * Creates a new HttpCheck instance.
+   * 
+   * @param name - Name of the check in the readiness report.
+   * @param url - URL pinged by the check (e.g., the upstream health endpoint).
+   * @param httpClient - HttpClient used to send the request, allowing authentication strategies to be applied.
+   * @param isCritical - Whether a failure makes the API not ready (defaults to false).
+   * @param timeoutMs - Maximum duration of the check in milliseconds.
+   */
+  constructor(
+    /** @public @readonly */
+    public readonly name: string,
+    /** @private @readonly */
+    private readonly url: string,
+    /** @private @readonly */
+    private readonly httpClient: HttpClient = new HttpClient(),
+    /** @public @readonly */
+    public readonly isCritical: boolean = false,
+    /** @public @readonly */
+    public readonly timeoutMs?: number
+  ) {}
+
+  /**
+   * ## check
+   * 
+   * Pings the upstream service.
+   * 
+   * @public
+   * 
+   * @async
+   * 
+   * @returns Promise resolving with the HTTP status returned by the upstream service.
+   * 
+   * @throws If the request fails or the upstream service answers with an error status.
+   */
+  public async check(): Promise<Record<string, unknown>> {
+    const response = await this.httpClient.get<unknown>(this.url, { timeout: this.timeoutMs });
+
+    return { statusCode: response.status };
+  }
+}
@@ -0,0 +1,48 @@
+import { PrismaClient } from '@prisma/client';
+import { getPrismaClient } from '../prisma.util';
+import { IHealthCheck } from './interfaces';
+
+/**
+ * ## PrismaCheck
+ * 
+ * Health check verifying the connectivity of the application database through Prisma.
+ * 
+ * @description The PrismaCheck class runs a trivial `SELECT 1` query, which succeeds only when the
+ * database accepts connections and queries from the application's credentials.
+ * 
+ * @method check - Runs the probe query.
+ */
+export class PrismaCheck implements IHealthCheck.IHealthCheck {
+  /**
+   * ## constructor
+   * 
+   * Creates a new PrismaCheck instance.
+   * 
+   * @param name - Name of the check in the readiness report (defaults to 'prisma').
+   * @param prisma - Prisma client used to run the probe (defaults to the client shared by the application).
+   * @param timeoutMs - Maximum duration of the check in milliseconds.
+   */
+  constructor(
+    /** @public @readonly */
+    public readonly name: string = 'prisma',
+    /** @private @readonly */
+    private readonly prisma: PrismaClient = getPrismaClient(),
+    /** @public @readonly */
+    public readonly timeoutMs?: number
+  ) {}
+
+  /**
+   * ## check
+   * 
+   * Runs the probe query.
+   * 
+   * @public
+   * 
+   * @async
+   * 
+   * @throws If the database cannot be reached or the query fails.
+   */
+  public async check(): Promise<void> {
+    await this.prisma.$queryRaw`SELECT 1`;
+  }
+}
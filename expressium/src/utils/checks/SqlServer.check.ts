@@ -0,0 +1,98 @@
+import { Connection, Request } from 'tedious';
+import { IHealthCheck, ISqlServerConfiguration } from './interfaces';
+
+/**
+ * ## SqlServerCheck
+ * 
+ * Health check verifying the connectivity of an external SQL Server database.
+ * 
+ * @description The SqlServerCheck class loads the connection settings on every run, so that changes to the
+ * configuration table are picked up without restarting the API, then opens a connection, runs a trivial
+ * `SELECT 1` query and closes the connection.
+ * 
+ * When no configuration is found, the database is considered not in use: the check succeeds and
+ * reports `isConfigured: false` without connecting.
+ * 
+ * @method check - Connects to the database and runs the probe query.
+ */
+export class SqlServerCheck implements IHealthCheck.IHealthCheck {
+  /**
+   * ## constructor
+   * 
+   * Creates a new SqlServerCheck instance.
+   * 
+   * @param name - Name of the check in the readiness report.
+   * @param loadConfiguration - Function loading the connection settings (e.g., from a configuration table).
+   * @param isCritical - Whether a failure makes the API not ready (defaults to true).
+   * @param timeoutMs - Maximum duration of the check in milliseconds.
+   */
+  constructor(
+    /** @public @readonly */
+    public readonly name: string,
+    /** @private @readonly */
+    private readonly loadConfiguration: () => Promise<ISqlServerConfiguration.ISqlServerConfiguration | null>,
+    /** @public @readonly */
+    public readonly isCritical: boolean = true,
+    /** @public @readonly */
+    public readonly timeoutMs?: number
+  ) {}
+
+  /**
+   * ## check
+   * 
+   * Connects to the database and runs the probe query.
+   * 
+   * @public
+   * 
+   * @async
+   * 
+   * @returns Promise resolving with whether the database is configured.
+   * 
+   * @throws If the connection or the query fails.
+   */
+  public async check(): Promise<Record<string, unknown>> {
+    const configuration = await this.loadConfiguration();
+
+    if (!configuration) {
+      return { isConfigured: false };
+    }
+
+    const connection = new Connection(
+      {
+        server: configuration.host,
+        authentication: {
+          type: 'default',
+          options: {
+            userName: configuration.username,
+            password: configuration.password
+          }
+        },
+        options: {
+          database: configuration.database,
+          encrypt: false,
+          trustServerCertificate: true,
+          connectTimeout: this.timeoutMs
+        }
+      }
+    );
+
+    try {
+      await new Promise<void>(
+        (resolve: () => void, reject: (reason: Error) => void): void => {
+          connection.on('error', reject);
+          connection.connect((error?: Error): void => error ? reject(error) : resolve());
+        }
+      );
+
+      await new Promise<void>(
+        (resolve: () => void, reject: (reason: Error) => void): void => {
+          connection.execSql(new Request('SELECT 1', (error?: Error | null): void => error ? reject(error) : resolve()));
+        }
+      );
+
+      return { isConfigured: true };
+    } finally {
+      connection.close();
+    }
+  }
+}
@@ -0,0 +1,3 @@
+export * as HttpCheck from './Http.check';
+export * as PrismaCheck from './Prisma.check';
+export * as SqlServerCheck from './SqlServer.check';
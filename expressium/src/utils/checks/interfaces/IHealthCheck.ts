@@ -0,0 +1,48 @@
+/**
+ * ## IHealthCheck
+ * 
+ * Standard interface for readiness health checks.
+ * 
+ * @description Defines the contract that all health checks must follow to take part in the readiness report.
+ * A check probes a single dependency (a database, an upstream API) and resolves when it is reachable or
+ * rejects when it is not. Checks that exceed their timeout are reported as down.
+ * 
+ * Checks are critical by default: a critical check that fails makes the API not ready, while a failing
+ * non-critical check only degrades the report.
+ * 
+ * @method check - Probes the dependency.
+ */
+export interface IHealthCheck {
+  /**
+   * ## name
+   * 
+   * Unique name identifying the check in the readiness report.
+   */
+  name: string;
+
+  /**
+   * ## timeoutMs
+   * 
+   * Maximum time the check may take, in milliseconds, before being reported as down.
+   * Falls back to the default health check timeout when not provided.
+   */
+  timeoutMs?: number;
+
+  /**
+   * ## isCritical
+   * 
+   * Whether a failure of the check makes the API not ready (defaults to true).
+   */
+  isCritical?: boolean;
+
+  /**
+   * ## check
+   * 
+   * Probes the dependency.
+   * 
+   * @returns Promise resolving, optionally with details to include in the report, when the dependency is healthy.
+   * 
+   * @throws If the dependency is unreachable or unhealthy.
+   */
+  check(): Promise<Record<string, unknown> | void>;
+}
@@ -0,0 +1,14 @@
+/**
+ * ## ISqlServerConfiguration
+ * 
+ * Connection settings of a SQL Server database probed by a health check.
+ * 
+ * @description Mirrors the columns of the `*_database_configuration` tables describing SQL Server
+ * databases (e.g., sigma_desktop_database_configuration), so that their rows can be used as they are.
+ */
+export interface ISqlServerConfiguration {
+  host: string;
+  database: string;
+  username: string;
+  password: string;
+}
@@ -0,0 +1,2 @@
+export * as IHealthCheck from './IHealthCheck';
+export * as ISqlServerConfiguration from './ISqlServerConfiguration';
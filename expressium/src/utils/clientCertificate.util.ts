@@ -0,0 +1,43 @@
+import { Request } from 'express';
+import { TLSSocket } from 'tls';
+import { IClientCertificate } from './interfaces';
+
+/**
+ * ## getClientCertificate
+ * 
+ * Returns the identity of the client certificate presented on the connection of a request.
+ * 
+ * @description A certificate is only returned when mutual TLS is enabled (SSL_CLIENT_AUTH is 'optional'
+ * or 'required') and the certificate was verified against the configured CA chain. Requests received over
+ * plain HTTP, without a certificate or with an untrusted one (accepted in 'optional' mode) have none.
+ * 
+ * @param req - Express Request object of the incoming request.
+ * 
+ * @returns The client certificate identity, or undefined when the client is not authenticated by certificate.
+ */
+export const getClientCertificate = (req: Request): IClientCertificate.IClientCertificate | undefined => {
+  const socket = req.socket as Partial<TLSSocket>;
+
+  if (!socket.encrypted || !socket.authorized || !socket.getPeerCertificate) {
+    return undefined;
+  }
+
+  const peerCertificate = socket.getPeerCertificate();
+
+  if (!peerCertificate || Object.keys(peerCertificate).length === 0) {
+    return undefined;
+  }
+
+  const subject = { ...peerCertificate.subject } as Record<string, string | string[]>;
+  const commonName = subject.CN;
+  const issuerCommonName = peerCertificate.issuer?.CN as string | string[] | undefined;
+
+  return {
+    commonName: Array.isArray(commonName) ? commonName[0] : commonName,
+    subject,
+    issuerCommonName: Array.isArray(issuerCommonName) ? issuerCommonName[0] : issuerCommonName,
+    serialNumber: peerCertificate.serialNumber,
+    fingerprint256: peerCertificate.fingerprint256,
+    validTo: new Date(peerCertificate.valid_to)
+  };
+};
@@ -0,0 +1,342 @@
+import cluster, { Worker } from 'cluster';
+import { getConfiguration } from './configuration.util';
+import { getLogger } from './logging.util';
+import { Logger } from './Logger.util';
+import { MemoryRevocationStore } from './stores';
+import { getRevocationStore } from './tokenRevocation.util';
+
+const SHUTDOWN_MESSAGE = 'expressium:shutdown';
+const SHUTDOWN_GRACE_MS = 1_000;
+const STABLE_UPTIME_MS = 60_000;
+
+/**
+ * ## workerMap
+ * 
+ * Slot and start time of every running worker, by worker ID.
+ * 
+ * @description Slots identify the workers to keep running (0 to CLUSTER_WORKERS - 1): a crashed worker
+ * is replaced by a new one in the same slot, inheriting its consecutive failure count.
+ */
+const workerMap = new Map<number, { slot: number; startTime: number }>();
+
+/**
+ * ## failureCountList
+ * 
+ * Consecutive crashes of the worker in each slot, used to compute the restart backoff.
+ */
+const failureCountList: number[] = [];
+
+/**
+ * ## restartTimeoutSet
+ * 
+ * Pending worker restarts, cancelled when the cluster shuts down.
+ */
+const restartTimeoutSet = new Set<NodeJS.Timeout>();
+
+/**
+ * ## shutdownPromise
+ * 
+ * Pending cluster shutdown, shared by every caller of {@link shutdownCluster} so that it only runs once.
+ */
+let shutdownPromise: Promise<boolean> | undefined;
+
+/**
+ * ## getClusterLogger
+ * 
+ * Returns a child of the root logger for cluster entries.
+ * 
+ * @returns The cluster logger.
+ */
+const getClusterLogger = (): Logger => {
+  return getLogger().child({ component: 'Cluster' });
+};
+
+/**
+ * ## isClusterPrimary
+ * 
+ * Returns whether this process is the primary of a cluster.
+ * 
+ * @description Cluster mode is enabled by setting CLUSTER_WORKERS. The primary process does not serve
+ * requests: it forks the workers, restarts them when they crash and coordinates their shutdown.
+ * 
+ * @returns Whether cluster mode is enabled and this process is the primary.
+ */
+export const isClusterPrimary = (): boolean => {
+  return getConfiguration().cluster.workerCount > 0 && cluster.isPrimary;
+};
+
+/**
+ * ## isClusterWorker
+ * 
+ * Returns whether this process is a worker forked by the cluster primary.
+ * 
+ * @returns Whether cluster mode is enabled and this process is a worker.
+ */
+export const isClusterWorker = (): boolean => {
+  return getConfiguration().cluster.workerCount > 0 && cluster.isWorker;
+};
+
+/**
+ * ## getWorkerCount
+ * 
+ * Returns the number of workers currently running.
+ * 
+ * @returns The number of running workers.
+ */
+export const getWorkerCount = (): number => {
+  return workerMap.size;
+};
+
+/**
+ * ## forkWorker
+ * 
+ * Forks a worker for a slot.
+ * 
+ * @param slot - The slot of the worker.
+ * 
+ * @returns The forked worker.
+ */
+const forkWorker = (slot: number): Worker => {
+  const worker = cluster.fork();
+
+  workerMap.set(worker.id, { slot, startTime: Date.now() });
+
+  return worker;
+};
+
+/**
+ * ## restartWorker
+ * 
+ * Replaces a worker that exited while the cluster was not shutting down.
+ * 
+ * @description The restart is delayed with an exponential backoff, from CLUSTER_RESTART_BASE_DELAY_MS
+ * up to CLUSTER_RESTART_MAX_DELAY_MS, so that a worker crashing on startup does not fork in a tight loop.
+ * The backoff of a slot is reset once its worker has been running for a minute.
+ * 
+ * @param worker - The worker that exited.
+ * @param code - The exit code of the worker.
+ * @param signal - The signal that terminated the worker, if any.
+ */
+const restartWorker = (worker: Worker, code: number, signal: string): void => {
+  const workerEntry = workerMap.get(worker.id);
+
+  workerMap.delete(worker.id);
+
+  if (!workerEntry || shutdownPromise) {
+    return;
+  }
+
+  const { restartBaseDelayMs, restartMaxDelayMs } = getConfiguration().cluster;
+  const { slot, startTime } = workerEntry;
+
+  failureCountList[slot] = Date.now() - startTime >= STABLE_UPTIME_MS ? 1 : (failureCountList[slot] ?? 0) + 1;
+
+  const restartDelayMs = Math.min(restartBaseDelayMs * 2 ** (failureCountList[slot] - 1), restartMaxDelayMs);
+
+  getClusterLogger().error(
+    'Worker exited unexpectedly.',
+    {
+      workerId: worker.id,
+      pid: worker.process.pid,
+      code,
+      signal,
+      failureCount: failureCountList[slot],
+      restartDelayMs
+    }
+  );
+
+  const restartTimeout = setTimeout(
+    (): void => {
+      restartTimeoutSet.delete(restartTimeout);
+      forkWorker(slot);
+    },
+    restartDelayMs
+  );
+
+  restartTimeoutSet.add(restartTimeout);
+};
+
+/**
+ * ## startCluster
+ * 
+ * Forks the workers of the cluster.
+ * 
+ * @description Forks CLUSTER_WORKERS workers, each running the application entry point again and listening
+ * on the same ports, with incoming connections distributed across them. Crashed workers are restarted
+ * with a backoff (see {@link restartWorker}).
+ * 
+ * Each worker holds its own memory, so state that must be shared lives in the database: the configuration
+ * refuses the memory rate limit, idempotency and login attempt stores in cluster mode, and the cluster refuses
+ * to start with the in-memory revocation store, since a token revoked by one worker would still be accepted
+ * by the others. Response caches and metrics remain per worker: an invalidation only reaches the cache of the
+ * worker serving the write (other workers keep their entries until their TTL elapses), and /metrics reports
+ * the counters of the worker answering the scrape.
+ * 
+ * A worker exiting before it listens fails the startup: the workers already forked are shut down and the
+ * promise rejects, instead of waiting forever.
+ * 
+ * @async
+ * 
+ * @throws If the revocation store is kept in memory, or if a worker exits before it listens.
+ * 
+ * @returns Promise that resolves once every worker is listening.
+ */
+export const startCluster = async (): Promise<void> => {
+  const { workerCount } = getConfiguration().cluster;
+
+  if (getRevocationStore() instanceof MemoryRevocationStore.MemoryRevocationStore) {
+    throw new Error('Cluster mode requires a revocation store shared by the workers (e.g., the DatabaseRevocationStore).');
+  }
+
+  cluster.on('exit', restartWorker);
+
+  try {
+    await Promise.all(
+      Array.from(
+        { length: workerCount },
+        (_value: unknown, slot: number): Promise<void> => {
+          return new Promise<void>(
+            (resolve: () => void, reject: (reason: Error) => void): void => {
+              const worker = forkWorker(slot);
+
+              const rejectOnExit = (code: number, signal: string): void => {
+                reject(new Error(`Worker ${ worker.id } exited before listening (code ${ code }, signal ${ signal ?? 'none' }).`));
+              };
+
+              worker.once('exit', rejectOnExit);
+              worker.once(
+                'listening', 
+                (): void => {
+                  worker.off('exit', rejectOnExit);
+                  resolve();
+                }
+              );
+            }
+          );
+        }
+      )
+    );
+  } catch (error: unknown) {
+    await shutdownCluster('startup failure');
+
+    throw error;
+  }
+
+  getClusterLogger().info('Cluster started.', { workerCount });
+};
+
+/**
+ * ## shutdownCluster
+ * 
+ * Shuts every worker down gracefully.
+ * 
+ * @description Pending restarts are cancelled and each worker is asked to shut down, draining its servers
+ * and running its shutdown hooks (see lifecycleUtil.shutdown). The primary waits for every worker to exit,
+ * for up to SHUTDOWN_DRAIN_DELAY_MS and SHUTDOWN_TIMEOUT_MS plus a second of grace: workers still running by then are killed, and the shutdown
+ * is reported as failed.
+ * 
+ * Calling it again while a shutdown is in progress returns the pending one. The process is not exited,
+ * so that the caller decides the exit code.
+ * 
+ * @async
+ * 
+ * @param reason - What triggered the shutdown (e.g., 'SIGTERM'), for the log entries.
+ * 
+ * @returns Promise resolving to whether every worker exited successfully.
+ */
+export const shutdownCluster = (reason: string): Promise<boolean> => {
+  shutdownPromise ??= (
+    async (): Promise<boolean> => {
+      getClusterLogger().info('Cluster shutdown started.', { reason, workerCount: workerMap.size });
+
+      restartTimeoutSet.forEach((restartTimeout: NodeJS.Timeout): void => clearTimeout(restartTimeout));
+      restartTimeoutSet.clear();
+
+      const workerList = Object.values(cluster.workers ?? {}).filter((worker: Worker | undefined): worker is Worker => worker !== undefined);
+      const { drainDelayMs, timeoutMs } = getConfiguration().shutdown;
+
+      const deadlineTimeout = setTimeout(
+        (): void => {
+          const remainingWorkerList = workerList.filter((worker: Worker): boolean => !worker.isDead());
+
+          getClusterLogger().error(
+            'Workers did not exit in time and were killed.', 
+            { reason, drainDelayMs, timeoutMs, workerIdList: remainingWorkerList.map((worker: Worker): number => worker.id) }
+          );
+
+          remainingWorkerList.forEach((worker: Worker): void => void worker.process.kill('SIGKILL'));
+        },
+        drainDelayMs + timeoutMs + SHUTDOWN_GRACE_MS
+      );
+
+      const exitResultList = await Promise.all(
+        workerList.map(
+          (worker: Worker): Promise<boolean> => {
+            return new Promise<boolean>(
+              (resolve: (value: boolean) => void): void => {
+                if (worker.isDead()) {
+                  resolve(false);
+
+                  return;
+                }
+
+                worker.once('exit', (code: number, signal: string): void => resolve(code === 0 && !signal));
+
+                if (worker.isConnected()) {
+                  worker.send(SHUTDOWN_MESSAGE);
+                } else {
+                  worker.process.kill('SIGTERM');
+                }
+              }
+            );
+          }
+        )
+      );
+
+      clearTimeout(deadlineTimeout);
+
+      const isClean = exitResultList.every((isWorkerClean: boolean): boolean => isWorkerClean);
+
+      getClusterLogger().info('Cluster shutdown completed.', { reason, isClean });
+      await getLogger().flush().catch((): void => undefined);
+
+      return isClean;
+    }
+  )();
+
+  return shutdownPromise;
+};
+
+/**
+ * ## killWorkers
+ * 
+ * Terminates every worker immediately, without waiting for their shutdown.
+ * 
+ * @description Used when the primary is forced to exit, so that no worker outlives it.
+ */
+export const killWorkers = (): void => {
+  Object.values(cluster.workers ?? {}).forEach((worker: Worker | undefined): void => void worker?.process.kill('SIGKILL'));
+};
+
+/**
+ * ## onShutdownRequest
+ * 
+ * Registers the listener run by a worker when it must shut down.
+ * 
+ * @description The listener is called when the primary asks for a shutdown ('primary') and when the
+ * worker loses its connection to the primary, e.g., because the primary crashed ('disconnect').
+ * 
+ * @param listener - Function receiving the reason of the shutdown.
+ */
+export const onShutdownRequest = (listener: (reason: string) => void): void => {
+  process.on(
+    'message',
+    (message: unknown): void => {
+      if (message === SHUTDOWN_MESSAGE) {
+        listener('primary');
+      }
+    }
+  );
+
+  process.on('disconnect', (): void => listener('disconnect'));
+};
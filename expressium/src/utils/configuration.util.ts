@@ -0,0 +1,616 @@
+import 'dotenv/config';
+import fs from 'fs';
+import { availableParallelism, tmpdir } from 'os';
+import path, { dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { IApplicationConfiguration } from './interfaces';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const SSL_DIRECTORY = path.resolve(__dirname, '../../ssl');
+const TIME_SPAN_REGEX = /^\d+[smhd]$/;
+const LOG_LEVEL_LIST = ['debug', 'info', 'warn', 'error'] as const;
+const LOG_FORMAT_LIST = ['json', 'pretty'] as const;
+const KEY_BY_LIST = ['ip', 'user'] as const;
+const STORE_LIST = ['memory', 'database'] as const;
+const UPLOAD_STORAGE_LIST = ['memory', 'disk'] as const;
+const SERVER_MODE_LIST = ['http', 'https', 'both'] as const;
+const CLIENT_AUTHENTICATION_LIST = ['none', 'optional', 'required'] as const;
+const CONTENT_SECURITY_POLICY_MODE_LIST = ['enabled', 'report-only', 'disabled'] as const;
+const CSP_DIRECTIVE_NAME_REGEX = /^[a-z]+(-[a-z]+)*$/;
+const DEFAULT_CORS_EXPOSED_HEADER_LIST = ['X-Request-ID', 'RateLimit', 'RateLimit-Policy', 'Retry-After', 'Deprecation', 'Sunset', 'Link', 'Idempotent-Replayed'];
+const MAX_PORT = 65535;
+
+/**
+ * ## readValue
+ * 
+ * Reads an environment variable, treating blank values as missing.
+ * 
+ * @param name - The environment variable name.
+ * 
+ * @returns The trimmed value, or undefined when missing or blank.
+ */
+const readValue = (name: keyof NodeJS.ProcessEnv): string | undefined => {
+  const value = process.env[name]?.trim();
+
+  return value ? value : undefined;
+};
+
+/**
+ * ## readRequiredString
+ * 
+ * Reads an environment variable that must be provided.
+ * 
+ * @param name - The environment variable name.
+ * @param issueList - List receiving the problem found, if any.
+ * 
+ * @returns The value, or an empty string when missing.
+ */
+const readRequiredString = (name: keyof NodeJS.ProcessEnv, issueList: string[]): string => {
+  const value = readValue(name);
+
+  if (value === undefined) {
+    issueList.push(`${ name }: Required.`);
+
+    return '';
+  }
+
+  return value;
+};
+
+/**
+ * ## readInteger
+ * 
+ * Reads an environment variable holding an integer within a range.
+ * 
+ * @param name - The environment variable name.
+ * @param defaultValue - Value used when the variable is missing or invalid.
+ * @param minimum - Smallest accepted value.
+ * @param issueList - List receiving the problem found, if any.
+ * @param maximum - Largest accepted value.
+ * 
+ * @returns The parsed value, or the default one.
+ */
+const readInteger = (
+  name: keyof NodeJS.ProcessEnv,
+  defaultValue: number,
+  minimum: number,
+  issueList: string[],
+  maximum = Number.MAX_SAFE_INTEGER
+): number => {
+  const value = readValue(name);
+
+  if (value === undefined) {
+    return defaultValue;
+  }
+
+  const parsedValue = Number(value);
+
+  if (!Number.isInteger(parsedValue) || parsedValue < minimum || parsedValue > maximum) {
+    issueList.push(
+      maximum === Number.MAX_SAFE_INTEGER
+        ? `${ name }: Must be an integer greater than or equal to ${ minimum } (received "${ value }").`
+        : `${ name }: Must be an integer between ${ minimum } and ${ maximum } (received "${ value }").`
+    );
+
+    return defaultValue;
+  }
+
+  return parsedValue;
+};
+
+/**
+ * ## readWorkerCount
+ * 
+ * Reads the number of cluster workers, either an integer or 'auto' for one worker per available CPU.
+ * 
+ * @param name - The environment variable name.
+ * @param issueList - List receiving the problem found, if any.
+ * 
+ * @returns The number of workers, or 0 (cluster mode disabled) when missing or invalid.
+ */
+const readWorkerCount = (name: keyof NodeJS.ProcessEnv, issueList: string[]): number => {
+  const value = readValue(name);
+
+  if (value?.toLowerCase() === 'auto') {
+    return availableParallelism();
+  }
+
+  const workerCount = value === undefined ? 0 : Number(value);
+
+  if (!Number.isInteger(workerCount) || workerCount < 0) {
+    issueList.push(`${ name }: Must be 'auto' or an integer greater than or equal to 0 (received "${ value }").`);
+
+    return 0;
+  }
+
+  return workerCount;
+};
+
+/**
+ * ## readOption
+ * 
+ * Reads an environment variable holding one of a fixed list of values, case-insensitively.
+ * 
+ * @param name - The environment variable name.
+ * @param optionList - The accepted values.
+ * @param defaultValue - Value used when the variable is missing or invalid.
+ * @param issueList - List receiving the problem found, if any.
+ * 
+ * @returns The matching option, or the default one.
+ */
+const readOption = <T extends string>(
+  name: keyof NodeJS.ProcessEnv,
+  optionList: readonly T[],
+  defaultValue: T,
+  issueList: string[]
+): T => {
+  const value = readValue(name);
+
+  if (value === undefined) {
+    return defaultValue;
+  }
+
+  const option = optionList.find((element: T): boolean => element === value.toLowerCase());
+
+  if (option === undefined) {
+    issueList.push(`${ name }: Must be one of ${ optionList.join(', ') } (received "${ value }").`);
+
+    return defaultValue;
+  }
+
+  return option;
+};
+
+/**
+ * ## readBoolean
+ * 
+ * Reads an environment variable holding 'true' or 'false'.
+ * 
+ * @param name - The environment variable name.
+ * @param defaultValue - Value used when the variable is missing or invalid.
+ * @param issueList - List receiving the problem found, if any.
+ * 
+ * @returns The parsed value, or the default one.
+ */
+const readBoolean = (name: keyof NodeJS.ProcessEnv, defaultValue: boolean, issueList: string[]): boolean => {
+  return readOption(name, ['true', 'false'], defaultValue ? 'true' : 'false', issueList) === 'true';
+};
+
+/**
+ * ## readTimeSpan
+ * 
+ * Reads an environment variable holding a time span (e.g., '30m', '7d').
+ * 
+ * @param name - The environment variable name.
+ * @param defaultValue - Value used when the variable is missing or invalid; variables without default are required.
+ * @param issueList - List receiving the problem found, if any.
+ * 
+ * @returns The time span, or the default one.
+ */
+const readTimeSpan = (name: keyof NodeJS.ProcessEnv, defaultValue: string | undefined, issueList: string[]): string => {
+  const value = readValue(name);
+
+  if (value === undefined) {
+    if (defaultValue === undefined) {
+      issueList.push(`${ name }: Required.`);
+    }
+
+    return defaultValue ?? '';
+  }
+
+  if (!TIME_SPAN_REGEX.test(value)) {
+    issueList.push(`${ name }: Must be an amount followed by s, m, h or d, such as 30m or 7d (received "${ value }").`);
+
+    return defaultValue ?? '';
+  }
+
+  return value;
+};
+
+/**
+ * ## readList
+ * 
+ * Reads an environment variable holding comma-separated values.
+ * 
+ * @param name - The environment variable name.
+ * 
+ * @returns The trimmed, non-empty values.
+ */
+const readList = (name: keyof NodeJS.ProcessEnv): string[] => {
+  return (readValue(name) ?? '')
+    .split(',')
+    .map((element: string): string => element.trim())
+    .filter(Boolean);
+};
+
+/**
+ * ## readOriginList
+ * 
+ * Reads an environment variable holding comma-separated origins (e.g., 'https://app.example.com').
+ * 
+ * @param name - The environment variable name.
+ * @param issueList - List receiving the problems found, if any.
+ * 
+ * @returns The valid origins.
+ */
+const readOriginList = (name: keyof NodeJS.ProcessEnv, issueList: string[]): string[] => {
+  return readList(name).filter(
+    (origin: string): boolean => {
+      let isValid = false;
+
+      try {
+        const url = new URL(origin);
+
+        isValid = ['http:', 'https:'].includes(url.protocol) && url.origin === origin;
+      } catch {
+        isValid = false;
+      }
+
+      if (!isValid) {
+        issueList.push(`${ name }: Must only contain origins made of a scheme, host and optional port, such as https://app.example.com (received "${ origin }").`);
+      }
+
+      return isValid;
+    }
+  );
+};
+
+/**
+ * ## readPattern
+ * 
+ * Reads an environment variable holding a regular expression source (e.g., '^https://[a-z]+\.example\.com$').
+ * 
+ * @param name - The environment variable name.
+ * @param issueList - List receiving the problem found, if any.
+ * 
+ * @returns The pattern source, or undefined when missing or invalid.
+ */
+const readPattern = (name: keyof NodeJS.ProcessEnv, issueList: string[]): string | undefined => {
+  const value = readValue(name);
+
+  if (value === undefined) {
+    return undefined;
+  }
+
+  try {
+    new RegExp(value);
+  } catch {
+    issueList.push(`${ name }: Must be a valid regular expression (received "${ value }").`);
+
+    return undefined;
+  }
+
+  return value;
+};
+
+/**
+ * ## readDirectiveMap
+ * 
+ * Reads an environment variable holding Content Security Policy directives in the header syntax
+ * (e.g., "default-src 'self'; img-src 'self' data:").
+ * 
+ * @param name - The environment variable name.
+ * @param issueList - List receiving the problems found, if any.
+ * 
+ * @returns The values of each valid directive, by directive name.
+ */
+const readDirectiveMap = (name: keyof NodeJS.ProcessEnv, issueList: string[]): Record<string, string[]> => {
+  const directiveMap: Record<string, string[]> = {};
+
+  (readValue(name) ?? '')
+    .split(';')
+    .map((directive: string): string[] => directive.trim().split(/\s+/).filter(Boolean))
+    .filter((tokenList: string[]): boolean => tokenList.length > 0)
+    .forEach(
+      ([directiveName, ...valueList]: string[]): void => {
+        if (!CSP_DIRECTIVE_NAME_REGEX.test(directiveName)) {
+          issueList.push(`${ name }: Must only contain directives such as default-src 'self' separated by semicolons (received "${ directiveName }").`);
+
+          return;
+        }
+
+        directiveMap[directiveName] = valueList;
+      }
+    );
+
+  return directiveMap;
+};
+
+/**
+ * ## readFilePath
+ * 
+ * Reads an environment variable holding the path of a file.
+ * 
+ * @param name - The environment variable name.
+ * @param defaultValue - Path used when the variable is missing.
+ * @param isUsed - Whether the file is used with the current settings, in which case it must exist.
+ * @param issueList - List receiving the problem found, if any.
+ * 
+ * @returns The absolute path, relative paths being resolved from the working directory.
+ */
+const readFilePath = (name: keyof NodeJS.ProcessEnv, defaultValue: string, isUsed: boolean, issueList: string[]): string => {
+  const filePath = path.resolve(readValue(name) ?? defaultValue);
+
+  if (isUsed && !fs.existsSync(filePath)) {
+    issueList.push(`${ name }: File not found (${ filePath }).`);
+  }
+
+  return filePath;
+};
+
+/**
+ * ## readOptionalFilePath
+ * 
+ * Reads an environment variable holding the path of an optional file, which must exist when provided.
+ * 
+ * @param name - The environment variable name.
+ * @param issueList - List receiving the problem found, if any.
+ * 
+ * @returns The absolute path, or undefined when the variable is missing.
+ */
+const readOptionalFilePath = (name: keyof NodeJS.ProcessEnv, issueList: string[]): string | undefined => {
+  return readValue(name) === undefined ? undefined : readFilePath(name, '', true, issueList);
+};
+
+/**
+ * ## readApplicationVersion
+ * 
+ * Reads the environment variable holding the version of the application.
+ * 
+ * @param name - The environment variable name.
+ * 
+ * @returns The version, falling back to the one of the package.json of the working directory and then to 'unknown'.
+ */
+const readApplicationVersion = (name: keyof NodeJS.ProcessEnv): string => {
+  const value = readValue(name);
+
+  if (value !== undefined) {
+    return value;
+  }
+
+  try {
+    const { version } = JSON.parse(fs.readFileSync(path.join(process.cwd(), 'package.json'), 'utf8'));
+
+    return typeof version === 'string' && version ? version : 'unknown';
+  } catch {
+    return 'unknown';
+  }
+};
+
+/**
+ * ## freeze
+ * 
+ * Recursively freezes an object so that the configuration cannot be changed at runtime.
+ * 
+ * @param element - The object to freeze.
+ * 
+ * @returns The frozen object.
+ */
+const freeze = <T extends object>(element: T): Readonly<T> => {
+  Object
+    .values(element)
+    .forEach(
+      (value: unknown): void => {
+        if (value !== null && typeof value === 'object') {
+          freeze(value);
+        }
+      }
+    );
+
+  return Object.freeze(element);
+};
+
+/**
+ * ## loadConfiguration
+ * 
+ * Reads, validates and coerces every environment variable used by the application.
+ * 
+ * @description Missing optional variables take their defaults. Invalid values and missing required
+ * variables are recorded as issues and replaced by their defaults (or empty values), so that loading
+ * never throws and the logger remains usable until {@link validateConfiguration} reports them.
+ * 
+ * @returns The frozen configuration and the issues found.
+ */
+const loadConfiguration = (): { configuration: Readonly<IApplicationConfiguration.IApplicationConfiguration>, issueList: string[] } => {
+  const issueList: string[] = [];
+  const nodeEnv = readValue('NODE_ENV') ?? 'development';
+  const mode = readOption('SERVER_MODE', SERVER_MODE_LIST, 'https', issueList);
+  const clientAuthentication = readOption('SSL_CLIENT_AUTH', CLIENT_AUTHENTICATION_LIST, 'none', issueList);
+
+  const configuration: IApplicationConfiguration.IApplicationConfiguration = {
+    server: {
+      mode,
+      port: readInteger('PORT', 3000, 1, issueList, MAX_PORT),
+      httpPort: readInteger('HTTP_PORT', 8080, 1, issueList, MAX_PORT),
+      nodeEnv,
+      version: readApplicationVersion('APPLICATION_VERSION')
+    },
+    database: {
+      url: readRequiredString('DATABASE_URL', issueList)
+    },
+    jwt: {
+      secret: readRequiredString('JWT_SECRET', issueList),
+      expiresIn: readTimeSpan('JWT_EXPIRES_IN', undefined, issueList),
+      refreshExpiresIn: readTimeSpan('JWT_REFRESH_EXPIRES_IN', '7d', issueList)
+    },
+    log: {
+      level: readOption('LOG_LEVEL', LOG_LEVEL_LIST, 'info', issueList),
+      format: readOption('LOG_FORMAT', LOG_FORMAT_LIST, nodeEnv === 'production' ? 'json' : 'pretty', issueList),
+      filePath: readValue('LOG_FILE_PATH'),
+      fileMaxSize: readInteger('LOG_FILE_MAX_SIZE', 10 * 1024 * 1024, 1, issueList),
+      fileMaxFiles: readInteger('LOG_FILE_MAX_FILES', 5, 0, issueList)
+    },
+    debugMode: readBoolean('DEBUG_MODE', false, issueList),
+    healthCheck: {
+      timeoutMs: readInteger('HEALTH_CHECK_TIMEOUT_MS', 5000, 1, issueList)
+    },
+    shutdown: {
+      drainDelayMs: readInteger('SHUTDOWN_DRAIN_DELAY_MS', 0, 0, issueList),
+      timeoutMs: readInteger('SHUTDOWN_TIMEOUT_MS', 10000, 1, issueList)
+    },
+    route: {
+      timeoutMs: readInteger('ROUTE_TIMEOUT_MS', 0, 0, issueList)
+    },
+    compression: {
+      isEnabled: readBoolean('COMPRESSION_ENABLED', true, issueList),
+      thresholdBytes: readInteger('COMPRESSION_THRESHOLD', 1024, 0, issueList)
+    },
+    cluster: {
+      workerCount: readWorkerCount('CLUSTER_WORKERS', issueList),
+      restartBaseDelayMs: readInteger('CLUSTER_RESTART_BASE_DELAY_MS', 1000, 1, issueList),
+      restartMaxDelayMs: readInteger('CLUSTER_RESTART_MAX_DELAY_MS', 30000, 1, issueList)
+    },
+    rateLimit: {
+      windowMs: readInteger('RATE_LIMIT_WINDOW_MS', 15 * 60 * 1000, 1, issueList),
+      maxRequests: readInteger('RATE_LIMIT_MAX_REQUESTS', 100, 1, issueList),
+      keyBy: readOption('RATE_LIMIT_KEY_BY', KEY_BY_LIST, 'ip', issueList),
+      exemptRoleList: readList('RATE_LIMIT_EXEMPT_ROLES'),
+      store: readOption('RATE_LIMIT_STORE', STORE_LIST, 'memory', issueList)
+    },
+    responseCache: {
+      maxEntries: readInteger('RESPONSE_CACHE_MAX_ENTRIES', 1000, 1, issueList)
+    },
+    idempotency: {
+      store: readOption('IDEMPOTENCY_STORE', STORE_LIST, 'memory', issueList),
+      ttlSeconds: readInteger('IDEMPOTENCY_TTL_SECONDS', 24 * 60 * 60, 1, issueList),
+      lockTimeoutMs: readInteger('IDEMPOTENCY_LOCK_TIMEOUT_MS', 60 * 1000, 1, issueList)
+    },
+    upload: {
+      storage: readOption('UPLOAD_STORAGE', UPLOAD_STORAGE_LIST, 'disk', issueList),
+      directory: path.resolve(readValue('UPLOAD_DIRECTORY') ?? tmpdir()),
+      maxFileCount: readInteger('UPLOAD_MAX_FILES', 5, 1, issueList),
+      maxFileSizeBytes: readInteger('UPLOAD_MAX_FILE_SIZE', 10 * 1024 * 1024, 1, issueList)
+    },
+    loginAttempt: {
+      store: readOption('LOGIN_ATTEMPT_STORE', STORE_LIST, 'memory', issueList),
+      maxFailedAttempts: readInteger('LOGIN_MAX_FAILED_ATTEMPTS', 5, 1, issueList),
+      ipMaxFailedAttempts: readInteger('LOGIN_IP_MAX_FAILED_ATTEMPTS', 20, 1, issueList),
+      failureWindowMs: readInteger('LOGIN_FAILURE_WINDOW_MS', 15 * 60 * 1000, 1, issueList),
+      lockoutDurationMs: readInteger('LOGIN_LOCKOUT_DURATION_MS', 15 * 60 * 1000, 1, issueList),
+      baseDelayMs: readInteger('LOGIN_BASE_DELAY_MS', 250, 1, issueList),
+      maxDelayMs: readInteger('LOGIN_MAX_DELAY_MS', 5000, 1, issueList)
+    },
+    ssl: {
+      certPath: readFilePath('SSL_CERT_PATH', path.join(SSL_DIRECTORY, 'cert.pem'), mode !== 'http', issueList),
+      keyPath: readFilePath('SSL_KEY_PATH', path.join(SSL_DIRECTORY, 'key.pem'), mode !== 'http', issueList),
+      caPath: readOptionalFilePath('SSL_CA_PATH', issueList),
+      passphrase: readValue('SSL_PASSPHRASE'),
+      clientAuthentication
+    },
+    cors: {
+      originList: readOriginList('CORS_ORIGINS', issueList),
+      originPattern: readPattern('CORS_ORIGIN_PATTERN', issueList),
+      allowCredentials: readBoolean('CORS_CREDENTIALS', false, issueList),
+      exposedHeaderList: readValue('CORS_EXPOSED_HEADERS') === undefined ? [...DEFAULT_CORS_EXPOSED_HEADER_LIST] : readList('CORS_EXPOSED_HEADERS'),
+      maxAgeSeconds: readInteger('CORS_MAX_AGE', 600, 0, issueList)
+    },
+    helmet: {
+      contentSecurityPolicy: {
+        mode: readOption('HELMET_CSP', CONTENT_SECURITY_POLICY_MODE_LIST, 'enabled', issueList),
+        directiveMap: readDirectiveMap('HELMET_CSP_DIRECTIVES', issueList)
+      },
+      strictTransportSecurity: {
+        maxAgeSeconds: readInteger('HELMET_HSTS_MAX_AGE', 365 * 24 * 60 * 60, 0, issueList),
+        includeSubDomains: readBoolean('HELMET_HSTS_INCLUDE_SUBDOMAINS', true, issueList),
+        preload: readBoolean('HELMET_HSTS_PRELOAD', false, issueList)
+      }
+    }
+  };
+
+  if (mode === 'both' && configuration.server.httpPort === configuration.server.port) {
+    issueList.push(`HTTP_PORT: Must differ from PORT when SERVER_MODE is both (received "${ configuration.server.httpPort }").`);
+  }
+
+  if (configuration.cluster.restartMaxDelayMs < configuration.cluster.restartBaseDelayMs) {
+    issueList.push(`CLUSTER_RESTART_MAX_DELAY_MS: Must be greater than or equal to CLUSTER_RESTART_BASE_DELAY_MS (received "${ configuration.cluster.restartMaxDelayMs }").`);
+  }
+
+  if (configuration.cluster.workerCount > 0) {
+    (
+      [
+        ['RATE_LIMIT_STORE', configuration.rateLimit.store],
+        ['IDEMPOTENCY_STORE', configuration.idempotency.store],
+        ['LOGIN_ATTEMPT_STORE', configuration.loginAttempt.store]
+      ] as const
+    ).forEach(
+      ([name, store]: readonly [string, string]): void => {
+        if (store === 'memory') {
+          issueList.push(`${ name }: Must be database when CLUSTER_WORKERS is set, so that every worker shares the same state.`);
+        }
+      }
+    );
+  }
+
+  if (configuration.cors.allowCredentials && configuration.cors.originList.length === 0 && !configuration.cors.originPattern) {
+    issueList.push('CORS_CREDENTIALS: Requires CORS_ORIGINS or CORS_ORIGIN_PATTERN, since browsers refuse credentials when every origin is allowed.');
+  }
+
+  if (clientAuthentication !== 'none' && mode === 'http') {
+    issueList.push('SSL_CLIENT_AUTH: Requires SERVER_MODE https or both.');
+  }
+
+  if (clientAuthentication !== 'none' && !configuration.ssl.caPath) {
+    issueList.push('SSL_CA_PATH: Required when SSL_CLIENT_AUTH is optional or required, to verify client certificates.');
+  }
+
+  return { configuration: freeze(configuration), issueList };
+};
+
+const { configuration, issueList } = loadConfiguration();
+
+/**
+ * ## getConfiguration
+ * 
+ * Returns the configuration of the application.
+ * 
+ * @description The configuration is read from the environment variables (and the .env file) once,
+ * when the module is first loaded, and is frozen: it cannot be changed at runtime.
+ * Use it instead of reading process.env, so that every setting is typed and validated.
+ * 
+ * @returns The application configuration.
+ */
+export const getConfiguration = (): Readonly<IApplicationConfiguration.IApplicationConfiguration> => {
+  return configuration;
+};
+
+/**
+ * ## validateConfiguration
+ * 
+ * Ensures the configuration is valid, failing fast otherwise.
+ * 
+ * @description Called by createServer before anything else, so that the server never starts with
+ * missing or invalid settings. Every problem is listed at once, one per line (e.g.,
+ * '- PORT: Must be an integer between 1 and 65535 (received "abc").').
+ * 
+ * @throws If any environment variable is missing or invalid, with the full report as message.
+ */
+export const validateConfiguration = (): void => {
+  if (issueList.length > 0) {
+    throw new Error(`Invalid configuration:\n${ issueList.map((issue: string): string => `- ${ issue }`).join('\n') }`);
+  }
+};
+
+/**
+ * ## getTimeSpanMs
+ * 
+ * Converts a time span read from the configuration into milliseconds.
+ * 
+ * @description Supported units are 's' (seconds), 'm' (minutes), 'h' (hours) and 'd' (days), as accepted
+ * for JWT_EXPIRES_IN and JWT_REFRESH_EXPIRES_IN. Unrecognized formats fall back to 1 hour.
+ * 
+ * @param timeSpan - The time span expression (e.g., '30m', '7d').
+ * 
+ * @returns The time span in milliseconds.
+ */
+export const getTimeSpanMs = (timeSpan: string): number => {
+  const timeSpanInt = parseInt(timeSpan.slice(0, -1), 10);
+
+  switch (timeSpan.slice(-1)) {
+    case 's': return timeSpanInt * 1000;
+    case 'm': return timeSpanInt * 60 * 1000;
+    case 'h': return timeSpanInt * 60 * 60 * 1000;
+    case 'd': return timeSpanInt * 24 * 60 * 60 * 1000;
+    default: return 3600 * 1000;
+  }
+};
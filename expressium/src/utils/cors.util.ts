@@ -0,0 +1,70 @@
+import { CorsOptions } from 'cors';
+import { getConfiguration } from './configuration.util';
+import { ICorsPolicy } from './interfaces';
+
+/**
+ * ## getDefaultCorsPolicy
+ * 
+ * Returns the CORS policy of the application configuration.
+ * 
+ * @description The policy is used as it is for every route without a CORS policy of its own and fills in
+ * the properties that route policies leave out:
+ * 
+ * - CORS_ORIGINS: Comma-separated allowed origins
+ * - CORS_ORIGIN_PATTERN: Regular expression matching further allowed origins
+ * - CORS_CREDENTIALS: Whether credentials are allowed (defaults to false)
+ * - CORS_EXPOSED_HEADERS: Comma-separated headers exposed to browser scripts (defaults to the request ID
+ * and rate limit headers)
+ * - CORS_MAX_AGE: Preflight cache duration in seconds (defaults to 600)
+ * 
+ * @returns The application CORS policy.
+ */
+export const getDefaultCorsPolicy = (): Required<Omit<ICorsPolicy.ICorsPolicy, 'originPattern'>> & Pick<ICorsPolicy.ICorsPolicy, 'originPattern'> => {
+  const { originList, originPattern, allowCredentials, exposedHeaderList, maxAgeSeconds } = getConfiguration().cors;
+
+  return {
+    originList: [...originList],
+    originPattern: originPattern === undefined ? undefined : new RegExp(originPattern),
+    allowCredentials,
+    exposedHeaderList: [...exposedHeaderList],
+    maxAgeSeconds
+  };
+};
+
+/**
+ * ## getCorsOptions
+ * 
+ * Translates a CORS policy into the options of the cors middleware.
+ * 
+ * @description Properties left out of the policy fall back to {@link getDefaultCorsPolicy}. When the policy
+ * sets originList or originPattern, it replaces both application settings, so that a route can be opened
+ * to other origins, or restricted to fewer, than the rest of the API.
+ * 
+ * Requests from allowed origins have their origin echoed in the Access-Control-Allow-Origin header.
+ * When no origin is allowed explicitly, every origin is.
+ * 
+ * @param corsPolicy - The route CORS policy, if any.
+ * 
+ * @returns The cors middleware options.
+ * 
+ * @throws If credentials are allowed while every origin is, which browsers refuse.
+ */
+export const getCorsOptions = (corsPolicy: ICorsPolicy.ICorsPolicy = {}): CorsOptions => {
+  const defaultCorsPolicy = getDefaultCorsPolicy();
+  const isOriginOverridden = corsPolicy.originList !== undefined || corsPolicy.originPattern !== undefined;
+  const originList = (isOriginOverridden ? corsPolicy.originList : defaultCorsPolicy.originList) ?? [];
+  const originPattern = isOriginOverridden ? corsPolicy.originPattern : defaultCorsPolicy.originPattern;
+  const allowedOriginList: (string | RegExp)[] = originPattern ? [...originList, originPattern] : originList;
+  const allowCredentials = corsPolicy.allowCredentials ?? defaultCorsPolicy.allowCredentials;
+
+  if (allowCredentials && allowedOriginList.length === 0) {
+    throw new Error('CORS credentials require allowed origins.');
+  }
+
+  return {
+    origin: allowedOriginList.length > 0 ? allowedOriginList : '*',
+    credentials: allowCredentials,
+    exposedHeaders: corsPolicy.exposedHeaderList ?? defaultCorsPolicy.exposedHeaderList,
+    maxAge: corsPolicy.maxAgeSeconds ?? defaultCorsPolicy.maxAgeSeconds
+  };
+};
@@ -0,0 +1,208 @@
+import { PrismaCheck, SqlServerCheck } from './checks';
+import { IHealthCheck, ISqlServerConfiguration } from './checks/interfaces';
+import { getConfiguration } from './configuration.util';
+import { IHealthReport } from './interfaces';
+import { getLogger } from './logging.util';
+import { getPrismaClient } from './prisma.util';
+
+/**
+ * ## SQL_SERVER_CONFIGURATION_SELECT
+ * 
+ * Columns of the `*_database_configuration` tables read by the SQL Server checks.
+ */
+const SQL_SERVER_CONFIGURATION_SELECT = { host: true, database: true, username: true, password: true } as const;
+
+/**
+ * ## sqlServerConfigurationLoaderMap
+ * 
+ * Loaders reading the connection settings of the SQL Server databases from their configuration tables,
+ * by table name.
+ * 
+ * @description Each loader resolves with the configured row, or null while the table is empty.
+ */
+const sqlServerConfigurationLoaderMap = {
+  sigma_desktop_database_configuration: (): Promise<ISqlServerConfiguration.ISqlServerConfiguration | null> => {
+    return getPrismaClient().sigma_desktop_database_configuration.findFirst({ select: SQL_SERVER_CONFIGURATION_SELECT });
+  },
+  three_mod_database_configuration: (): Promise<ISqlServerConfiguration.ISqlServerConfiguration | null> => {
+    return getPrismaClient().three_mod_database_configuration.findFirst({ select: SQL_SERVER_CONFIGURATION_SELECT });
+  }
+};
+
+/**
+ * ## healthCheckList
+ * 
+ * Checks run by the readiness report, in registration order.
+ * 
+ * @description The following checks are registered by default:
+ * 
+ * - prisma: Connectivity of the application database (critical)
+ * - sigma_desktop_database and three_mod_database: Connectivity of the SQL Server databases configured
+ * in their `*_database_configuration` tables (non-critical, skipped while not configured)
+ * 
+ * The Oracle database of sankhya_database_configuration is not checked by default, since it requires
+ * the Oracle driver and instant client of the application; register a custom check for it when needed.
+ */
+const healthCheckList: IHealthCheck.IHealthCheck[] = [
+  new PrismaCheck.PrismaCheck('prisma', getPrismaClient()),
+  new SqlServerCheck.SqlServerCheck('sigma_desktop_database', sqlServerConfigurationLoaderMap.sigma_desktop_database_configuration, false),
+  new SqlServerCheck.SqlServerCheck('three_mod_database', sqlServerConfigurationLoaderMap.three_mod_database_configuration, false)
+];
+
+/**
+ * ## getDefaultTimeout
+ * 
+ * Returns the timeout applied to checks that do not define their own.
+ * 
+ * @description Read from the HEALTH_CHECK_TIMEOUT_MS setting of the application configuration, defaulting to 5 seconds.
+ * 
+ * @returns The default timeout in milliseconds.
+ */
+const getDefaultTimeout = (): number => {
+  return getConfiguration().healthCheck.timeoutMs;
+};
+
+/**
+ * ## registerHealthCheck
+ * 
+ * Adds a check to the readiness report.
+ * 
+ * @description A check registered with the name of an existing one replaces it, which allows the
+ * default checks to be customized (e.g., with a different timeout or criticality).
+ * 
+ * @param healthCheck - The check to register.
+ */
+export const registerHealthCheck = (healthCheck: IHealthCheck.IHealthCheck): void => {
+  const index = healthCheckList.findIndex((registeredHealthCheck: IHealthCheck.IHealthCheck): boolean => registeredHealthCheck.name === healthCheck.name);
+
+  if (index === -1) {
+    healthCheckList.push(healthCheck);
+  } else {
+    healthCheckList[index] = healthCheck;
+  }
+};
+
+/**
+ * ## unregisterHealthCheck
+ * 
+ * Removes a check from the readiness report.
+ * 
+ * @param name - Name of the check to remove.
+ * 
+ * @returns Whether a check was removed.
+ */
+export const unregisterHealthCheck = (name: string): boolean => {
+  const index = healthCheckList.findIndex((healthCheck: IHealthCheck.IHealthCheck): boolean => healthCheck.name === name);
+
+  if (index === -1) {
+    return false;
+  }
+
+  healthCheckList.splice(index, 1);
+
+  return true;
+};
+
+/**
+ * ## runHealthCheck
+ * 
+ * Runs a single check within its timeout.
+ * 
+ * @description The readiness endpoint is public, so a failed check only reports whether it timed out or failed;
+ * the error itself is logged.
+ * 
+ * @param healthCheck - The check to run.
+ * 
+ * @returns Promise resolving with the report entry of the check; never rejects.
+ */
+const runHealthCheck = async (healthCheck: IHealthCheck.IHealthCheck): Promise<IHealthReport.IHealthReport['checkList'][number]> => {
+  const timeoutMs = healthCheck.timeoutMs ?? getDefaultTimeout();
+  const isCritical = healthCheck.isCritical ?? true;
+  const startTime = performance.now();
+  const timeoutError = new Error(`Timed out after ${ timeoutMs }ms.`);
+  let timeout: NodeJS.Timeout | undefined;
+
+  try {
+    const details = await Promise.race(
+      [
+        healthCheck.check(),
+        new Promise<never>(
+          (_resolve: (value: never) => void, reject: (reason: Error) => void): void => {
+            timeout = setTimeout((): void => reject(timeoutError), timeoutMs);
+          }
+        )
+      ]
+    );
+
+    return { 
+      name: healthCheck.name, 
+      status: 'up', 
+      isCritical, 
+      latencyMs: Math.round(performance.now() - startTime), 
+      ...(details ? { details } : {}) 
+    };
+  } catch (error: unknown) {
+    getLogger().child({ component: 'HealthCheck' }).warn('Health check failed.', { name: healthCheck.name, isCritical, error });
+
+    return { 
+      name: healthCheck.name, 
+      status: 'down', 
+      isCritical, 
+      latencyMs: Math.round(performance.now() - startTime), 
+      error: error === timeoutError ? 'Timed out.' : 'Check failed.' 
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+/**
+ * ## getUptime
+ * 
+ * Returns how long the process has been running.
+ * 
+ * @returns Uptime in whole seconds.
+ */
+export const getUptime = (): number => {
+  return Math.floor(process.uptime());
+};
+
+/**
+ * ## getVersion
+ * 
+ * Returns the version information included in the health reports.
+ * 
+ * @returns The application (see APPLICATION_VERSION) and Node.js versions.
+ */
+export const getVersion = (): IHealthReport.IHealthReport['version'] => {
+  return {
+    application: getConfiguration().server.version,
+    node: process.version
+  };
+};
+
+/**
+ * ## runHealthCheckList
+ * 
+ * Runs every registered check and aggregates their results.
+ * 
+ * @description Checks run concurrently, each one bounded by its own timeout, so the report takes at most
+ * as long as the slowest timeout. A failing check never prevents the others from running.
+ * 
+ * @returns Promise resolving with the readiness report.
+ */
+export const runHealthCheckList = async (): Promise<IHealthReport.IHealthReport> => {
+  const startTime = performance.now();
+  const checkList = await Promise.all(healthCheckList.map(runHealthCheck));
+  const failedCheckList = checkList.filter((check: IHealthReport.IHealthReport['checkList'][number]): boolean => check.status === 'down');
+
+  return {
+    status: failedCheckList.some((check: IHealthReport.IHealthReport['checkList'][number]): boolean => check.isCritical) 
+      ? 'down' 
+      : failedCheckList.length > 0 ? 'degraded' : 'up',
+    latencyMs: Math.round(performance.now() - startTime),
+    uptimeSeconds: getUptime(),
+    version: getVersion(),
+    checkList
+  };
+};
@@ -0,0 +1,106 @@
+import crypto from 'crypto';
+import { Request, Response } from 'express';
+import { getConfiguration } from './configuration.util';
+import { ICacheControlPolicy } from './interfaces';
+
+/**
+ * ## getCacheControlHeader
+ * 
+ * Builds the Cache-Control header value of a cache control policy.
+ * 
+ * @param cacheControlPolicy - The route cache control policy.
+ * 
+ * @returns The header value (e.g., 'private, max-age=60, must-revalidate'), or undefined when the policy sets no directive.
+ */
+export const getCacheControlHeader = (cacheControlPolicy: ICacheControlPolicy.ICacheControlPolicy): string | undefined => {
+  const { 
+    scope, 
+    maxAgeSeconds, 
+    sharedMaxAgeSeconds, 
+    staleWhileRevalidateSeconds, 
+    noCache, 
+    noStore, 
+    mustRevalidate, 
+    immutable 
+  } = cacheControlPolicy;
+
+  const directiveList = [
+    scope,
+    noStore ? 'no-store' : undefined,
+    noCache ? 'no-cache' : undefined,
+    maxAgeSeconds === undefined ? undefined : `max-age=${ maxAgeSeconds }`,
+    sharedMaxAgeSeconds === undefined ? undefined : `s-maxage=${ sharedMaxAgeSeconds }`,
+    staleWhileRevalidateSeconds === undefined ? undefined : `stale-while-revalidate=${ staleWhileRevalidateSeconds }`,
+    mustRevalidate ? 'must-revalidate' : undefined,
+    immutable ? 'immutable' : undefined
+  ].filter(Boolean);
+
+  return directiveList.length > 0 ? directiveList.join(', ') : undefined;
+};
+
+/**
+ * ## negotiateContentEncoding
+ * 
+ * Chooses the content coding of the responses to a request.
+ * 
+ * @description Brotli or gzip, as accepted by the client through the Accept-Encoding header (in its order
+ * of preference), or identity when the client accepts neither or sends no such header.
+ * 
+ * @param req - Express Request object.
+ * 
+ * @returns The content coding ('br', 'gzip' or 'identity').
+ */
+export const negotiateContentEncoding = (req: Request): string => {
+  if (!req.headers['accept-encoding']) {
+    return 'identity';
+  }
+
+  return req.acceptsEncodings('br', 'gzip') || 'identity';
+};
+
+/**
+ * ## getContentEncoding
+ * 
+ * Returns the content coding a JSON response envelope is sent with.
+ * 
+ * @description Starts from the coding negotiated by the compression middleware, stored in res.locals.contentEncoding
+ * (absent when COMPRESSION_ENABLED is 'false'). Envelopes smaller than COMPRESSION_THRESHOLD and responses to HEAD
+ * requests are sent as they are. The decision is stored back in res.locals, where the compression middleware reads
+ * it, so that the request ID added to the envelope afterwards cannot push the body over the threshold.
+ * 
+ * @param req - Express Request object.
+ * @param res - Express Response object.
+ * @param envelope - The JSON envelope returned by a service.
+ * 
+ * @returns The content coding ('br', 'gzip' or 'identity').
+ */
+export const getContentEncoding = (req: Request, res: Response, envelope: Record<string, unknown>): string => {
+  const isCompressed = res.locals.contentEncoding !== undefined 
+    && req.method !== 'HEAD' 
+    && Buffer.byteLength(JSON.stringify(envelope)) >= getConfiguration().compression.thresholdBytes;
+
+  res.locals.contentEncoding = isCompressed ? res.locals.contentEncoding : 'identity';
+
+  return res.locals.contentEncoding;
+};
+
+/**
+ * ## generateETag
+ * 
+ * Computes the strong ETag of a JSON response envelope sent with a given content coding.
+ * 
+ * @description The ETag is the SHA-1 digest of the content coding and the serialized envelope, leaving out its
+ * timestamp (and the request ID, added once the response is sent), which change on every response although the
+ * content does not. Two responses share an ETag only when their status, path, method and data are identical and
+ * they are sent with the same coding, that is when they are byte-for-byte identical once compressed.
+ * 
+ * @param envelope - The JSON envelope returned by a service.
+ * @param contentEncoding - The content coding of the response (see {@link getContentEncoding}).
+ * 
+ * @returns The strong ETag (e.g., '"2jmj7l5rSw0yVb_vlWAYkK_YBwk"').
+ */
+export const generateETag = (envelope: Record<string, unknown>, contentEncoding: string): string => {
+  const { timestamp: _timestamp, requestId: _requestId, ...content } = envelope;
+
+  return `"${ crypto.createHash('sha1').update(JSON.stringify([contentEncoding, content])).digest('base64url') }"`;
+};
@@ -0,0 +1,155 @@
+import crypto from 'crypto';
+import { Request } from 'express';
+import { IDecodedToken, IUploadedFile } from '../interfaces';
+import { getConfiguration } from './configuration.util';
+import { IIdempotencyPolicy } from './interfaces';
+import { getPrismaClient } from './prisma.util';
+import { DatabaseIdempotencyStore, MemoryIdempotencyStore } from './stores';
+import { IIdempotencyStore } from './stores/interfaces';
+
+/**
+ * ## idempotencyStore
+ * 
+ * Idempotency store shared by the idempotent routes.
+ * 
+ * @description Defaults to the DatabaseIdempotencyStore when the IDEMPOTENCY_STORE environment variable
+ * is 'database', and to an in-memory store otherwise. Replace it with {@link setIdempotencyStore}
+ * to keep the responses elsewhere (e.g., in a shared cache).
+ */
+let idempotencyStore: IIdempotencyStore.IIdempotencyStore = getConfiguration().idempotency.store === 'database'
+  ? new DatabaseIdempotencyStore.DatabaseIdempotencyStore(getPrismaClient())
+  : new MemoryIdempotencyStore.MemoryIdempotencyStore();
+
+/**
+ * ## setIdempotencyStore
+ * 
+ * Replaces the idempotency store used by the application.
+ * 
+ * @description Any implementation of IIdempotencyStore can be provided, allowing responses to be
+ * replayed by every instance of the API. The idempotency middleware resolves the store on each request,
+ * so routes without a store of their own use the new one from their next request, whenever they were generated.
+ * 
+ * @param store - The idempotency store to use from now on.
+ */
+export const setIdempotencyStore = (store: IIdempotencyStore.IIdempotencyStore): void => {
+  idempotencyStore = store;
+};
+
+/**
+ * ## getIdempotencyStore
+ * 
+ * Returns the idempotency store currently in use.
+ * 
+ * @returns The active idempotency store.
+ */
+export const getIdempotencyStore = (): IIdempotencyStore.IIdempotencyStore => {
+  return idempotencyStore;
+};
+
+/**
+ * ## getDefaultIdempotencyPolicy
+ * 
+ * Returns the idempotency policy of the application configuration.
+ * 
+ * @description The policy fills in the properties that route policies leave out:
+ * 
+ * - IDEMPOTENCY_TTL_SECONDS: How long responses are replayed (defaults to 24 hours)
+ * - IDEMPOTENCY_LOCK_TIMEOUT_MS: How long a request in flight holds its key (defaults to 1 minute)
+ * 
+ * @returns The default idempotency policy, using the application idempotency store.
+ */
+export const getDefaultIdempotencyPolicy = (): Required<IIdempotencyPolicy.IIdempotencyPolicy> => {
+  const { ttlSeconds, lockTimeoutMs } = getConfiguration().idempotency;
+
+  return {
+    isRequired: false,
+    ttlSeconds,
+    lockTimeoutMs,
+    store: idempotencyStore
+  };
+};
+
+/**
+ * ## getIdempotencyKey
+ * 
+ * Derives the store key of an Idempotency-Key header.
+ * 
+ * @description The key is namespaced by the method and template of the route and ends with a digest of the
+ * username of the authorized user and the header value, so that keys never collide across routes or users.
+ * 
+ * @param req - Express Request object.
+ * @param routePath - Route template of the idempotent route.
+ * @param idempotencyKey - Value of the Idempotency-Key header.
+ * 
+ * @returns The namespaced key (e.g., 'POST /v1/bulletins:<digest>').
+ */
+export const getIdempotencyKey = (
+  req: Request, 
+  routePath: string, 
+  idempotencyKey: string
+): string => {
+  const username = ((req as any).user as IDecodedToken.IDecodedToken | undefined)?.username ?? null;
+  const keySource = JSON.stringify([username, idempotencyKey]);
+
+  return `${ req.method } ${ routePath }:${ crypto.createHash('sha256').update(keySource).digest('base64url') }`;
+};
+
+/**
+ * ## toCanonicalValue
+ * 
+ * Copies a JSON value with the keys of every object sorted, so that its serialization does not depend
+ * on the order in which the client sent the properties.
+ * 
+ * @param value - The value to copy.
+ * 
+ * @returns The canonical copy of the value; arrays keep their order.
+ */
+const toCanonicalValue = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(toCanonicalValue);
+  }
+
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  if (typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+    return toCanonicalValue((value as { toJSON: () => unknown }).toJSON());
+  }
+
+  return Object.fromEntries(
+    Object.keys(value)
+      .sort()
+      .map((name: string): [string, unknown] => [name, toCanonicalValue((value as Record<string, unknown>)[name])])
+  );
+};
+
+/**
+ * ## getRequestFingerprint
+ * 
+ * Digests the payload of a request, to tell retries from different requests reusing a key.
+ * 
+ * @description The query and body are canonicalized first (see {@link toCanonicalValue}), so that a retry
+ * sending the same properties in another order matches the original request. The files of multipart requests
+ * are included through their field name, original name, MIME type and digest (see IUploadedFile), so that a
+ * retry uploading other files under the same names is told apart.
+ * 
+ * @param req - Express Request object.
+ * 
+ * @returns Digest of the method, path, query parameters, body and uploaded files of the request.
+ */
+export const getRequestFingerprint = (req: Request): string => {
+  const fingerprintSource = JSON.stringify(
+    [
+      req.method,
+      `${ req.baseUrl }${ req.path }`,
+      toCanonicalValue(req.query),
+      toCanonicalValue(req.body ?? null),
+      (((req as any).fileList ?? []) as IUploadedFile.IUploadedFile[]).map(
+        ({ fieldName, originalName, mimeType, digest }: IUploadedFile.IUploadedFile): string[] => [fieldName, originalName, mimeType, digest]
+      )
+    ]
+  );
+
+  return crypto.createHash('sha256').update(fingerprintSource).digest('base64url');
+};
@@ -1,3 +1,25 @@
+export * as apiVersionUtil from './apiVersion.util';
+export * as authorizationPolicyUtil from './authorizationPolicy.util';
+export * as bruteForceProtectionUtil from './bruteForceProtection.util';
+export * as clientCertificateUtil from './clientCertificate.util';
+export * as clusterUtil from './cluster.util';
+export * as configurationUtil from './configuration.util';
+export * as corsUtil from './cors.util';
 export * as cryptographyUtil from './cryptography.util';
 export * as dateTimeFormatterUtil from './dateTimeFormatter.util';
+export * as healthCheckUtil from './healthCheck.util';
+export * as httpCacheUtil from './httpCache.util';
 export * as HttpClientUtil from './HttpClient.util';
+export * as idempotencyUtil from './idempotency.util';
+export * as lifecycleUtil from './lifecycle.util';
+export * as LoggerUtil from './Logger.util';
+export * as loggingUtil from './logging.util';
+export * as metricsUtil from './metrics.util';
+export * as openApiUtil from './openApi.util';
+export * as prismaUtil from './prisma.util';
+export * as rateLimitUtil from './rateLimit.util';
+export * as requestContextUtil from './requestContext.util';
+export * as responseCacheUtil from './responseCache.util';
+export * as tokenRevocationUtil from './tokenRevocation.util';
+export * as uploadUtil from './upload.util';
+export * as validationSchemaUtil from './validationSchema.util';
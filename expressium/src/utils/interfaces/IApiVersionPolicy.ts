@@ -0,0 +1,16 @@
+import { IDeprecationPolicy } from './IDeprecationPolicy';
+
+/**
+ * ## IApiVersionPolicy
+ * 
+ * Lifecycle of an API version.
+ * 
+ * @description Besides its deprecation schedule (see IDeprecationPolicy), a version can fall back to
+ * an older one: routes of the fallback version that the version does not define are served under its prefix
+ * as well (e.g., GET /v2/bulletins runs the handler of GET /v1/bulletins until v2 overrides it).
+ * 
+ * Fallbacks are followed transitively (e.g., v3 to v2 to v1), the closest version defining a route winning.
+ */
+export interface IApiVersionPolicy extends IDeprecationPolicy {
+  fallbackVersion?: string;
+}
@@ -0,0 +1,136 @@
+import { ILogEntry } from './ILogEntry';
+
+/**
+ * ## IApplicationConfiguration
+ * 
+ * Settings of the application, read from the environment variables and validated at startup.
+ * 
+ * @description The configuration is grouped by concern:
+ * 
+ * - server: Protocols served (http, https or both), listening ports, runtime environment and version of the application,
+ * reported by the health endpoints and the OpenAPI document
+ * - database: Connection string used by Prisma
+ * - jwt: Secret and lifetimes of the access and refresh tokens
+ * - log: Level, format and optional rotating file of the root logger
+ * - debugMode: Whether error responses include stack traces
+ * - healthCheck: Default timeout of the readiness checks
+ * - shutdown: How long the readiness probe fails before the servers close, and how long the whole shutdown may take afterwards
+ * - route: Default time given to services to respond, after which requests are answered with a 503 (0 disables it)
+ * - compression: Whether responses are compressed (brotli or gzip, as accepted by the client) and the size
+ * in bytes below which they are sent as they are
+ * - cluster: Number of worker processes (0 runs a single process) and the backoff applied when restarting crashed workers
+ * - rateLimit: Defaults of the global and route rate limiters
+ * - responseCache: Number of responses kept by the in-memory response cache store
+ * - idempotency: Store of the idempotency keys, how long responses are replayed and how long a request in flight holds its key
+ * - upload: Defaults of the multipart routes: whether files are kept in memory or streamed to a directory, and how many
+ * files of which size in bytes a request may carry
+ * - loginAttempt: Brute-force protection store, thresholds and delays
+ * - ssl: Paths of the certificate, private key and CA chain served over HTTPS, the private key passphrase
+ * and whether clients must present a certificate (mutual TLS)
+ * - cors: Origins allowed to call the API from a browser, as a list and/or a pattern (every origin is allowed when
+ * neither is set), whether credentials are allowed, the response headers exposed to scripts and how long
+ * browsers may cache preflight responses
+ * - helmet: Content Security Policy mode and directives, and Strict-Transport-Security options (a max age of 0 disables it)
+ * 
+ * Time spans (e.g., jwt.expiresIn) keep the '<amount><unit>' format of their environment variables,
+ * with 's', 'm', 'h' or 'd' as unit.
+ */
+export interface IApplicationConfiguration {
+  server: {
+    mode: 'http' | 'https' | 'both';
+    port: number;
+    httpPort: number;
+    nodeEnv: string;
+    version: string;
+  };
+  database: {
+    url: string;
+  };
+  jwt: {
+    secret: string;
+    expiresIn: string;
+    refreshExpiresIn: string;
+  };
+  log: {
+    level: ILogEntry['level'];
+    format: 'json' | 'pretty';
+    filePath?: string;
+    fileMaxSize: number;
+    fileMaxFiles: number;
+  };
+  debugMode: boolean;
+  healthCheck: {
+    timeoutMs: number;
+  };
+  shutdown: {
+    drainDelayMs: number;
+    timeoutMs: number;
+  };
+  route: {
+    timeoutMs: number;
+  };
+  compression: {
+    isEnabled: boolean;
+    thresholdBytes: number;
+  };
+  cluster: {
+    workerCount: number;
+    restartBaseDelayMs: number;
+    restartMaxDelayMs: number;
+  };
+  rateLimit: {
+    windowMs: number;
+    maxRequests: number;
+    keyBy: 'ip' | 'user';
+    exemptRoleList: string[];
+    store: 'memory' | 'database';
+  };
+  responseCache: {
+    maxEntries: number;
+  };
+  idempotency: {
+    store: 'memory' | 'database';
+    ttlSeconds: number;
+    lockTimeoutMs: number;
+  };
+  upload: {
+    storage: 'memory' | 'disk';
+    directory: string;
+    maxFileCount: number;
+    maxFileSizeBytes: number;
+  };
+  loginAttempt: {
+    store: 'memory' | 'database';
+    maxFailedAttempts: number;
+    ipMaxFailedAttempts: number;
+    failureWindowMs: number;
+    lockoutDurationMs: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+  };
+  ssl: {
+    certPath: string;
+    keyPath: string;
+    caPath?: string;
+    passphrase?: string;
+    clientAuthentication: 'none' | 'optional' | 'required';
+  };
+  cors: {
+    originList: string[];
+    originPattern?: string;
+    allowCredentials: boolean;
+    exposedHeaderList: string[];
+    maxAgeSeconds: number;
+  };
+  helmet: {
+    contentSecurityPolicy: {
+      mode: 'enabled' | 'report-only' | 'disabled';
+      directiveMap: Record<string, string[]>;
+    };
+    strictTransportSecurity: {
+      maxAgeSeconds: number;
+      includeSubDomains: boolean;
+      preload: boolean;
+    };
+  };
+}
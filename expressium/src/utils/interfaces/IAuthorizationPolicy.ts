@@ -0,0 +1,22 @@
+import { Request } from 'express';
+import { IDecodedToken } from '../../interfaces';
+
+/**
+ * ## IAuthorizationPolicy
+ * 
+ * Custom predicate deciding whether an authenticated request may reach a route.
+ * 
+ * @description Policies complement role and permission checks with rules that depend on the request itself,
+ * such as allowing users to access only their own resources or restricting a route to office hours.
+ * 
+ * The predicate receives:
+ * 
+ * - The Express request, including params, query and body
+ * - The verified and decoded JWT token of the requester
+ * 
+ * It resolves to true to grant access or false to deny it with a 403 response.
+ * Errors thrown by a policy are treated as technical failures of the authorization process.
+ */
+export interface IAuthorizationPolicy {
+  (req: Request, decodedToken: IDecodedToken.IDecodedToken): boolean | Promise<boolean>;
+}
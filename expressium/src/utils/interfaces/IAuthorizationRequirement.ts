@@ -0,0 +1,26 @@
+import { IAuthorizationPolicy } from './IAuthorizationPolicy';
+
+/**
+ * ## IAuthorizationRequirement
+ * 
+ * Access requirements evaluated by the authorization middleware for a route.
+ * 
+ * @description This interface gathers every rule an authenticated request must satisfy before reaching a route.
+ * Roles are expanded through the configured role hierarchy and permissions are resolved from the configured
+ * role permission map before being compared.
+ * 
+ * The requirement includes:
+ * 
+ * - roleList: Roles accepted by the route
+ * - roleMatchMode: Whether any ('any', the default) or every ('all') listed role is required
+ * - permissionList: Permission strings (e.g., 'queries:write') that must all be granted
+ * - policyList: Custom predicates that must all resolve to true
+ * - requireClientCertificate: Whether the client must also have presented a verified TLS certificate (mutual TLS)
+ */
+export interface IAuthorizationRequirement {
+  roleList?: string[];
+  roleMatchMode?: 'any' | 'all';
+  permissionList?: string[];
+  policyList?: IAuthorizationPolicy[];
+  requireClientCertificate?: boolean;
+}
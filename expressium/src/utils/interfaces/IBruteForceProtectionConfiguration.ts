@@ -0,0 +1,22 @@
+/**
+ * ## IBruteForceProtectionConfiguration
+ * 
+ * Thresholds and delays applied to failed authentication attempts.
+ * 
+ * @description The configuration includes:
+ * 
+ * - maxFailedAttempts: Failures of a username within the window that lock it
+ * - ipMaxFailedAttempts: Failures from an IP address within the window that lock it, whatever the usernames tried
+ * - failureWindowMs: How long a failure is remembered, in milliseconds
+ * - lockoutDurationMs: How long a lockout lasts, in milliseconds
+ * - baseDelayMs: Delay added to the attempt following the first failure, doubled by each further failure
+ * - maxDelayMs: Upper bound of the progressive delay
+ */
+export interface IBruteForceProtectionConfiguration {
+  maxFailedAttempts: number;
+  ipMaxFailedAttempts: number;
+  failureWindowMs: number;
+  lockoutDurationMs: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
@@ -0,0 +1,28 @@
+/**
+ * ## ICacheControlPolicy
+ * 
+ * Cache-Control directives sent with the successful responses of a route.
+ * 
+ * @description Every property is optional; only the directives set are sent (see httpCacheUtil.getCacheControlHeader).
+ * 
+ * The policy includes:
+ * 
+ * - scope: Whether shared caches (e.g., CDNs and proxies) may store the response ('public') or only the client ('private')
+ * - maxAgeSeconds: How long the response stays fresh (max-age)
+ * - sharedMaxAgeSeconds: How long the response stays fresh in shared caches, overriding maxAgeSeconds there (s-maxage)
+ * - staleWhileRevalidateSeconds: How long a stale response may still be served while it is revalidated
+ * - noCache: Whether caches must revalidate the response, through its ETag, before each reuse
+ * - noStore: Whether the response must not be stored at all, for sensitive data
+ * - mustRevalidate: Whether stale responses must never be served without revalidation
+ * - immutable: Whether the response never changes while fresh, sparing revalidations on reload
+ */
+export interface ICacheControlPolicy {
+  scope?: 'public' | 'private';
+  maxAgeSeconds?: number;
+  sharedMaxAgeSeconds?: number;
+  staleWhileRevalidateSeconds?: number;
+  noCache?: boolean;
+  noStore?: boolean;
+  mustRevalidate?: boolean;
+  immutable?: boolean;
+}
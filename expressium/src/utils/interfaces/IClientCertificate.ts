@@ -0,0 +1,25 @@
+/**
+ * ## IClientCertificate
+ * 
+ * Identity of a client authenticated by its TLS certificate (mutual TLS).
+ * 
+ * @description Only certificates verified against the configured CA chain are exposed, so the identity
+ * can be trusted by the authorization middleware and by authorization policies.
+ * 
+ * The identity includes:
+ * 
+ * - commonName: Common name (CN) of the certificate subject, usually the client or service name
+ * - subject: Every attribute of the certificate subject (e.g., CN, O, OU)
+ * - issuerCommonName: Common name of the authority that signed the certificate
+ * - serialNumber: Serial number of the certificate, in hexadecimal
+ * - fingerprint256: SHA-256 fingerprint of the certificate, suited to pin a specific certificate
+ * - validTo: Date after which the certificate expires
+ */
+export interface IClientCertificate {
+  commonName?: string;
+  subject: Record<string, string | string[]>;
+  issuerCommonName?: string;
+  serialNumber: string;
+  fingerprint256: string;
+  validTo: Date;
+}
@@ -0,0 +1,24 @@
+/**
+ * ## ICorsPolicy
+ * 
+ * CORS policy of a route, replacing the application one for its requests and preflight requests.
+ * 
+ * @description Every property is optional and falls back to the CORS_* environment variables
+ * (see corsUtil.getCorsOptions).
+ * 
+ * The policy includes:
+ * 
+ * - originList: Origins allowed to call the route (e.g., 'https://app.example.com')
+ * - originPattern: Pattern of further allowed origins (e.g., /^https:\/\/[a-z]+\.example\.com$/);
+ * setting either originList or originPattern replaces both application settings
+ * - allowCredentials: Whether browsers may send cookies and authorization headers; requires allowed origins
+ * - exposedHeaderList: Response headers readable by browser scripts
+ * - maxAgeSeconds: How long browsers may cache the preflight response
+ */
+export interface ICorsPolicy {
+  originList?: string[];
+  originPattern?: RegExp;
+  allowCredentials?: boolean;
+  exposedHeaderList?: string[];
+  maxAgeSeconds?: number;
+}
@@ -0,0 +1,26 @@
+/**
+ * ## IDeprecationPolicy
+ * 
+ * Deprecation schedule of an API version or a single route.
+ * 
+ * @description Deprecated routes keep being served, announcing their deprecation to clients through the
+ * following response headers:
+ * 
+ * - Deprecation: When the route was or will be deprecated (RFC 9745), e.g., '@1767225600'
+ * - Sunset: When the route stops being served (RFC 8594), e.g., 'Fri, 01 Jan 2027 00:00:00 GMT'
+ * - Link: Documentation of the deprecation (e.g., a migration guide), with the 'deprecation' relation
+ * 
+ * The policy includes:
+ * 
+ * - deprecatedAt: Date of the deprecation
+ * - sunsetAt: Date after which requests are answered with a 410 Gone response
+ * - link: URL of the deprecation documentation
+ * 
+ * When both a version and one of its routes have a policy, the earliest dates apply and the route link
+ * takes precedence.
+ */
+export interface IDeprecationPolicy {
+  deprecatedAt?: Date;
+  sunsetAt?: Date;
+  link?: string;
+}
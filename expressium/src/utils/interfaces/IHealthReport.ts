@@ -0,0 +1,32 @@
+/**
+ * ## IHealthReport
+ * 
+ * Aggregated result of the readiness health checks.
+ * 
+ * @description The report status is derived from the individual checks:
+ * 
+ * - up: Every check succeeded
+ * - degraded: Only non-critical checks failed; the API keeps serving requests
+ * - down: At least one critical check failed; the API is not ready
+ * 
+ * Each check entry carries its own status, latency and, depending on the outcome, the details
+ * returned by the check or a generic reason of its failure ('Timed out.' or 'Check failed.'), the
+ * error itself being logged rather than exposed by the public readiness endpoint.
+ */
+export interface IHealthReport {
+  status: 'up' | 'degraded' | 'down';
+  latencyMs: number;
+  uptimeSeconds: number;
+  version: {
+    application: string;
+    node: string;
+  };
+  checkList: {
+    name: string;
+    status: 'up' | 'down';
+    isCritical: boolean;
+    latencyMs: number;
+    details?: Record<string, unknown>;
+    error?: string;
+  }[];
+}
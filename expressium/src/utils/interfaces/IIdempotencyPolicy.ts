@@ -0,0 +1,28 @@
+import { IIdempotencyStore } from '../stores/interfaces';
+
+/**
+ * ## IIdempotencyPolicy
+ * 
+ * Idempotent handling of the requests of a POST, PUT or PATCH route sent with an Idempotency-Key header.
+ * 
+ * @description The first response to a key is stored and replayed to the retries reusing it, so that a
+ * client retrying after a network failure never runs the service twice. Every property is optional and
+ * falls back to the environment-driven defaults (see idempotencyUtil.getDefaultIdempotencyPolicy).
+ * 
+ * The policy includes:
+ * 
+ * - isRequired: Whether requests without an Idempotency-Key header are rejected (defaults to false, in which
+ * case they run as usual)
+ * - ttlSeconds: How long the response to a key is replayed
+ * - lockTimeoutMs: How long a request in flight holds its key; it should exceed the timeout of the route
+ * - store: Store keeping the responses, instead of the application idempotency store
+ * 
+ * Keys are scoped to the route and the authorized user, so that users never receive responses computed
+ * for others; requests of public routes share the keys of every anonymous client.
+ */
+export interface IIdempotencyPolicy {
+  isRequired?: boolean;
+  ttlSeconds?: number;
+  lockTimeoutMs?: number;
+  store?: IIdempotencyStore.IIdempotencyStore;
+}
@@ -0,0 +1,23 @@
+/**
+ * ## ILogEntry
+ * 
+ * Structured record produced by the logger for every message.
+ * 
+ * @description This interface describes the shape of each log record handed to the log sinks.
+ * In JSON mode the entry is serialized as-is, one object per line, so log aggregators can
+ * index every field without parsing free-form text.
+ * 
+ * Each entry includes:
+ * 
+ * - timestamp: ISO 8601 date and time at which the message was logged
+ * - level: Severity of the message
+ * - message: Human readable description of the event
+ * - Context fields inherited from parent loggers (e.g., component, requestId, user, route)
+ * - Metadata fields given with the message (e.g., durationMs, statusCode, error)
+ */
+export interface ILogEntry {
+  timestamp: string;
+  level: 'debug' | 'info' | 'warn' | 'error';
+  message: string;
+  [key: string]: unknown;
+}
@@ -0,0 +1,21 @@
+import { ILogSink } from '../sinks/interfaces';
+import { ILogEntry } from './ILogEntry';
+
+/**
+ * ## ILoggerConfiguration
+ * 
+ * Settings shared by a logger and all of its child loggers.
+ * 
+ * @description This interface defines how log entries are filtered, formatted and delivered.
+ * 
+ * The configuration includes:
+ * 
+ * - level: Minimum severity written; entries below it are discarded
+ * - format: 'json' for one JSON object per line, 'pretty' for human readable lines
+ * - sinkList: Destinations receiving every formatted line (e.g., stdout, rotating file)
+ */
+export interface ILoggerConfiguration {
+  level: ILogEntry['level'];
+  format: 'json' | 'pretty';
+  sinkList: ILogSink.ILogSink[];
+}
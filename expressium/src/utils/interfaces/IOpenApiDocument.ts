@@ -0,0 +1,22 @@
+/**
+ * ## IOpenApiDocument
+ * 
+ * Top-level structure of a generated OpenAPI 3.1 document.
+ * 
+ * @description This interface describes the subset of the OpenAPI 3.1 specification produced
+ * from the registered routes. Path items, operations and component schemas are kept as plain
+ * objects, since they are serialized straight to JSON and rendered by Swagger UI.
+ */
+export interface IOpenApiDocument {
+  openapi: '3.1.0';
+  info: {
+    title: string;
+    version: string;
+  };
+  servers: { url: string }[];
+  paths: Record<string, Record<string, Record<string, unknown>>>;
+  components: {
+    securitySchemes: Record<string, Record<string, unknown>>;
+    schemas: Record<string, Record<string, unknown>>;
+  };
+}
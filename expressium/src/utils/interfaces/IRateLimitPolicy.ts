@@ -0,0 +1,26 @@
+import { IRateLimitStore } from '../stores/interfaces';
+
+/**
+ * ## IRateLimitPolicy
+ * 
+ * Rate limit applied to a route on top of the global rate limit.
+ * 
+ * @description Every property is optional and falls back to the environment-driven defaults
+ * (see rateLimitUtil.getDefaultRateLimitPolicy).
+ * 
+ * The policy includes:
+ * 
+ * - windowMs: Duration of each counting window in milliseconds
+ * - limit: Requests allowed per client within a window
+ * - keyBy: Whether clients are told apart by IP address ('ip') or by the username of their token ('user');
+ * requests without an authorized user are always keyed by IP address
+ * - exemptRoleList: Roles whose holders, inherited roles included, are never limited
+ * - store: Store counting the requests, instead of the application rate limit store
+ */
+export interface IRateLimitPolicy {
+  windowMs?: number;
+  limit?: number;
+  keyBy?: 'ip' | 'user';
+  exemptRoleList?: string[];
+  store?: IRateLimitStore.IRateLimitStore;
+}
@@ -0,0 +1,23 @@
+/**
+ * ## IRequestContext
+ * 
+ * Data shared by every piece of code running on behalf of an inbound request.
+ * 
+ * @description This interface describes the context stored in the asynchronous local storage for
+ * the lifetime of each request. It is available to middlewares, services and utilities without
+ * having to thread the Express request object through every call.
+ * 
+ * The context includes:
+ * 
+ * - requestId: Correlation ID of the request, taken from the X-Request-ID header or generated
+ * - method: HTTP method of the request
+ * - path: Original URL of the request
+ * - signal: Abort signal of the request, set while its service runs (see requestContextUtil.getRequestSignal), firing when
+ * the route times out or the client disconnects
+ */
+export interface IRequestContext {
+  requestId: string;
+  method: string;
+  path: string;
+  signal?: AbortSignal;
+}
@@ -0,0 +1,31 @@
+import { IResponseCacheStore } from '../stores/interfaces';
+
+/**
+ * ## IResponseCachePolicy
+ * 
+ * Server-side cache of the responses of a GET route.
+ * 
+ * @description Successful responses are kept for ttlSeconds, so that repeated requests skip the service.
+ * 
+ * The policy includes:
+ * 
+ * - ttlSeconds: How long a response is served from the cache
+ * - staleWhileRevalidateSeconds: How long an expired response may still be served, while the service
+ * refreshes it in the background (defaults to 0)
+ * - isShared: Whether every user shares the same entries (defaults to false); otherwise the username and
+ * roles of the request are part of the key, so that users never receive responses computed for others
+ * - invalidatedByList: Routes whose successful requests discard every entry of this route, as
+ * '<METHOD> <route template>' (e.g., 'POST /v1/bulletins' or 'DELETE /v1/bulletins/:id')
+ * - store: Store keeping the responses, instead of the application response cache store
+ * 
+ * Besides the user, the key is derived from the request path and query string. Services of cached routes
+ * must only answer through their returned status and data: background refreshes run after the response was sent,
+ * against a detached response, with their own abort signal and timeout.
+ */
+export interface IResponseCachePolicy {
+  ttlSeconds: number;
+  staleWhileRevalidateSeconds?: number;
+  isShared?: boolean;
+  invalidatedByList?: string[];
+  store?: IResponseCacheStore.IResponseCacheStore;
+}
@@ -0,0 +1,19 @@
+/**
+ * ## IShutdownHook
+ * 
+ * Cleanup task run by the lifecycle manager when the server shuts down.
+ * 
+ * @description Hooks release what modules acquired while the API was running, such as database connections,
+ * in-flight outbound requests or buffered log entries. They run once every server has stopped serving requests,
+ * in the reverse order of their registration, so that resources acquired last are released first.
+ * 
+ * The hook includes:
+ * 
+ * - name: Unique name of the hook, used in the shutdown log entries and to replace or remove it
+ * - run: The cleanup task; it shares the SHUTDOWN_TIMEOUT_MS deadline of the shutdown, and errors are logged
+ * without preventing the other hooks from running
+ */
+export interface IShutdownHook {
+  name: string;
+  run(): Promise<void> | void;
+}
@@ -0,0 +1,29 @@
+/**
+ * ## IUploadPolicy
+ * 
+ * Multipart handling of the requests of a POST, PUT or PATCH route.
+ * 
+ * @description Every property is optional and falls back to the environment-driven defaults
+ * (see uploadUtil.getDefaultUploadPolicy).
+ * 
+ * The policy includes:
+ * 
+ * - storage: Whether files are kept in memory as buffers ('memory') or streamed to the upload directory ('disk')
+ * - directory: Directory receiving the files streamed to disk
+ * - maxFileCount: Number of files a request may carry
+ * - maxFileSizeBytes: Size of each file in bytes
+ * - allowedMimeTypeList: MIME types accepted, either exact (e.g., 'text/csv') or by type (e.g., 'image/*');
+ * every type is accepted when empty
+ * - isRequired: Whether requests must be multipart and carry at least one file (defaults to false, in which
+ * case requests of other content types run as usual)
+ * 
+ * The text fields of the form are exposed as req.body, so that the validation schema of the route applies to them.
+ */
+export interface IUploadPolicy {
+  storage?: 'memory' | 'disk';
+  directory?: string;
+  maxFileCount?: number;
+  maxFileSizeBytes?: number;
+  allowedMimeTypeList?: string[];
+  isRequired?: boolean;
+}
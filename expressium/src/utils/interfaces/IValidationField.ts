@@ -0,0 +1,27 @@
+/**
+ * ## IValidationField
+ * 
+ * Flattened description of a single field declared in a validation schema.
+ * 
+ * @description This interface is produced when inspecting a route's validation schema, turning
+ * express-validator field schemas into plain metadata that documentation generators can consume
+ * without knowing express-validator's schema syntax.
+ * 
+ * Each entry describes:
+ * 
+ * - Where the field is read from (params, query, headers or body)
+ * - The field name
+ * - Whether the field may be omitted
+ * - The validators and sanitizers applied to it, with their options
+ * - The general error message, when declared as a string
+ */
+export interface IValidationField {
+  location: 'params' | 'query' | 'headers' | 'body';
+  field: string;
+  isOptional: boolean;
+  ruleList: {
+    name: string;
+    options?: unknown;
+  }[];
+  message?: string;
+}
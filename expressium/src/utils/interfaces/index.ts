@@ -1 +1,21 @@
+export * as IApiVersionPolicy from './IApiVersionPolicy';
+export * as IApplicationConfiguration from './IApplicationConfiguration';
+export * as IAuthorizationPolicy from './IAuthorizationPolicy';
+export * as IAuthorizationRequirement from './IAuthorizationRequirement';
+export * as IBruteForceProtectionConfiguration from './IBruteForceProtectionConfiguration';
+export * as ICacheControlPolicy from './ICacheControlPolicy';
+export * as IClientCertificate from './IClientCertificate';
 export * as IConfigurationMap from './IConfigurationMap';
+export * as ICorsPolicy from './ICorsPolicy';
+export * as IDeprecationPolicy from './IDeprecationPolicy';
+export * as IHealthReport from './IHealthReport';
+export * as IIdempotencyPolicy from './IIdempotencyPolicy';
+export * as ILogEntry from './ILogEntry';
+export * as ILoggerConfiguration from './ILoggerConfiguration';
+export * as IOpenApiDocument from './IOpenApiDocument';
+export * as IRateLimitPolicy from './IRateLimitPolicy';
+export * as IRequestContext from './IRequestContext';
+export * as IResponseCachePolicy from './IResponseCachePolicy';
+export * as IShutdownHook from './IShutdownHook';
+export * as IUploadPolicy from './IUploadPolicy';
+export * as IValidationField from './IValidationField';
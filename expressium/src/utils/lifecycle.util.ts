@@ -0,0 +1,264 @@
+import http from 'http';
+import https from 'https';
+import { getConfiguration } from './configuration.util';
+import { IShutdownHook } from './interfaces';
+import { getLogger } from './logging.util';
+import { Logger } from './Logger.util';
+
+const SHUTDOWN_HOOK_RESERVE_MS = 2_000;
+
+/**
+ * ## serverList
+ * 
+ * Servers closed by {@link shutdown}, registered by startServer once they listen.
+ */
+const serverList: (http.Server | https.Server)[] = [];
+
+/**
+ * ## shutdownHookList
+ * 
+ * Cleanup tasks run by {@link shutdown} once the servers are closed, in reverse order.
+ */
+const shutdownHookList: IShutdownHook.IShutdownHook[] = [];
+
+/**
+ * ## shutdownPromise
+ * 
+ * Pending shutdown, shared by every caller of {@link shutdown} so that it only runs once.
+ */
+let shutdownPromise: Promise<boolean> | undefined;
+
+/**
+ * ## getLifecycleLogger
+ * 
+ * Returns a child of the root logger for shutdown entries.
+ * 
+ * @returns The lifecycle logger.
+ */
+const getLifecycleLogger = (): Logger => {
+  return getLogger().child({ component: 'Lifecycle' });
+};
+
+/**
+ * ## registerServer
+ * 
+ * Adds a server to the ones closed on shutdown.
+ * 
+ * @param server - The HTTP or HTTPS server to close.
+ */
+export const registerServer = (server: http.Server | https.Server): void => {
+  if (!serverList.includes(server)) {
+    serverList.push(server);
+  }
+};
+
+/**
+ * ## registerShutdownHook
+ * 
+ * Adds a cleanup task run on shutdown.
+ * 
+ * @description A hook registered with the name of an existing one replaces it, keeping its position.
+ * Hooks run in the reverse order of their registration.
+ * 
+ * @param shutdownHook - The hook to run.
+ */
+export const registerShutdownHook = (shutdownHook: IShutdownHook.IShutdownHook): void => {
+  const index = shutdownHookList.findIndex((registeredShutdownHook: IShutdownHook.IShutdownHook): boolean => registeredShutdownHook.name === shutdownHook.name);
+
+  if (index === -1) {
+    shutdownHookList.push(shutdownHook);
+  } else {
+    shutdownHookList[index] = shutdownHook;
+  }
+};
+
+/**
+ * ## unregisterShutdownHook
+ * 
+ * Removes a cleanup task.
+ * 
+ * @param name - Name of the hook to remove.
+ * 
+ * @returns Whether a hook was removed.
+ */
+export const unregisterShutdownHook = (name: string): boolean => {
+  const index = shutdownHookList.findIndex((shutdownHook: IShutdownHook.IShutdownHook): boolean => shutdownHook.name === name);
+
+  if (index === -1) {
+    return false;
+  }
+
+  shutdownHookList.splice(index, 1);
+
+  return true;
+};
+
+/**
+ * ## isShuttingDown
+ * 
+ * Returns whether the shutdown has started.
+ * 
+ * @description The readiness endpoint fails and responses ask clients to close their keep-alive
+ * connections from the moment the shutdown starts.
+ * 
+ * @returns Whether the API is shutting down.
+ */
+export const isShuttingDown = (): boolean => {
+  return shutdownPromise !== undefined;
+};
+
+/**
+ * ## runWithTimeout
+ * 
+ * Waits for a task, giving up once the timeout elapses.
+ * 
+ * @param task - The task to wait for.
+ * @param timeoutMs - How long to wait, in milliseconds.
+ * 
+ * @returns Promise resolving to whether the task completed in time; rejects with the error of the task.
+ */
+const runWithTimeout = async (task: Promise<unknown>, timeoutMs: number): Promise<boolean> => {
+  let timeout: NodeJS.Timeout | undefined;
+
+  try {
+    return await Promise.race(
+      [
+        task.then((): boolean => true),
+        new Promise<boolean>(
+          (resolve: (value: boolean) => void): void => {
+            timeout = setTimeout((): void => resolve(false), timeoutMs);
+          }
+        )
+      ]
+    );
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+/**
+ * ## closeServerList
+ * 
+ * Stops every server from accepting connections and waits for the in-flight requests.
+ * 
+ * @description Idle keep-alive connections are closed right away, and busy ones once their current
+ * response is sent (see lifecycleMiddleware.closeConnectionWhileShuttingDown). Connections still open
+ * after the timeout are destroyed.
+ * 
+ * @param timeoutMs - How long to wait for the in-flight requests, in milliseconds.
+ * 
+ * @returns Promise resolving to whether every request completed in time.
+ */
+const closeServerList = async (timeoutMs: number): Promise<boolean> => {
+  const closePromise = Promise.all(
+    serverList.map(
+      (server: http.Server | https.Server): Promise<void> => {
+        return new Promise<void>(
+          (resolve: () => void): void => {
+            server.close((): void => resolve());
+            server.closeIdleConnections();
+          }
+        );
+      }
+    )
+  );
+
+  if (await runWithTimeout(closePromise, timeoutMs)) {
+    return true;
+  }
+
+  getLifecycleLogger().warn('Closing the connections still open after the drain timeout.', { timeoutMs });
+  serverList.forEach((server: http.Server | https.Server): void => server.closeAllConnections());
+
+  return false;
+};
+
+/**
+ * ## runShutdownHook
+ * 
+ * Runs a single hook within what remains of the shutdown timeout.
+ * 
+ * @param shutdownHook - The hook to run.
+ * @param timeoutMs - How long the hook may take, in milliseconds; a hook started past the deadline still runs,
+ * but is reported as timed out unless it completes right away.
+ * 
+ * @returns Promise resolving to whether the hook completed successfully in time; never rejects.
+ */
+const runShutdownHook = async (shutdownHook: IShutdownHook.IShutdownHook, timeoutMs: number): Promise<boolean> => {
+  const startTime = performance.now();
+
+  try {
+    if (!(await runWithTimeout(Promise.resolve().then((): Promise<void> | void => shutdownHook.run()), timeoutMs))) {
+      getLifecycleLogger().warn('Shutdown hook timed out.', { name: shutdownHook.name, timeoutMs });
+
+      return false;
+    }
+
+    getLifecycleLogger().debug('Shutdown hook completed.', { name: shutdownHook.name, durationMs: Math.round(performance.now() - startTime) });
+
+    return true;
+  } catch (error: unknown) {
+    getLifecycleLogger().error('Shutdown hook failed.', { name: shutdownHook.name, error });
+
+    return false;
+  }
+};
+
+/**
+ * ## shutdown
+ * 
+ * Shuts the API down gracefully.
+ * 
+ * @description The shutdown goes through the following steps:
+ * 
+ * 1. The readiness endpoint starts failing, so that load balancers stop routing new requests
+ * 2. After SHUTDOWN_DRAIN_DELAY_MS, every registered server stops accepting connections, and keep-alive
+ * connections are closed once idle
+ * 3. In-flight requests are given until the drain deadline to complete, after which their connections are destroyed
+ * 4. The shutdown hooks run one after the other, in reverse registration order, within what remains until
+ * the deadline (e.g., aborting in-flight HttpClient requests, then disconnecting the Prisma client)
+ * 5. The root logger is flushed
+ * 
+ * The deadline is SHUTDOWN_TIMEOUT_MS after the drain delay, so that the whole shutdown stays bounded however
+ * many hooks are registered. The drain deadline comes earlier, keeping up to 2 seconds (at most half of
+ * SHUTDOWN_TIMEOUT_MS) for the hooks, so that requests draining until their deadline cannot leave the hooks
+ * without time to run.
+ * 
+ * Calling it again while a shutdown is in progress returns the pending one. The process is not exited,
+ * so that the caller decides the exit code.
+ * 
+ * @async
+ * 
+ * @param reason - What triggered the shutdown (e.g., 'SIGTERM'), for the log entries.
+ * 
+ * @returns Promise resolving to whether every step completed successfully in time.
+ */
+export const shutdown = (reason: string): Promise<boolean> => {
+  shutdownPromise ??= (
+    async (): Promise<boolean> => {
+      const { drainDelayMs, timeoutMs } = getConfiguration().shutdown;
+
+      getLifecycleLogger().info('Shutdown started.', { reason, drainDelayMs, timeoutMs });
+
+      if (drainDelayMs > 0) {
+        await new Promise<void>((resolve: () => void): void => void setTimeout(resolve, drainDelayMs));
+      }
+
+      const deadline = performance.now() + timeoutMs;
+      const getRemainingMs = (): number => Math.max(Math.round(deadline - performance.now()), 0);
+
+      let isClean = await closeServerList(timeoutMs - Math.min(SHUTDOWN_HOOK_RESERVE_MS, Math.floor(timeoutMs / 2)));
+
+      for (const shutdownHook of [...shutdownHookList].reverse()) {
+        isClean = (await runShutdownHook(shutdownHook, getRemainingMs())) && isClean;
+      }
+
+      getLifecycleLogger().info('Shutdown completed.', { reason, isClean });
+      await getLogger().flush().catch((): void => undefined);
+
+      return isClean;
+    }
+  )();
+
+  return shutdownPromise;
+};
@@ -0,0 +1,152 @@
+import cluster from 'cluster';
+import { Request } from 'express';
+import path from 'path';
+import { getConfiguration } from './configuration.util';
+import { Logger } from './Logger.util';
+import { getRequestId } from './requestContext.util';
+import { RotatingFileSink, StdoutSink } from './sinks';
+import { ILogSink } from './sinks/interfaces';
+
+/**
+ * ## fileSinkMap
+ * 
+ * Rotating file sinks by resolved file path, shared by every logger writing to the same file.
+ */
+const fileSinkMap = new Map<string, RotatingFileSink.RotatingFileSink>();
+
+/**
+ * ## getFileSink
+ * 
+ * Returns the rotating file sink of a file, creating it on first use.
+ * 
+ * @description A file must be written and rotated by a single sink, since each sink keeps its own stream
+ * and size count: every logger writing to the same path shares the sink created by the first call, along
+ * with its size limits. Cluster workers write to a file of their own (e.g., 'app.worker-2.log' for
+ * 'app.log'), so that they never rotate a file another worker is writing.
+ * 
+ * @param filePath - Path of the log file.
+ * @param maxFileSize - Maximum size of a log file in bytes before it is rotated.
+ * @param maxFiles - Number of rotated files kept besides the current one.
+ * 
+ * @returns The shared file sink.
+ * 
+ * @throws If the log file cannot be opened.
+ */
+export const getFileSink = (
+  filePath: string, 
+  maxFileSize?: number, 
+  maxFiles?: number
+): RotatingFileSink.RotatingFileSink => {
+  const { dir, name, ext } = path.parse(path.resolve(filePath));
+  const sinkFilePath = cluster.isWorker && cluster.worker ? path.join(dir, `${ name }.worker-${ cluster.worker.id }${ ext }`) : path.join(dir, `${ name }${ ext }`);
+  let fileSink = fileSinkMap.get(sinkFilePath);
+
+  if (!fileSink) {
+    fileSink = new RotatingFileSink.RotatingFileSink(sinkFilePath, maxFileSize, maxFiles);
+    fileSinkMap.set(sinkFilePath, fileSink);
+  }
+
+  return fileSink;
+};
+
+/**
+ * ## createLogger
+ * 
+ * Creates a logger configured from the application configuration.
+ * 
+ * @description The logger is configured as follows:
+ * 
+ * - LOG_LEVEL: Minimum level written (debug, info, warn or error; defaults to info)
+ * - LOG_FORMAT: Output format (json or pretty; defaults to json in production and pretty otherwise)
+ * - Sinks: stdout, a rotating file when LOG_FILE_PATH is set (sized by LOG_FILE_MAX_SIZE and
+ * LOG_FILE_MAX_FILES, and shared with the other loggers of the file, see {@link getFileSink}), followed
+ * by any additional sink given
+ * 
+ * @param additionalSinkList - Sinks receiving the entries besides the configured ones.
+ * 
+ * @returns The configured logger.
+ * 
+ * @throws If the log file cannot be opened.
+ */
+export const createLogger = (additionalSinkList: ILogSink.ILogSink[] = []): Logger => {
+  const { level, format, filePath, fileMaxSize, fileMaxFiles } = getConfiguration().log;
+  const sinkList: ILogSink.ILogSink[] = [new StdoutSink.StdoutSink()];
+
+  if (filePath) {
+    sinkList.push(getFileSink(filePath, fileMaxSize, fileMaxFiles));
+  }
+
+  return new Logger({ level, format, sinkList: [...sinkList, ...additionalSinkList] });
+};
+
+/**
+ * ## logger
+ * 
+ * Root logger of the application.
+ * 
+ * @description Created from the application configuration when the module is first loaded.
+ * Replace it with {@link setLogger} before the server starts to customize levels, formats or sinks.
+ */
+let logger = createLogger();
+
+/**
+ * ## setLogger
+ * 
+ * Replaces the root logger of the application.
+ * 
+ * @param rootLogger - The logger to use from now on.
+ */
+export const setLogger = (rootLogger: Logger): void => {
+  logger = rootLogger;
+};
+
+/**
+ * ## getLogger
+ * 
+ * Returns the root logger of the application.
+ * 
+ * @returns The active root logger.
+ */
+export const getLogger = (): Logger => {
+  return logger;
+};
+
+/**
+ * ## getRequestContext
+ * 
+ * Extracts the fields identifying a request in the logs.
+ * 
+ * @description The context includes:
+ * 
+ * - requestId: The correlation ID of the request context, or the X-Request-ID header outside of it
+ * - user: The username of the authorized user, once the authorization middleware has run
+ * - route: The route template matched by the request (e.g., '/api/v1/users/:id'), once routed
+ * - method and path of the request
+ * 
+ * @param req - Express Request object of the incoming request.
+ * 
+ * @returns The request context, with the fields that are not known yet left undefined.
+ */
+export const getRequestContext = (req: Request): Record<string, unknown> => {
+  return {
+    requestId: getRequestId() ?? req.headers['x-request-id'],
+    user: (req as any).user?.username,
+    route: req.route ? `${ req.baseUrl }${ req.route.path }` : undefined,
+    method: req.method,
+    path: req.originalUrl || req.url
+  };
+};
+
+/**
+ * ## getRequestLogger
+ * 
+ * Creates a child of the root logger carrying the context of a request.
+ * 
+ * @param req - Express Request object of the incoming request.
+ * @param component - The application layer logging the entries (e.g., 'Controller', 'Service').
+ * 
+ * @returns The request logger.
+ */
+export const getRequestLogger = (req: Request, component: string): Logger => {
+  return logger.child({ component, ...getRequestContext(req) });
+};
@@ -0,0 +1,166 @@
+import { CounterMetric, HistogramMetric } from './metrics';
+import { IMetric } from './metrics/interfaces';
+
+/**
+ * ## httpRequestCounter
+ * 
+ * Counts the requests answered by the routes registered through generateRoute.
+ * 
+ * @description Labelled by HTTP method, route template (e.g., '/v1/users/:id', never the concrete path,
+ * to keep the number of series bounded) and response status code.
+ */
+export const httpRequestCounter = new CounterMetric.CounterMetric(
+  'http_requests_total',
+  'Total number of HTTP requests answered, by method, route template and status code.',
+  ['method', 'route', 'status_code']
+);
+
+/**
+ * ## httpRequestDurationHistogram
+ * 
+ * Measures how long the routes registered through generateRoute take to answer, in seconds.
+ * 
+ * @description Labelled like {@link httpRequestCounter}. The duration covers every middleware of the
+ * route (authorization, validation) besides the service itself.
+ */
+export const httpRequestDurationHistogram = new HistogramMetric.HistogramMetric(
+  'http_request_duration_seconds',
+  'Duration of HTTP requests in seconds, by method, route template and status code.',
+  ['method', 'route', 'status_code']
+);
+
+/**
+ * ## httpClientRequestCounter
+ * 
+ * Counts the outbound requests made through the HttpClient.
+ * 
+ * @description Labelled by HTTP method, target host and response status code. Requests that never
+ * received a response (e.g., timeouts, refused connections) are labelled with the 'error' status code.
+ */
+export const httpClientRequestCounter = new CounterMetric.CounterMetric(
+  'http_client_requests_total',
+  'Total number of outbound HTTP requests made through the HttpClient, by method, host and status code.',
+  ['method', 'host', 'status_code']
+);
+
+/**
+ * ## httpClientRequestDurationHistogram
+ * 
+ * Measures how long the outbound requests made through the HttpClient take, in seconds.
+ * 
+ * @description Labelled like {@link httpClientRequestCounter}. The duration includes the automatic retries.
+ */
+export const httpClientRequestDurationHistogram = new HistogramMetric.HistogramMetric(
+  'http_client_request_duration_seconds',
+  'Duration of outbound HTTP requests made through the HttpClient in seconds, by method, host and status code.',
+  ['method', 'host', 'status_code']
+);
+
+/**
+ * ## rateLimitRejectionCounter
+ * 
+ * Counts the requests rejected by a rate limiter.
+ * 
+ * @description Labelled by the name of the limiter that rejected the request (e.g., 'global').
+ */
+export const rateLimitRejectionCounter = new CounterMetric.CounterMetric(
+  'rate_limit_rejections_total',
+  'Total number of requests rejected by a rate limiter, by limiter.',
+  ['limiter']
+);
+
+/**
+ * ## authenticationAttemptCounter
+ * 
+ * Counts the attempts to obtain or renew a session.
+ * 
+ * @description Labelled by:
+ * 
+ * - method: How the client authenticated ('basic' credentials or a 'refresh_token')
+ * - result: 'success', 'failure' (rejected credentials or request) or 'error' (server-side failure)
+ * - reason: Why the attempt did not succeed (e.g., 'invalid_password'), empty on success
+ */
+export const authenticationAttemptCounter = new CounterMetric.CounterMetric(
+  'authentication_attempts_total',
+  'Total number of authentication attempts, by method, result and reason.',
+  ['method', 'result', 'reason']
+);
+
+/**
+ * ## metricMap
+ * 
+ * Metrics exposed by the '/metrics' endpoint, keyed by name, in registration order.
+ */
+const metricMap = new Map<string, IMetric.IMetric>(
+  [
+    httpRequestCounter,
+    httpRequestDurationHistogram,
+    httpClientRequestCounter,
+    httpClientRequestDurationHistogram,
+    rateLimitRejectionCounter,
+    authenticationAttemptCounter
+  ].map((metric: IMetric.IMetric): [string, IMetric.IMetric] => [metric.name, metric])
+);
+
+/**
+ * ## registerMetric
+ * 
+ * Adds an application metric to the '/metrics' endpoint.
+ * 
+ * @param metric - The metric to expose (e.g., a CounterMetric created by the application).
+ * 
+ * @returns The registered metric, allowing creation and registration in a single expression.
+ * 
+ * @throws If a metric with the same name is already registered.
+ */
+export const registerMetric = <T extends IMetric.IMetric>(metric: T): T => {
+  if (metricMap.has(metric.name)) {
+    throw new Error(`Metric already registered: ${ metric.name }.`);
+  }
+
+  metricMap.set(metric.name, metric);
+
+  return metric;
+};
+
+/**
+ * ## unregisterMetric
+ * 
+ * Removes a metric from the '/metrics' endpoint.
+ * 
+ * @param name - Name of the metric to remove.
+ * 
+ * @returns Whether a metric was removed.
+ */
+export const unregisterMetric = (name: string): boolean => {
+  return metricMap.delete(name);
+};
+
+/**
+ * ## getMetrics
+ * 
+ * Serializes every registered metric in the Prometheus text exposition format (version 0.0.4).
+ * 
+ * @returns The exposition document served by the '/metrics' endpoint.
+ */
+export const getMetrics = (): string => {
+  return `${ 
+    Array
+      .from(metricMap.values())
+      .flatMap((metric: IMetric.IMetric): string[] => metric.collect())
+      .join('\n') 
+  }\n`;
+};
+
+/**
+ * ## getDurationInSeconds
+ * 
+ * Converts a start time taken with performance.now() into the elapsed time in seconds.
+ * 
+ * @param startTime - Value returned by performance.now() when the measurement started.
+ * 
+ * @returns The elapsed time in seconds.
+ */
+export const getDurationInSeconds = (startTime: number): number => {
+  return (performance.now() - startTime) / 1000;
+};
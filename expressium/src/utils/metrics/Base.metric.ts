@@ -0,0 +1,144 @@
+import { IMetric } from './interfaces';
+
+const METRIC_NAME_REGEX = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+const LABEL_NAME_REGEX = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+/**
+ * ## BaseMetric
+ * 
+ * Base class for metrics with labels.
+ * 
+ * @description The BaseMetric class validates the metric and label names and provides the label handling
+ * shared by every metric type. Samples are grouped by their label values: each distinct combination of
+ * values produces its own series in the exposition.
+ * 
+ * Label values are always converted to strings, and labels that are declared but not provided are
+ * exposed as empty strings, so that every series of a metric carries the same label names.
+ * 
+ * @method collect - Serializes the metric in the Prometheus text exposition format.
+ * @method reset - Discards every sample recorded so far.
+ */
+export abstract class BaseMetric implements IMetric.IMetric {
+  /**
+   * ## type
+   * 
+   * Prometheus metric type, exposed in its TYPE line.
+   * 
+   * @public
+   * @readonly
+   */
+  public abstract readonly type: IMetric.IMetric['type'];
+
+  /**
+   * ## constructor
+   * 
+   * Creates a new metric.
+   * 
+   * @param name - Unique metric name, following the Prometheus naming rules.
+   * @param help - Description of the metric.
+   * @param labelNameList - Names of the labels identifying the series of the metric.
+   * 
+   * @throws If the metric name or a label name is invalid.
+   */
+  constructor(
+    /** @public @readonly */
+    public readonly name: string,
+    /** @public @readonly */
+    public readonly help: string,
+    /** @protected @readonly */
+    protected readonly labelNameList: string[] = []
+  ) {
+    if (!METRIC_NAME_REGEX.test(name)) {
+      throw new Error(`Invalid metric name: ${ name }.`);
+    }
+
+    const invalidLabelName = labelNameList.find((labelName: string): boolean => !LABEL_NAME_REGEX.test(labelName) || labelName.startsWith('__'));
+
+    if (invalidLabelName !== undefined) {
+      throw new Error(`Invalid label name for metric ${ name }: ${ invalidLabelName }.`);
+    }
+  }
+
+  /**
+   * ## getLabelValueList
+   * 
+   * Orders the label values of a sample by the declared label names.
+   * 
+   * @protected
+   * 
+   * @param labelMap - Label values of the sample.
+   * 
+   * @returns The label values, in declaration order.
+   */
+  protected getLabelValueList(labelMap: Record<string, string | number>): string[] {
+    return this.labelNameList.map((labelName: string): string => String(labelMap[labelName] ?? ''));
+  }
+
+  /**
+   * ## formatLabels
+   * 
+   * Serializes label names and values into a Prometheus label set.
+   * 
+   * @description Backslashes, double quotes and line feeds in the values are escaped as required by the
+   * text exposition format.
+   * 
+   * @protected
+   * 
+   * @param labelValueList - Label values, in declaration order.
+   * @param additionalLabelMap - Labels appended after the declared ones (e.g., the histogram 'le' label).
+   * 
+   * @returns The label set (e.g., '{method="GET",status_code="200"}'), or an empty string without labels.
+   */
+  protected formatLabels(labelValueList: string[], additionalLabelMap: Record<string, string> = {}): string {
+    const labelList = [
+      ...this.labelNameList.map((labelName: string, index: number): [string, string] => [labelName, labelValueList[index]]),
+      ...Object.entries(additionalLabelMap)
+    ];
+
+    if (labelList.length === 0) {
+      return '';
+    }
+
+    return `{${ 
+      labelList
+        .map(([labelName, labelValue]: [string, string]): string => `${ labelName }="${ labelValue.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n') }"`)
+        .join(',') 
+    }}`;
+  }
+
+  /**
+   * ## formatHeader
+   * 
+   * Serializes the HELP and TYPE lines of the metric.
+   * 
+   * @protected
+   * 
+   * @returns The HELP and TYPE lines.
+   */
+  protected formatHeader(): string[] {
+    return [
+      `# HELP ${ this.name } ${ this.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n') }`,
+      `# TYPE ${ this.name } ${ this.type }`
+    ];
+  }
+
+  /**
+   * ## collect
+   * 
+   * Serializes the metric in the Prometheus text exposition format.
+   * 
+   * @public
+   * 
+   * @returns The HELP, TYPE and sample lines of the metric.
+   */
+  public abstract collect(): string[];
+
+  /**
+   * ## reset
+   * 
+   * Discards every sample recorded so far.
+   * 
+   * @public
+   */
+  public abstract reset(): void;
+}
@@ -0,0 +1,93 @@
+import { BaseMetric } from './Base.metric';
+
+/**
+ * ## CounterMetric
+ * 
+ * Prometheus counter, a cumulative value that only increases.
+ * 
+ * @description Counters track how many times something happened (e.g., requests served, failed logins).
+ * Rates are derived from them by Prometheus, so they must never decrease; the only way back to zero
+ * is a process restart or an explicit {@link CounterMetric.reset}.
+ * 
+ * @method increment - Increases the counter of a series.
+ * @method collect - Serializes the counter in the Prometheus text exposition format.
+ * @method reset - Discards every series recorded so far.
+ */
+export class CounterMetric extends BaseMetric {
+  /**
+   * ## type
+   * 
+   * Prometheus metric type.
+   * 
+   * @public
+   * @readonly
+   */
+  public readonly type = 'counter';
+
+  /**
+   * ## valueMap
+   * 
+   * Current value of each series, keyed by the serialized label values.
+   * 
+   * @private
+   * @readonly
+   */
+  private readonly valueMap = new Map<string, { labelValueList: string[]; value: number }>();
+
+  /**
+   * ## increment
+   * 
+   * Increases the counter of a series.
+   * 
+   * @public
+   * 
+   * @param labelMap - Label values identifying the series.
+   * @param value - Amount to add (defaults to 1).
+   * 
+   * @throws If the amount is negative or not a finite number.
+   */
+  public increment(labelMap: Record<string, string | number> = {}, value: number = 1): void {
+    if (!Number.isFinite(value) || value < 0) {
+      throw new Error(`Counter ${ this.name } can only be increased by non-negative amounts.`);
+    }
+
+    const labelValueList = this.getLabelValueList(labelMap);
+    const key = JSON.stringify(labelValueList);
+    const series = this.valueMap.get(key);
+
+    if (series) {
+      series.value += value;
+    } else {
+      this.valueMap.set(key, { labelValueList, value });
+    }
+  }
+
+  /**
+   * ## collect
+   * 
+   * Serializes the counter in the Prometheus text exposition format.
+   * 
+   * @public
+   * 
+   * @returns The HELP, TYPE and sample lines of the counter.
+   */
+  public collect(): string[] {
+    return [
+      ...this.formatHeader(),
+      ...Array
+        .from(this.valueMap.values())
+        .map(({ labelValueList, value }: { labelValueList: string[]; value: number }): string => `${ this.name }${ this.formatLabels(labelValueList) } ${ value }`)
+    ];
+  }
+
+  /**
+   * ## reset
+   * 
+   * Discards every series recorded so far.
+   * 
+   * @public
+   */
+  public reset(): void {
+    this.valueMap.clear();
+  }
+}
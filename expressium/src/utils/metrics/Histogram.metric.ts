@@ -0,0 +1,157 @@
+import { BaseMetric } from './Base.metric';
+
+const DEFAULT_BUCKET_LIST = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/**
+ * ## HistogramMetric
+ * 
+ * Prometheus histogram, counting observations into configurable buckets.
+ * 
+ * @description Histograms track distributions (e.g., request durations) so that Prometheus can compute
+ * quantiles and averages across instances. Each series exposes:
+ * 
+ * - One cumulative `_bucket` sample per upper bound, plus the `+Inf` bucket
+ * - The `_sum` of every observed value
+ * - The `_count` of observations
+ * 
+ * The default buckets, from 5 milliseconds to 10 seconds, suit durations measured in seconds.
+ * 
+ * @method observe - Records an observation in a series.
+ * @method collect - Serializes the histogram in the Prometheus text exposition format.
+ * @method reset - Discards every series recorded so far.
+ */
+export class HistogramMetric extends BaseMetric {
+  /**
+   * ## type
+   * 
+   * Prometheus metric type.
+   * 
+   * @public
+   * @readonly
+   */
+  public readonly type = 'histogram';
+
+  /**
+   * ## bucketList
+   * 
+   * Upper bounds of the buckets, sorted in ascending order.
+   * 
+   * @private
+   * @readonly
+   */
+  private readonly bucketList: number[];
+
+  /**
+   * ## seriesMap
+   * 
+   * Bucket counts, sum and count of each series, keyed by the serialized label values.
+   * 
+   * @private
+   * @readonly
+   */
+  private readonly seriesMap = new Map<string, { labelValueList: string[]; bucketCountList: number[]; sum: number; count: number }>();
+
+  /**
+   * ## constructor
+   * 
+   * Creates a new HistogramMetric instance.
+   * 
+   * @param name - Unique metric name, following the Prometheus naming rules.
+   * @param help - Description of the metric.
+   * @param labelNameList - Names of the labels identifying the series of the metric.
+   * @param bucketList - Upper bounds of the buckets (defaults to durations from 5 milliseconds to 10 seconds).
+   * 
+   * @throws If the metric name, a label name or a bucket is invalid.
+   */
+  constructor(
+    name: string,
+    help: string,
+    labelNameList: string[] = [],
+    bucketList: number[] = DEFAULT_BUCKET_LIST
+  ) {
+    super(name, help, labelNameList);
+
+    if (labelNameList.includes('le')) {
+      throw new Error(`Histogram ${ name } cannot declare the reserved 'le' label.`);
+    }
+
+    if (bucketList.length === 0 || bucketList.some((bucket: number): boolean => !Number.isFinite(bucket))) {
+      throw new Error(`Histogram ${ name } requires at least one finite bucket.`);
+    }
+
+    this.bucketList = Array.from(new Set(bucketList)).sort((a: number, b: number): number => a - b);
+  }
+
+  /**
+   * ## observe
+   * 
+   * Records an observation in a series.
+   * 
+   * @public
+   * 
+   * @param labelMap - Label values identifying the series.
+   * @param value - The observed value (e.g., a duration in seconds).
+   */
+  public observe(labelMap: Record<string, string | number>, value: number): void {
+    const labelValueList = this.getLabelValueList(labelMap);
+    const key = JSON.stringify(labelValueList);
+    let series = this.seriesMap.get(key);
+
+    if (!series) {
+      series = { labelValueList, bucketCountList: this.bucketList.map((): number => 0), sum: 0, count: 0 };
+      this.seriesMap.set(key, series);
+    }
+
+    const bucketIndex = this.bucketList.findIndex((bucket: number): boolean => value <= bucket);
+
+    if (bucketIndex !== -1) {
+      series.bucketCountList[bucketIndex] += 1;
+    }
+
+    series.sum += value;
+    series.count += 1;
+  }
+
+  /**
+   * ## collect
+   * 
+   * Serializes the histogram in the Prometheus text exposition format.
+   * 
+   * @public
+   * 
+   * @returns The HELP, TYPE and sample lines of the histogram.
+   */
+  public collect(): string[] {
+    const lineList = this.formatHeader();
+
+    this.seriesMap.forEach(
+      ({ labelValueList, bucketCountList, sum, count }: { labelValueList: string[]; bucketCountList: number[]; sum: number; count: number }): void => {
+        let cumulativeCount = 0;
+
+        this.bucketList.forEach(
+          (bucket: number, index: number): void => {
+            cumulativeCount += bucketCountList[index];
+            lineList.push(`${ this.name }_bucket${ this.formatLabels(labelValueList, { le: String(bucket) }) } ${ cumulativeCount }`);
+          }
+        );
+
+        lineList.push(`${ this.name }_bucket${ this.formatLabels(labelValueList, { le: '+Inf' }) } ${ count }`);
+        lineList.push(`${ this.name }_sum${ this.formatLabels(labelValueList) } ${ sum }`);
+        lineList.push(`${ this.name }_count${ this.formatLabels(labelValueList) } ${ count }`);
+      }
+    );
+
+    return lineList;
+  }
+
+  /**
+   * ## reset
+   * 
+   * Discards every series recorded so far.
+   * 
+   * @public
+   */
+  public reset(): void {
+    this.seriesMap.clear();
+  }
+}
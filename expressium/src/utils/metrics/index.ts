@@ -0,0 +1,3 @@
+export * as BaseMetric from './Base.metric';
+export * as CounterMetric from './Counter.metric';
+export * as HistogramMetric from './Histogram.metric';
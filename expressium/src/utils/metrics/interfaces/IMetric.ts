@@ -0,0 +1,50 @@
+/**
+ * ## IMetric
+ * 
+ * Standard interface for metrics exposed in the Prometheus text format.
+ * 
+ * @description Defines the contract that all metrics must follow to be registered in the metrics registry
+ * and exposed by the '/metrics' endpoint. Each metric serializes its own samples, so that new metric types
+ * can be added without changing the registry.
+ * 
+ * @method collect - Serializes the metric in the Prometheus text exposition format.
+ * @method reset - Discards every sample recorded so far.
+ */
+export interface IMetric {
+  /**
+   * ## name
+   * 
+   * Unique metric name (e.g., 'http_requests_total').
+   */
+  readonly name: string;
+
+  /**
+   * ## help
+   * 
+   * Description of the metric, exposed in its HELP line.
+   */
+  readonly help: string;
+
+  /**
+   * ## type
+   * 
+   * Prometheus metric type, exposed in its TYPE line.
+   */
+  readonly type: 'counter' | 'gauge' | 'histogram';
+
+  /**
+   * ## collect
+   * 
+   * Serializes the metric in the Prometheus text exposition format.
+   * 
+   * @returns The HELP, TYPE and sample lines of the metric.
+   */
+  collect(): string[];
+
+  /**
+   * ## reset
+   * 
+   * Discards every sample recorded so far.
+   */
+  reset(): void;
+}
@@ -0,0 +1 @@
+export * as IMetric from './IMetric';
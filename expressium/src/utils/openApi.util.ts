@@ -0,0 +1,389 @@
+import path from 'path';
+import { IRouteMap } from '../routes/interfaces';
+import { getDeprecationPolicy } from './apiVersion.util';
+import { getConfiguration } from './configuration.util';
+import { getDefaultIdempotencyPolicy } from './idempotency.util';
+import { IOpenApiDocument, IValidationField } from './interfaces';
+import { describeValidationSchema } from './validationSchema.util';
+
+const PARAMETER_LOCATION_MAP: Record<Exclude<IValidationField.IValidationField['location'], 'body'>, string> = { 
+  params: 'path', 
+  query: 'query', 
+  headers: 'header' 
+};
+
+const ROUTE_PARAMETER_REGEX = /:([A-Za-z0-9_]+)\??/g;
+
+const RESPONSE_DATA_SCHEMA = {
+  type: 'object',
+  properties: {
+    status: { type: 'boolean' },
+    statusCode: { type: 'integer' },
+    timestamp: { type: 'string' },
+    path: { type: 'string' },
+    method: { type: 'string' },
+    message: { type: 'string' },
+    suggestion: { type: 'string' },
+    requestId: { type: 'string' }
+  }
+};
+
+const VALIDATION_RESPONSE_DATA_SCHEMA = {
+  allOf: [
+    { $ref: '#/components/schemas/ResponseData' },
+    {
+      type: 'object',
+      properties: {
+        errorList: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              location: { type: 'string' },
+              field: { type: 'string' },
+              message: { type: 'string' }
+            }
+          }
+        }
+      }
+    }
+  ]
+};
+
+/**
+ * ## convertRuleListToSchema
+ * 
+ * Converts the validators of a field into a JSON Schema.
+ * 
+ * @description The type defaults to string and is refined by type validators (isInt, isBoolean, ...).
+ * Format validators (isEmail, isUUID, ...) and constraint validators (isLength, isIn, matches, ...)
+ * add the matching JSON Schema keywords. Rules without a JSON Schema counterpart are ignored.
+ * The pattern of matches is the source of its regular expression, without the delimiters and flags
+ * that JSON Schema patterns cannot express.
+ * 
+ * @param ruleList - The validators and sanitizers applied to the field.
+ * 
+ * @returns JSON Schema describing the field.
+ */
+const convertRuleListToSchema = (ruleList: IValidationField.IValidationField['ruleList']): Record<string, unknown> => {
+  const schema: Record<string, unknown> = { type: 'string' };
+
+  ruleList.forEach(
+    ({ name, options }: { name: string, options?: unknown }): void => {
+      const optionMap = Object.isObject(options) ? options as Record<string, unknown> : {};
+
+      switch (name) {
+        case 'isInt': 
+          schema.type = 'integer'; 
+          schema.minimum = optionMap.min; 
+          schema.maximum = optionMap.max; 
+          break;
+        case 'isFloat': 
+        case 'isDecimal':
+        case 'isNumeric':
+          schema.type = 'number'; 
+          schema.minimum = optionMap.min; 
+          schema.maximum = optionMap.max; 
+          break;
+        case 'isBoolean': schema.type = 'boolean'; break;
+        case 'isArray': 
+          schema.type = 'array'; 
+          schema.minItems = optionMap.min; 
+          schema.maxItems = optionMap.max; 
+          break;
+        case 'isObject': schema.type = 'object'; break;
+        case 'isEmail': schema.format = 'email'; break;
+        case 'isUUID': schema.format = 'uuid'; break;
+        case 'isURL': schema.format = 'uri'; break;
+        case 'isDate': schema.format = 'date'; break;
+        case 'isISO8601': schema.format = 'date-time'; break;
+        case 'isLength': 
+          schema.minLength = optionMap.min; 
+          schema.maxLength = optionMap.max; 
+          break;
+        case 'matches': {
+          const pattern = Array.isArray(options) ? options[0] : options;
+
+          schema.pattern = pattern instanceof RegExp ? pattern.source : String(pattern); 
+          break;
+        }
+        case 'isIn': 
+          schema.enum = Array.isArray(options) && Array.isArray(options[0]) ? options[0] : options; 
+          break;
+      }
+    }
+  );
+
+  return JSON.parse(JSON.stringify(schema));
+};
+
+/**
+ * ## generateRequestBodySchema
+ * 
+ * Builds the JSON Schema of a request body from its validated fields.
+ * 
+ * @description Field names follow express-validator's path syntax: dots describe nested objects and
+ * `*` describes array items (e.g., 'items.*.id'). Fields declared as mandatory are added to the
+ * `required` list of their parent object.
+ * 
+ * @param fieldList - The body fields declared in the validation schema.
+ * 
+ * @returns JSON Schema describing the request body.
+ */
+const generateRequestBodySchema = (fieldList: IValidationField.IValidationField[]): Record<string, unknown> => {
+  const rootSchema: Record<string, any> = { type: 'object', properties: {} };
+
+  fieldList.forEach(
+    ({ field, isOptional, ruleList }: IValidationField.IValidationField): void => {
+      const segmentList = field.split('.');
+      let parentSchema = rootSchema;
+
+      segmentList.forEach(
+        (segment: string, index: number): void => {
+          const isLastSegment = index === segmentList.length - 1;
+          const childSchema = isLastSegment ? convertRuleListToSchema(ruleList) : { type: 'object', properties: {} };
+
+          if (segment === '*') {
+            parentSchema.type = 'array';
+            delete parentSchema.properties;
+            parentSchema.items = { ...childSchema, ...parentSchema.items };
+            parentSchema = parentSchema.items;
+
+            return;
+          }
+
+          parentSchema.properties ??= {};
+          parentSchema.properties[segment] = { ...childSchema, ...parentSchema.properties[segment] };
+
+          if (isLastSegment && !isOptional) {
+            parentSchema.required = [...(parentSchema.required ?? []), segment];
+          }
+
+          parentSchema = parentSchema.properties[segment];
+        }
+      );
+    }
+  );
+
+  return rootSchema;
+};
+
+/**
+ * ## generateResponseMap
+ * 
+ * Builds the OpenAPI responses of an operation.
+ * 
+ * @description Responses declared in the route documentation are used as-is, falling back to the
+ * standard response data schema when no schema is given. Without declared responses, a generic
+ * success response is emitted. Error responses implied by the route configuration are then added
+ * when not already declared:
+ * 
+ * - 400 when the route has a validation schema
+ * - 401 and 403 when the route requires authorization
+ * - 429 for every route, since the global rate limit applies to all of them
+ * - 500 for every route
+ * 
+ * @param routeMap - The route configuration.
+ * 
+ * @returns OpenAPI responses object keyed by status code.
+ */
+const generateResponseMap = (routeMap: IRouteMap.IRouteMap): Record<string, unknown> => {
+  const toResponse = (description: string, schema: Record<string, unknown>): Record<string, unknown> => {
+    return { description, content: { 'application/json': { schema } } };
+  };
+
+  const responseMap: Record<string, unknown> = Object.fromEntries(
+    Object.entries(routeMap.documentation?.responseMap ?? { 200: { description: 'Successful response.' } }).map(
+      ([statusCode, { description, schema }]: [string, { description: string, schema?: Record<string, unknown> }]): [string, unknown] => {
+        return [statusCode, toResponse(description, schema ?? { $ref: '#/components/schemas/ResponseData' })];
+      }
+    )
+  );
+
+  if (routeMap.validationSchema) {
+    responseMap['400'] ??= toResponse('Request validation failed.', { $ref: '#/components/schemas/ValidationResponseData' });
+  }
+
+  if (routeMap.requiresAuthorization !== false) {
+    responseMap['401'] ??= toResponse('Missing, invalid, expired or revoked token.', { $ref: '#/components/schemas/ResponseData' });
+    responseMap['403'] ??= toResponse('Insufficient permissions.', { $ref: '#/components/schemas/ResponseData' });
+  }
+
+  responseMap['429'] ??= toResponse('Too many requests.', { $ref: '#/components/schemas/ResponseData' });
+  responseMap['500'] ??= toResponse('Unexpected server error.', { $ref: '#/components/schemas/ResponseData' });
+
+  return responseMap;
+};
+
+/**
+ * ## generateOpenApiDocument
+ * 
+ * Generates an OpenAPI 3.1 document describing the registered routes.
+ * 
+ * @description This function turns the route configurations recorded by generateRoute into an
+ * OpenAPI 3.1 document that can be served as JSON and rendered by Swagger UI.
+ * 
+ * For each route it emits:
+ * 
+ * - The path, with Express parameters (`:id`) converted to OpenAPI templates (`{id}`)
+ * - Path, query and header parameters derived from the validation schema
+ * - A request body schema, declared in the documentation or derived from the validation schema
+ * - Responses, declared in the documentation or derived from the route configuration
+ * - Summary, description and tags from the documentation (tags default to the API version)
+ * - The security requirement and the `x-role-list`, `x-role-match-mode` and `x-permission-list` extensions describing access rules
+ * - The `x-rate-limit` extension describing the route rate limit policy, when it has one
+ * - A multipart/form-data request body and the `x-upload` extension describing the route upload limits, when it accepts files
+ * - The Idempotency-Key header parameter, when the route has an idempotency policy
+ * - The `deprecated` flag and the `x-deprecation` extension, when the route or its version is deprecated or sunset
+ * 
+ * Routes are also documented under the prefix of every version falling back to theirs, with the `x-fallback-version`
+ * extension naming their version and without operation ID, so that operation IDs stay unique.
+ * 
+ * Security schemes are added automatically: `basicAuth` for the authentication route and
+ * `bearerAuth` for every route that requires authorization, combined with `mutualTLS` for the routes
+ * that also require a client certificate.
+ * 
+ * @param routeMapList - The registered route configurations.
+ * @param authenticationServiceHandler - The service handler of the authentication route, documented with Basic authentication.
+ * @param aliasRouteList - The routes served under the prefix of the versions falling back to theirs (see appRoute.getAliasRouteList).
+ * 
+ * @returns The OpenAPI document.
+ */
+export const generateOpenApiDocument = (
+  routeMapList: IRouteMap.IRouteMap[],
+  authenticationServiceHandler?: Function,
+  aliasRouteList: { version: string; routeMap: IRouteMap.IRouteMap }[] = []
+): IOpenApiDocument.IOpenApiDocument => {
+  const openApiDocument: IOpenApiDocument.IOpenApiDocument = {
+    openapi: '3.1.0',
+    info: {
+      title: path.basename(process.cwd()),
+      version: getConfiguration().server.version
+    },
+    servers: [{ url: '/api' }],
+    paths: {},
+    components: {
+      securitySchemes: {},
+      schemas: {
+        ResponseData: RESPONSE_DATA_SCHEMA,
+        ValidationResponseData: VALIDATION_RESPONSE_DATA_SCHEMA
+      }
+    }
+  };
+
+  const documentedRouteList = [
+    ...routeMapList.map((routeMap: IRouteMap.IRouteMap): { version: string; routeMap: IRouteMap.IRouteMap } => ({ version: routeMap.version, routeMap })),
+    ...aliasRouteList
+  ];
+
+  documentedRouteList.forEach(
+    ({ version, routeMap }: { version: string; routeMap: IRouteMap.IRouteMap }): void => {
+      const fieldList = routeMap.validationSchema ? describeValidationSchema(routeMap.validationSchema) : [];
+      const bodyFieldList = fieldList.filter((field: IValidationField.IValidationField): boolean => field.location === 'body');
+      const routePath = `/${ version }/${ routeMap.endpoint }`;
+      const isAlias = version !== routeMap.version;
+      const deprecationPolicy = getDeprecationPolicy(version, routeMap.deprecationPolicy);
+      const isDeprecated = !!(deprecationPolicy.deprecatedAt || deprecationPolicy.sunsetAt);
+      const openApiPath = routePath.replace(ROUTE_PARAMETER_REGEX, '{$1}');
+      const isBasicAuthentication = !!authenticationServiceHandler && routeMap.serviceHandler === authenticationServiceHandler;
+      const isBearerAuthentication = routeMap.requiresAuthorization !== false;
+
+      const parameterList = fieldList
+        .filter((field: IValidationField.IValidationField): boolean => field.location !== 'body')
+        .map(
+          ({ location, field, isOptional, ruleList, message }: IValidationField.IValidationField): Record<string, unknown> => {
+            return {
+              name: field,
+              in: PARAMETER_LOCATION_MAP[location as keyof typeof PARAMETER_LOCATION_MAP],
+              required: location === 'params' || !isOptional,
+              description: message,
+              schema: convertRuleListToSchema(ruleList)
+            };
+          }
+        );
+
+      [...routePath.matchAll(ROUTE_PARAMETER_REGEX)].forEach(
+        ([, name]: RegExpMatchArray): void => {
+          if (!parameterList.some((parameter: Record<string, unknown>): boolean => parameter.in === 'path' && parameter.name === name)) {
+            parameterList.push({ name, in: 'path', required: true, schema: { type: 'string' } });
+          }
+        }
+      );
+
+      if (
+        routeMap.idempotencyPolicy 
+        && !parameterList.some((parameter: Record<string, unknown>): boolean => parameter.in === 'header' && String(parameter.name).toLowerCase() === 'idempotency-key')
+      ) {
+        parameterList.push(
+          { 
+            name: 'Idempotency-Key', 
+            in: 'header', 
+            required: routeMap.idempotencyPolicy.isRequired ?? getDefaultIdempotencyPolicy().isRequired, 
+            description: 'Unique key of the request (e.g., a UUID); retries sent with the same key replay the first response instead of running the service again.', 
+            schema: { type: 'string' } 
+          }
+        );
+      }
+
+      const requestBodySchema = routeMap.documentation?.requestBodySchema ?? (bodyFieldList.length > 0 ? generateRequestBodySchema(bodyFieldList) : undefined);
+
+      if (isBasicAuthentication) {
+        openApiDocument.components.securitySchemes.basicAuth = { type: 'http', scheme: 'basic' };
+      } else if (isBearerAuthentication) {
+        openApiDocument.components.securitySchemes.bearerAuth = { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' };
+
+        if (routeMap.requireClientCertificate) {
+          openApiDocument.components.securitySchemes.mutualTLS = { type: 'mutualTLS' };
+        }
+      }
+
+      openApiDocument.paths[openApiPath] ??= {};
+      openApiDocument.paths[openApiPath][routeMap.method.toLowerCase()] = JSON.parse(
+        JSON.stringify(
+          {
+            operationId: isAlias ? undefined : routeMap.serviceHandler.name || undefined,
+            summary: routeMap.documentation?.summary,
+            description: routeMap.documentation?.description,
+            tags: routeMap.documentation?.tagList ?? [version],
+            deprecated: isDeprecated || undefined,
+            parameters: parameterList.length > 0 ? parameterList : undefined,
+            requestBody: routeMap.uploadPolicy 
+              ? { 
+                required: !!routeMap.uploadPolicy.isRequired, 
+                content: { 'multipart/form-data': { schema: { type: 'object', ...requestBodySchema, additionalProperties: { type: 'string', format: 'binary' } } } } 
+              } 
+              : requestBodySchema 
+                ? { required: Array.isArray(requestBodySchema.required) && requestBodySchema.required.length > 0, content: { 'application/json': { schema: requestBodySchema } } } 
+                : undefined,
+            responses: generateResponseMap(routeMap),
+            security: isBasicAuthentication 
+              ? [{ basicAuth: [] }] 
+              : isBearerAuthentication ? [routeMap.requireClientCertificate ? { bearerAuth: [], mutualTLS: [] } : { bearerAuth: [] }] : [],
+            'x-role-list': routeMap.roleList,
+            'x-role-match-mode': routeMap.roleList ? routeMap.roleMatchMode ?? 'any' : undefined,
+            'x-permission-list': routeMap.permissionList,
+            'x-rate-limit': routeMap.rateLimitPolicy 
+              ? { 
+                windowMs: routeMap.rateLimitPolicy.windowMs, 
+                limit: routeMap.rateLimitPolicy.limit, 
+                keyBy: routeMap.rateLimitPolicy.keyBy, 
+                exemptRoleList: routeMap.rateLimitPolicy.exemptRoleList 
+              } 
+              : undefined,
+            'x-upload': routeMap.uploadPolicy 
+              ? { 
+                maxFileCount: routeMap.uploadPolicy.maxFileCount, 
+                maxFileSizeBytes: routeMap.uploadPolicy.maxFileSizeBytes, 
+                allowedMimeTypeList: routeMap.uploadPolicy.allowedMimeTypeList 
+              } 
+              : undefined,
+            'x-deprecation': isDeprecated ? deprecationPolicy : undefined,
+            'x-fallback-version': isAlias ? routeMap.version : undefined
+          }
+        )
+      );
+    }
+  );
+
+  return openApiDocument;
+};
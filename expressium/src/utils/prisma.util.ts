@@ -0,0 +1,31 @@
+import { PrismaClient } from '@prisma/client';
+import { registerShutdownHook } from './lifecycle.util';
+
+/**
+ * ## prismaClient
+ * 
+ * Prisma client shared by the services, stores and health checks of the application.
+ */
+let prismaClient: PrismaClient | undefined;
+
+/**
+ * ## getPrismaClient
+ * 
+ * Returns the Prisma client shared by the application.
+ * 
+ * @description The client is created on the first call, along with the 'prisma' shutdown hook disconnecting it.
+ * Sharing it keeps a single connection pool per process, and lets the readiness check probe the very client
+ * serving the requests.
+ * 
+ * @returns The shared Prisma client.
+ */
+export const getPrismaClient = (): PrismaClient => {
+  if (!prismaClient) {
+    const client = new PrismaClient();
+
+    prismaClient = client;
+    registerShutdownHook({ name: 'prisma', run: (): Promise<void> => client.$disconnect() });
+  }
+
+  return prismaClient;
+};
@@ -0,0 +1,70 @@
+import { getConfiguration } from './configuration.util';
+import { IRateLimitPolicy } from './interfaces';
+import { getPrismaClient } from './prisma.util';
+import { DatabaseRateLimitStore, MemoryRateLimitStore } from './stores';
+import { IRateLimitStore } from './stores/interfaces';
+
+/**
+ * ## rateLimitStore
+ * 
+ * Rate limit store shared by the global and route rate limiters.
+ * 
+ * @description Defaults to the DatabaseRateLimitStore when the RATE_LIMIT_STORE environment variable
+ * is 'database', and to an in-memory store otherwise. Replace it with {@link setRateLimitStore}
+ * before the routes are generated to count requests elsewhere (e.g., in a shared cache).
+ */
+let rateLimitStore: IRateLimitStore.IRateLimitStore = getConfiguration().rateLimit.store === 'database'
+  ? new DatabaseRateLimitStore.DatabaseRateLimitStore(getPrismaClient())
+  : new MemoryRateLimitStore.MemoryRateLimitStore();
+
+/**
+ * ## setRateLimitStore
+ * 
+ * Replaces the rate limit store used by the application.
+ * 
+ * @description Any implementation of IRateLimitStore can be provided, allowing request counts to be
+ * shared by every instance of the API. Rate limiters created before the call keep their store.
+ * 
+ * @param store - The rate limit store to use from now on.
+ */
+export const setRateLimitStore = (store: IRateLimitStore.IRateLimitStore): void => {
+  rateLimitStore = store;
+};
+
+/**
+ * ## getRateLimitStore
+ * 
+ * Returns the rate limit store currently in use.
+ * 
+ * @returns The active rate limit store.
+ */
+export const getRateLimitStore = (): IRateLimitStore.IRateLimitStore => {
+  return rateLimitStore;
+};
+
+/**
+ * ## getDefaultRateLimitPolicy
+ * 
+ * Returns the rate limit policy of the application configuration.
+ * 
+ * @description The policy is used as it is by the global rate limiter and fills in the properties
+ * that route policies leave out:
+ * 
+ * - RATE_LIMIT_WINDOW_MS: Duration of each window in milliseconds (defaults to 15 minutes)
+ * - RATE_LIMIT_MAX_REQUESTS: Requests allowed per client within a window (defaults to 100)
+ * - RATE_LIMIT_KEY_BY: 'ip' or 'user' (defaults to 'ip')
+ * - RATE_LIMIT_EXEMPT_ROLES: Comma-separated roles never limited (defaults to none)
+ * 
+ * @returns The default rate limit policy, using the application rate limit store.
+ */
+export const getDefaultRateLimitPolicy = (): Required<IRateLimitPolicy.IRateLimitPolicy> => {
+  const { windowMs, maxRequests, keyBy, exemptRoleList } = getConfiguration().rateLimit;
+
+  return {
+    windowMs,
+    limit: maxRequests,
+    keyBy,
+    exemptRoleList: [...exemptRoleList],
+    store: rateLimitStore
+  };
+};
@@ -0,0 +1,66 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { IRequestContext } from './interfaces';
+
+/**
+ * ## requestContextStorage
+ * 
+ * Asynchronous local storage holding the context of the request being handled.
+ * 
+ * @description Every callback, promise and timer created while handling a request inherits its context,
+ * so concurrent requests never see each other's data.
+ */
+const requestContextStorage = new AsyncLocalStorage<IRequestContext.IRequestContext>();
+
+/**
+ * ## runWithRequestContext
+ * 
+ * Runs a function within a request context.
+ * 
+ * @description The context is available through {@link getRequestContext} to the function and to every
+ * asynchronous operation it starts. It is established for each inbound request by the request context
+ * middleware, but can also be used to correlate background jobs.
+ * 
+ * @param requestContext - The context to make available.
+ * @param callback - The function to run.
+ * 
+ * @returns The value returned by the function.
+ */
+export const runWithRequestContext = <T>(requestContext: IRequestContext.IRequestContext, callback: () => T): T => {
+  return requestContextStorage.run(requestContext, callback);
+};
+
+/**
+ * ## getRequestContext
+ * 
+ * Returns the context of the request being handled.
+ * 
+ * @returns The request context, or undefined when called outside of a request.
+ */
+export const getRequestContext = (): IRequestContext.IRequestContext | undefined => {
+  return requestContextStorage.getStore();
+};
+
+/**
+ * ## getRequestId
+ * 
+ * Returns the correlation ID of the request being handled.
+ * 
+ * @returns The request ID, or undefined when called outside of a request.
+ */
+export const getRequestId = (): string | undefined => {
+  return requestContextStorage.getStore()?.requestId;
+};
+
+/**
+ * ## getRequestSignal
+ * 
+ * Returns the abort signal of the request being handled.
+ * 
+ * @description The signal fires when the route times out or the client disconnects, so that pending work
+ * started on behalf of the request can be cancelled. HttpClient requests are bound to it automatically.
+ * 
+ * @returns The abort signal, or undefined when called outside of a service.
+ */
+export const getRequestSignal = (): AbortSignal | undefined => {
+  return requestContextStorage.getStore()?.signal;
+};
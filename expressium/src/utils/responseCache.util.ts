@@ -0,0 +1,304 @@
+import crypto from 'crypto';
+import { Request } from 'express';
+import { IDecodedToken } from '../interfaces';
+import { getConfiguration } from './configuration.util';
+import { IResponseCachePolicy } from './interfaces';
+import { getLogger } from './logging.util';
+import { MemoryResponseCacheStore } from './stores';
+import { IResponseCacheEntry, IResponseCacheStore } from './stores/interfaces';
+
+const ROUTE_KEY_REGEX = /^([A-Za-z]+) (\/\S+)$/;
+
+/**
+ * ## responseCacheStore
+ * 
+ * Response cache store shared by the cached routes.
+ * 
+ * @description Defaults to an in-memory LRU store holding up to RESPONSE_CACHE_MAX_ENTRIES responses.
+ * Replace it with {@link setResponseCacheStore} before the server starts to keep responses elsewhere
+ * (e.g., in a shared cache).
+ */
+let responseCacheStore: IResponseCacheStore.IResponseCacheStore = new MemoryResponseCacheStore.MemoryResponseCacheStore(getConfiguration().responseCache.maxEntries);
+
+/**
+ * ## invalidationMap
+ * 
+ * Cached routes to bust, by the '<METHOD> <route template>' of the mutations declared in their policies.
+ */
+const invalidationMap = new Map<string, { namespace: string; responseCachePolicy: IResponseCachePolicy.IResponseCachePolicy }[]>();
+
+/**
+ * ## revalidationKeySet
+ * 
+ * Keys whose stale entry is being refreshed in the background, so that concurrent requests refresh it only once.
+ */
+const revalidationKeySet = new Set<string>();
+
+/**
+ * ## namespaceGenerationMap
+ * 
+ * Number of times each cached route has been busted, so that responses loaded before a bust are not stored after it.
+ */
+const namespaceGenerationMap = new Map<string, number>();
+
+/**
+ * ## setResponseCacheStore
+ * 
+ * Replaces the response cache store used by the application.
+ * 
+ * @description Any implementation of IResponseCacheStore can be provided, allowing cached responses to be
+ * shared by every instance of the API. Routes whose policy provides its own store keep it.
+ * 
+ * @param store - The response cache store to use from now on.
+ */
+export const setResponseCacheStore = (store: IResponseCacheStore.IResponseCacheStore): void => {
+  responseCacheStore = store;
+};
+
+/**
+ * ## getResponseCacheStore
+ * 
+ * Returns the response cache store currently in use.
+ * 
+ * @returns The active response cache store.
+ */
+export const getResponseCacheStore = (): IResponseCacheStore.IResponseCacheStore => {
+  return responseCacheStore;
+};
+
+/**
+ * ## getRouteKey
+ * 
+ * Identifies a route by its method and template (e.g., 'POST /v1/bulletins').
+ * 
+ * @param method - HTTP method of the route.
+ * @param routePath - Route template of the route.
+ * 
+ * @returns The route key.
+ */
+const getRouteKey = (method: string, routePath: string): string => {
+  return `${ method.toUpperCase() } ${ routePath }`;
+};
+
+/**
+ * ## registerResponseCache
+ * 
+ * Records the mutations busting the entries of a cached route.
+ * 
+ * @description Called by generateRoute for every route with a response cache policy. The mutations may be
+ * generated before or after the cached route.
+ * 
+ * @param routePath - Route template of the cached route (e.g., '/v1/bulletins/:id').
+ * @param responseCachePolicy - The response cache policy of the route.
+ * 
+ * @throws If the TTL is not a positive number, or a mutation is not written as '<METHOD> <route template>'.
+ */
+export const registerResponseCache = (routePath: string, responseCachePolicy: IResponseCachePolicy.IResponseCachePolicy): void => {
+  const { ttlSeconds, staleWhileRevalidateSeconds = 0, invalidatedByList = [] } = responseCachePolicy;
+
+  if (!(ttlSeconds > 0) || !(staleWhileRevalidateSeconds >= 0)) {
+    throw new Error('Response cache TTL must be positive and stale-while-revalidate window must not be negative.');
+  }
+
+  const routeKeyList = invalidatedByList.map(
+    (invalidatedBy: string): string => {
+      const match = ROUTE_KEY_REGEX.exec(invalidatedBy.trim());
+
+      if (!match) {
+        throw new Error(`Response cache mutations must be written as '<METHOD> <route template>' (received "${ invalidatedBy }").`);
+      }
+
+      return getRouteKey(match[1], match[2]);
+    }
+  );
+
+  routeKeyList.forEach(
+    (routeKey: string): void => {
+      invalidationMap.set(routeKey, [...(invalidationMap.get(routeKey) ?? []), { namespace: routePath, responseCachePolicy }]);
+    }
+  );
+};
+
+/**
+ * ## getNamespaceGeneration
+ * 
+ * Returns how many times a cached route has been busted.
+ * 
+ * @param namespace - Route template of the cached route.
+ * 
+ * @returns The generation of the route.
+ */
+const getNamespaceGeneration = (namespace: string): number => {
+  return namespaceGenerationMap.get(namespace) ?? 0;
+};
+
+/**
+ * ## invalidateResponseCache
+ * 
+ * Busts the cached routes declaring a mutation in their policy.
+ * 
+ * @description Called by the controller once a request to a route other than GET succeeds, before its
+ * response is sent, so that clients reading right after their own mutation never receive stale data.
+ * The generation of every busted route is incremented first, so that the responses this instance is loading
+ * or refreshing at that moment are discarded instead of being stored afterwards.
+ * 
+ * @async
+ * 
+ * @param method - HTTP method of the successful request.
+ * @param routePath - Route template of the route that handled it.
+ * 
+ * @returns Promise that resolves once every busted route has been discarded.
+ */
+export const invalidateResponseCache = async (method: string, routePath: string): Promise<void> => {
+  await Promise.all(
+    (invalidationMap.get(getRouteKey(method, routePath)) ?? []).map(
+      ({ namespace, responseCachePolicy }: { namespace: string; responseCachePolicy: IResponseCachePolicy.IResponseCachePolicy }): Promise<void> => {
+        namespaceGenerationMap.set(namespace, getNamespaceGeneration(namespace) + 1);
+
+        return (responseCachePolicy.store ?? responseCacheStore).deleteNamespace(namespace);
+      }
+    )
+  );
+};
+
+/**
+ * ## getResponseCacheKey
+ * 
+ * Derives the cache key of a request.
+ * 
+ * @description The key is namespaced by the route template and ends with a digest of the request path,
+ * the query parameters (in any order) and, unless the policy is shared, the username and roles of the
+ * authorized user.
+ * 
+ * @param req - Express Request object.
+ * @param routePath - Route template of the cached route.
+ * @param responseCachePolicy - The response cache policy of the route.
+ * 
+ * @returns The namespaced cache key (e.g., '/v1/bulletins/:id:<digest>').
+ */
+export const getResponseCacheKey = (
+  req: Request,
+  routePath: string,
+  responseCachePolicy: IResponseCachePolicy.IResponseCachePolicy
+): string => {
+  const user = (req as any).user as IDecodedToken.IDecodedToken | undefined;
+
+  const keySource = JSON.stringify(
+    [
+      `${ req.baseUrl }${ req.path }`,
+      Object.entries(req.query).sort(([firstName]: [string, unknown], [secondName]: [string, unknown]): number => firstName.localeCompare(secondName)),
+      responseCachePolicy.isShared ? null : user?.username ?? null,
+      responseCachePolicy.isShared ? null : [...(user?.roleList ?? [])].sort()
+    ]
+  );
+
+  return `${ routePath }:${ crypto.createHash('sha256').update(keySource).digest('base64url') }`;
+};
+
+/**
+ * ## getKeyNamespace
+ * 
+ * Extracts the route template a cache key is namespaced by.
+ * 
+ * @description The digest ending the key is base64url encoded and never contains a colon, unlike route templates.
+ * 
+ * @param key - The namespaced cache key (see {@link getResponseCacheKey}).
+ * 
+ * @returns The route template of the key.
+ */
+const getKeyNamespace = (key: string): string => {
+  return key.slice(0, key.lastIndexOf(':'));
+};
+
+/**
+ * ## storeResponse
+ * 
+ * Stores a successful response with its freshness dates.
+ * 
+ * @async
+ * 
+ * @param store - The store of the route.
+ * @param key - The namespaced cache key.
+ * @param responseCachePolicy - The response cache policy of the route.
+ * @param response - The status and envelope of the response.
+ * @param generation - Generation of the route when the response started loading (see {@link getNamespaceGeneration}).
+ * 
+ * @returns Promise that resolves once the response is stored, or right away when it is not successful or the
+ * route has been busted since it started loading.
+ */
+const storeResponse = async (
+  store: IResponseCacheStore.IResponseCacheStore,
+  key: string,
+  responseCachePolicy: IResponseCachePolicy.IResponseCachePolicy,
+  response: Pick<IResponseCacheEntry.IResponseCacheEntry, 'status' | 'envelope'>,
+  generation: number
+): Promise<void> => {
+  if (response.status < 200 || response.status >= 300 || getNamespaceGeneration(getKeyNamespace(key)) !== generation) {
+    return;
+  }
+
+  const freshUntil = Date.now() + responseCachePolicy.ttlSeconds * 1000;
+
+  await store.set(
+    key,
+    {
+      ...response,
+      freshUntil: new Date(freshUntil),
+      staleUntil: new Date(freshUntil + (responseCachePolicy.staleWhileRevalidateSeconds ?? 0) * 1000)
+    }
+  );
+};
+
+/**
+ * ## getCachedResponse
+ * 
+ * Answers a request from the cache, running the service only when needed.
+ * 
+ * @description The outcome depends on the entry stored for the key:
+ * 
+ * - Fresh entry: Served as it is (hit)
+ * - Stale entry within the stale-while-revalidate window: Served as it is (hit), while revalidateResponse runs
+ * in the background to refresh it; failures of the refresh are logged and the stale entry is kept
+ * - No entry: The service runs and its response is served (miss) and stored when successful
+ * 
+ * Responses are not stored when the route is busted while they load (see {@link invalidateResponseCache}).
+ * 
+ * @async
+ * 
+ * @param key - The namespaced cache key of the request (see {@link getResponseCacheKey}).
+ * @param responseCachePolicy - The response cache policy of the route.
+ * @param loadResponse - Runs the service for the request, resolving with the status and envelope of its response.
+ * @param revalidateResponse - Runs the service detached from the request, whose response is already sent by then,
+ * with its own abort signal and timeout.
+ * 
+ * @returns Promise resolving with the response to send and whether it came from the cache.
+ */
+export const getCachedResponse = async (
+  key: string,
+  responseCachePolicy: IResponseCachePolicy.IResponseCachePolicy,
+  loadResponse: () => Promise<Pick<IResponseCacheEntry.IResponseCacheEntry, 'status' | 'envelope'>>,
+  revalidateResponse: () => Promise<Pick<IResponseCacheEntry.IResponseCacheEntry, 'status' | 'envelope'>>
+): Promise<Pick<IResponseCacheEntry.IResponseCacheEntry, 'status' | 'envelope'> & { isHit: boolean }> => {
+  const store = responseCachePolicy.store ?? responseCacheStore;
+  const generation = getNamespaceGeneration(getKeyNamespace(key));
+  const entry = await store.get(key);
+
+  if (entry) {
+    if (entry.freshUntil.getTime() <= Date.now() && !revalidationKeySet.has(key)) {
+      revalidationKeySet.add(key);
+
+      revalidateResponse()
+        .then((response: Pick<IResponseCacheEntry.IResponseCacheEntry, 'status' | 'envelope'>): Promise<void> => storeResponse(store, key, responseCachePolicy, response, generation))
+        .catch((error: unknown): void => getLogger().child({ component: 'ResponseCache' }).warn('Response revalidation failed.', { key, error }))
+        .finally((): boolean => revalidationKeySet.delete(key));
+    }
+
+    return { status: entry.status, envelope: entry.envelope, isHit: true };
+  }
+
+  const response = await loadResponse();
+
+  await storeResponse(store, key, responseCachePolicy, response, generation);
+
+  return { ...response, isHit: false };
+};
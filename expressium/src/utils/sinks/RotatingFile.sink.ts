@@ -0,0 +1,220 @@
+import fs from 'fs';
+import path from 'path';
+import { ILogEntry } from '../interfaces';
+import { ILogSink } from './interfaces';
+
+/**
+ * ## RotatingFileSink
+ * 
+ * Log sink that appends entries to a file, rotating it once it reaches a maximum size.
+ * 
+ * @description The RotatingFileSink class writes the entries through a buffered write stream, so that
+ * logging never blocks the event loop on disk I/O. Call {@link RotatingFileSink.flush} (as the shutdown hooks
+ * of the logger do) before the process exits, so that the buffered entries are persisted.
+ * 
+ * When writing a line would make the file exceed the maximum size, the file is rotated asynchronously:
+ * 
+ * 1. The current stream is ended once its buffered entries are written
+ * 2. The oldest rotated file (`<file>.<maxFiles>`) is discarded
+ * 3. Every rotated file is shifted by one (`<file>.1` becomes `<file>.2`, and so on)
+ * 4. The current file becomes `<file>.1`
+ * 5. A new, empty file is opened, starting with the entries logged during the rotation
+ * 
+ * A file must be written by a single sink: see loggingUtil.getFileSink, which shares one sink per path.
+ * The directory of the file is created when it does not exist.
+ * 
+ * @method write - Appends a single log entry to the file.
+ * @method flush - Flushes the file contents to the storage device.
+ */
+export class RotatingFileSink implements ILogSink.ILogSink {
+  /**
+   * ## writeStream
+   * 
+   * Buffered stream of the file currently being written.
+   * 
+   * @private
+   */
+  private writeStream: fs.WriteStream;
+
+  /**
+   * ## fileSize
+   * 
+   * Size in bytes of the file currently being written.
+   * 
+   * @private
+   */
+  private fileSize: number;
+
+  /**
+   * ## rotationPromise
+   * 
+   * Rotation in progress, if any.
+   * 
+   * @private
+   */
+  private rotationPromise: Promise<void> | undefined;
+
+  /**
+   * ## pendingBufferList
+   * 
+   * Lines logged during the rotation, written to the new file once it is opened.
+   * 
+   * @private
+   */
+  private pendingBufferList: Buffer[] = [];
+
+  /**
+   * ## constructor
+   * 
+   * Opens the log file in append mode.
+   * 
+   * @param filePath - Path of the log file.
+   * @param maxFileSize - Maximum size of a log file in bytes before it is rotated (defaults to 10 MB).
+   * @param maxFiles - Number of rotated files kept besides the current one (defaults to 5).
+   * 
+   * @throws If the directory cannot be created or the file cannot be opened.
+   */
+  constructor(
+    /** @private @readonly */
+    private readonly filePath: string,
+    /** @private @readonly */
+    private readonly maxFileSize: number = 10 * 1024 * 1024,
+    /** @private @readonly */
+    private readonly maxFiles: number = 5
+  ) {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+
+    const fileDescriptor = fs.openSync(this.filePath, 'a');
+
+    this.fileSize = fs.fstatSync(fileDescriptor).size;
+    this.writeStream = this.createWriteStream({ fd: fileDescriptor });
+  }
+
+  /**
+   * ## createWriteStream
+   * 
+   * Creates the stream appending to the log file.
+   * 
+   * @description Write errors are reported on stderr, since a failing log file must not crash the process.
+   * 
+   * @private
+   * 
+   * @param options - The descriptor of the already opened file, if any.
+   * 
+   * @returns The write stream.
+   */
+  private createWriteStream(options: { fd?: number } = {}): fs.WriteStream {
+    return fs
+      .createWriteStream(this.filePath, { flags: 'a', ...options })
+      .on('error', (error: Error): boolean => process.stderr.write(`RotatingFileSink: ${ error.message }\n`));
+  }
+
+  /**
+   * ## rotate
+   * 
+   * Shifts the rotated files and starts a new log file.
+   * 
+   * @description The new file is opened even when shifting the rotated files fails, so that logging goes on.
+   * 
+   * @private
+   * 
+   * @async
+   */
+  private async rotate(): Promise<void> {
+    try {
+      await new Promise<void>((resolve: () => void): void => void this.writeStream.end(resolve));
+      await fs.promises.rm(`${ this.filePath }.${ this.maxFiles }`, { force: true });
+
+      for (let index = this.maxFiles - 1; index >= 1; index--) {
+        await fs.promises
+          .rename(`${ this.filePath }.${ index }`, `${ this.filePath }.${ index + 1 }`)
+          .catch((error: NodeJS.ErrnoException): void => {
+            if (error.code !== 'ENOENT') {
+              throw error;
+            }
+          });
+      }
+
+      if (this.maxFiles > 0) {
+        await fs.promises.rename(this.filePath, `${ this.filePath }.1`);
+      } else {
+        await fs.promises.rm(this.filePath, { force: true });
+      }
+    } catch (error: unknown) {
+      process.stderr.write(`RotatingFileSink: ${ error instanceof Error ? error.message : String(error) }\n`);
+    } finally {
+      const pendingBufferList = this.pendingBufferList;
+
+      this.writeStream = this.createWriteStream();
+      this.fileSize = 0;
+      this.pendingBufferList = [];
+      this.rotationPromise = undefined;
+
+      pendingBufferList.forEach((buffer: Buffer): void => this.writeBuffer(buffer));
+    }
+  }
+
+  /**
+   * ## writeBuffer
+   * 
+   * Appends a line to the file, or queues it while the file is rotated.
+   * 
+   * @private
+   * 
+   * @param buffer - The line, with its trailing line break.
+   */
+  private writeBuffer(buffer: Buffer): void {
+    if (!this.rotationPromise && this.fileSize > 0 && this.fileSize + buffer.length > this.maxFileSize) {
+      this.rotationPromise = this.rotate();
+    }
+
+    if (this.rotationPromise) {
+      this.pendingBufferList.push(buffer);
+
+      return;
+    }
+
+    this.writeStream.write(buffer);
+    this.fileSize += buffer.length;
+  }
+
+  /**
+   * ## write
+   * 
+   * Appends a single log entry to the file, rotating it first when needed.
+   * 
+   * @public
+   * 
+   * @param _entry - The structured log entry.
+   * @param line - The formatted log line.
+   */
+  public write(_entry: ILogEntry.ILogEntry, line: string): void {
+    this.writeBuffer(Buffer.from(`${ line }\n`));
+  }
+
+  /**
+   * ## flush
+   * 
+   * Flushes the file contents to the storage device.
+   * 
+   * @description Waits for the rotations in progress (writing the queued lines may start another one), for
+   * every buffered line to be written, and then for the file to be synchronized.
+   * 
+   * @public
+   * 
+   * @async
+   */
+  public async flush(): Promise<void> {
+    while (this.rotationPromise) {
+      await this.rotationPromise;
+    }
+
+    await new Promise<void>((resolve: () => void): void => void this.writeStream.write('', (): void => resolve()));
+
+    const { fd } = this.writeStream as fs.WriteStream & { fd?: number | null };
+
+    if (typeof fd === 'number') {
+      await new Promise<void>((resolve: () => void): void => fs.fsync(fd, (): void => resolve()));
+    }
+  }
+}
@@ -0,0 +1,28 @@
+import { ILogEntry } from '../interfaces';
+import { ILogSink } from './interfaces';
+
+/**
+ * ## StdoutSink
+ * 
+ * Log sink that writes every entry to the standard output.
+ * 
+ * @description The StdoutSink class is the default log sink. Writing one line per entry to stdout
+ * lets container runtimes and log shippers collect the application logs without extra configuration.
+ * 
+ * @method write - Writes a single log entry to stdout.
+ */
+export class StdoutSink implements ILogSink.ILogSink {
+  /**
+   * ## write
+   * 
+   * Writes a single log entry to stdout.
+   * 
+   * @public
+   * 
+   * @param _entry - The structured log entry.
+   * @param line - The formatted log line.
+   */
+  public write(_entry: ILogEntry.ILogEntry, line: string): void {
+    process.stdout.write(`${ line }\n`);
+  }
+}
@@ -0,0 +1,2 @@
+export * as RotatingFileSink from './RotatingFile.sink';
+export * as StdoutSink from './Stdout.sink';
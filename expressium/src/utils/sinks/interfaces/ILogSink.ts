@@ -0,0 +1,37 @@
+import { ILogEntry } from '../../interfaces';
+
+/**
+ * ## ILogSink
+ * 
+ * Standard interface for log destinations.
+ * 
+ * @description Defines the contract that all log sinks must follow to receive log entries from the logger.
+ * Sinks get both the structured entry and the line already formatted according to the logger's format,
+ * so most implementations only need to write the line somewhere.
+ * 
+ * Writes should be synchronous or buffered internally so that entries logged right before the process
+ * exits are not lost.
+ * 
+ * @method write - Delivers a single log entry.
+ * @method flush - Persists any buffered entries.
+ */
+export interface ILogSink {
+  /**
+   * ## write
+   * 
+   * Delivers a single log entry.
+   * 
+   * @param entry - The structured log entry.
+   * @param line - The entry formatted as a single line, without the trailing line break.
+   */
+  write(entry: ILogEntry.ILogEntry, line: string): void;
+
+  /**
+   * ## flush
+   * 
+   * Persists any buffered entries.
+   * 
+   * @returns Promise that resolves when every entry written so far has been persisted.
+   */
+  flush?(): Promise<void>;
+}
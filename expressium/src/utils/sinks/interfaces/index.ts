@@ -0,0 +1 @@
+export * as ILogSink from './ILogSink';
@@ -0,0 +1,199 @@
+import { PrismaClient } from '@prisma/client';
+import path from 'path';
+import { getPrismaClient } from '../prisma.util';
+import { IIdempotencyRecord, IIdempotencyStore } from './interfaces';
+
+/**
+ * ## DatabaseIdempotencyStore
+ * 
+ * Idempotency store backed by the `idempotency_keys` table.
+ * 
+ * @description The DatabaseIdempotencyStore class persists the records through Prisma, so that retries
+ * are replayed by every instance connected to the same database, including after a restart.
+ * 
+ * Keys are claimed with a single upsert that only takes over rows whose record is no longer live, tagging
+ * them with the lock token of the request; the request holds the key when the row carries its token afterwards,
+ * and only updates or removes the row while it still does.
+ * Records are scoped to the application type, derived from the current working directory in the same
+ * way as the authentication service.
+ * 
+ * @method acquire - Claims a key for a request, unless a live record already holds it.
+ * @method complete - Records the response of the request holding a key.
+ * @method release - Frees a key held by a request that did not complete.
+ */
+export class DatabaseIdempotencyStore implements IIdempotencyStore.IIdempotencyStore {
+  /**
+   * ## applicationType
+   * 
+   * Application type the records belong to.
+   * 
+   * @private
+   * @readonly
+   */
+  private readonly applicationType = path.basename(process.cwd());
+
+  /**
+   * ## constructor
+   * 
+   * Creates a new DatabaseIdempotencyStore instance.
+   * 
+   * @public
+   * 
+   * @constructor
+   * 
+   * @param prisma - Prisma client used to access the `idempotency_keys` table.
+   * Defaults to the client shared by the application (see prismaUtil.getPrismaClient).
+   */
+  public constructor(
+    /**
+     * @private
+     * @readonly
+     */
+    private readonly prisma: PrismaClient = getPrismaClient()
+  ) {}
+
+  /**
+   * ## acquire
+   * 
+   * Claims a key for a request, unless a live record already holds it.
+   * 
+   * @description Expired records of the application are removed on roughly one claim out of a
+   * hundred, keeping the table small without a scheduled job.
+   * 
+   * @public
+   * 
+   * @async
+   * 
+   * @param key - The namespaced idempotency key.
+   * @param lockToken - Random token of the request.
+   * @param fingerprint - Digest of the request.
+   * @param lockedUntil - End of the lock of the request.
+   * @param expiresAt - Until when the record is kept.
+   * 
+   * @returns Promise resolving with null when the key was claimed, or with the live record holding it otherwise.
+   */
+  public async acquire(
+    key: string, 
+    lockToken: string, 
+    fingerprint: string, 
+    lockedUntil: Date, 
+    expiresAt: Date
+  ): Promise<IIdempotencyRecord.IIdempotencyRecord | null> {
+    const now = new Date();
+
+    await this.prisma.$executeRaw`
+      INSERT INTO idempotency_keys (application_type, idempotency_key, lock_token, fingerprint, locked_until, expires_at)
+      VALUES (${ this.applicationType }, ${ key }, ${ lockToken }, ${ fingerprint }, ${ lockedUntil }, ${ expiresAt })
+      ON DUPLICATE KEY UPDATE
+        lock_token = IF(expires_at <= ${ now } OR (status_code IS NULL AND locked_until <= ${ now }), ${ lockToken }, lock_token),
+        fingerprint = IF(lock_token = ${ lockToken }, ${ fingerprint }, fingerprint),
+        status_code = IF(lock_token = ${ lockToken }, NULL, status_code),
+        envelope = IF(lock_token = ${ lockToken }, NULL, envelope),
+        locked_until = IF(lock_token = ${ lockToken }, ${ lockedUntil }, locked_until),
+        expires_at = IF(lock_token = ${ lockToken }, ${ expiresAt }, expires_at)
+    `;
+
+    const idempotencyKey = await this.prisma.idempotency_keys.findUnique(
+      {
+        where: {
+          application_type_idempotency_key: {
+            application_type: this.applicationType,
+            idempotency_key: key
+          }
+        },
+        select: {
+          lock_token: true,
+          fingerprint: true,
+          status_code: true,
+          envelope: true,
+          locked_until: true,
+          expires_at: true
+        }
+      }
+    );
+
+    if (Math.random() < 0.01) {
+      await this.prisma.idempotency_keys.deleteMany(
+        {
+          where: {
+            application_type: this.applicationType,
+            expires_at: { lt: now }
+          }
+        }
+      );
+    }
+
+    return !idempotencyKey || idempotencyKey.lock_token === lockToken 
+      ? null 
+      : {
+          fingerprint: idempotencyKey.fingerprint,
+          lockToken: idempotencyKey.lock_token,
+          status: idempotencyKey.status_code,
+          envelope: idempotencyKey.envelope === null ? null : JSON.parse(idempotencyKey.envelope),
+          lockedUntil: idempotencyKey.locked_until,
+          expiresAt: idempotencyKey.expires_at
+        };
+  }
+
+  /**
+   * ## complete
+   * 
+   * Records the response of the request holding a key.
+   * 
+   * @public
+   * 
+   * @async
+   * 
+   * @param key - The namespaced idempotency key.
+   * @param lockToken - Lock token the key was claimed with.
+   * @param response - The status and envelope of the response.
+   * @param expiresAt - Until when the response is replayed.
+   */
+  public async complete(
+    key: string, 
+    lockToken: string, 
+    response: Pick<IIdempotencyRecord.IIdempotencyRecord, 'status' | 'envelope'>, 
+    expiresAt: Date
+  ): Promise<void> {
+    await this.prisma.idempotency_keys.updateMany(
+      {
+        where: {
+          application_type: this.applicationType,
+          idempotency_key: key,
+          lock_token: lockToken,
+          status_code: null
+        },
+        data: {
+          status_code: response.status,
+          envelope: response.envelope === null ? null : JSON.stringify(response.envelope),
+          expires_at: expiresAt
+        }
+      }
+    );
+  }
+
+  /**
+   * ## release
+   * 
+   * Frees a key held by a request that did not complete.
+   * 
+   * @public
+   * 
+   * @async
+   * 
+   * @param key - The namespaced idempotency key.
+   * @param lockToken - Lock token the key was claimed with.
+   */
+  public async release(key: string, lockToken: string): Promise<void> {
+    await this.prisma.idempotency_keys.deleteMany(
+      {
+        where: {
+          application_type: this.applicationType,
+          idempotency_key: key,
+          lock_token: lockToken,
+          status_code: null
+        }
+      }
+    );
+  }
+}
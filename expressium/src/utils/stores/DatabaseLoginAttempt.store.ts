@@ -0,0 +1,191 @@
+import { PrismaClient } from '@prisma/client';
+import crypto from 'crypto';
+import path from 'path';
+import { getPrismaClient } from '../prisma.util';
+import { ILoginAttempt, ILoginAttemptStore } from './interfaces';
+
+/**
+ * ## DatabaseLoginAttemptStore
+ * 
+ * Login attempt store backed by the `login_attempts` table.
+ * 
+ * @description The DatabaseLoginAttemptStore class persists failed attempts and lockouts through Prisma,
+ * so they survive restarts and are enforced by every instance connected to the same database.
+ * 
+ * Each failure is counted with a single upsert that either increments the count or restarts it when the
+ * previous failure is older than the failure window, which keeps the count consistent under concurrent
+ * attempts. Records are scoped to the application type, derived from the current working directory
+ * in the same way as the authentication service.
+ * 
+ * @method get - Returns the attempts recorded for a key.
+ * @method registerFailure - Counts a failed attempt.
+ * @method lock - Locks a key until the given moment.
+ * @method reset - Forgets the attempts and lockout of a key.
+ */
+export class DatabaseLoginAttemptStore implements ILoginAttemptStore.ILoginAttemptStore {
+  /**
+   * ## applicationType
+   * 
+   * Application type the attempts belong to.
+   * 
+   * @private
+   * @readonly
+   */
+  private readonly applicationType = path.basename(process.cwd());
+
+  /**
+   * ## constructor
+   * 
+   * Creates a new DatabaseLoginAttemptStore instance.
+   * 
+   * @public
+   * 
+   * @constructor
+   * 
+   * @param prisma - Prisma client used to access the `login_attempts` table.
+   * Defaults to the client shared by the application (see prismaUtil.getPrismaClient).
+   */
+  public constructor(
+    /**
+     * @private
+     * @readonly
+     */
+    private readonly prisma: PrismaClient = getPrismaClient()
+  ) {}
+
+  /**
+   * ## getStorageKey
+   * 
+   * Derives the value stored in the `attempt_key` column from a key.
+   * 
+   * @description Keys are hashed, since usernames and IP addresses scoped by their kind may be longer than the column allows.
+   * 
+   * @private
+   * 
+   * @param key - The username or IP address key.
+   * 
+   * @returns The SHA-256 digest of the key, base64url encoded.
+   */
+  private getStorageKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('base64url');
+  }
+
+  /**
+   * ## get
+   * 
+   * Returns the attempts recorded for a key.
+   * 
+   * @public
+   * 
+   * @async
+   * 
+   * @param key - The username or IP address key.
+   * 
+   * @returns Promise resolving with the recorded attempts, or null when none were recorded.
+   */
+  public async get(key: string): Promise<ILoginAttempt.ILoginAttempt | null> {
+    const loginAttempt = await this.prisma.login_attempts.findUnique(
+      {
+        where: {
+          application_type_attempt_key: {
+            application_type: this.applicationType,
+            attempt_key: this.getStorageKey(key)
+          }
+        },
+        select: {
+          failure_count: true,
+          last_failure_at: true,
+          locked_until: true
+        }
+      }
+    );
+
+    return loginAttempt 
+      ? { failureCount: loginAttempt.failure_count, lastFailureAt: loginAttempt.last_failure_at, lockedUntil: loginAttempt.locked_until } 
+      : null;
+  }
+
+  /**
+   * ## registerFailure
+   * 
+   * Counts a failed attempt.
+   * 
+   * @public
+   * 
+   * @async
+   * 
+   * @param key - The username or IP address key.
+   * @param windowMs - Failure window in milliseconds.
+   * 
+   * @returns Promise resolving with the updated attempts.
+   */
+  public async registerFailure(key: string, windowMs: number): Promise<ILoginAttempt.ILoginAttempt> {
+    const now = new Date();
+    const windowStart = new Date(now.getTime() - windowMs);
+
+    await this.prisma.$executeRaw`
+      INSERT INTO login_attempts (application_type, attempt_key, failure_count, last_failure_at)
+      VALUES (${ this.applicationType }, ${ this.getStorageKey(key) }, 1, ${ now })
+      ON DUPLICATE KEY UPDATE
+        failure_count = IF(last_failure_at <= ${ windowStart }, 1, failure_count + 1),
+        last_failure_at = ${ now }
+    `;
+
+    return (await this.get(key)) ?? { failureCount: 1, lastFailureAt: now, lockedUntil: null };
+  }
+
+  /**
+   * ## lock
+   * 
+   * Locks a key until the given moment.
+   * 
+   * @public
+   * 
+   * @async
+   * 
+   * @param key - The username or IP address key.
+   * @param lockedUntil - End of the lockout.
+   */
+  public async lock(key: string, lockedUntil: Date): Promise<void> {
+    await this.prisma.login_attempts.upsert(
+      {
+        where: {
+          application_type_attempt_key: {
+            application_type: this.applicationType,
+            attempt_key: this.getStorageKey(key)
+          }
+        },
+        create: {
+          application_type: this.applicationType,
+          attempt_key: this.getStorageKey(key),
+          failure_count: 0,
+          last_failure_at: new Date(),
+          locked_until: lockedUntil
+        },
+        update: { locked_until: lockedUntil }
+      }
+    );
+  }
+
+  /**
+   * ## reset
+   * 
+   * Forgets the attempts and lockout of a key.
+   * 
+   * @public
+   * 
+   * @async
+   * 
+   * @param key - The username or IP address key.
+   */
+  public async reset(key: string): Promise<void> {
+    await this.prisma.login_attempts.deleteMany(
+      {
+        where: {
+          application_type: this.applicationType,
+          attempt_key: this.getStorageKey(key)
+        }
+      }
+    );
+  }
+}
@@ -0,0 +1,180 @@
+import { PrismaClient } from '@prisma/client';
+import crypto from 'crypto';
+import path from 'path';
+import { getPrismaClient } from '../prisma.util';
+import { IRateLimitStore } from './interfaces';
+
+/**
+ * ## DatabaseRateLimitStore
+ * 
+ * Rate limit store backed by the `rate_limit_windows` table.
+ * 
+ * @description The DatabaseRateLimitStore class keeps request counts in the database, so that every
+ * instance connected to the same database enforces the same limits and counts survive restarts.
+ * 
+ * Each request is counted with a single upsert that either increments the current window or starts a
+ * new one when it has ended, which keeps the count consistent under concurrent requests from several
+ * instances. Windows are scoped to the application type, derived from the current working directory
+ * in the same way as the authentication service.
+ * 
+ * Since every guarded request costs two queries, prefer it for limits that must hold across instances
+ * (e.g., expensive or sensitive routes) and keep the in-memory store for the rest.
+ * 
+ * @method increment - Counts a request and returns the state of the window.
+ * @method decrement - Uncounts a request.
+ * @method resetKey - Discards the window of a key.
+ */
+export class DatabaseRateLimitStore implements IRateLimitStore.IRateLimitStore {
+  /**
+   * ## applicationType
+   * 
+   * Application type the windows belong to.
+   * 
+   * @private
+   * @readonly
+   */
+  private readonly applicationType = path.basename(process.cwd());
+
+  /**
+   * ## constructor
+   * 
+   * Creates a new DatabaseRateLimitStore instance.
+   * 
+   * @public
+   * 
+   * @constructor
+   * 
+   * @param prisma - Prisma client used to access the `rate_limit_windows` table.
+   * Defaults to the client shared by the application (see prismaUtil.getPrismaClient).
+   */
+  public constructor(
+    /**
+     * @private
+     * @readonly
+     */
+    private readonly prisma: PrismaClient = getPrismaClient()
+  ) {}
+
+  /**
+   * ## getStorageKey
+   * 
+   * Derives the value stored in the `rate_limit_key` column from a key.
+   * 
+   * @description Keys are hashed, since namespaced keys embedding route templates and usernames may be longer than the column allows.
+   * 
+   * @private
+   * 
+   * @param key - The namespaced client key.
+   * 
+   * @returns The SHA-256 digest of the key, base64url encoded.
+   */
+  private getStorageKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('base64url');
+  }
+
+  /**
+   * ## increment
+   * 
+   * Counts a request and returns the state of the window.
+   * 
+   * @description Expired windows of the application are removed on roughly one request out of a
+   * hundred, keeping the table small without a scheduled job.
+   * 
+   * @public
+   * 
+   * @async
+   * 
+   * @param key - The namespaced client key.
+   * @param windowMs - Duration of the window in milliseconds.
+   * 
+   * @returns Promise resolving with the number of requests counted in the window and when it ends.
+   */
+  public async increment(key: string, windowMs: number): Promise<{ totalHits: number; resetTime: Date }> {
+    const now = new Date();
+    const resetTime = new Date(now.getTime() + windowMs);
+
+    await this.prisma.$executeRaw`
+      INSERT INTO rate_limit_windows (application_type, rate_limit_key, total_hits, reset_at)
+      VALUES (${ this.applicationType }, ${ this.getStorageKey(key) }, 1, ${ resetTime })
+      ON DUPLICATE KEY UPDATE
+        total_hits = IF(reset_at <= ${ now }, 1, total_hits + 1),
+        reset_at = IF(reset_at <= ${ now }, ${ resetTime }, reset_at)
+    `;
+
+    const window = await this.prisma.rate_limit_windows.findUnique(
+      {
+        where: {
+          application_type_rate_limit_key: {
+            application_type: this.applicationType,
+            rate_limit_key: this.getStorageKey(key)
+          }
+        },
+        select: {
+          total_hits: true,
+          reset_at: true
+        }
+      }
+    );
+
+    if (Math.random() < 0.01) {
+      await this.prisma.rate_limit_windows.deleteMany(
+        {
+          where: {
+            application_type: this.applicationType,
+            reset_at: { lt: now }
+          }
+        }
+      );
+    }
+
+    return window 
+      ? { totalHits: window.total_hits, resetTime: window.reset_at } 
+      : { totalHits: 1, resetTime };
+  }
+
+  /**
+   * ## decrement
+   * 
+   * Uncounts a request.
+   * 
+   * @public
+   * 
+   * @async
+   * 
+   * @param key - The namespaced client key.
+   */
+  public async decrement(key: string): Promise<void> {
+    await this.prisma.rate_limit_windows.updateMany(
+      {
+        where: {
+          application_type: this.applicationType,
+          rate_limit_key: this.getStorageKey(key),
+          total_hits: { gt: 0 }
+        },
+        data: { total_hits: { decrement: 1 } }
+      }
+    );
+  }
+
+  /**
+   * ## resetKey
+   * 
+   * Discards the window of a key.
+   * 
+   * @public
+   * 
+   * @async
+   * 
+   * @param key - The namespaced client key.
+   */
+  public async resetKey(key: string): Promise<void> {
+    await this.prisma.rate_limit_windows.deleteMany(
+      {
+        where: {
+          application_type: this.applicationType,
+          rate_limit_key: this.getStorageKey(key)
+        }
+      }
+    );
+  }
+}
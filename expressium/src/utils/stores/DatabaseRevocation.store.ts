@@ -0,0 +1,185 @@
+import { PrismaClient } from '@prisma/client';
+import path from 'path';
+import { IDecodedToken } from '../../interfaces';
+import { getConfiguration, getTimeSpanMs } from '../configuration.util';
+import { getPrismaClient } from '../prisma.util';
+import { IRevocationStore } from './interfaces';
+
+/**
+ * ## DatabaseRevocationStore
+ * 
+ * Revocation store backed by the `token_revocations` table.
+ * 
+ * @description The DatabaseRevocationStore class persists revocations through Prisma, so they
+ * survive restarts and are shared by every instance connected to the same database.
+ * 
+ * Each row either revokes a single token (`jti` set) or every token issued to a user up to
+ * the row's creation time (`jti` NULL). The `users_deactivation` trigger inserts such a user-wide
+ * row whenever `is_user_active` is switched to false, so deactivations performed directly in the
+ * database also invalidate outstanding tokens.
+ * 
+ * Revocations are scoped to the application type, derived from the current working directory
+ * in the same way as the authentication service. Rows are deleted once no unexpired token can
+ * match them: single token rows at their `expires_at`, user-wide rows one token lifetime
+ * (JWT_EXPIRES_IN) after their creation.
+ * 
+ * @method revokeToken - Revokes a single token until its expiration.
+ * @method revokeUser - Revokes every token issued to a user so far.
+ * @method isRevoked - Checks whether a decoded token has been revoked.
+ */
+export class DatabaseRevocationStore implements IRevocationStore.IRevocationStore {
+  /**
+   * ## applicationType
+   * 
+   * Application type the revocations belong to.
+   * 
+   * @private
+   * @readonly
+   */
+  private readonly applicationType = path.basename(process.cwd());
+
+  /**
+   * ## constructor
+   * 
+   * Creates a new DatabaseRevocationStore instance.
+   * 
+   * @public
+   * 
+   * @constructor
+   * 
+   * @param prisma - Prisma client used to access the `token_revocations` table.
+   * Defaults to the client shared by the application (see prismaUtil.getPrismaClient).
+   */
+  public constructor(
+    /**
+     * @private
+     * @readonly
+     */
+    private readonly prisma: PrismaClient = getPrismaClient()
+  ) {}
+
+  /**
+   * ## prune
+   * 
+   * Deletes the revocations that no unexpired token can match anymore.
+   * 
+   * @private
+   * 
+   * @async
+   */
+  private async prune(): Promise<void> {
+    const now = Date.now();
+
+    await this.prisma.token_revocations.deleteMany(
+      {
+        where: {
+          OR: [
+            {
+              jti: { not: null },
+              expires_at: { lt: new Date(now) }
+            },
+            {
+              jti: null,
+              created_at: { lt: new Date(now - getTimeSpanMs(getConfiguration().jwt.expiresIn)) }
+            }
+          ]
+        }
+      }
+    );
+  }
+
+  /**
+   * ## revokeToken
+   * 
+   * Revokes a single token until its expiration.
+   * 
+   * @description Inserts the token identifier and prunes the rows that have become useless.
+   * 
+   * @public
+   * 
+   * @async
+   * 
+   * @param jti - The token's unique identifier (`jti` claim).
+   * @param expiresAt - Token expiration timestamp in milliseconds.
+   */
+  public async revokeToken(jti: string, expiresAt: number): Promise<void> {
+    await this.prune();
+
+    await this.prisma.token_revocations.create(
+      {
+        data: {
+          application_type: this.applicationType,
+          username: null,
+          jti,
+          expires_at: new Date(expiresAt)
+        }
+      }
+    );
+  }
+
+  /**
+   * ## revokeUser
+   * 
+   * Revokes every token issued to a user so far.
+   * 
+   * @description Inserts a user-wide row and prunes the rows that have become useless.
+   * 
+   * @public
+   * 
+   * @async
+   * 
+   * @param username - The username whose tokens should be revoked.
+   */
+  public async revokeUser(username: string): Promise<void> {
+    await this.prune();
+    await this.prisma.token_revocations.create(
+      {
+        data: {
+          application_type: this.applicationType,
+          username,
+          jti: null,
+          expires_at: null
+        }
+      }
+    );
+  }
+
+  /**
+   * ## isRevoked
+   * 
+   * Checks whether a decoded token has been revoked.
+   * 
+   * @description A single query matches either the token's `jti` or a user-wide revocation created
+   * at or after the token's issue time (`issuedAt` claim, compared in milliseconds with the DATETIME(3)
+   * `created_at` column). Tokens without that claim fall back to the `iat` claim, which only has a
+   * precision of one second.
+   * 
+   * @public
+   * 
+   * @async
+   * 
+   * @param decodedToken - The verified and decoded JWT payload.
+   * 
+   * @returns Promise resolving to true when the token must be rejected.
+   */
+  public async isRevoked(decodedToken: IDecodedToken.IDecodedToken): Promise<boolean> {
+    const tokenRevocation = await this.prisma.token_revocations.findFirst(
+      {
+        where: {
+          application_type: this.applicationType,
+          OR: [
+            ...(decodedToken.jti ? [{ jti: decodedToken.jti }] : []),
+            {
+              username: decodedToken.username,
+              jti: null,
+              created_at: { gte: new Date(decodedToken.issuedAt ?? (decodedToken.iat ?? 0) * 1000) }
+            }
+          ]
+        },
+        select: { id: true }
+      }
+    );
+
+    return !!tokenRevocation;
+  }
+}
@@ -0,0 +1,137 @@
+import { IIdempotencyRecord, IIdempotencyStore } from './interfaces';
+
+/**
+ * ## MemoryIdempotencyStore
+ * 
+ * Idempotency store that keeps the records in the process memory.
+ * 
+ * @description The MemoryIdempotencyStore class is the default idempotency store. It requires no
+ * infrastructure, but its records are lost on restart and are not shared between instances, so a retry
+ * reaching another instance runs the service again. Use the DatabaseIdempotencyStore when several
+ * instances serve the idempotent routes.
+ * 
+ * Expired records are pruned whenever a key is claimed.
+ * 
+ * @method acquire - Claims a key for a request, unless a live record already holds it.
+ * @method complete - Records the response of the request holding a key.
+ * @method release - Frees a key held by a request that did not complete.
+ */
+export class MemoryIdempotencyStore implements IIdempotencyStore.IIdempotencyStore {
+  /**
+   * ## idempotencyRecordMap
+   * 
+   * Keys mapped to their records.
+   * 
+   * @private
+   * @readonly
+   */
+  private readonly idempotencyRecordMap = new Map<string, IIdempotencyRecord.IIdempotencyRecord>();
+
+  /**
+   * ## isLive
+   * 
+   * Returns whether a record still holds its key.
+   * 
+   * @private
+   * 
+   * @param idempotencyRecord - The record to check.
+   * @param now - Current time in milliseconds.
+   * 
+   * @returns Whether the record has not expired and, while in flight, is still locked.
+   */
+  private isLive(idempotencyRecord: IIdempotencyRecord.IIdempotencyRecord, now: number): boolean {
+    return idempotencyRecord.expiresAt.getTime() > now && (idempotencyRecord.status !== null || idempotencyRecord.lockedUntil.getTime() > now);
+  }
+
+  /**
+   * ## acquire
+   * 
+   * Claims a key for a request, unless a live record already holds it.
+   * 
+   * @public
+   * 
+   * @async
+   * 
+   * @param key - The namespaced idempotency key.
+   * @param lockToken - Random token of the request.
+   * @param fingerprint - Digest of the request.
+   * @param lockedUntil - End of the lock of the request.
+   * @param expiresAt - Until when the record is kept.
+   * 
+   * @returns Promise resolving with null when the key was claimed, or with the live record holding it otherwise.
+   */
+  public async acquire(
+    key: string, 
+    lockToken: string, 
+    fingerprint: string, 
+    lockedUntil: Date, 
+    expiresAt: Date
+  ): Promise<IIdempotencyRecord.IIdempotencyRecord | null> {
+    const now = Date.now();
+
+    this.idempotencyRecordMap.forEach(
+      (idempotencyRecord: IIdempotencyRecord.IIdempotencyRecord, idempotencyKey: string): void => {
+        if (!this.isLive(idempotencyRecord, now)) {
+          this.idempotencyRecordMap.delete(idempotencyKey);
+        }
+      }
+    );
+
+    const idempotencyRecord = this.idempotencyRecordMap.get(key);
+
+    if (idempotencyRecord) {
+      return { ...idempotencyRecord };
+    }
+
+    this.idempotencyRecordMap.set(key, { fingerprint, lockToken, status: null, envelope: null, lockedUntil, expiresAt });
+
+    return null;
+  }
+
+  /**
+   * ## complete
+   * 
+   * Records the response of the request holding a key.
+   * 
+   * @public
+   * 
+   * @async
+   * 
+   * @param key - The namespaced idempotency key.
+   * @param lockToken - Lock token the key was claimed with.
+   * @param response - The status and envelope of the response.
+   * @param expiresAt - Until when the response is replayed.
+   */
+  public async complete(
+    key: string, 
+    lockToken: string, 
+    response: Pick<IIdempotencyRecord.IIdempotencyRecord, 'status' | 'envelope'>, 
+    expiresAt: Date
+  ): Promise<void> {
+    const idempotencyRecord = this.idempotencyRecordMap.get(key);
+
+    if (idempotencyRecord?.lockToken === lockToken && idempotencyRecord.status === null) {
+      this.idempotencyRecordMap.set(key, { ...idempotencyRecord, ...response, expiresAt });
+    }
+  }
+
+  /**
+   * ## release
+   * 
+   * Frees a key held by a request that did not complete.
+   * 
+   * @public
+   * 
+   * @async
+   * 
+   * @param key - The namespaced idempotency key.
+   * @param lockToken - Lock token the key was claimed with.
+   */
+  public async release(key: string, lockToken: string): Promise<void> {
+    const idempotencyRecord = this.idempotencyRecordMap.get(key);
+
+    if (idempotencyRecord?.lockToken === lockToken && idempotencyRecord.status === null) {
+      this.idempotencyRecordMap.delete(key);
+    }
+  }
+}
@@ -0,0 +1,223 @@
+import path from 'path';
+import { ILoginAttempt, ILoginAttemptStore } from './interfaces';
+
+const PRUNE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * ## MemoryLoginAttemptStore
+ * 
+ * Login attempt store that keeps failed attempts in the process memory.
+ * 
+ * @description The MemoryLoginAttemptStore class is the default login attempt store. It requires no
+ * infrastructure, but its state is lost on restart and is not shared between instances, so an attacker
+ * spreading attempts over several instances gets proportionally more tries. Use the
+ * DatabaseLoginAttemptStore when several instances must share their counts and lockouts.
+ * 
+ * Keys are scoped to the application type, derived from the current working directory in the same way as the
+ * DatabaseLoginAttemptStore. Records whose failures and lockout are both over are discarded when read, and
+ * pruned at most once a minute, when failures are counted, so that keys never read again do not accumulate.
+ * 
+ * @method get - Returns the attempts recorded for a key.
+ * @method registerFailure - Counts a failed attempt.
+ * @method lock - Locks a key until the given moment.
+ * @method reset - Forgets the attempts and lockout of a key.
+ */
+export class MemoryLoginAttemptStore implements ILoginAttemptStore.ILoginAttemptStore {
+  /**
+   * ## applicationType
+   * 
+   * Application type the attempts belong to.
+   * 
+   * @private
+   * @readonly
+   */
+  private readonly applicationType = path.basename(process.cwd());
+
+  /**
+   * ## loginAttemptMap
+   * 
+   * Keys mapped to their recorded attempts and to the moment they are over (end of the failure window
+   * or of the lockout, whichever comes last).
+   * 
+   * @private
+   * @readonly
+   */
+  private readonly loginAttemptMap = new Map<string, { loginAttempt: ILoginAttempt.ILoginAttempt; expiresAt: number }>();
+
+  /**
+   * ## lastPrunedAt
+   * 
+   * Timestamp of the latest pruning of the records that are over, in milliseconds.
+   * 
+   * @private
+   */
+  private lastPrunedAt = Date.now();
+
+  /**
+   * ## getStoreKey
+   * 
+   * Scopes a key to the application type.
+   * 
+   * @private
+   * 
+   * @param key - The username or IP address key.
+   * 
+   * @returns The scoped key.
+   */
+  private getStoreKey(key: string): string {
+    return `${ this.applicationType }:${ key }`;
+  }
+
+  /**
+   * ## prune
+   * 
+   * Discards the records whose failures and lockout are both over, at most once a minute.
+   * 
+   * @private
+   * 
+   * @param now - Current time in milliseconds.
+   */
+  private prune(now: number): void {
+    if (now - this.lastPrunedAt < PRUNE_INTERVAL_MS) {
+      return;
+    }
+
+    this.loginAttemptMap.forEach(
+      ({ expiresAt }: { expiresAt: number }, storeKey: string): void => {
+        if (expiresAt <= now) {
+          this.loginAttemptMap.delete(storeKey);
+        }
+      }
+    );
+
+    this.lastPrunedAt = now;
+  }
+
+  /**
+   * ## set
+   * 
+   * Records the attempts of a key, along with the moment they are over.
+   * 
+   * @private
+   * 
+   * @param storeKey - The scoped key.
+   * @param loginAttempt - The attempts to record.
+   * @param windowMs - Failure window in milliseconds.
+   */
+  private set(storeKey: string, loginAttempt: ILoginAttempt.ILoginAttempt, windowMs: number): void {
+    this.loginAttemptMap.set(
+      storeKey, 
+      { 
+        loginAttempt, 
+        expiresAt: Math.max(loginAttempt.lastFailureAt.getTime() + windowMs, loginAttempt.lockedUntil?.getTime() ?? 0) 
+      }
+    );
+  }
+
+  /**
+   * ## get
+   * 
+   * Returns the attempts recorded for a key.
+   * 
+   * @public
+   * 
+   * @async
+   * 
+   * @param key - The username or IP address key.
+   * 
+   * @returns Promise resolving with the recorded attempts, or null when none were recorded.
+   */
+  public async get(key: string): Promise<ILoginAttempt.ILoginAttempt | null> {
+    const storeKey = this.getStoreKey(key);
+    const loginAttemptEntry = this.loginAttemptMap.get(storeKey);
+
+    if (!loginAttemptEntry) {
+      return null;
+    }
+
+    if (loginAttemptEntry.expiresAt <= Date.now()) {
+      this.loginAttemptMap.delete(storeKey);
+
+      return null;
+    }
+
+    return { ...loginAttemptEntry.loginAttempt };
+  }
+
+  /**
+   * ## registerFailure
+   * 
+   * Counts a failed attempt.
+   * 
+   * @public
+   * 
+   * @async
+   * 
+   * @param key - The username or IP address key.
+   * @param windowMs - Failure window in milliseconds.
+   * 
+   * @returns Promise resolving with the updated attempts.
+   */
+  public async registerFailure(key: string, windowMs: number): Promise<ILoginAttempt.ILoginAttempt> {
+    const now = Date.now();
+
+    this.prune(now);
+
+    const storeKey = this.getStoreKey(key);
+    const loginAttempt = this.loginAttemptMap.get(storeKey)?.loginAttempt;
+
+    const updatedLoginAttempt = {
+      failureCount: loginAttempt && loginAttempt.lastFailureAt.getTime() + windowMs > now ? loginAttempt.failureCount + 1 : 1,
+      lastFailureAt: new Date(now),
+      lockedUntil: loginAttempt?.lockedUntil ?? null
+    };
+
+    this.set(storeKey, updatedLoginAttempt, windowMs);
+
+    return { ...updatedLoginAttempt };
+  }
+
+  /**
+   * ## lock
+   * 
+   * Locks a key until the given moment.
+   * 
+   * @public
+   * 
+   * @async
+   * 
+   * @param key - The username or IP address key.
+   * @param lockedUntil - End of the lockout.
+   */
+  public async lock(key: string, lockedUntil: Date): Promise<void> {
+    const storeKey = this.getStoreKey(key);
+    const loginAttemptEntry = this.loginAttemptMap.get(storeKey);
+
+    this.loginAttemptMap.set(
+      storeKey, 
+      { 
+        loginAttempt: { 
+          failureCount: loginAttemptEntry?.loginAttempt.failureCount ?? 0, 
+          lastFailureAt: loginAttemptEntry?.loginAttempt.lastFailureAt ?? new Date(), 
+          lockedUntil 
+        },
+        expiresAt: Math.max(loginAttemptEntry?.expiresAt ?? 0, lockedUntil.getTime())
+      }
+    );
+  }
+
+  /**
+   * ## reset
+   * 
+   * Forgets the attempts and lockout of a key.
+   * 
+   * @public
+   * 
+   * @async
+   * 
+   * @param key - The username or IP address key.
+   */
+  public async reset(key: string): Promise<void> {
+    this.loginAttemptMap.delete(this.getStoreKey(key));
+  }
+}
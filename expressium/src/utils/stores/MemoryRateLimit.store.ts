@@ -0,0 +1,119 @@
+import { IRateLimitStore } from './interfaces';
+
+const PRUNE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * ## MemoryRateLimitStore
+ * 
+ * Rate limit store that keeps request counts in the process memory.
+ * 
+ * @description The MemoryRateLimitStore class is the default rate limit store. It requires no
+ * infrastructure, but its counts are lost on restart and are not shared between instances, so each
+ * instance behind a load balancer enforces its own limits. Use the DatabaseRateLimitStore when
+ * several instances must share their counts.
+ * 
+ * Windows that have ended are pruned at most once a minute, when requests are counted, keeping
+ * memory usage bounded by the number of clients seen within one window.
+ * 
+ * @method increment - Counts a request and returns the state of the window.
+ * @method decrement - Uncounts a request.
+ * @method resetKey - Discards the window of a key.
+ */
+export class MemoryRateLimitStore implements IRateLimitStore.IRateLimitStore {
+  /**
+   * ## windowMap
+   * 
+   * Keys mapped to the request count and end of their current window.
+   * 
+   * @private
+   * @readonly
+   */
+  private readonly windowMap = new Map<string, { totalHits: number; resetTime: Date }>();
+
+  /**
+   * ## lastPrunedAt
+   * 
+   * Timestamp of the latest pruning of ended windows, in milliseconds.
+   * 
+   * @private
+   */
+  private lastPrunedAt = Date.now();
+
+  /**
+   * ## increment
+   * 
+   * Counts a request and returns the state of the window.
+   * 
+   * @public
+   * 
+   * @async
+   * 
+   * @param key - The namespaced client key.
+   * @param windowMs - Duration of the window in milliseconds.
+   * 
+   * @returns Promise resolving with the number of requests counted in the window and when it ends.
+   */
+  public async increment(key: string, windowMs: number): Promise<{ totalHits: number; resetTime: Date }> {
+    const now = Date.now();
+
+    if (now - this.lastPrunedAt >= PRUNE_INTERVAL_MS) {
+      this.windowMap.forEach(
+        (window: { totalHits: number; resetTime: Date }, windowKey: string): void => {
+          if (window.resetTime.getTime() <= now) {
+            this.windowMap.delete(windowKey);
+          }
+        }
+      );
+
+      this.lastPrunedAt = now;
+    }
+
+    const window = this.windowMap.get(key);
+
+    if (!window || window.resetTime.getTime() <= now) {
+      const newWindow = { totalHits: 1, resetTime: new Date(now + windowMs) };
+
+      this.windowMap.set(key, newWindow);
+
+      return { ...newWindow };
+    }
+
+    window.totalHits += 1;
+
+    return { ...window };
+  }
+
+  /**
+   * ## decrement
+   * 
+   * Uncounts a request.
+   * 
+   * @public
+   * 
+   * @async
+   * 
+   * @param key - The namespaced client key.
+   */
+  public async decrement(key: string): Promise<void> {
+    const window = this.windowMap.get(key);
+
+    if (window && window.totalHits > 0) {
+      window.totalHits -= 1;
+    }
+  }
+
+  /**
+   * ## resetKey
+   * 
+   * Discards the window of a key.
+   * 
+   * @public
+   * 
+   * @async
+   * 
+   * @param key - The namespaced client key.
+   */
+  public async resetKey(key: string): Promise<void> {
+    this.windowMap.delete(key);
+  }
+}
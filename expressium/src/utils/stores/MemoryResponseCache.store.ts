@@ -0,0 +1,122 @@
+import { IResponseCacheEntry, IResponseCacheStore } from './interfaces';
+
+/**
+ * ## MemoryResponseCacheStore
+ * 
+ * Response cache store that keeps responses in the process memory, evicting the least recently used ones.
+ * 
+ * @description The MemoryResponseCacheStore class is the default response cache store. It requires no
+ * infrastructure, but its entries are lost on restart and are not shared between instances (or cluster workers),
+ * so each instance runs the service once per key before caching it, and a mutation only busts the entries of the
+ * instance that handled it. Provide a shared store (e.g., backed by Redis) through responseCacheUtil.setResponseCacheStore
+ * when several instances must see the same entries.
+ * 
+ * Once the store holds its maximum number of entries, storing a new one evicts the entry read or written the longest ago.
+ * 
+ * @method get - Returns the entry of a key.
+ * @method set - Stores the entry of a key.
+ * @method deleteNamespace - Discards every entry of a route.
+ */
+export class MemoryResponseCacheStore implements IResponseCacheStore.IResponseCacheStore {
+  /**
+   * ## entryMap
+   * 
+   * Keys mapped to their entries, from the least to the most recently used.
+   * 
+   * @private
+   * @readonly
+   */
+  private readonly entryMap = new Map<string, IResponseCacheEntry.IResponseCacheEntry>();
+
+  /**
+   * ## constructor
+   * 
+   * Creates a new MemoryResponseCacheStore instance.
+   * 
+   * @public
+   * 
+   * @constructor
+   * 
+   * @param maxEntries - Number of entries kept before the least recently used ones are evicted.
+   */
+  public constructor(
+    /**
+     * @private
+     * @readonly
+     */
+    private readonly maxEntries: number
+  ) {}
+
+  /**
+   * ## get
+   * 
+   * Returns the entry of a key, marking it as the most recently used.
+   * 
+   * @public
+   * 
+   * @async
+   * 
+   * @param key - The namespaced cache key.
+   * 
+   * @returns Promise resolving with the entry, or null when none is stored or it is past its staleUntil date.
+   */
+  public async get(key: string): Promise<IResponseCacheEntry.IResponseCacheEntry | null> {
+    const entry = this.entryMap.get(key);
+
+    this.entryMap.delete(key);
+
+    if (!entry || entry.staleUntil.getTime() <= Date.now()) {
+      return null;
+    }
+
+    this.entryMap.set(key, entry);
+
+    return { ...entry };
+  }
+
+  /**
+   * ## set
+   * 
+   * Stores the entry of a key, evicting the least recently used entries beyond the maximum.
+   * 
+   * @public
+   * 
+   * @async
+   * 
+   * @param key - The namespaced cache key.
+   * @param entry - The response to keep, with its freshness dates.
+   */
+  public async set(key: string, entry: IResponseCacheEntry.IResponseCacheEntry): Promise<void> {
+    this.entryMap.delete(key);
+    this.entryMap.set(key, { ...entry });
+
+    for (const leastRecentlyUsedKey of this.entryMap.keys()) {
+      if (this.entryMap.size <= this.maxEntries) {
+        break;
+      }
+
+      this.entryMap.delete(leastRecentlyUsedKey);
+    }
+  }
+
+  /**
+   * ## deleteNamespace
+   * 
+   * Discards every entry of a route.
+   * 
+   * @public
+   * 
+   * @async
+   * 
+   * @param namespace - The route template the keys start with.
+   */
+  public async deleteNamespace(namespace: string): Promise<void> {
+    this.entryMap.forEach(
+      (_entry: IResponseCacheEntry.IResponseCacheEntry, key: string): void => {
+        if (key.startsWith(`${ namespace }:`)) {
+          this.entryMap.delete(key);
+        }
+      }
+    );
+  }
+}
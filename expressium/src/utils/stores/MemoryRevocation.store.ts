@@ -0,0 +1,141 @@
+import { IDecodedToken } from '../../interfaces';
+import { getConfiguration, getTimeSpanMs } from '../configuration.util';
+import { IRevocationStore } from './interfaces';
+
+/**
+ * ## MemoryRevocationStore
+ * 
+ * Revocation store that keeps revoked tokens in the process memory.
+ * 
+ * @description The MemoryRevocationStore class is the default revocation store. It requires no
+ * infrastructure and answers lookups synchronously, but its state is lost on restart and is not
+ * shared between instances, so it is best suited for single instance deployments and development.
+ * 
+ * Expired entries are pruned whenever a new revocation is stored, keeping memory usage bounded
+ * by the number of revocations made within one token lifetime: a user revocation is dropped once
+ * every token issued before it has expired (JWT_EXPIRES_IN).
+ * 
+ * Since this store cannot observe the database, deactivating a user only invalidates their
+ * tokens when {@link MemoryRevocationStore.revokeUser} is called. Use the DatabaseRevocationStore
+ * to have deactivations made directly in the `users` table honored as well.
+ * 
+ * @method revokeToken - Revokes a single token until its expiration.
+ * @method revokeUser - Revokes every token issued to a user so far.
+ * @method isRevoked - Checks whether a decoded token has been revoked.
+ */
+export class MemoryRevocationStore implements IRevocationStore.IRevocationStore {
+  /**
+   * ## revokedTokenMap
+   * 
+   * Revoked token identifiers mapped to their expiration timestamps.
+   * 
+   * @private
+   * @readonly
+   */
+  private readonly revokedTokenMap = new Map<string, number>();
+
+  /**
+   * ## revokedUserMap
+   * 
+   * Usernames mapped to the timestamp of their latest revocation.
+   * 
+   * @private
+   * @readonly
+   */
+  private readonly revokedUserMap = new Map<string, number>();
+
+  /**
+   * ## prune
+   * 
+   * Discards the revocations that no unexpired token can match anymore.
+   * 
+   * @private
+   * 
+   * @param now - Current time in milliseconds.
+   */
+  private prune(now: number): void {
+    const tokenLifetimeMs = getTimeSpanMs(getConfiguration().jwt.expiresIn);
+
+    this.revokedTokenMap.forEach(
+      (revokedTokenExpiresAt: number, revokedTokenJti: string): void => {
+        if (revokedTokenExpiresAt < now) {
+          this.revokedTokenMap.delete(revokedTokenJti);
+        }
+      }
+    );
+
+    this.revokedUserMap.forEach(
+      (userRevokedAt: number, username: string): void => {
+        if (userRevokedAt + tokenLifetimeMs < now) {
+          this.revokedUserMap.delete(username);
+        }
+      }
+    );
+  }
+
+  /**
+   * ## revokeToken
+   * 
+   * Revokes a single token until its expiration.
+   * 
+   * @description Stores the token identifier and prunes the revocations that have become useless.
+   * 
+   * @public
+   * 
+   * @async
+   * 
+   * @param jti - The token's unique identifier (`jti` claim).
+   * @param expiresAt - Token expiration timestamp in milliseconds.
+   */
+  public async revokeToken(jti: string, expiresAt: number): Promise<void> {
+    this.prune(Date.now());
+    this.revokedTokenMap.set(jti, expiresAt);
+  }
+
+  /**
+   * ## revokeUser
+   * 
+   * Revokes every token issued to a user so far.
+   * 
+   * @description Stores the revocation time and prunes the revocations that have become useless.
+   * 
+   * @public
+   * 
+   * @async
+   * 
+   * @param username - The username whose tokens should be revoked.
+   */
+  public async revokeUser(username: string): Promise<void> {
+    const now = Date.now();
+
+    this.prune(now);
+    this.revokedUserMap.set(username, now);
+  }
+
+  /**
+   * ## isRevoked
+   * 
+   * Checks whether a decoded token has been revoked.
+   * 
+   * @description A token is revoked when its `jti` is in the denylist, or when it was issued
+   * (`issuedAt` claim, in milliseconds) no later than the latest revocation of its user. Tokens
+   * without that claim fall back to the `iat` claim, which only has a precision of one second.
+   * 
+   * @public
+   * 
+   * @async
+   * 
+   * @param decodedToken - The verified and decoded JWT payload.
+   * 
+   * @returns Promise resolving to true when the token must be rejected.
+   */
+  public async isRevoked(decodedToken: IDecodedToken.IDecodedToken): Promise<boolean> {
+    if (decodedToken.jti && this.revokedTokenMap.has(decodedToken.jti)) {
+      return true;
+    }
+
+    const userRevokedAt = this.revokedUserMap.get(decodedToken.username);
+
+    return userRevokedAt !== undefined && (decodedToken.issuedAt ?? (decodedToken.iat ?? 0) * 1000) <= userRevokedAt;
+  }
+}
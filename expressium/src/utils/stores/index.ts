@@ -0,0 +1,9 @@
+export * as DatabaseIdempotencyStore from './DatabaseIdempotency.store';
+export * as DatabaseLoginAttemptStore from './DatabaseLoginAttempt.store';
+export * as DatabaseRateLimitStore from './DatabaseRateLimit.store';
+export * as DatabaseRevocationStore from './DatabaseRevocation.store';
+export * as MemoryIdempotencyStore from './MemoryIdempotency.store';
+export * as MemoryLoginAttemptStore from './MemoryLoginAttempt.store';
+export * as MemoryRateLimitStore from './MemoryRateLimit.store';
+export * as MemoryResponseCacheStore from './MemoryResponseCache.store';
+export * as MemoryRevocationStore from './MemoryRevocation.store';
@@ -0,0 +1,24 @@
+/**
+ * ## IIdempotencyRecord
+ * 
+ * Request recorded under an idempotency key.
+ * 
+ * @description The record includes:
+ * 
+ * - fingerprint: Digest of the method, path, query, body and uploaded files of the first request sent with the key
+ * - lockToken: Random token of the request holding the key, which it presents to complete or release the key,
+ * so that a request whose lock ended and was taken over never settles the record of the new holder
+ * - status: HTTP status code of its response, or null while the first request is in flight
+ * - envelope: The JSON envelope of its response, or null while the first request is in flight
+ * - lockedUntil: Until when the in-flight request holds the key; past this moment the request is
+ * deemed lost (e.g., the instance crashed) and a retry may take the key over
+ * - expiresAt: Until when the record is kept; stores may discard it afterwards
+ */
+export interface IIdempotencyRecord {
+  fingerprint: string;
+  lockToken: string;
+  status: number | null;
+  envelope: Record<string, unknown> | null;
+  lockedUntil: Date;
+  expiresAt: Date;
+}
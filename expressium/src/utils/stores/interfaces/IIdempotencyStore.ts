@@ -0,0 +1,66 @@
+import { IIdempotencyRecord } from './IIdempotencyRecord';
+
+/**
+ * ## IIdempotencyStore
+ * 
+ * Standard interface for idempotency key stores.
+ * 
+ * @description Defines the contract that all idempotency stores must follow to keep the responses of the
+ * requests sent with an Idempotency-Key header. The idempotency middleware claims the key of every such
+ * request through {@link IIdempotencyStore.acquire}, which must be atomic so that concurrent requests
+ * with the same key never run the service twice. The request claiming a key presents its lock token to
+ * {@link IIdempotencyStore.complete} and {@link IIdempotencyStore.release}, which must leave the record
+ * untouched when another request took the key over in the meantime.
+ * 
+ * Keys are namespaced by the route and the user that sent them (see idempotencyUtil.getIdempotencyKey).
+ * 
+ * @method acquire - Claims a key for a request, unless a live record already holds it.
+ * @method complete - Records the response of the request holding a key.
+ * @method release - Frees a key held by a request that did not complete.
+ */
+export interface IIdempotencyStore {
+  /**
+   * ## acquire
+   * 
+   * Claims a key for a request, unless a live record already holds it.
+   * 
+   * @description A record is live until it expires or, while its request is in flight, until its lock ends.
+   * When no live record exists, an in-flight record is created with the given lock token, fingerprint and dates.
+   * 
+   * @param key - The namespaced idempotency key.
+   * @param lockToken - Random token of the request.
+   * @param fingerprint - Digest of the request.
+   * @param lockedUntil - End of the lock of the request.
+   * @param expiresAt - Until when the record is kept.
+   * 
+   * @returns Promise resolving with null when the key was claimed, or with the live record holding it otherwise.
+   */
+  acquire(key: string, lockToken: string, fingerprint: string, lockedUntil: Date, expiresAt: Date): Promise<IIdempotencyRecord | null>;
+
+  /**
+   * ## complete
+   * 
+   * Records the response of the request holding a key.
+   * 
+   * @description Only the in-flight record carrying the lock token is updated.
+   * 
+   * @param key - The namespaced idempotency key.
+   * @param lockToken - Lock token the key was claimed with.
+   * @param response - The status and envelope of the response.
+   * @param expiresAt - Until when the response is replayed.
+   */
+  complete(key: string, lockToken: string, response: Pick<IIdempotencyRecord, 'status' | 'envelope'>, expiresAt: Date): Promise<void>;
+
+  /**
+   * ## release
+   * 
+   * Frees a key held by a request that did not complete.
+   * 
+   * @description Only the in-flight record carrying the lock token is removed: completed records and records
+   * taken over by another request are left untouched, so that a late release never discards them.
+   * 
+   * @param key - The namespaced idempotency key.
+   * @param lockToken - Lock token the key was claimed with.
+   */
+  release(key: string, lockToken: string): Promise<void>;
+}
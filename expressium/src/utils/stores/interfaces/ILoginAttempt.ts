@@ -0,0 +1,16 @@
+/**
+ * ## ILoginAttempt
+ * 
+ * Failed authentication attempts recorded for a username or an IP address.
+ * 
+ * @description The record includes:
+ * 
+ * - failureCount: Failed attempts counted in the current failure window
+ * - lastFailureAt: When the latest failure happened; failures older than the window are forgotten
+ * - lockedUntil: End of the current lockout, or null when the key is not locked
+ */
+export interface ILoginAttempt {
+  failureCount: number;
+  lastFailureAt: Date;
+  lockedUntil: Date | null;
+}
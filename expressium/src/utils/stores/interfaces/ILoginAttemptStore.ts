@@ -0,0 +1,69 @@
+import { ILoginAttempt } from './ILoginAttempt';
+
+/**
+ * ## ILoginAttemptStore
+ * 
+ * Standard interface for failed authentication attempt stores.
+ * 
+ * @description Defines the contract that all login attempt stores must follow to keep track of failed
+ * authentication attempts and lockouts. The authentication service consults the active store on
+ * every attempt, so implementations should answer {@link ILoginAttemptStore.get} as cheaply as possible.
+ * 
+ * Keys identify either a username (e.g., 'user:jdoe') or an IP address (e.g., 'ip:203.0.113.7').
+ * They are recorded whether or not the username exists, so that stored state never reveals which
+ * usernames are registered.
+ * 
+ * @method get - Returns the attempts recorded for a key.
+ * @method registerFailure - Counts a failed attempt.
+ * @method lock - Locks a key until the given moment.
+ * @method reset - Forgets the attempts and lockout of a key.
+ */
+export interface ILoginAttemptStore {
+  /**
+   * ## get
+   * 
+   * Returns the attempts recorded for a key.
+   * 
+   * @param key - The username or IP address key.
+   * 
+   * @returns Promise resolving with the recorded attempts, or null when none were recorded.
+   */
+  get(key: string): Promise<ILoginAttempt | null>;
+
+  /**
+   * ## registerFailure
+   * 
+   * Counts a failed attempt.
+   * 
+   * @description The count restarts from one when the previous failure is older than the failure window.
+   * 
+   * @param key - The username or IP address key.
+   * @param windowMs - Failure window in milliseconds.
+   * 
+   * @returns Promise resolving with the updated attempts.
+   */
+  registerFailure(key: string, windowMs: number): Promise<ILoginAttempt>;
+
+  /**
+   * ## lock
+   * 
+   * Locks a key until the given moment.
+   * 
+   * @param key - The username or IP address key.
+   * @param lockedUntil - End of the lockout.
+   * 
+   * @returns Promise that resolves when the lockout is stored.
+   */
+  lock(key: string, lockedUntil: Date): Promise<void>;
+
+  /**
+   * ## reset
+   * 
+   * Forgets the attempts and lockout of a key (e.g., after a successful authentication or an unlock).
+   * 
+   * @param key - The username or IP address key.
+   * 
+   * @returns Promise that resolves when the key is forgotten.
+   */
+  reset(key: string): Promise<void>;
+}
@@ -0,0 +1,57 @@
+/**
+ * ## IRateLimitStore
+ * 
+ * Standard interface for rate limit stores.
+ * 
+ * @description Defines the contract that all rate limit stores must follow to count the requests made
+ * by each client within a fixed time window. The rate limiters consult the active store on every
+ * request they guard, so implementations should answer {@link IRateLimitStore.increment} as cheaply
+ * as possible.
+ * 
+ * Keys are already namespaced by the limiter (e.g., 'global:' or '/v1/users:'), so a single store
+ * instance can serve every limiter, each with its own window.
+ * 
+ * @method increment - Counts a request and returns the state of the window.
+ * @method decrement - Uncounts a request.
+ * @method resetKey - Discards the window of a key.
+ */
+export interface IRateLimitStore {
+  /**
+   * ## increment
+   * 
+   * Counts a request and returns the state of the window.
+   * 
+   * @description Starts a new window when the key has none or its window has ended.
+   * 
+   * @param key - The namespaced client key (e.g., 'global:203.0.113.7').
+   * @param windowMs - Duration of the window in milliseconds.
+   * 
+   * @returns Promise resolving with the number of requests counted in the window and when it ends.
+   */
+  increment(key: string, windowMs: number): Promise<{ totalHits: number; resetTime: Date }>;
+
+  /**
+   * ## decrement
+   * 
+   * Uncounts a request.
+   * 
+   * @description Used when a limiter is configured to skip some requests once they are answered
+   * (e.g., successful ones).
+   * 
+   * @param key - The namespaced client key.
+   * 
+   * @returns Promise that resolves when the request is uncounted.
+   */
+  decrement(key: string): Promise<void>;
+
+  /**
+   * ## resetKey
+   * 
+   * Discards the window of a key, allowing its client to make requests again.
+   * 
+   * @param key - The namespaced client key.
+   * 
+   * @returns Promise that resolves when the window is discarded.
+   */
+  resetKey(key: string): Promise<void>;
+}
@@ -0,0 +1,19 @@
+/**
+ * ## IResponseCacheEntry
+ * 
+ * Response of a GET route kept by a response cache store.
+ * 
+ * @description The entry includes:
+ * 
+ * - status: HTTP status code of the response
+ * - envelope: The JSON envelope returned by the service
+ * - freshUntil: Until when the entry is served as it is
+ * - staleUntil: Until when the entry may still be served while it is refreshed in the background;
+ * stores may discard the entry afterwards
+ */
+export interface IResponseCacheEntry {
+  status: number;
+  envelope: Record<string, unknown>;
+  freshUntil: Date;
+  staleUntil: Date;
+}
@@ -0,0 +1,53 @@
+import { IResponseCacheEntry } from './IResponseCacheEntry';
+
+/**
+ * ## IResponseCacheStore
+ * 
+ * Standard interface for response cache stores.
+ * 
+ * @description Defines the contract that all response cache stores must follow to keep the responses of
+ * cached GET routes. The controller consults the store on every request to a cached route, so implementations
+ * should answer {@link IResponseCacheStore.get} as cheaply as possible.
+ * 
+ * Keys are namespaced by the route template (e.g., '/v1/bulletins/:id:<digest>'), so that every entry of
+ * a route can be discarded at once when a mutation busts it.
+ * 
+ * @method get - Returns the entry of a key.
+ * @method set - Stores the entry of a key.
+ * @method deleteNamespace - Discards every entry of a route.
+ */
+export interface IResponseCacheStore {
+  /**
+   * ## get
+   * 
+   * Returns the entry of a key.
+   * 
+   * @param key - The namespaced cache key.
+   * 
+   * @returns Promise resolving with the entry, or null when none is stored or it is past its staleUntil date.
+   */
+  get(key: string): Promise<IResponseCacheEntry | null>;
+
+  /**
+   * ## set
+   * 
+   * Stores the entry of a key, replacing any previous one.
+   * 
+   * @param key - The namespaced cache key.
+   * @param entry - The response to keep, with its freshness dates.
+   * 
+   * @returns Promise that resolves when the entry is stored.
+   */
+  set(key: string, entry: IResponseCacheEntry): Promise<void>;
+
+  /**
+   * ## deleteNamespace
+   * 
+   * Discards every entry of a route.
+   * 
+   * @param namespace - The route template the keys start with (e.g., '/v1/bulletins/:id').
+   * 
+   * @returns Promise that resolves when the entries are discarded.
+   */
+  deleteNamespace(namespace: string): Promise<void>;
+}
@@ -0,0 +1,62 @@
+import { IDecodedToken } from '../../../interfaces';
+
+/**
+ * ## IRevocationStore
+ * 
+ * Standard interface for JWT revocation stores.
+ * 
+ * @description Defines the contract that all revocation stores must follow to keep track of
+ * tokens that were invalidated before their natural expiration. The authorization middleware
+ * consults the active store on every request, so implementations should answer
+ * {@link IRevocationStore.isRevoked} as cheaply as possible.
+ * 
+ * Two kinds of revocation are supported:
+ * 
+ * - Single token revocation, keyed by the token's `jti` claim (e.g., logout)
+ * - User revocation, invalidating every token issued to a user up to the moment of revocation (e.g., deactivation)
+ * 
+ * @method revokeToken - Revokes a single token until its expiration.
+ * @method revokeUser - Revokes every token issued to a user so far.
+ * @method isRevoked - Checks whether a decoded token has been revoked.
+ */
+export interface IRevocationStore {
+  /**
+   * ## revokeToken
+   * 
+   * Revokes a single token until its expiration.
+   * 
+   * @description Adds the token identifier to the denylist. Entries only need to be kept until
+   * the token expires, after which signature verification rejects it anyway.
+   * 
+   * @param jti - The token's unique identifier (`jti` claim).
+   * @param expiresAt - Token expiration timestamp in milliseconds.
+   * 
+   * @returns Promise that resolves when the revocation is stored.
+   */
+  revokeToken(jti: string, expiresAt: number): Promise<void>;
+
+  /**
+   * ## revokeUser
+   * 
+   * Revokes every token issued to a user so far.
+   * 
+   * @description Records the moment of revocation for the user. Tokens issued before that moment
+   * are considered revoked, while tokens obtained through a later authentication remain valid.
+   * 
+   * @param username - The username whose tokens should be revoked.
+   * 
+   * @returns Promise that resolves when the revocation is stored.
+   */
+  revokeUser(username: string): Promise<void>;
+
+  /**
+   * ## isRevoked
+   * 
+   * Checks whether a decoded token has been revoked.
+   * 
+   * @param decodedToken - The verified and decoded JWT payload.
+   * 
+   * @returns Promise resolving to true when the token must be rejected.
+   */
+  isRevoked(decodedToken: IDecodedToken.IDecodedToken): Promise<boolean>;
+}
@@ -0,0 +1,8 @@
+export * as IIdempotencyRecord from './IIdempotencyRecord';
+export * as IIdempotencyStore from './IIdempotencyStore';
+export * as ILoginAttempt from './ILoginAttempt';
+export * as ILoginAttemptStore from './ILoginAttemptStore';
+export * as IRateLimitStore from './IRateLimitStore';
+export * as IResponseCacheEntry from './IResponseCacheEntry';
+export * as IResponseCacheStore from './IResponseCacheStore';
+export * as IRevocationStore from './IRevocationStore';
@@ -1,5 +1,6 @@
 import axios from 'axios';
 import { AxiosRequestConfig } from 'axios/index';
+import { loggingUtil } from '..';
 import { IAuthenticationStrategy } from './interfaces';
 
 /**
@@ -160,7 +161,7 @@ export class BasicAndBearerTokenStrategy implements IAuthenticationStrategy.IAut
       
       return token;
     } catch (error: unknown) {
-      console.error('Failed to obtain bearer token:', error instanceof Error ? error.message : String(error));
+      loggingUtil.getLogger().child({ component: 'Strategy' }).error('Failed to obtain bearer token.', { name: 'BasicAndBearerTokenStrategy', error });
       
       throw new Error('Authentication failed: Unable to obtain bearer token');
     }
@@ -0,0 +1,70 @@
+import path from 'path';
+import { getPrismaClient } from './prisma.util';
+import { MemoryRevocationStore } from './stores';
+import { IRevocationStore } from './stores/interfaces';
+
+/**
+ * ## revocationStore
+ * 
+ * Revocation store consulted by the authorization middleware.
+ * 
+ * @description Defaults to an in-memory store. Replace it with {@link setRevocationStore}
+ * before the server starts to persist revocations elsewhere (e.g., the DatabaseRevocationStore).
+ */
+let revocationStore: IRevocationStore.IRevocationStore = new MemoryRevocationStore.MemoryRevocationStore();
+
+/**
+ * ## setRevocationStore
+ * 
+ * Replaces the revocation store used by the application.
+ * 
+ * @description Any implementation of IRevocationStore can be provided, allowing revocations to be
+ * kept in the database or in a shared cache so that every instance of the API rejects the same tokens.
+ * 
+ * @param store - The revocation store to use from now on.
+ */
+export const setRevocationStore = (store: IRevocationStore.IRevocationStore): void => {
+  revocationStore = store;
+};
+
+/**
+ * ## getRevocationStore
+ * 
+ * Returns the revocation store currently in use.
+ * 
+ * @returns The active revocation store.
+ */
+export const getRevocationStore = (): IRevocationStore.IRevocationStore => {
+  return revocationStore;
+};
+
+/**
+ * ## isUserActive
+ * 
+ * Returns whether the owner of a token is still an active user.
+ * 
+ * @description Consulted by the authorization middleware along with the revocation store, so that deactivating
+ * a user (is_user_active = false) invalidates their outstanding tokens whatever store is configured, and not
+ * only through the `users_deactivation` trigger feeding the DatabaseRevocationStore.
+ * 
+ * @async
+ * 
+ * @param username - The username of the token.
+ * 
+ * @returns Promise resolving with false when the user is inactive or no longer exists.
+ */
+export const isUserActive = async (username: string): Promise<boolean> => {
+  const user = await getPrismaClient().users.findUnique(
+    {
+      where: {
+        application_type_username: {
+          application_type: path.basename(process.cwd()),
+          username
+        }
+      },
+      select: { is_user_active: true }
+    }
+  );
+
+  return !!user?.is_user_active;
+};
@@ -0,0 +1,112 @@
+import fs from 'fs';
+import { IUploadedFile } from '../interfaces';
+import { getConfiguration } from './configuration.util';
+import { IUploadPolicy } from './interfaces';
+
+const MIME_TYPE_REGEX = /^[a-z0-9!#$&^_.+-]+\/(\*|[a-z0-9!#$&^_.+-]+)$/;
+
+/**
+ * ## getDefaultUploadPolicy
+ * 
+ * Returns the upload policy of the application configuration.
+ * 
+ * @description The policy fills in the properties that route policies leave out:
+ * 
+ * - UPLOAD_STORAGE: 'memory' or 'disk' (defaults to 'disk')
+ * - UPLOAD_DIRECTORY: Directory receiving the files streamed to disk (defaults to the temporary directory of the operating system)
+ * - UPLOAD_MAX_FILES: Files a request may carry (defaults to 5)
+ * - UPLOAD_MAX_FILE_SIZE: Size of each file in bytes (defaults to 10 MB)
+ * 
+ * Every MIME type is accepted and requests without files run as usual.
+ * 
+ * @returns The default upload policy.
+ */
+export const getDefaultUploadPolicy = (): Required<IUploadPolicy.IUploadPolicy> => {
+  const { storage, directory, maxFileCount, maxFileSizeBytes } = getConfiguration().upload;
+
+  return {
+    storage,
+    directory,
+    maxFileCount,
+    maxFileSizeBytes,
+    allowedMimeTypeList: [],
+    isRequired: false
+  };
+};
+
+/**
+ * ## resolveUploadPolicy
+ * 
+ * Completes the upload policy of a route with the defaults and prepares its directory.
+ * 
+ * @description Called once per route when its upload middleware is created, so that invalid policies fail
+ * the startup. The upload directory is created when the route streams files to disk and it is missing.
+ * 
+ * @param uploadPolicy - The upload policy of the route.
+ * 
+ * @returns The complete upload policy.
+ * 
+ * @throws If a limit is not a positive integer, a MIME type is not written as '<type>/<subtype>' or '<type>/*',
+ * or the upload directory cannot be created.
+ */
+export const resolveUploadPolicy = (uploadPolicy: IUploadPolicy.IUploadPolicy): Required<IUploadPolicy.IUploadPolicy> => {
+  const resolvedUploadPolicy = { ...getDefaultUploadPolicy(), ...uploadPolicy };
+  const { storage, directory, maxFileCount, maxFileSizeBytes, allowedMimeTypeList } = resolvedUploadPolicy;
+
+  if (!Number.isInteger(maxFileCount) || maxFileCount < 1 || !Number.isInteger(maxFileSizeBytes) || maxFileSizeBytes < 1) {
+    throw new Error('Upload file count and size limits must be positive integers.');
+  }
+
+  const invalidMimeType = allowedMimeTypeList.find((mimeType: string): boolean => !MIME_TYPE_REGEX.test(mimeType.toLowerCase()));
+
+  if (invalidMimeType !== undefined) {
+    throw new Error(`Upload MIME types must be written as '<type>/<subtype>' or '<type>/*' (received "${ invalidMimeType }").`);
+  }
+
+  if (storage === 'disk') {
+    fs.mkdirSync(directory, { recursive: true });
+  }
+
+  return { ...resolvedUploadPolicy, allowedMimeTypeList: allowedMimeTypeList.map((mimeType: string): string => mimeType.toLowerCase()) };
+};
+
+/**
+ * ## isMimeTypeAllowed
+ * 
+ * Returns whether an uploaded file matches a MIME allow-list.
+ * 
+ * @param mimeType - MIME type declared for the file (e.g., 'image/png').
+ * @param allowedMimeTypeList - Lowercase MIME types accepted, exact or by type (e.g., 'image/*').
+ * 
+ * @returns Whether the list is empty or one of its entries matches the type.
+ */
+export const isMimeTypeAllowed = (mimeType: string, allowedMimeTypeList: string[]): boolean => {
+  const normalizedMimeType = mimeType.toLowerCase();
+
+  return allowedMimeTypeList.length === 0 || allowedMimeTypeList.some(
+    (allowedMimeType: string): boolean => {
+      return allowedMimeType.endsWith('/*') 
+        ? normalizedMimeType.startsWith(allowedMimeType.slice(0, -1)) 
+        : normalizedMimeType === allowedMimeType;
+    }
+  );
+};
+
+/**
+ * ## removeUploadedFileList
+ * 
+ * Removes the files of a request that were streamed to disk.
+ * 
+ * @async
+ * 
+ * @param fileList - The uploaded files; files kept in memory are skipped.
+ * 
+ * @returns Promise that resolves once every file is removed, files already gone included.
+ */
+export const removeUploadedFileList = async (fileList: IUploadedFile.IUploadedFile[]): Promise<void> => {
+  await Promise.all(
+    fileList
+      .filter((uploadedFile: IUploadedFile.IUploadedFile): boolean => uploadedFile.path !== undefined)
+      .map((uploadedFile: IUploadedFile.IUploadedFile): Promise<void> => fs.promises.rm(uploadedFile.path as string, { force: true }))
+  );
+};
@@ -0,0 +1,49 @@
+import { ParamSchema } from 'express-validator';
+import { IValidationSchema } from '../routes/interfaces';
+import { IValidationField } from './interfaces';
+
+const NON_RULE_KEY_LIST = ['in', 'errorMessage', 'optional'];
+
+/**
+ * ## describeValidationSchema
+ * 
+ * Flattens a route's validation schema into a list of field descriptions.
+ * 
+ * @description This function walks every location of an IValidationSchema and describes each
+ * declared field, listing the validators and sanitizers applied to it. It allows tooling such as
+ * documentation generators to introspect the inputs of a route without depending on
+ * express-validator's schema format.
+ * 
+ * Rules declared with `true` are reported without options, while rules declared with an object
+ * report the value of its `options` property. Custom validators and sanitizers are reported
+ * by name only.
+ * 
+ * @param validationSchema - The validation schema declared in the route configuration.
+ * 
+ * @returns List of field descriptions, ordered by location and declaration order.
+ */
+export const describeValidationSchema = (validationSchema: IValidationSchema.IValidationSchema): IValidationField.IValidationField[] => {
+  return (Object.keys(validationSchema) as IValidationField.IValidationField['location'][]).flatMap(
+    (location: IValidationField.IValidationField['location']): IValidationField.IValidationField[] => {
+      return Object.entries(validationSchema[location] ?? {}).map(
+        ([field, paramSchema]: [string, ParamSchema]): IValidationField.IValidationField => {
+          return {
+            location,
+            field,
+            isOptional: !!paramSchema.optional,
+            ruleList: Object.entries(paramSchema)
+              .filter(([name, rule]: [string, unknown]): boolean => !NON_RULE_KEY_LIST.includes(name) && rule !== false)
+              .map(
+                ([name, rule]: [string, unknown]): { name: string, options?: unknown } => {
+                  return Object.isObject(rule) && 'options' in rule 
+                    ? { name, options: rule.options } 
+                    : { name };
+                }
+              ),
+            message: Object.isString(paramSchema.errorMessage) ? paramSchema.errorMessage : undefined
+          };
+        }
+      );
+    }
+  );
+};
@@ -11,6 +11,7 @@ import
       cryptographyUtil, 
       dateTimeFormatterUtil, 
       HttpClientUtil,
+      loggingUtil,
       IConfigurationMap, 
       ApiKeyStrategy, 
       BasicStrategy, 
@@ -30,11 +31,11 @@ import { appRoute } from './routes';
       appRoute.generateRoutes();
 
       const app = express();
-      const serverInstance = await createServer(app);
+      const serverBindingList = await createServer(app);
       
-      await startServer(serverInstance);
+      await startServer(serverBindingList);
     } catch (error: unknown) {
-      console.log(`Server | Timestamp: ${ dateTimeFormatterUtil.formatAsDayMonthYearHoursMinutesSeconds(new Date()) } | Error: ${ error instanceof Error ? error.message : String(error) }`);
+      loggingUtil.getLogger().child({ component: 'Server' }).error('Server failed to start.', { error });
       process.exit(1);
     }
   }
@@ -8,6 +8,7 @@ export interface IResponseData {
   method: string;
   message: string;
   suggestion: string;
+  requestId?: string;
 }
 
 export interface IAuthenticationResponseData {
@@ -21,5 +22,7 @@ export interface IAuthenticationResponseData {
     roleList: JsonValue;
     token: string;
     expiresIn: number;
+    refreshToken: string;
+    refreshExpiresIn: number;
   };
 }
@@ -1,6 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import path from 'path';
-import { generateRoute, router, dateTimeFormatterUtil } from '../../expressium/src';
+import { generateRoute, router, dateTimeFormatterUtil, loggingUtil } from '../../expressium/src';
 import { appService } from "../services";
 
 export const generateRoutes = (): void => {
@@ -37,7 +37,7 @@ export const generateRoutes = (): void => {
       }
     );
   } catch (error: unknown) {
-    console.log(`Route | Timestamp: ${ dateTimeFormatterUtil.formatAsDayMonthYearHoursMinutesSeconds(new Date()) } | Name: generateRoutes | Error: ${ error instanceof Error ? error.message : String(error) }`);
+    loggingUtil.getLogger().child({ component: 'Route' }).error('Route generation failed.', { name: 'generateRoutes', error });
     process.exit(1);
   }
 };
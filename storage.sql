@@ -18,6 +18,12 @@ DROP TABLE IF EXISTS `segware_configuration`;
 DROP TABLE IF EXISTS `sigma_desktop_database_configuration`;
 DROP TABLE IF EXISTS `three_mod_database_configuration`;
 DROP TABLE IF EXISTS `users`;
+DROP TABLE IF EXISTS `refresh_tokens`;
+DROP TABLE IF EXISTS `token_revocations`;
+DROP TABLE IF EXISTS `rate_limit_windows`;
+DROP TABLE IF EXISTS `login_attempts`;
+DROP TABLE IF EXISTS `authentication_lockouts`;
+DROP TABLE IF EXISTS `idempotency_keys`;
 
 
 SET FOREIGN_KEY_CHECKS = 1;
@@ -323,6 +329,145 @@ CREATE TABLE `users` (
     INDEX `idx_updated_at` (`updated_at`)
 ) DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
 
+CREATE TABLE `refresh_tokens` (
+	`id` INT NOT NULL AUTO_INCREMENT,
+    `user_id` INT NOT NULL,
+    `family_id` VARCHAR(191) NOT NULL,
+    `token_hash` VARCHAR(191) NOT NULL UNIQUE,
+    `replaced_by_token_hash` VARCHAR(191),
+    `expires_at` DATETIME NOT NULL,
+    `is_refresh_token_revoked` BOOLEAN NOT NULL DEFAULT FALSE,
+    `created_at` DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    `updated_at` DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    
+    PRIMARY KEY (`id`),
+    
+    FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE CASCADE,
+    
+	INDEX `idx_user_id` (`user_id`),
+	INDEX `idx_family_id` (`family_id`),
+    INDEX `idx_token_hash` (`token_hash`),
+    INDEX `idx_expires_at` (`expires_at`),
+	INDEX `idx_is_refresh_token_revoked` (`is_refresh_token_revoked`),
+	INDEX `idx_created_at` (`created_at`),
+    INDEX `idx_updated_at` (`updated_at`)
+) DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE `token_revocations` (
+	`id` INT NOT NULL AUTO_INCREMENT,
+    `application_type` VARCHAR(191) NOT NULL,
+    `username` VARCHAR(191),
+    `jti` VARCHAR(191) UNIQUE,
+    `expires_at` DATETIME,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    
+    PRIMARY KEY (`id`),
+    
+    FOREIGN KEY (`application_type`) REFERENCES `application_types`(`application_type`) ON DELETE CASCADE,
+    
+	INDEX `idx_application_type` (`application_type`),
+	INDEX `idx_username` (`username`),
+    INDEX `idx_jti` (`jti`),
+    INDEX `idx_expires_at` (`expires_at`),
+	INDEX `idx_created_at` (`created_at`),
+    INDEX `idx_updated_at` (`updated_at`)
+) DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE `rate_limit_windows` (
+	`id` INT NOT NULL AUTO_INCREMENT,
+    `application_type` VARCHAR(191) NOT NULL,
+	`rate_limit_key` VARCHAR(191) NOT NULL,
+    `total_hits` INT NOT NULL DEFAULT 0,
+    `reset_at` DATETIME(3) NOT NULL,
+    `created_at` DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    `updated_at` DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    
+    PRIMARY KEY (`id`),
+    
+    FOREIGN KEY (`application_type`) REFERENCES `application_types`(`application_type`) ON DELETE CASCADE,
+    
+    UNIQUE KEY `unique_application_type_rate_limit_key` (`application_type`, `rate_limit_key`),
+    
+	INDEX `idx_application_type` (`application_type`),
+	INDEX `idx_reset_at` (`reset_at`),
+	INDEX `idx_created_at` (`created_at`),
+    INDEX `idx_updated_at` (`updated_at`)
+) DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE `login_attempts` (
+	`id` INT NOT NULL AUTO_INCREMENT,
+    `application_type` VARCHAR(191) NOT NULL,
+	`attempt_key` VARCHAR(191) NOT NULL,
+    `failure_count` INT NOT NULL DEFAULT 0,
+    `last_failure_at` DATETIME(3) NOT NULL,
+    `locked_until` DATETIME(3),
+    `created_at` DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    `updated_at` DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    
+    PRIMARY KEY (`id`),
+    
+    FOREIGN KEY (`application_type`) REFERENCES `application_types`(`application_type`) ON DELETE CASCADE,
+    
+    UNIQUE KEY `unique_application_type_attempt_key` (`application_type`, `attempt_key`),
+    
+	INDEX `idx_application_type` (`application_type`),
+	INDEX `idx_last_failure_at` (`last_failure_at`),
+    INDEX `idx_locked_until` (`locked_until`),
+	INDEX `idx_created_at` (`created_at`),
+    INDEX `idx_updated_at` (`updated_at`)
+) DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE `authentication_lockouts` (
+	`id` INT NOT NULL AUTO_INCREMENT,
+    `application_type` VARCHAR(191) NOT NULL,
+	`username` VARCHAR(191),
+    `ip_address` VARCHAR(191),
+    `failure_count` INT NOT NULL,
+    `locked_until` DATETIME(3) NOT NULL,
+    `unlocked_at` DATETIME(3),
+    `unlocked_by` VARCHAR(191),
+    `created_at` DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    `updated_at` DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    
+    PRIMARY KEY (`id`),
+    
+    FOREIGN KEY (`application_type`) REFERENCES `application_types`(`application_type`) ON DELETE CASCADE,
+    
+	INDEX `idx_application_type` (`application_type`),
+	INDEX `idx_username` (`username`),
+    INDEX `idx_ip_address` (`ip_address`),
+    INDEX `idx_locked_until` (`locked_until`),
+    INDEX `idx_unlocked_at` (`unlocked_at`),
+	INDEX `idx_created_at` (`created_at`),
+    INDEX `idx_updated_at` (`updated_at`)
+) DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE `idempotency_keys` (
+	`id` INT NOT NULL AUTO_INCREMENT,
+    `application_type` VARCHAR(191) NOT NULL,
+	`idempotency_key` VARCHAR(191) NOT NULL,
+    `lock_token` VARCHAR(191) NOT NULL,
+    `fingerprint` VARCHAR(191) NOT NULL,
+    `status_code` INT,
+    `envelope` LONGTEXT,
+    `locked_until` DATETIME(3) NOT NULL,
+    `expires_at` DATETIME(3) NOT NULL,
+    `created_at` DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    `updated_at` DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    
+    PRIMARY KEY (`id`),
+    
+    FOREIGN KEY (`application_type`) REFERENCES `application_types`(`application_type`) ON DELETE CASCADE,
+    
+    UNIQUE KEY `unique_application_type_idempotency_key` (`application_type`, `idempotency_key`),
+    
+	INDEX `idx_application_type` (`application_type`),
+	INDEX `idx_expires_at` (`expires_at`),
+	INDEX `idx_created_at` (`created_at`),
+    INDEX `idx_updated_at` (`updated_at`)
+) DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
 
 DELIMITER $$
 
@@ -1146,6 +1291,20 @@ BEGIN
 	END IF;
 END$$
 
+CREATE TRIGGER `users_deactivation`
+AFTER UPDATE ON `users`
+FOR EACH ROW
+BEGIN
+    IF OLD.`is_user_active` = TRUE AND NEW.`is_user_active` = FALSE THEN
+        INSERT INTO `token_revocations` (`application_type`, `username`)
+        VALUES (NEW.`application_type`, NEW.`username`);
+        
+        UPDATE `refresh_tokens`
+        SET `is_refresh_token_revoked` = TRUE
+        WHERE `user_id` = NEW.`id`;
+    END IF;
+END$$
+
 
 DELIMITER ;
 